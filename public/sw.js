@@ -0,0 +1,301 @@
+// Service worker: keeps the app shell and event data available offline, queues event
+// writes made without a connection, and shows web push notifications
+
+const CACHE_PREFIX = 'withGrace-';
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${CACHE_VERSION}`;
+const STATIC_CACHE = `${CACHE_PREFIX}static-${CACHE_VERSION}`;
+const DATA_CACHE = `${CACHE_PREFIX}data-${CACHE_VERSION}`;
+const MAX_STATIC_ENTRIES = 300;
+
+// Registered with ?cache=off during development so hot reloading never gets stale chunks
+const CACHING_ENABLED = new URL(self.location.href).searchParams.get('cache') !== 'off';
+
+const OFFLINE_PAGE = '/offline.html';
+const PRECACHE_ROUTES = ['/', '/timeline', '/add', '/children', '/groups'];
+const STALE_WHILE_REVALIDATE_PATHS = ['/api/events', '/api/stats'];
+
+// Must match src/lib/offlineQueue.ts, which replays what is queued here
+const QUEUE_DB_NAME = 'withGrace-offline';
+const QUEUE_DB_VERSION = 1;
+const ACTIONS_STORE = 'actions';
+const ID_MAP_STORE = 'idMap';
+const TEMP_ID_PREFIX = 'temp-';
+const OFFLINE_REPLAY_HEADER = 'x-offline-replay';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (CACHING_ENABLED ? precacheShell() : Promise.resolve()).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const currentCaches = [SHELL_CACHE, STATIC_CACHE, DATA_CACHE];
+
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && (!CACHING_ENABLED || !currentCaches.includes(key)))
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method !== 'GET') {
+    if (isEventWrite(request.method, url.pathname)) {
+      event.respondWith(sendOrQueue(request, url));
+    }
+    return;
+  }
+
+  if (!CACHING_ENABLED) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request, url));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (STALE_WHILE_REVALIDATE_PATHS.includes(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(event, request));
+  }
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'clear-user-data') {
+    event.waitUntil(clearUserData());
+  }
+});
+
+// Fetch the main routes and the scripts and styles they load
+async function precacheShell() {
+  const shell = await caches.open(SHELL_CACHE);
+  await shell.add(OFFLINE_PAGE);
+
+  const assets = new Set();
+  for (const route of PRECACHE_ROUTES) {
+    try {
+      const response = await fetch(route, { credentials: 'same-origin' });
+      // Signed-out visitors are sent to sign-in, which isn't worth keeping
+      if (!response.ok || response.redirected) continue;
+
+      const html = await response.clone().text();
+      for (const match of html.matchAll(/\/_next\/static\/[^"'\s\\)]+/g)) {
+        assets.add(match[0]);
+      }
+      await shell.put(route, response);
+    } catch {
+      // Offline while installing; pages are cached as they are visited instead
+    }
+  }
+
+  const staticCache = await caches.open(STATIC_CACHE);
+  await Promise.all([...assets].map((asset) => staticCache.add(asset).catch(() => undefined)));
+}
+
+// Pages are always fetched fresh when possible, falling back to the saved copy
+async function networkFirstPage(request, url) {
+  const shell = await caches.open(SHELL_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok && !response.redirected && PRECACHE_ROUTES.includes(url.pathname)) {
+      await shell.put(url.pathname, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await shell.match(url.pathname) || await shell.match(OFFLINE_PAGE);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Build output under /_next/static is content-hashed, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const staticCache = await caches.open(STATIC_CACHE);
+    await staticCache.put(request, response.clone());
+    await trimCache(staticCache, MAX_STATIC_ENTRIES);
+  }
+  return response;
+}
+
+// Answer from the cache right away and refresh it in the background; open pages are
+// told when the refreshed data differs so they can pick it up
+async function staleWhileRevalidate(event, request) {
+  const dataCache = await caches.open(DATA_CACHE);
+  const cached = await dataCache.match(request);
+
+  const refresh = fetch(request).then(async (response) => {
+    if (response.ok) {
+      // A fresh copy from the cache, since the page may already be reading the one it was given
+      const previous = await dataCache.match(request);
+      const changed = !!previous && (await previous.text()) !== (await response.clone().text());
+      await dataCache.put(request, response.clone());
+      if (changed) {
+        await broadcast({ type: 'api-cache-updated', url: request.url });
+      }
+    }
+    return response;
+  });
+
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  // Keys come back oldest first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
+
+function isEventWrite(method, pathname) {
+  if (pathname === '/api/events') return method === 'POST';
+  return /^\/api\/events\/[^/]+$/.test(pathname) && (method === 'PUT' || method === 'DELETE');
+}
+
+// Send an event write, or keep it in the offline queue when the network is unreachable
+async function sendOrQueue(request, url) {
+  const body = request.method === 'DELETE' ? null : await request.clone().text();
+  // Replays of the queue are already queued; a network failure must reach the page as one
+  const isReplay = request.headers.has(OFFLINE_REPLAY_HEADER);
+
+  try {
+    const response = await fetch(request);
+    // Cached lists and stats no longer include this change
+    if (response.ok) {
+      await caches.delete(DATA_CACHE);
+    }
+    return response;
+  } catch (error) {
+    if (isReplay) throw error;
+
+    const action = await queueAction(request.method, url.pathname, body);
+    await broadcast({ type: 'offline-queue-updated' });
+
+    return new Response(JSON.stringify({
+      success: true,
+      queued: true,
+      data: action.type === 'delete' ? null : { ...action.data, id: action.eventId },
+    }), {
+      status: 202,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+function openQueueDB() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(QUEUE_DB_NAME, QUEUE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ACTIONS_STORE)) {
+        db.createObjectStore(ACTIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ID_MAP_STORE)) {
+        db.createObjectStore(ID_MAP_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Same shape as OfflineQueue.enqueue, so the page replays it like its own
+async function queueAction(method, pathname, body) {
+  const now = Date.now();
+  const type = method === 'POST' ? 'create' : method === 'PUT' ? 'update' : 'delete';
+  const data = body ? JSON.parse(body) : null;
+  const action = {
+    id: `offline-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    eventId: type === 'create'
+      ? `${TEMP_ID_PREFIX}${now}`
+      : decodeURIComponent(pathname.split('/').pop()),
+    // Sent back with the replay so the server can still spot a conflicting edit
+    ...(type === 'update' && { version: data?.version }),
+    data,
+    timestamp: now,
+    attempts: 0,
+    nextAttemptAt: now,
+    status: 'pending',
+  };
+
+  const db = await openQueueDB();
+  try {
+    await new Promise((resolve, reject) => {
+      const tx = db.transaction(ACTIONS_STORE, 'readwrite');
+      tx.objectStore(ACTIONS_STORE).put(action);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+  return action;
+}
+
+async function broadcast(message) {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  windows.forEach((client) => client.postMessage(message));
+}
+
+// Forget saved pages and event data, e.g. when signing out on a shared device
+async function clearUserData() {
+  await caches.delete(DATA_CACHE);
+
+  const shell = await caches.open(SHELL_CACHE);
+  const keys = await shell.keys();
+  await Promise.all(
+    keys
+      .filter((key) => new URL(key.url).pathname !== OFFLINE_PAGE)
+      .map((key) => shell.delete(key))
+  );
+}
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'withGrace', {
+      body: payload.body || '',
+      tag: payload.tag,
+      icon: '/icons/icon-192.png',
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  // Reuse an open tab when there is one
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
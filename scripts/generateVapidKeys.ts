@@ -0,0 +1,15 @@
+/**
+ * Generate VAPID Keys Script
+ *
+ * Prints a new key pair for web push notifications, ready to paste into .env.local.
+ * Run with: npx tsx scripts/generateVapidKeys.ts
+ */
+
+import { generateVapidKeys } from '../src/lib/webPush';
+
+if (require.main === module) {
+  const { publicKey, privateKey } = generateVapidKeys();
+  console.log(`NEXT_PUBLIC_VAPID_PUBLIC_KEY=${publicKey}`);
+  console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+  console.log('VAPID_SUBJECT=mailto:you@example.com');
+}
@@ -2,11 +2,12 @@
  * Data Import Script for Baby Tracking App
  * 
  * This script helps you import your historical baby tracking data.
+ * For CSV or JSON files, the Import page in the app previews rows and skips duplicates.
  * Run with: npx tsx scripts/importData.ts
  */
 
 import { PrismaClient } from '@prisma/client';
-import { EventType, FeedingType } from '../src/types';
+import { parseDiaperDescription as parseDiaper, parseFeedingDescription as parseFeeding } from '../src/lib/eventParser';
 
 const prisma = new PrismaClient();
 
@@ -32,67 +33,6 @@ const historicalData: HistoricalEntry[] = [
   // Add more entries as needed...
 ];
 
-function parseFeeding(description: string) {
-  const feedingData: any = {};
-  
-  if (description.includes('breastfed')) {
-    feedingData.feedingType = FeedingType.BREASTFED;
-    const durationMatch = description.match(/(\d+)\s*minutes?/);
-    if (durationMatch) {
-      feedingData.duration = parseInt(durationMatch[1]);
-    }
-    if (description.includes('left')) feedingData.side = 'left';
-    if (description.includes('right')) feedingData.side = 'right';
-  } else if (description.includes('formula')) {
-    feedingData.feedingType = FeedingType.FORMULA;
-    const amountMatch = description.match(/(\d+)\s*ml/);
-    if (amountMatch) {
-      feedingData.amount = parseInt(amountMatch[1]);
-    }
-  } else if (description.includes('expressed breast milk')) {
-    feedingData.feedingType = FeedingType.EXPRESSED_BREAST_MILK;
-    const amountMatch = description.match(/(\d+)\s*ml/);
-    if (amountMatch) {
-      feedingData.amount = parseInt(amountMatch[1]);
-    }
-  }
-  
-  return feedingData;
-}
-
-function parseDiaper(description: string) {
-  const diaperData: any = {
-    wet: 0,
-    dirty: 0,
-  };
-  
-  const wetMatch = description.match(/(\d+)\s*wet/);
-  if (wetMatch) {
-    diaperData.wet = parseInt(wetMatch[1]);
-  }
-  
-  const dirtyMatch = description.match(/(\d+)\s*dirty/);
-  if (dirtyMatch) {
-    diaperData.dirty = parseInt(dirtyMatch[1]);
-  }
-  
-  // Extract color and texture
-  if (description.includes('yellow')) {
-    diaperData.color = 'yellow';
-  }
-  if (description.includes('seedy')) {
-    diaperData.texture = 'seedy';
-  }
-  if (description.includes('cottage cheese')) {
-    diaperData.texture = 'cottage cheese';
-  }
-  if (description.includes('watery')) {
-    diaperData.consistency = 'watery';
-  }
-  
-  return diaperData;
-}
-
 async function importData() {
   console.log('Starting data import...');
   
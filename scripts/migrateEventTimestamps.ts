@@ -0,0 +1,176 @@
+/**
+ * Event Timestamp Migration Script
+ *
+ * Fills in `occurredAt` and `timezone` for events recorded before they were tracked,
+ * reading the old `date` + `time` columns as wall-clock time in the group's timezone.
+ * Events whose `occurredAt` already matches their date and time are left alone, so
+ * it's safe to run more than once.
+ *
+ * Events created before then stored `date` as the calendar day at UTC midnight, but edits
+ * stored the edited date and time as an instant in the server's timezone. Those are read
+ * back in the server timezone; rows that could have been written either way are reported
+ * and left for a person to check.
+ *
+ * Run with: npx tsx scripts/migrateEventTimestamps.ts [--timezone=Europe/London] [--server-timezone=Europe/London] [--dry-run]
+ *   --timezone         sets the timezone of groups still on the UTC default before converting
+ *   --server-timezone  the timezone the app server ran in (defaults to this machine's)
+ *   --dry-run          reports what would change without writing anything
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  DEFAULT_TIMEZONE,
+  getLocalTimeZone,
+  getZonedDateTime,
+  isValidTimeZone,
+  resolveEventTimestamp,
+} from '../src/lib/timezone';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find(value => value.startsWith(`--${name}=`));
+  return arg?.split('=')[1];
+}
+
+/**
+ * The calendar day an old row's `date` column stands for. Created rows hold it at UTC
+ * midnight; edited rows hold the edited date and time as an instant in the server timezone.
+ */
+function getStoredDate(
+  stored: Date,
+  time: string,
+  serverTimeZone: string
+): { date: string; error?: undefined } | { date?: undefined; error: string } {
+  const utcDate = stored.toISOString().split('T')[0];
+  const serverLocal = getZonedDateTime(stored, serverTimeZone);
+  const writtenByEdit = serverLocal.time === time.slice(0, 5);
+
+  if (stored.toISOString().endsWith('T00:00:00.000Z')) {
+    // An edit at this server-local time lands on UTC midnight too
+    if (writtenByEdit && serverLocal.date !== utcDate) {
+      return { error: `ambiguous date, either ${utcDate} or ${serverLocal.date}` };
+    }
+    return { date: utcDate };
+  }
+
+  if (!writtenByEdit) {
+    return { error: `date ${stored.toISOString()} doesn't match time ${time} in ${serverTimeZone}` };
+  }
+  return { date: serverLocal.date };
+}
+
+async function migrateEventTimestamps() {
+  const defaultTimeZone = getArg('timezone');
+  const serverTimeZone = getArg('server-timezone') || getLocalTimeZone();
+  const dryRun = process.argv.includes('--dry-run');
+
+  if (defaultTimeZone && !isValidTimeZone(defaultTimeZone)) {
+    throw new Error(`Unknown timezone: ${defaultTimeZone}`);
+  }
+  if (!isValidTimeZone(serverTimeZone)) {
+    throw new Error(`Unknown timezone: ${serverTimeZone}`);
+  }
+
+  console.log(`🚀 Starting event timestamp migration${dryRun ? ' (dry run)' : ''}...`);
+  console.log(`🕰️ Reading edited dates in ${serverTimeZone}`);
+
+  try {
+    if (defaultTimeZone) {
+      const groupsOnDefault = await prisma.userGroup.count({ where: { timezone: DEFAULT_TIMEZONE } });
+      if (!dryRun) {
+        await prisma.userGroup.updateMany({
+          where: { timezone: DEFAULT_TIMEZONE },
+          data: { timezone: defaultTimeZone },
+        });
+      }
+      console.log(`🌍 Set ${groupsOnDefault} groups to ${defaultTimeZone}`);
+    }
+
+    const groups = await prisma.userGroup.findMany({
+      select: { id: true, name: true, timezone: true },
+    });
+
+    let converted = 0;
+    let alreadyMigrated = 0;
+    let skipped = 0;
+    let ambiguous = 0;
+
+    for (const group of groups) {
+      const events = await prisma.babyEvent.findMany({
+        where: { groupId: group.id },
+        select: { id: true, date: true, time: true, timezone: true, occurredAt: true },
+      });
+
+      const updates = [];
+
+      for (const event of events) {
+        // Already written with a proper instant
+        const local = getZonedDateTime(event.occurredAt, event.timezone);
+        if (local.time === event.time && event.date.toISOString() === `${local.date}T00:00:00.000Z`) {
+          alreadyMigrated++;
+          continue;
+        }
+
+        const stored = getStoredDate(event.date, event.time, serverTimeZone);
+        if (!stored.date) {
+          console.warn(`❓ Check event ${event.id} by hand: ${stored.error}`);
+          ambiguous++;
+          continue;
+        }
+        const date = stored.date;
+
+        const result = resolveEventTimestamp({ date, time: event.time }, group.timezone);
+        if (!result.timestamp) {
+          console.warn(`⚠️ Skipping event ${event.id}: ${result.error}`);
+          skipped++;
+          continue;
+        }
+
+        updates.push(
+          prisma.babyEvent.update({
+            where: { id: event.id },
+            data: result.timestamp,
+          })
+        );
+      }
+
+      if (!dryRun) {
+        for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+          await prisma.$transaction(updates.slice(i, i + BATCH_SIZE));
+        }
+      }
+
+      converted += updates.length;
+      console.log(`✅ ${group.name} (${group.timezone}): ${updates.length} of ${events.length} events converted`);
+    }
+
+    console.log('\n🎉 Migration completed successfully!');
+    console.log(`📈 Summary:`);
+    console.log(`   • Converted: ${converted}`);
+    console.log(`   • Already migrated: ${alreadyMigrated}`);
+    console.log(`   • Skipped: ${skipped}`);
+    console.log(`   • Ambiguous: ${ambiguous}`);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  migrateEventTimestamps()
+    .then(() => {
+      console.log('✨ Migration script completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('💥 Migration script failed:', error);
+      process.exit(1);
+    });
+}
+
+export { migrateEventTimestamps };
@@ -0,0 +1,60 @@
+/**
+ * Notification Scheduler Script
+ *
+ * Sends scheduled push notifications, such as "feeding due" reminders.
+ * Runs every few minutes until stopped, or a single pass with --once
+ * (for an external cron; hosted deployments can call /api/cron/notifications instead).
+ * Run with: npx tsx scripts/notificationScheduler.ts [--interval=5] [--once]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { runScheduledNotifications } from '../src/lib/notifications';
+import { getVapidConfig } from '../src/lib/webPush';
+
+const prisma = new PrismaClient();
+
+function getIntervalMinutes(): number {
+  const arg = process.argv.find(value => value.startsWith('--interval='));
+  const minutes = arg ? parseInt(arg.split('=')[1], 10) : 5;
+
+  if (isNaN(minutes) || minutes < 1) {
+    throw new Error(`Invalid interval: ${arg}`);
+  }
+  return minutes;
+}
+
+async function runOnce() {
+  const sent = await runScheduledNotifications(prisma);
+  console.log(`🔔 ${new Date().toISOString()} • feeding reminders sent: ${sent.feedingReminders}`);
+}
+
+async function runNotificationScheduler() {
+  if (!getVapidConfig()) {
+    throw new Error('Set NEXT_PUBLIC_VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY first (npx tsx scripts/generateVapidKeys.ts)');
+  }
+
+  if (process.argv.includes('--once')) {
+    try {
+      await runOnce();
+    } finally {
+      await prisma.$disconnect();
+    }
+    return;
+  }
+
+  const intervalMinutes = getIntervalMinutes();
+  console.log(`⏰ Checking for due notifications every ${intervalMinutes} minutes. Press Ctrl+C to stop.`);
+
+  const tick = () => runOnce().catch(error => console.error('❌ Scheduler run failed:', error));
+  await tick();
+  setInterval(tick, intervalMinutes * 60 * 1000);
+}
+
+if (require.main === module) {
+  runNotificationScheduler().catch(error => {
+    console.error('❌ Scheduler failed to start:', error);
+    process.exit(1);
+  });
+}
+
+export { runNotificationScheduler };
@@ -0,0 +1,82 @@
+/**
+ * Purge Deleted Events Script
+ *
+ * Permanently removes events that have sat in the trash longer than the
+ * retention period, along with their photos on UploadThing.
+ * Run with: npx tsx scripts/purgeDeletedEvents.ts [--days=30]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { UTApi } from 'uploadthing/server';
+import { getPurgeCutoff, TRASH_RETENTION_DAYS } from '../src/lib/trash';
+
+const prisma = new PrismaClient();
+
+function getRetentionDays(): number {
+  const arg = process.argv.find(value => value.startsWith('--days='));
+  const raw = arg ? arg.split('=')[1] : process.env.TRASH_RETENTION_DAYS;
+  const days = raw ? parseInt(raw, 10) : TRASH_RETENTION_DAYS;
+
+  if (isNaN(days) || days < 0) {
+    throw new Error(`Invalid retention period: ${raw}`);
+  }
+  return days;
+}
+
+async function purgeDeletedEvents() {
+  const retentionDays = getRetentionDays();
+  const cutoff = getPurgeCutoff(retentionDays);
+  console.log(`🗑️ Purging events deleted before ${cutoff.toISOString()} (${retentionDays} day retention)...`);
+
+  try {
+    const expiredEvents = await prisma.babyEvent.findMany({
+      where: {
+        deletedAt: { lt: cutoff },
+      },
+      include: {
+        images: true,
+      },
+    });
+
+    if (expiredEvents.length === 0) {
+      console.log('✨ Nothing to purge');
+      return;
+    }
+
+    const fileKeys = expiredEvents.flatMap(event => event.images.map(image => image.uploadthingKey));
+
+    if (fileKeys.length > 0) {
+      if (process.env.UPLOADTHING_TOKEN) {
+        const utapi = new UTApi();
+        await utapi.deleteFiles(fileKeys);
+        console.log(`📸 Deleted ${fileKeys.length} photos from UploadThing`);
+      } else {
+        console.warn(`⚠️ UPLOADTHING_TOKEN is not set, leaving ${fileKeys.length} photos on UploadThing`);
+      }
+    }
+
+    // Detail rows and image records cascade with the event
+    const result = await prisma.babyEvent.deleteMany({
+      where: {
+        id: { in: expiredEvents.map(event => event.id) },
+      },
+    });
+
+    console.log(`\n🎉 Purge completed!`);
+    console.log(`   • Events removed for good: ${result.count}`);
+    console.log(`   • Photos: ${fileKeys.length}`);
+  } catch (error) {
+    console.error('❌ Purge failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  purgeDeletedEvents()
+    .then(() => process.exit(0))
+    .catch(() => process.exit(1));
+}
+
+export { purgeDeletedEvents };
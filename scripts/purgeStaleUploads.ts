@@ -0,0 +1,76 @@
+/**
+ * Purge Stale Uploads Script
+ *
+ * Deletes photos that were uploaded but never saved with an event or profile,
+ * both the pending records and the files on UploadThing.
+ * Run with: npx tsx scripts/purgeStaleUploads.ts [--hours=24]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { UTApi } from 'uploadthing/server';
+import { getStaleUploadCutoff, PENDING_UPLOAD_RETENTION_HOURS } from '../src/lib/uploads';
+
+const prisma = new PrismaClient();
+
+function getRetentionHours(): number {
+  const arg = process.argv.find(value => value.startsWith('--hours='));
+  const raw = arg ? arg.split('=')[1] : process.env.PENDING_UPLOAD_RETENTION_HOURS;
+  const hours = raw ? parseInt(raw, 10) : PENDING_UPLOAD_RETENTION_HOURS;
+
+  if (isNaN(hours) || hours < 0) {
+    throw new Error(`Invalid retention period: ${raw}`);
+  }
+  return hours;
+}
+
+async function purgeStaleUploads() {
+  const retentionHours = getRetentionHours();
+  const cutoff = getStaleUploadCutoff(retentionHours);
+  console.log(`🗑️ Purging uploads left unclaimed since before ${cutoff.toISOString()} (${retentionHours} hour retention)...`);
+
+  try {
+    const staleUploads = await prisma.pendingUpload.findMany({
+      where: {
+        createdAt: { lt: cutoff },
+      },
+      select: { id: true, key: true },
+    });
+
+    if (staleUploads.length === 0) {
+      console.log('✨ Nothing to purge');
+      return;
+    }
+
+    // Keep the records while the files are still there, so a later run can try again
+    if (!process.env.UPLOADTHING_TOKEN) {
+      console.warn(`⚠️ UPLOADTHING_TOKEN is not set, leaving ${staleUploads.length} photos on UploadThing`);
+      return;
+    }
+
+    const utapi = new UTApi();
+    await utapi.deleteFiles(staleUploads.map(upload => upload.key));
+    console.log(`📸 Deleted ${staleUploads.length} photos from UploadThing`);
+
+    const result = await prisma.pendingUpload.deleteMany({
+      where: {
+        id: { in: staleUploads.map(upload => upload.id) },
+      },
+    });
+
+    console.log(`\n🎉 Purge completed!`);
+    console.log(`   • Abandoned uploads removed: ${result.count}`);
+  } catch (error) {
+    console.error('❌ Purge failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  purgeStaleUploads()
+    .then(() => process.exit(0))
+    .catch(() => process.exit(1));
+}
+
+export { purgeStaleUploads };
@@ -0,0 +1,112 @@
+/**
+ * Web Push Stub Script
+ *
+ * A stand-in push service for trying notifications locally without a browser.
+ * It prints a subscription to register with the app, then decrypts and logs
+ * every push the app sends to it and checks the VAPID signature.
+ * Run with: npx tsx scripts/pushStub.ts [--port=4010]
+ *
+ * Register the printed subscription while signed in, e.g. from the browser console:
+ *   fetch('/api/user/push-subscriptions', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(<subscription>) })
+ * Plain http endpoints are only accepted outside production.
+ */
+
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto';
+import { createServer } from 'http';
+
+function getPort(): number {
+  const arg = process.argv.find(value => value.startsWith('--port='));
+  const port = parseInt(arg ? arg.split('=')[1] : '4010', 10);
+
+  if (isNaN(port)) {
+    throw new Error(`Invalid port: ${arg}`);
+  }
+  return port;
+}
+
+// Keys a browser would normally generate for its subscription
+const userAgent = createECDH('prime256v1');
+const userAgentPublicKey = userAgent.generateKeys();
+const authSecret = randomBytes(16);
+
+function decryptPayload(body: Buffer): string {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const sharedSecret = userAgent.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+
+  // Drop the record delimiter and any padding
+  return plaintext.subarray(0, plaintext.lastIndexOf(2)).toString();
+}
+
+function checkVapid(authorization: string | undefined): string {
+  const match = authorization?.match(/^vapid t=([^,]+),\s*k=(.+)$/);
+  if (!match) {
+    return '❌ missing or malformed VAPID authorization';
+  }
+
+  const [header, claims, signature] = match[1].split('.');
+  const publicKey = Buffer.from(match[2], 'base64url');
+  const key = createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const isValid = verify('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'));
+  const { sub, exp } = JSON.parse(Buffer.from(claims, 'base64url').toString());
+  return `${isValid ? '✅' : '❌'} VAPID signature from ${sub}, expires ${new Date(exp * 1000).toISOString()}`;
+}
+
+function startPushStub() {
+  const port = getPort();
+
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      console.log(`\n📬 ${request.method} ${request.url} (TTL ${request.headers.ttl})`);
+      console.log(`   ${checkVapid(request.headers.authorization)}`);
+
+      try {
+        console.log(`   ${decryptPayload(Buffer.concat(chunks))}`);
+        response.writeHead(201).end();
+      } catch (error) {
+        console.error('   ❌ Could not decrypt payload:', error);
+        response.writeHead(400).end();
+      }
+    });
+  });
+
+  server.listen(port, () => {
+    const subscription = {
+      endpoint: `http://localhost:${port}/push/${randomBytes(8).toString('hex')}`,
+      keys: {
+        p256dh: userAgentPublicKey.toString('base64url'),
+        auth: authSecret.toString('base64url'),
+      },
+    };
+    console.log(`🔔 Push stub listening on port ${port}. Subscription to register:\n`);
+    console.log(JSON.stringify(subscription));
+  });
+}
+
+if (require.main === module) {
+  startPushStub();
+}
+
+export { startPushStub };
@@ -6,9 +6,19 @@ import { FeedingForm } from "@/components/forms/FeedingForm";
 import { DiaperForm } from "@/components/forms/DiaperForm";
 import { SleepForm } from "@/components/forms/SleepForm";
 import { OtherForm } from "@/components/forms/OtherForm";
-import { Milk, Baby, Moon, Heart, Users } from "lucide-react";
-import { EventType, type FeedingEventForm, type DiaperEventForm, type SleepEventForm, type OtherEventForm } from "@/types";
+import { GrowthForm } from "@/components/forms/GrowthForm";
+import { MedicationForm } from "@/components/forms/MedicationForm";
+import { PumpingForm } from "@/components/forms/PumpingForm";
+import { TemperatureForm } from "@/components/forms/TemperatureForm";
+import { SymptomForm } from "@/components/forms/SymptomForm";
+import { Milk, Baby, Moon, Heart, Ruler, Pill, Droplets, Thermometer, Stethoscope, Users } from "lucide-react";
+import { EventType, type FeedingEventForm, type DiaperEventForm, type SleepEventForm, type OtherEventForm, type GrowthEventForm, type MedicationEventForm, type PumpingEventForm, type TemperatureEventForm, type SymptomEventForm } from "@/types";
 import { useGroup } from "@/contexts/GroupContext";
+import { ChildSelector } from "@/components/ChildSelector";
+import { ActiveTimers } from "@/components/ActiveTimers";
+import { offlineQueue } from "@/lib/offlineQueue";
+import { getLocalTimeZone } from "@/lib/timezone";
+import { EventValidationError } from "@/lib/validation";
 import Link from "next/link";
 
 const eventTypes = [
@@ -39,12 +49,51 @@ const eventTypes = [
     icon: Heart, 
     color: 'bg-orange-100 text-orange-700 border-orange-200',
     description: 'Bath time, milestones, giggles, and magical moments 🌟'
+  },
+  { 
+    type: EventType.GROWTH, 
+    label: '📏 Growing Up', 
+    icon: Ruler, 
+    color: 'bg-teal-100 text-teal-700 border-teal-200',
+    description: 'Weight, length and head size from checkups 🌱'
+  },
+  {
+    type: EventType.MEDICATION,
+    label: '💊 Medicine',
+    icon: Pill,
+    color: 'bg-red-100 text-red-700 border-red-200',
+    description: 'Vitamin drops, fever reducers and prescribed doses 🩺'
+  },
+  {
+    type: EventType.PUMPING,
+    label: '🫙 Pumping',
+    icon: Droplets,
+    color: 'bg-pink-100 text-pink-700 border-pink-200',
+    description: 'Liquid gold for the fridge, the freezer or right now 💛'
+  },
+  {
+    type: EventType.TEMPERATURE,
+    label: '🌡️ Temperature',
+    icon: Thermometer,
+    color: 'bg-orange-100 text-orange-700 border-orange-200',
+    description: 'Readings with fever flags that fit their age 🩺'
+  },
+  {
+    type: EventType.SYMPTOM,
+    label: '🤧 Symptoms',
+    icon: Stethoscope,
+    color: 'bg-sky-100 text-sky-700 border-sky-200',
+    description: 'Coughs, sniffles and rashes to tell the doctor about 💙'
   }
 ];
 
 export default function AddEventPage() {
-  const { activeGroup, userGroups, isLoading: groupsLoading } = useGroup();
+  const { activeGroup, userGroups, isLoading: groupsLoading, children, activeChildId } = useGroup();
   const [selectedEventType, setSelectedEventType] = useState<EventType | null>(null);
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
+
+  // Default to the child the rest of the app is focused on, or the only child
+  const childId = selectedChildId ?? activeChildId ?? (children.length === 1 ? children[0].id : null);
   const [isLoading, setIsLoading] = useState(false);
 
   // Ensure userGroups is always an array to prevent runtime errors
@@ -58,7 +107,7 @@ export default function AddEventPage() {
     userGroups: safeUserGroups.map(g => ({ id: g.id, name: g.name }))
   });
 
-  const handleSubmit = async (data: FeedingEventForm | DiaperEventForm | SleepEventForm | OtherEventForm) => {
+  const handleSubmit = async (data: FeedingEventForm | DiaperEventForm | SleepEventForm | OtherEventForm | GrowthEventForm | MedicationEventForm | PumpingEventForm | TemperatureEventForm | SymptomEventForm) => {
     if (!activeGroup) {
       alert('Please select an active group first! 👶');
       return;
@@ -69,14 +118,29 @@ export default function AddEventPage() {
       return;
     }
 
+    if (children.length > 1 && !childId) {
+      alert('Please choose which little one this moment is for! 👶');
+      return;
+    }
+
     setIsLoading(true);
     try {
       const eventData = {
         type: selectedEventType,
         groupId: activeGroup.id,
+        childId,
+        timezone: getLocalTimeZone(),
         ...data,
       };
 
+      // Keep it on this device and save it once we're back online
+      if (!navigator.onLine) {
+        await offlineQueue.enqueue({ type: 'create', data: eventData });
+        setSelectedEventType(null);
+        alert('You\'re offline, so this moment is saved on your device 💕 It will sync as soon as you\'re back online ✨');
+        return;
+      }
+
       const response = await fetch('/api/events', {
         method: 'POST',
         headers: {
@@ -86,6 +150,10 @@ export default function AddEventPage() {
       });
 
       const result = await response.json();
+
+      if (response.status === 422) {
+        throw new EventValidationError(result.fieldErrors, result.error);
+      }
       
       if (result.success) {
         // Reset form
@@ -95,6 +163,10 @@ export default function AddEventPage() {
         throw new Error(result.error || 'Failed to save event');
       }
     } catch (error) {
+      // The form shows these next to the fields
+      if (error instanceof EventValidationError) {
+        throw error;
+      }
       console.error('Error saving event:', error);
       alert('Oops! We couldn\'t save that moment right now. Please try again! 💝');
     } finally {
@@ -186,6 +258,20 @@ export default function AddEventPage() {
           </div>
         </div>
 
+        {/* Child Selection */}
+        {children.length > 1 && (
+          <div className="max-w-md mx-auto text-center">
+            <p className="text-sm text-gray-600 mb-2">Who is this moment for? 💕</p>
+            <ChildSelector
+              childOptions={children}
+              value={childId}
+              onChange={setSelectedChildId}
+              includeAll={false}
+              className="justify-center"
+            />
+          </div>
+        )}
+
         {/* Event Type Selection */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6 max-w-4xl mx-auto px-4 sm:px-0">
           {eventTypes.map((eventType) => {
@@ -224,6 +310,11 @@ export default function AddEventPage() {
         </Button>
       </div>
 
+      {/* Track it live instead of filling in times afterwards */}
+      {(selectedEventType === EventType.FEEDING || selectedEventType === EventType.SLEEP) && (
+        <ActiveTimers childId={childId} types={[selectedEventType]} />
+      )}
+
       <div className="bg-white p-8 rounded-xl shadow-sm border">
         <div className="mb-6">
           <h1 className="text-2xl font-bold text-gray-900 mb-2">
@@ -232,20 +323,49 @@ export default function AddEventPage() {
           <p className="text-gray-600">
             Share the details of this precious moment. Fields with * are required, but every detail helps! 🌟
           </p>
+          {children.length > 1 && (
+            <ChildSelector
+              childOptions={children}
+              value={childId}
+              onChange={setSelectedChildId}
+              includeAll={false}
+              className="mt-4"
+            />
+          )}
         </div>
 
         {/* Render appropriate form based on selected type */}
         {selectedEventType === EventType.FEEDING && (
-          <FeedingForm onSubmit={handleSubmit} isLoading={isLoading} />
+          <FeedingForm onSubmit={handleSubmit} isLoading={isLoading} groupId={activeGroup?.id} />
         )}
         {selectedEventType === EventType.DIAPER && (
-          <DiaperForm onSubmit={handleSubmit} isLoading={isLoading} />
+          <DiaperForm onSubmit={handleSubmit} isLoading={isLoading} groupId={activeGroup?.id} />
         )}
         {selectedEventType === EventType.SLEEP && (
-          <SleepForm onSubmit={handleSubmit} isLoading={isLoading} />
+          <SleepForm onSubmit={handleSubmit} isLoading={isLoading} groupId={activeGroup?.id} />
         )}
         {selectedEventType === EventType.OTHER && (
-          <OtherForm onSubmit={handleSubmit} isLoading={isLoading} />
+          <OtherForm onSubmit={handleSubmit} isLoading={isLoading} groupId={activeGroup?.id} />
+        )}
+        {selectedEventType === EventType.GROWTH && (
+          <GrowthForm onSubmit={handleSubmit} isLoading={isLoading} groupId={activeGroup?.id} />
+        )}
+        {selectedEventType === EventType.MEDICATION && (
+          <MedicationForm onSubmit={handleSubmit} isLoading={isLoading} groupId={activeGroup?.id} />
+        )}
+        {selectedEventType === EventType.PUMPING && (
+          <PumpingForm onSubmit={handleSubmit} isLoading={isLoading} groupId={activeGroup?.id} />
+        )}
+        {selectedEventType === EventType.TEMPERATURE && (
+          <TemperatureForm
+            onSubmit={handleSubmit}
+            isLoading={isLoading}
+            birthDate={children.find(child => child.id === childId)?.birthDate}
+            groupId={activeGroup?.id}
+          />
+        )}
+        {selectedEventType === EventType.SYMPTOM && (
+          <SymptomForm onSubmit={handleSubmit} isLoading={isLoading} groupId={activeGroup?.id} />
         )}
       </div>
     </div>
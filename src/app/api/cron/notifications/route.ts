@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { runScheduledNotifications } from '@/lib/notifications';
+
+// GET /api/cron/notifications - Send due reminders; called by a cron job every few minutes
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const sent = await runScheduledNotifications(prisma);
+    return NextResponse.json({ success: true, data: sent });
+  } catch (error) {
+    console.error('Error running scheduled notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to run scheduled notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ensureUserExists } from '@/lib/auth-utils'
+
+// GET /api/events/[id]/history - Who created and changed an event, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await ensureUserExists()
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { dbUser } = authResult
+    const { id: eventId } = await params
+
+    const revisions = await prisma.eventRevision.findMany({
+      where: { eventId },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true, imageUrl: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    // History outlives the event, so access is checked against the group it was recorded in
+    const event = await prisma.babyEvent.findUnique({
+      where: { id: eventId },
+      select: { groupId: true },
+    })
+    const groupId = event?.groupId ?? revisions[0]?.groupId
+
+    if (!groupId) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId,
+        },
+      },
+    })
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    return NextResponse.json(
+      revisions.map(revision => ({
+        ...revision,
+        changes: JSON.parse(revision.changes),
+      }))
+    )
+  } catch (error) {
+    console.error('Error fetching event history:', error)
+
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    if (errorMessage.includes('timed out fetching new connection from connection pool')) {
+      console.error('Database connection pool timeout - consider increasing pool size or connection timeout')
+    }
+
+    return NextResponse.json({
+      error: 'Failed to fetch event history',
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined,
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ensureUserExists } from '@/lib/auth-utils'
+import { recordEventRevision, snapshotEvent } from '@/lib/eventRevisions'
+import { publishEventChange } from '@/lib/groupStream'
+import { syncMilkDrawdowns } from '@/lib/milkInventory'
+
+// POST /api/events/[id]/restore - Bring an event back from the trash
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await ensureUserExists()
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { dbUser } = authResult
+    const { id: eventId } = await params
+
+    const existingEvent = await prisma.babyEvent.findUnique({
+      where: { id: eventId },
+      select: { id: true, groupId: true, deletedAt: true },
+    })
+
+    if (!existingEvent) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+
+    // Restoring undoes a delete, so it needs the same permission
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: existingEvent.groupId,
+        },
+      },
+    })
+
+    if (!membership || !membership.canDelete) {
+      return NextResponse.json({ error: 'You do not have permission to restore events in this group' }, { status: 403 })
+    }
+
+    if (!existingEvent.deletedAt) {
+      return NextResponse.json({ error: 'This event is not in the trash' }, { status: 409 })
+    }
+
+    await prisma.babyEvent.update({
+      where: { id: eventId },
+      data: {
+        deletedAt: null,
+        version: { increment: 1 },
+      },
+    })
+
+    // A restored feeding takes its milk from the inventory again
+    await syncMilkDrawdowns(prisma, eventId)
+
+    const restoredEvent = await prisma.babyEvent.findUniqueOrThrow({
+      where: { id: eventId },
+      include: {
+        images: true,
+        feedingEvent: true,
+        diaperEvent: true,
+        sleepEvent: true,
+        otherEvent: true,
+        growthEvent: true,
+        medicationEvent: true,
+        pumpingEvent: true,
+        temperatureEvent: true,
+        symptomEvent: true,
+        timer: true,
+        child: {
+          select: { id: true, name: true },
+        },
+      },
+    })
+
+    await recordEventRevision(prisma, {
+      eventId,
+      groupId: existingEvent.groupId,
+      userId: dbUser.id,
+      action: 'restore',
+      before: null,
+      after: snapshotEvent(restoredEvent),
+    })
+
+    // Back in everyone's lists, just as if it had been added
+    await publishEventChange(prisma, existingEvent.groupId, eventId, 'event.created').catch(error => {
+      console.error('Error publishing group update:', error)
+    })
+
+    return NextResponse.json(restoredEvent)
+  } catch (error) {
+    console.error('Error restoring event:', error)
+
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    if (errorMessage.includes('timed out fetching new connection from connection pool')) {
+      console.error('Database connection pool timeout - consider increasing pool size or connection timeout')
+    }
+
+    return NextResponse.json({
+      error: 'Failed to restore event',
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined,
+    }, { status: 500 })
+  }
+}
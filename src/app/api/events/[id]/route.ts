@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { ensureUserExists } from '@/lib/auth-utils'
+import { resolveEventChildId } from '@/lib/children'
+import { hasFieldErrors, validateEventPayload, VALIDATION_FAILED_MESSAGE } from '@/lib/validation'
+import { recordEventRevision, snapshotEvent } from '@/lib/eventRevisions'
+import { publishEventChange, publishToGroup } from '@/lib/groupStream'
+import { resolveEventTimestamp, type EventTimestamp } from '@/lib/timezone'
+import { syncMilkDrawdowns } from '@/lib/milkInventory'
+import { toCelsius } from '@/lib/illness'
+import { claimPendingUploads, findUnownedImageKeys, parseImagesInput } from '@/lib/uploads'
 
 export async function GET(
   request: NextRequest,
@@ -23,11 +31,21 @@ export async function GET(
         diaperEvent: true,
         sleepEvent: true,
         otherEvent: true,
+        growthEvent: true,
+        medicationEvent: true,
+        pumpingEvent: true,
+        temperatureEvent: true,
+        symptomEvent: true,
+        timer: true,
         group: true,
+        child: {
+          select: { id: true, name: true },
+        },
       },
     })
 
-    if (!event) {
+    // Events in the trash are only reachable through the trash view
+    if (!event || event.deletedAt) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 })
     }
 
@@ -74,7 +92,7 @@ export async function PUT(
     const { dbUser } = authResult
     const { id: eventId } = await params
     const body = await request.json()
-    const { type, timestamp, date, time, notes, images, ...eventData } = body
+    const { type, timestamp, occurredAt, date, time, timezone, notes, images, childId, version: expectedVersion, ...eventData } = body
 
     // Get existing event first to avoid duplicate queries
     const existingEvent = await prisma.babyEvent.findUnique({
@@ -84,11 +102,21 @@ export async function PUT(
         diaperEvent: true,
         sleepEvent: true,
         otherEvent: true,
+        growthEvent: true,
+        medicationEvent: true,
+        pumpingEvent: true,
+        temperatureEvent: true,
+        symptomEvent: true,
+        timer: true,
+        images: true,
+        child: {
+          select: { id: true, name: true },
+        },
         group: true,
       },
     })
 
-    if (!existingEvent) {
+    if (!existingEvent || existingEvent.deletedAt) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 })
     }
 
@@ -106,47 +134,109 @@ export async function PUT(
       return NextResponse.json({ error: 'You do not have permission to edit events in this group' }, { status: 403 })
     }
 
-    // Create timestamp from date and time if provided separately (from forms)
-    let finalTimestamp: Date
-    
-    if (timestamp) {
-      finalTimestamp = new Date(timestamp)
-    } else if (date && time) {
-      // Create timestamp in local timezone, not UTC
-      finalTimestamp = new Date(`${date}T${time}:00`)
-    } else {
-      // Preserve existing date and time when editing other fields
-      const existingDate = existingEvent.date.toISOString().split('T')[0]
-      finalTimestamp = new Date(`${existingDate}T${existingEvent.time}:00`)
+    // Without the version that was edited there's no telling whether this overwrites someone else's save
+    if (typeof expectedVersion !== 'number') {
+      return NextResponse.json({ error: 'Please reload this moment and make your changes again' }, { status: 428 })
     }
 
-    // Validate timestamp
-    if (isNaN(finalTimestamp.getTime())) {
-      return NextResponse.json({ error: 'Invalid timestamp provided' }, { status: 400 })
+    // Type-specific fields are only replaced when the type is sent, so only check them then
+    if (type !== undefined) {
+      const fieldErrors = validateEventPayload(
+        type,
+        { occurredAt: occurredAt || timestamp, date, time, timezone, ...eventData },
+        { requireTiming: false }
+      )
+      if (hasFieldErrors(fieldErrors)) {
+        return NextResponse.json({ error: VALIDATION_FAILED_MESSAGE, fieldErrors }, { status: 422 })
+      }
+    }
+
+    // Photos are only replaced when a list is sent
+    const imagesResult = parseImagesInput(images)
+    if (imagesResult.error) {
+      return NextResponse.json({ error: imagesResult.error }, { status: 400 })
+    }
+    const eventImages = imagesResult.data
+
+    // Photos the event doesn't have yet must have been uploaded by this user for its group
+    const addedImages = (eventImages ?? []).filter(image => !existingEvent.images.some(existing => existing.url === image.url))
+    if (addedImages.length > 0) {
+      const unownedKeys = await findUnownedImageKeys(prisma, dbUser.id, existingEvent.groupId, addedImages)
+      if (unownedKeys.length > 0) {
+        return NextResponse.json(
+          { error: 'Some photos were not uploaded by you for this group. Please upload them again.' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Wall-clock date and time from forms are read in the event's own timezone,
+    // so editing from another timezone doesn't move the event
+    let finalTimestamp: EventTimestamp | null = null
+    if (timestamp || occurredAt || (date && time)) {
+      const timestampResult = resolveEventTimestamp(
+        { occurredAt: occurredAt || timestamp, date, time, timezone },
+        existingEvent.timezone
+      )
+      if (!timestampResult.timestamp) {
+        return NextResponse.json({ error: timestampResult.error }, { status: 400 })
+      }
+      finalTimestamp = timestampResult.timestamp
     }
 
     if (!existingEvent) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 })
     }
 
+    // Only touch the child assignment when the client sends one
+    let finalChildId: string | null | undefined
+    if (childId !== undefined) {
+      const childResult = await resolveEventChildId(existingEvent.groupId, childId)
+      if (childResult.error) {
+        return NextResponse.json({ error: childResult.error }, { status: 400 })
+      }
+      finalChildId = childResult.childId
+    }
+
+    // Doses of a saved medication take its current name, unit and route
+    let medication = null
+    if (type === 'medication' && eventData.medicationId) {
+      medication = await prisma.medication.findUnique({
+        where: { id: eventData.medicationId, groupId: existingEvent.groupId },
+      })
+      if (!medication) {
+        return NextResponse.json({ error: 'Medication not found in this group' }, { status: 400 })
+      }
+    }
+
     // Log the incoming data for debugging
     console.log('UPDATE EVENT - eventId:', eventId)
     console.log('UPDATE EVENT - type:', type)
     console.log('UPDATE EVENT - eventData:', JSON.stringify(eventData, null, 2))
     console.log('UPDATE EVENT - finalTimestamp:', finalTimestamp)
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await prisma.$transaction(async (tx: any) => {
-      // Update base event - need to update both date and time fields
-      const event = await tx.babyEvent.update({
-        where: { id: eventId },
+    const updated = await prisma.$transaction(async (tx) => {
+      // Update base event, keeping its timestamp unless a new one was sent.
+      // Only apply on top of the version the client edited.
+      const event = await tx.babyEvent.updateMany({
+        where: {
+          id: eventId,
+          deletedAt: null,
+          version: expectedVersion,
+        },
         data: {
-          date: finalTimestamp,
-          time: finalTimestamp.toTimeString().slice(0, 5), // HH:mm format
+          ...finalTimestamp,
           notes,
+          ...(finalChildId !== undefined && { childId: finalChildId }),
+          version: { increment: 1 },
         },
       })
 
+      // Someone else saved first - leave everything untouched
+      if (event.count === 0) {
+        return null
+      }
+
       // Update type-specific event data
       if (type === 'feeding' && eventData) {
         if (existingEvent.feedingEvent) {
@@ -223,6 +313,7 @@ export async function PUT(
             data: {
               eventType: eventData.eventType,
               description: eventData.description,
+              milestoneKey: eventData.eventType === 'milestone' ? eventData.milestoneKey || null : null,
             },
           })
         } else {
@@ -231,19 +322,123 @@ export async function PUT(
               eventId,
               eventType: eventData.eventType,
               description: eventData.description,
+              milestoneKey: eventData.eventType === 'milestone' ? eventData.milestoneKey || null : null,
+            },
+          })
+        }
+      } else if (type === 'growth' && eventData) {
+        const growthData = {
+          weight: eventData.weight ? Math.round(eventData.weight) : null,
+          length: eventData.length || null,
+          headCircumference: eventData.headCircumference || null,
+        }
+        if (existingEvent.growthEvent) {
+          await tx.growthEvent.update({
+            where: { eventId },
+            data: growthData,
+          })
+        } else {
+          await tx.growthEvent.create({
+            data: {
+              eventId,
+              ...growthData,
+            },
+          })
+        }
+      } else if (type === 'medication' && eventData) {
+        const medicationData = {
+          medicationId: medication?.id ?? null,
+          name: medication?.name ?? eventData.name.trim(),
+          dose: eventData.dose ?? medication?.dose,
+          unit: medication?.unit ?? eventData.unit,
+          route: medication?.route ?? eventData.route,
+        }
+        if (existingEvent.medicationEvent) {
+          await tx.medicationEvent.update({
+            where: { eventId },
+            data: medicationData,
+          })
+        } else {
+          await tx.medicationEvent.create({
+            data: {
+              eventId,
+              ...medicationData,
+            },
+          })
+        }
+      } else if (type === 'pumping' && eventData) {
+        // Stored milk is managed from the inventory once logged, so only the session changes
+        const pumpingData = {
+          leftAmount: eventData.leftAmount ? Math.round(eventData.leftAmount) : null,
+          rightAmount: eventData.rightAmount ? Math.round(eventData.rightAmount) : null,
+          duration: eventData.duration || null,
+        }
+        if (existingEvent.pumpingEvent) {
+          await tx.pumpingEvent.update({
+            where: { eventId },
+            data: pumpingData,
+          })
+        } else {
+          await tx.pumpingEvent.create({
+            data: {
+              eventId,
+              ...pumpingData,
             },
           })
         }
+      } else if (type === 'temperature' && eventData) {
+        const temperatureData = {
+          celsius: toCelsius(eventData.temperature, eventData.unit),
+          unit: eventData.unit,
+          method: eventData.method,
+        }
+        if (existingEvent.temperatureEvent) {
+          await tx.temperatureEvent.update({
+            where: { eventId },
+            data: temperatureData,
+          })
+        } else {
+          await tx.temperatureEvent.create({
+            data: {
+              eventId,
+              ...temperatureData,
+            },
+          })
+        }
+      } else if (type === 'symptom' && eventData) {
+        const symptomData = {
+          symptom: eventData.symptom,
+          severity: eventData.severity,
+          description: eventData.description?.trim() || null,
+        }
+        if (existingEvent.symptomEvent) {
+          await tx.symptomEvent.update({
+            where: { eventId },
+            data: symptomData,
+          })
+        } else {
+          await tx.symptomEvent.create({
+            data: {
+              eventId,
+              ...symptomData,
+            },
+          })
+        }
+      }
+
+      // A changed amount, time or feeding type draws a different amount of stored milk
+      if (type === 'feeding' || existingEvent.feedingEvent) {
+        await syncMilkDrawdowns(tx, eventId)
       }
 
       // Handle image updates if provided
-      if (images && Array.isArray(images)) {
+      if (eventImages) {
         // Delete existing images not in the new list
         const existingImages = await tx.eventImage.findMany({
           where: { eventId },
         })
         
-        const newImageUrls = images.map((img: any) => img.url)
+        const newImageUrls = eventImages.map(img => img.url)
         const imagesToDelete = existingImages.filter(
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           (img: any) => !newImageUrls.includes(img.url)
@@ -258,7 +453,7 @@ export async function PUT(
         }
 
         // Add new images
-        for (const image of images) {
+        for (const image of eventImages) {
           const existingImage = existingImages.find((img: any) => img.url === image.url)
           if (!existingImage) {
             await tx.eventImage.create({
@@ -267,11 +462,12 @@ export async function PUT(
                 url: image.url,
                 uploadthingKey: image.key,
                 filename: image.name,
-                fileSize: image.size || 0,
+                fileSize: image.size,
               },
             })
           }
         }
+        await claimPendingUploads(tx, addedImages.map(image => image.key))
       }
 
       return event
@@ -285,9 +481,38 @@ export async function PUT(
         diaperEvent: true,
         sleepEvent: true,
         otherEvent: true,
+        growthEvent: true,
+        medicationEvent: true,
+        pumpingEvent: true,
+        temperatureEvent: true,
+        symptomEvent: true,
+        timer: true,
+        child: {
+          select: { id: true, name: true },
+        },
       },
     })
 
+    if (!updated) {
+      return NextResponse.json({
+        error: 'This moment was changed by someone else while you were editing',
+        current: completeEvent,
+      }, { status: 409 })
+    }
+
+    await recordEventRevision(prisma, {
+      eventId,
+      groupId: existingEvent.groupId,
+      userId: dbUser.id,
+      action: 'update',
+      before: snapshotEvent(existingEvent),
+      after: snapshotEvent(completeEvent),
+    })
+
+    await publishEventChange(prisma, existingEvent.groupId, eventId, 'event.updated').catch(error => {
+      console.error('Error publishing group update:', error)
+    })
+
     return NextResponse.json(completeEvent)
   } catch (error) {
     console.error('Error updating event:', error)
@@ -319,10 +544,25 @@ export async function DELETE(
 
     const existingEvent = await prisma.babyEvent.findUnique({
       where: { id: eventId },
-      include: { group: true },
+      include: {
+        feedingEvent: true,
+        diaperEvent: true,
+        sleepEvent: true,
+        otherEvent: true,
+        growthEvent: true,
+        medicationEvent: true,
+        pumpingEvent: true,
+        temperatureEvent: true,
+        symptomEvent: true,
+        images: true,
+        child: {
+          select: { id: true, name: true },
+        },
+        group: true,
+      },
     })
 
-    if (!existingEvent) {
+    if (!existingEvent || existingEvent.deletedAt) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 })
     }
 
@@ -340,11 +580,37 @@ export async function DELETE(
       return NextResponse.json({ error: 'You do not have permission to delete events in this group' }, { status: 403 })
     }
 
-    await prisma.babyEvent.delete({
-      where: { id: eventId },
+    // Move to the trash rather than deleting, so an accidental tap can be undone
+    await prisma.$transaction(async (tx) => {
+      await recordEventRevision(tx, {
+        eventId,
+        groupId: existingEvent.groupId,
+        userId: dbUser.id,
+        action: 'delete',
+        before: snapshotEvent(existingEvent),
+        after: null,
+      })
+
+      await tx.babyEvent.update({
+        where: { id: eventId },
+        data: {
+          deletedAt: new Date(),
+          version: { increment: 1 },
+        },
+      })
+
+      // A trashed feeding or sleep can't still be running
+      await tx.eventTimer.deleteMany({
+        where: { eventId },
+      })
+
+      // Milk a trashed feeding used goes back into its bags
+      await syncMilkDrawdowns(tx, eventId)
     })
 
-    return NextResponse.json({ message: 'Event deleted successfully' })
+    publishToGroup(existingEvent.groupId, { type: 'event.deleted', eventId })
+
+    return NextResponse.json({ message: 'Event moved to trash' })
   } catch (error) {
     console.error('Error deleting event:', error)
     
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ensureUserExists } from '@/lib/auth-utils'
+import { getTimerElapsedMs, TIMER_ACTIONS, type TimerAction } from '@/lib/timers'
+import { recordEventRevision, snapshotEvent } from '@/lib/eventRevisions'
+import { publishEventChange } from '@/lib/groupStream'
+import { getZonedDateTime } from '@/lib/timezone'
+import { FEEDING_MAX_DURATION_MINUTES, SLEEP_MAX_DURATION_MINUTES } from '@/lib/validation'
+
+// PATCH /api/events/[id]/timer - Pause, resume, switch side or stop a running timer
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await ensureUserExists()
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { dbUser } = authResult
+    const { id: eventId } = await params
+    const { action, side, endTime } = await request.json() as { action: TimerAction; side?: string; endTime?: string }
+
+    if (!TIMER_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid timer action' }, { status: 400 })
+    }
+
+    const event = await prisma.babyEvent.findUnique({
+      where: { id: eventId },
+      include: {
+        feedingEvent: true,
+        sleepEvent: true,
+        timer: true,
+        images: true,
+        child: {
+          select: { id: true, name: true },
+        },
+      },
+    })
+
+    if (!event || event.deletedAt) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: event.groupId,
+        },
+      },
+    })
+
+    if (!membership || !membership.canEdit) {
+      return NextResponse.json({ error: 'You do not have permission to edit events in this group' }, { status: 403 })
+    }
+
+    // Another device may already have stopped it
+    if (!event.timer) {
+      return NextResponse.json({ error: 'This timer has already been stopped' }, { status: 409 })
+    }
+
+    const timer = event.timer
+    const now = new Date()
+
+    switch (action) {
+      case 'pause':
+        if (timer.status === 'running') {
+          await prisma.eventTimer.update({
+            where: { id: timer.id },
+            data: { status: 'paused', pausedAt: now },
+          })
+        }
+        break
+
+      case 'resume':
+        if (timer.status === 'paused') {
+          const pausedFor = timer.pausedAt ? now.getTime() - timer.pausedAt.getTime() : 0
+          await prisma.eventTimer.update({
+            where: { id: timer.id },
+            data: { status: 'running', pausedAt: null, pausedMs: timer.pausedMs + pausedFor },
+          })
+        }
+        break
+
+      case 'switch_side': {
+        if (!event.feedingEvent) {
+          return NextResponse.json({ error: 'Only feeding timers have a side' }, { status: 400 })
+        }
+        const nextSide = side === 'left' || side === 'right'
+          ? side
+          : timer.side === 'left' ? 'right' : 'left'
+
+        await prisma.$transaction(async (tx) => {
+          await tx.eventTimer.update({
+            where: { id: timer.id },
+            data: { side: nextSide },
+          })
+          // Once both breasts have been used the feeding is recorded as "both"
+          const recordedSide = event.feedingEvent!.side && event.feedingEvent!.side !== nextSide
+            ? 'both'
+            : nextSide
+          await tx.feedingEvent.update({
+            where: { eventId },
+            data: { side: recordedSide },
+          })
+          // Recorded details changed, so open editors need to know
+          await tx.babyEvent.update({
+            where: { id: eventId },
+            data: { version: { increment: 1 } },
+          })
+        })
+        break
+      }
+
+      case 'stop': {
+        if (endTime && !/^\d{2}:\d{2}$/.test(endTime)) {
+          return NextResponse.json({ error: 'endTime must be in HH:mm format' }, { status: 400 })
+        }
+        // A timer left running overnight stops at the longest duration the event can be
+        // saved with, so it can still be edited afterwards
+        const maxDuration = event.sleepEvent ? SLEEP_MAX_DURATION_MINUTES : FEEDING_MAX_DURATION_MINUTES
+        const duration = Math.min(maxDuration, Math.max(1, Math.round(getTimerElapsedMs(timer, now) / 60000)))
+        const finalEndTime = endTime || getZonedDateTime(now, event.timezone).time
+
+        await prisma.$transaction(async (tx) => {
+          if (event.sleepEvent) {
+            await tx.sleepEvent.update({
+              where: { eventId },
+              data: {
+                duration,
+                startTime: event.sleepEvent.startTime || event.time,
+                endTime: finalEndTime,
+              },
+            })
+          } else if (event.feedingEvent) {
+            await tx.feedingEvent.update({
+              where: { eventId },
+              data: { duration },
+            })
+          }
+          await tx.babyEvent.update({
+            where: { id: eventId },
+            data: { version: { increment: 1 } },
+          })
+          // deleteMany so a stop racing another device's stop doesn't throw
+          await tx.eventTimer.deleteMany({
+            where: { id: timer.id },
+          })
+        })
+        break
+      }
+    }
+
+    const completeEvent = await prisma.babyEvent.findUnique({
+      where: { id: eventId },
+      include: {
+        images: true,
+        feedingEvent: true,
+        diaperEvent: true,
+        sleepEvent: true,
+        otherEvent: true,
+        growthEvent: true,
+        medicationEvent: true,
+        pumpingEvent: true,
+        temperatureEvent: true,
+        symptomEvent: true,
+        timer: true,
+        child: {
+          select: { id: true, name: true },
+        },
+      },
+    })
+
+    // Pausing and resuming don't change anything recorded, so only these show up in history
+    if (action === 'switch_side' || action === 'stop') {
+      await recordEventRevision(prisma, {
+        eventId,
+        groupId: event.groupId,
+        userId: dbUser.id,
+        action: 'update',
+        before: snapshotEvent(event),
+        after: snapshotEvent(completeEvent),
+      })
+    }
+
+    await publishEventChange(prisma, event.groupId, eventId, 'event.updated').catch(error => {
+      console.error('Error publishing group update:', error)
+    })
+
+    return NextResponse.json(completeEvent)
+  } catch (error) {
+    console.error('Error updating timer:', error)
+
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    if (errorMessage.includes('timed out fetching new connection from connection pool')) {
+      console.error('Database connection pool timeout - consider increasing pool size or connection timeout')
+    }
+
+    return NextResponse.json({
+      error: 'Failed to update timer',
+      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined,
+    }, { status: 500 })
+  }
+}
@@ -1,7 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { after, NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { EventType } from '@/types';
+import { EventType, OtherEventType } from '@/types';
 import { ensureUserExists } from '@/lib/auth-utils';
+import { resolveEventChildId } from '@/lib/children';
+import { hasFieldErrors, validateEventPayload, VALIDATION_FAILED_MESSAGE } from '@/lib/validation';
+import { recordEventRevision, snapshotEvent } from '@/lib/eventRevisions';
+import { resolveEventTimestamp } from '@/lib/timezone';
+import { notifyCaregivers } from '@/lib/notifications';
+import { publishEventChange } from '@/lib/groupStream';
+import { syncMilkDrawdowns } from '@/lib/milkInventory';
+import { toCelsius } from '@/lib/illness';
+import { claimPendingUploads, findUnownedImageKeys, parseImagesInput } from '@/lib/uploads';
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,7 +22,7 @@ export async function POST(request: NextRequest) {
     const { dbUser } = authResult;
 
     const body = await request.json();
-    const { type, date, time, notes, images, groupId, ...eventData } = body;
+    const { type, occurredAt, date, time, timezone, notes, images, groupId, childId, ...eventData } = body;
 
     // If no groupId provided, try to get user's first group or create one
     let targetGroupId = groupId;
@@ -42,6 +51,11 @@ export async function POST(request: NextRequest) {
           groupId: targetGroupId,
         },
       },
+      include: {
+        group: {
+          select: { timezone: true },
+        },
+      },
     });
 
     if (!membership) {
@@ -58,14 +72,74 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const fieldErrors = validateEventPayload(type, { occurredAt, date, time, timezone, ...eventData });
+    if (hasFieldErrors(fieldErrors)) {
+      return NextResponse.json(
+        { error: VALIDATION_FAILED_MESSAGE, fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    const imagesResult = parseImagesInput(images);
+    if (imagesResult.error) {
+      return NextResponse.json(
+        { error: imagesResult.error },
+        { status: 400 }
+      );
+    }
+    const eventImages = imagesResult.data ?? [];
+
+    // Photos must have been uploaded by this user for this group
+    if (eventImages.length > 0) {
+      const unownedKeys = await findUnownedImageKeys(prisma, dbUser.id, targetGroupId, eventImages);
+      if (unownedKeys.length > 0) {
+        return NextResponse.json(
+          { error: 'Some photos were not uploaded by you for this group. Please upload them again.' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Events without their own timezone fall back to the group's
+    const timestampResult = resolveEventTimestamp({ occurredAt, date, time, timezone }, membership.group.timezone);
+    if (!timestampResult.timestamp) {
+      return NextResponse.json(
+        { error: timestampResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Doses of a saved medication are logged with its current name, unit and route
+    let medication = null;
+    if (type === EventType.MEDICATION && eventData.medicationId) {
+      medication = await prisma.medication.findUnique({
+        where: { id: eventData.medicationId, groupId: targetGroupId },
+      });
+      if (!medication) {
+        return NextResponse.json(
+          { error: 'Medication not found in this group' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const childResult = await resolveEventChildId(targetGroupId, childId || medication?.childId);
+    if (childResult.error) {
+      return NextResponse.json(
+        { error: childResult.error },
+        { status: 400 }
+      );
+    }
+
     // Create the base event
     const babyEvent = await prisma.babyEvent.create({
       data: {
-        date: new Date(date),
-        time,
+        ...timestampResult.timestamp,
         type,
         notes,
         groupId: targetGroupId,
+        childId: childResult.childId,
+        createdById: dbUser.id,
       },
     });
 
@@ -87,8 +161,9 @@ export async function POST(request: NextRequest) {
         await prisma.diaperEvent.create({
           data: {
             eventId: babyEvent.id,
-            wet: eventData.wet,
-            dirty: eventData.dirty,
+            // Validation counts a missing wet or dirty as none
+            wet: eventData.wet || 0,
+            dirty: eventData.dirty || 0,
             color: eventData.diaperDetails?.color || null,
             texture: eventData.diaperDetails?.texture || null,
             consistency: eventData.diaperDetails?.consistency || null,
@@ -114,6 +189,82 @@ export async function POST(request: NextRequest) {
             eventId: babyEvent.id,
             eventType: eventData.eventType,
             description: eventData.description,
+            milestoneKey: eventData.eventType === OtherEventType.MILESTONE ? eventData.milestoneKey || null : null,
+          },
+        });
+        break;
+
+      case EventType.GROWTH:
+        await prisma.growthEvent.create({
+          data: {
+            eventId: babyEvent.id,
+            weight: eventData.weight ? Math.round(eventData.weight) : null,
+            length: eventData.length || null,
+            headCircumference: eventData.headCircumference || null,
+          },
+        });
+        break;
+
+      case EventType.MEDICATION:
+        await prisma.medicationEvent.create({
+          data: {
+            eventId: babyEvent.id,
+            medicationId: medication?.id ?? null,
+            name: medication?.name ?? eventData.name.trim(),
+            dose: eventData.dose ?? medication?.dose,
+            unit: medication?.unit ?? eventData.unit,
+            route: medication?.route ?? eventData.route,
+          },
+        });
+        break;
+
+      case EventType.PUMPING: {
+        const leftAmount = eventData.leftAmount ? Math.round(eventData.leftAmount) : null;
+        const rightAmount = eventData.rightAmount ? Math.round(eventData.rightAmount) : null;
+        await prisma.pumpingEvent.create({
+          data: {
+            eventId: babyEvent.id,
+            leftAmount,
+            rightAmount,
+            duration: eventData.duration || null,
+          },
+        });
+
+        // Milk that went straight into storage becomes one bag in the inventory
+        if (eventData.storeIn) {
+          const volume = (leftAmount || 0) + (rightAmount || 0);
+          await prisma.milkBag.create({
+            data: {
+              volume,
+              remaining: volume,
+              pumpedAt: babyEvent.occurredAt,
+              location: eventData.storeIn,
+              groupId: targetGroupId,
+              sourceEventId: babyEvent.id,
+            },
+          });
+        }
+        break;
+      }
+
+      case EventType.TEMPERATURE:
+        await prisma.temperatureEvent.create({
+          data: {
+            eventId: babyEvent.id,
+            celsius: toCelsius(eventData.temperature, eventData.unit),
+            unit: eventData.unit,
+            method: eventData.method,
+          },
+        });
+        break;
+
+      case EventType.SYMPTOM:
+        await prisma.symptomEvent.create({
+          data: {
+            eventId: babyEvent.id,
+            symptom: eventData.symptom,
+            severity: eventData.severity,
+            description: eventData.description?.trim() || null,
           },
         });
         break;
@@ -122,20 +273,26 @@ export async function POST(request: NextRequest) {
         throw new Error(`Unknown event type: ${type}`);
     }
 
+    // Bottles of expressed milk come out of the stored milk
+    if (type === EventType.FEEDING) {
+      await syncMilkDrawdowns(prisma, babyEvent.id);
+    }
+
     // Create image records if provided
-    if (images && images.length > 0) {
+    if (eventImages.length > 0) {
       await prisma.eventImage.createMany({
-        data: images.map((image: { url: string; key: string; name: string; size: number; caption?: string; tags?: string[]; uploadedAt: string }) => ({
+        data: eventImages.map(image => ({
           eventId: babyEvent.id,
           url: image.url,
           uploadthingKey: image.key,
           filename: image.name,
           fileSize: image.size,
-          caption: image.caption || null,
+          caption: image.caption,
           tags: image.tags ? JSON.stringify(image.tags) : null,
-          uploadedAt: new Date(image.uploadedAt),
+          uploadedAt: image.uploadedAt ?? undefined,
         })),
       });
+      await claimPendingUploads(prisma, eventImages.map(image => image.key));
     }
 
     // Fetch the complete event with all relations
@@ -146,10 +303,40 @@ export async function POST(request: NextRequest) {
         diaperEvent: true,
         sleepEvent: true,
         otherEvent: true,
+        growthEvent: true,
+        medicationEvent: true,
+        pumpingEvent: true,
+        temperatureEvent: true,
+        symptomEvent: true,
+        timer: true,
         images: true,
+        child: {
+          select: { id: true, name: true },
+        },
       },
     });
 
+    await recordEventRevision(prisma, {
+      eventId: babyEvent.id,
+      groupId: targetGroupId,
+      userId: dbUser.id,
+      action: 'create',
+      before: null,
+      after: snapshotEvent(completeEvent),
+    });
+
+    await publishEventChange(prisma, targetGroupId, babyEvent.id, 'event.created').catch(error => {
+      console.error('Error publishing group update:', error);
+    });
+
+    // Let the rest of the group know once the response is on its way; push services
+    // can be slow, and a failed push never fails the save
+    if (completeEvent) {
+      after(() => notifyCaregivers(prisma, completeEvent, dbUser).catch(error => {
+        console.error('Error sending caregiver alerts:', error);
+      }));
+    }
+
     return NextResponse.json({
       success: true,
       data: completeEvent,
@@ -192,6 +379,7 @@ export async function GET(request: NextRequest) {
     const dateFrom = searchParams.get('dateFrom');
     const dateTo = searchParams.get('dateTo');
     const groupId = searchParams.get('groupId');
+    const childId = searchParams.get('childId');
 
     // Use offset if provided (for virtual scrolling), otherwise use page-based pagination
     const skip = offset > 0 ? offset : (page - 1) * limit;
@@ -236,14 +424,19 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build where clause
+    // Build where clause - events in the trash are never listed
     const where: any = {
-      ...filter
+      ...filter,
+      deletedAt: null,
     };
     
     if (type) {
       where.type = type;
     }
+
+    if (childId) {
+      where.childId = childId;
+    }
     
     if (dateFrom || dateTo) {
       where.date = {};
@@ -260,11 +453,19 @@ export async function GET(request: NextRequest) {
           diaperEvent: true,
           sleepEvent: true,
           otherEvent: true,
+          growthEvent: true,
+          medicationEvent: true,
+          pumpingEvent: true,
+          temperatureEvent: true,
+          symptomEvent: true,
+          timer: true,
           images: true,
+          child: {
+            select: { id: true, name: true },
+          },
         },
         orderBy: [
-          { date: 'desc' },
-          { time: 'desc' },
+          { occurredAt: 'desc' },
         ],
         skip,
         take: limit,
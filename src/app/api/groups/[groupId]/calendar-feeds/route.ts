@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { generateFeedToken } from '@/lib/calendarFeed';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+// Look up the requesting member; owners and admins can also manage everyone else's feeds
+async function getFeedMember(userId: string, groupId: string) {
+  const membership = await prisma.userGroupMember.findUnique({
+    where: {
+      userId_groupId: {
+        userId,
+        groupId,
+      },
+    },
+    include: {
+      group: {
+        select: { ownerId: true },
+      },
+    },
+  });
+
+  if (!membership || !membership.canRead) {
+    return { error: NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 }) };
+  }
+
+  const canManageAll = membership.group.ownerId === userId || membership.role === 'admin';
+  return { membership, canManageAll };
+}
+
+// GET /api/groups/[groupId]/calendar-feeds - Your calendar link, plus other members' for owners and admins
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const access = await getFeedMember(dbUser.id, groupId);
+    if (access.error) {
+      return access.error;
+    }
+
+    const feeds = await prisma.calendarFeed.findMany({
+      where: {
+        groupId,
+        revokedAt: null,
+        ...(!access.canManageAll && { userId: dbUser.id }),
+      },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const ownFeed = feeds.find((feed: { userId: string }) => feed.userId === dbUser.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        feed: ownFeed
+          ? { id: ownFeed.id, token: ownFeed.token, createdAt: ownFeed.createdAt, lastUsedAt: ownFeed.lastUsedAt }
+          : null,
+        // Other members' tokens are never sent back, only enough to revoke them
+        memberFeeds: feeds
+          .filter((feed: { userId: string }) => feed.userId !== dbUser.id)
+          .map((feed: { id: string; createdAt: Date; lastUsedAt: Date | null; user: { id: string; name: string | null; email: string } }) => ({
+            id: feed.id,
+            createdAt: feed.createdAt,
+            lastUsedAt: feed.lastUsedAt,
+            user: { id: feed.user.id, name: feed.user.name || feed.user.email },
+          })),
+        canManageAll: access.canManageAll,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching calendar feeds:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch calendar feeds' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/groups/[groupId]/calendar-feeds - Create your calendar link, replacing any previous one
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const access = await getFeedMember(dbUser.id, groupId);
+    if (access.error) {
+      return access.error;
+    }
+
+    const feed = await prisma.$transaction(async (tx) => {
+      await tx.calendarFeed.updateMany({
+        where: { groupId, userId: dbUser.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      return tx.calendarFeed.create({
+        data: {
+          token: generateFeedToken(),
+          groupId,
+          userId: dbUser.id,
+        },
+      });
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        feed: { id: feed.id, token: feed.token, createdAt: feed.createdAt, lastUsedAt: feed.lastUsedAt },
+      },
+    });
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to create calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/groups/[groupId]/calendar-feeds - Revoke a calendar link
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+    const { feedId } = await request.json();
+
+    const access = await getFeedMember(dbUser.id, groupId);
+    if (access.error) {
+      return access.error;
+    }
+
+    const feed = await prisma.calendarFeed.findFirst({
+      where: { id: feedId, groupId },
+    });
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    if (feed.userId !== dbUser.id && !access.canManageAll) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    if (!feed.revokedAt) {
+      await prisma.calendarFeed.update({
+        where: { id: feed.id },
+        data: { revokedAt: new Date() },
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { buildCalendarFeed, FEED_HISTORY_DAYS } from '@/lib/calendarFeed';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+// GET /api/groups/[groupId]/calendar.ics - Subscribable calendar of the group's events
+// Calendar apps can't sign in, so access comes from the member's feed token instead of a session
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { groupId } = await params;
+    const token = new URL(request.url).searchParams.get('token');
+
+    if (!token) {
+      return NextResponse.json({ error: 'Missing feed token' }, { status: 401 });
+    }
+
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { token },
+      include: {
+        group: {
+          select: { name: true, timezone: true },
+        },
+      },
+    });
+
+    if (!feed || feed.groupId !== groupId || feed.revokedAt) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    // The link dies with the member's access
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: feed.userId,
+          groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const [events, childCount] = await Promise.all([
+      prisma.babyEvent.findMany({
+        where: {
+          groupId,
+          deletedAt: null,
+          occurredAt: {
+            gte: new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000),
+          },
+        },
+        include: {
+          feedingEvent: true,
+          diaperEvent: true,
+          sleepEvent: true,
+          otherEvent: true,
+          growthEvent: true,
+          medicationEvent: true,
+          pumpingEvent: true,
+          temperatureEvent: true,
+          symptomEvent: true,
+          timer: {
+            select: { status: true },
+          },
+          child: {
+            select: { name: true },
+          },
+        },
+        orderBy: [
+          { occurredAt: 'asc' },
+        ],
+      }),
+      prisma.child.count({ where: { groupId } }),
+    ]);
+
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    const calendar = buildCalendarFeed(events, {
+      calendarName: `👶 ${feed.group.name}`,
+      timeZone: feed.group.timezone,
+      showChildNames: childCount > 1,
+    });
+
+    return new Response(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to build calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import {
+  checkLinkedEvent,
+  getImmunizationSchedule,
+  parseImmunizationInput,
+  toImmunization,
+} from '@/lib/immunizations';
+
+interface RouteParams {
+  params: Promise<{ groupId: string; childId: string; immunizationId: string }>;
+}
+
+// PUT /api/groups/[groupId]/children/[childId]/immunizations/[immunizationId] - Correct a vaccine record
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, childId, immunizationId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canEdit) {
+      return NextResponse.json({ error: 'You do not have permission to edit vaccines in this group' }, { status: 403 });
+    }
+
+    const existing = await prisma.immunization.findFirst({
+      where: {
+        id: immunizationId,
+        childId,
+        groupId, // Ensure the record belongs to this group
+      },
+      include: { child: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Vaccine record not found' }, { status: 404 });
+    }
+
+    const schedule = getImmunizationSchedule(existing.child.immunizationSchedule);
+    const { data, error } = parseImmunizationInput(await request.json(), schedule);
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (existing.child.birthDate && data.givenOn < existing.child.birthDate) {
+      return NextResponse.json({ error: 'Vaccination date cannot be before the birth date' }, { status: 400 });
+    }
+
+    if (data.scheduleDoseId && data.scheduleDoseId !== existing.scheduleDoseId) {
+      const duplicate = await prisma.immunization.findFirst({
+        where: { childId, scheduleDoseId: data.scheduleDoseId },
+        select: { id: true },
+      });
+      if (duplicate) {
+        return NextResponse.json({ error: 'That dose has already been recorded' }, { status: 409 });
+      }
+    }
+
+    if (data.eventId && data.eventId !== existing.eventId) {
+      const eventError = await checkLinkedEvent(prisma, groupId, childId, data.eventId);
+      if (eventError) {
+        return NextResponse.json({ error: eventError }, { status: 400 });
+      }
+    }
+
+    const immunization = await prisma.immunization.update({
+      where: { id: immunizationId },
+      data,
+      include: {
+        event: {
+          select: { id: true, type: true, occurredAt: true, timezone: true },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { immunization: toImmunization(immunization, schedule) },
+    });
+  } catch (error) {
+    console.error('Error updating immunization:', error);
+    return NextResponse.json(
+      { error: 'Failed to update immunization' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/groups/[groupId]/children/[childId]/immunizations/[immunizationId] - Remove a vaccine record
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, childId, immunizationId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canDelete) {
+      return NextResponse.json({ error: 'You do not have permission to remove vaccines in this group' }, { status: 403 });
+    }
+
+    const existing = await prisma.immunization.findFirst({
+      where: {
+        id: immunizationId,
+        childId,
+        groupId,
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Vaccine record not found' }, { status: 404 });
+    }
+
+    await prisma.immunization.delete({
+      where: { id: immunizationId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting immunization:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete immunization' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import {
+  buildImmunizationOverview,
+  getImmunizationSchedule,
+  renderImmunizationCardHtml,
+} from '@/lib/immunizations';
+import { getZonedDateTime } from '@/lib/timezone';
+
+interface RouteParams {
+  params: Promise<{ groupId: string; childId: string }>;
+}
+
+// GET /api/groups/[groupId]/children/[childId]/immunizations/card - Printable immunization card
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, childId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+      include: {
+        group: {
+          select: { timezone: true },
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const child = await prisma.child.findUnique({
+      where: {
+        id: childId,
+        groupId: groupId,
+      },
+      include: {
+        immunizations: true,
+      },
+    });
+
+    if (!child) {
+      return NextResponse.json({ error: 'Child not found' }, { status: 404 });
+    }
+
+    const today = getZonedDateTime(new Date(), membership.group.timezone).date;
+    const overview = buildImmunizationOverview(
+      getImmunizationSchedule(child.immunizationSchedule),
+      child.immunizations,
+      child.birthDate,
+      today
+    );
+
+    const html = renderImmunizationCardHtml({
+      childName: child.name,
+      birthDate: child.birthDate,
+      overview,
+      generatedOn: today,
+    });
+
+    return new Response(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building immunization card:', error);
+    return NextResponse.json(
+      { error: 'Failed to build immunization card' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import {
+  buildImmunizationOverview,
+  checkLinkedEvent,
+  getImmunizationSchedule,
+  parseImmunizationInput,
+  toImmunization,
+} from '@/lib/immunizations';
+import { getZonedDateTime } from '@/lib/timezone';
+
+interface RouteParams {
+  params: Promise<{ groupId: string; childId: string }>;
+}
+
+// GET /api/groups/[groupId]/children/[childId]/immunizations - Vaccines given and where the schedule stands
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, childId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+      include: {
+        group: {
+          select: { timezone: true },
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const child = await prisma.child.findUnique({
+      where: {
+        id: childId,
+        groupId: groupId,
+      },
+    });
+
+    if (!child) {
+      return NextResponse.json({ error: 'Child not found' }, { status: 404 });
+    }
+
+    const immunizations = await prisma.immunization.findMany({
+      where: { childId },
+      include: {
+        event: {
+          select: { id: true, type: true, occurredAt: true, timezone: true },
+        },
+      },
+    });
+
+    const overview = buildImmunizationOverview(
+      getImmunizationSchedule(child.immunizationSchedule),
+      immunizations,
+      child.birthDate,
+      getZonedDateTime(new Date(), membership.group.timezone).date
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: overview,
+    });
+  } catch (error) {
+    console.error('Error fetching immunizations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch immunizations' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/groups/[groupId]/children/[childId]/immunizations - Record a vaccine that was given
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, childId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canAdd) {
+      return NextResponse.json({ error: 'You do not have permission to record vaccines in this group' }, { status: 403 });
+    }
+
+    const child = await prisma.child.findUnique({
+      where: {
+        id: childId,
+        groupId: groupId,
+      },
+    });
+
+    if (!child) {
+      return NextResponse.json({ error: 'Child not found' }, { status: 404 });
+    }
+
+    const schedule = getImmunizationSchedule(child.immunizationSchedule);
+    const { data, error } = parseImmunizationInput(await request.json(), schedule);
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (child.birthDate && data.givenOn < child.birthDate) {
+      return NextResponse.json({ error: 'Vaccination date cannot be before the birth date' }, { status: 400 });
+    }
+
+    if (data.scheduleDoseId) {
+      const existing = await prisma.immunization.findFirst({
+        where: { childId, scheduleDoseId: data.scheduleDoseId },
+        select: { id: true },
+      });
+      if (existing) {
+        return NextResponse.json({ error: 'That dose has already been recorded' }, { status: 409 });
+      }
+    }
+
+    if (data.eventId) {
+      const eventError = await checkLinkedEvent(prisma, groupId, childId, data.eventId);
+      if (eventError) {
+        return NextResponse.json({ error: eventError }, { status: 400 });
+      }
+    }
+
+    const immunization = await prisma.immunization.create({
+      data: {
+        ...data,
+        childId,
+        groupId,
+      },
+      include: {
+        event: {
+          select: { id: true, type: true, occurredAt: true, timezone: true },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { immunization: toImmunization(immunization, schedule) },
+    });
+  } catch (error) {
+    console.error('Error recording immunization:', error);
+    return NextResponse.json(
+      { error: 'Failed to record immunization' },
+      { status: 500 }
+    );
+  }
+}
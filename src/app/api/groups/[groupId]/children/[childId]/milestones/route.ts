@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { buildMilestoneJournal } from '@/lib/milestones';
+import { getZonedDateTime } from '@/lib/timezone';
+
+interface RouteParams {
+  params: Promise<{ groupId: string; childId: string }>;
+}
+
+// GET /api/groups/[groupId]/children/[childId]/milestones - Milestones reached, with ages, photos and what's next
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, childId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+      include: {
+        group: {
+          select: { timezone: true },
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const child = await prisma.child.findUnique({
+      where: {
+        id: childId,
+        groupId: groupId,
+      },
+    });
+
+    if (!child) {
+      return NextResponse.json({ error: 'Child not found' }, { status: 404 });
+    }
+
+    // Milestones logged before children were set up belong to everyone
+    const events = await prisma.babyEvent.findMany({
+      where: {
+        groupId,
+        deletedAt: null,
+        type: 'other',
+        otherEvent: { eventType: 'milestone' },
+        OR: [{ childId }, { childId: null }],
+      },
+      select: {
+        id: true,
+        date: true,
+        occurredAt: true,
+        notes: true,
+        otherEvent: {
+          select: { description: true, milestoneKey: true },
+        },
+        images: {
+          select: { id: true, url: true, caption: true },
+          orderBy: { uploadedAt: 'asc' },
+        },
+      },
+    });
+
+    const journal = buildMilestoneJournal(
+      events,
+      child.birthDate,
+      getZonedDateTime(new Date(), membership.group.timezone).date
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: journal,
+    });
+  } catch (error) {
+    console.error('Error fetching milestones:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch milestones' },
+      { status: 500 }
+    );
+  }
+}
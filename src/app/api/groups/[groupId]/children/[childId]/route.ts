@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { parseChildInput } from '@/lib/children';
+import { claimPendingPhoto } from '@/lib/uploads';
+
+interface RouteParams {
+  params: Promise<{ groupId: string; childId: string }>;
+}
+
+// PUT /api/groups/[groupId]/children/[childId] - Update a child's profile
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, childId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canEdit) {
+      return NextResponse.json({ error: 'You do not have permission to manage children in this group' }, { status: 403 });
+    }
+
+    const existingChild = await prisma.child.findUnique({
+      where: {
+        id: childId,
+        groupId: groupId, // Ensure child belongs to this group
+      },
+    });
+
+    if (!existingChild) {
+      return NextResponse.json({ error: 'Child not found' }, { status: 404 });
+    }
+
+    const { data, error } = parseChildInput(await request.json());
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const child = await prisma.child.update({
+      where: { id: childId },
+      data,
+    });
+    await claimPendingPhoto(prisma, dbUser.id, groupId, child.photoUrl);
+
+    return NextResponse.json({
+      success: true,
+      data: { child },
+    });
+  } catch (error) {
+    console.error('Error updating child:', error);
+    return NextResponse.json(
+      { error: 'Failed to update child' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/groups/[groupId]/children/[childId] - Remove a child (their events are kept, unassigned)
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, childId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canDelete) {
+      return NextResponse.json({ error: 'You do not have permission to remove children from this group' }, { status: 403 });
+    }
+
+    const existingChild = await prisma.child.findUnique({
+      where: {
+        id: childId,
+        groupId: groupId,
+      },
+    });
+
+    if (!existingChild) {
+      return NextResponse.json({ error: 'Child not found' }, { status: 404 });
+    }
+
+    await prisma.child.delete({
+      where: { id: childId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting child:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete child' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { parseChildInput } from '@/lib/children';
+import { claimPendingPhoto } from '@/lib/uploads';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+// GET /api/groups/[groupId]/children - List children tracked by a group
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const children = await prisma.child.findMany({
+      where: { groupId },
+      orderBy: [
+        { birthDate: 'asc' },
+        { createdAt: 'asc' },
+      ],
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { children },
+    });
+  } catch (error) {
+    console.error('Error fetching children:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch children' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/groups/[groupId]/children - Add a child to a group
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canEdit) {
+      return NextResponse.json({ error: 'You do not have permission to manage children in this group' }, { status: 403 });
+    }
+
+    const { data, error } = parseChildInput(await request.json());
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const child = await prisma.child.create({
+      data: {
+        ...data,
+        groupId,
+      },
+    });
+    await claimPendingPhoto(prisma, dbUser.id, groupId, child.photoUrl);
+
+    return NextResponse.json({
+      success: true,
+      data: { child },
+    });
+  } catch (error) {
+    console.error('Error creating child:', error);
+    return NextResponse.json(
+      { error: 'Failed to create child' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import {
+  EXPORT_COLUMNS,
+  EXPORT_EVENT_INCLUDE,
+  EXPORT_FORMATS,
+  flattenEventForExport,
+  getExportFilename,
+  toCsvLine,
+  type ExportFormat,
+} from '@/lib/eventExport';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+// Events are read in pages so large histories never sit in memory all at once
+const BATCH_SIZE = 500;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/groups/[groupId]/export - Download the group's events as CSV or JSON
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const type = searchParams.get('type');
+    const childId = searchParams.get('childId');
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: 'Format must be csv or json' }, { status: 400 });
+    }
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json({ error: 'from and to must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+      include: {
+        group: {
+          select: { name: true },
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    // from/to are local calendar days, matching the timeline's date filter
+    const where = {
+      groupId,
+      deletedAt: null,
+      ...(type && { type }),
+      ...(childId && { childId }),
+      ...((from || to) && {
+        date: {
+          ...(from && { gte: new Date(`${from}T00:00:00.000Z`) }),
+          ...(to && { lte: new Date(`${to}T00:00:00.000Z`) }),
+        },
+      }),
+    };
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        try {
+          controller.enqueue(encoder.encode(format === 'csv' ? toCsvLine([...EXPORT_COLUMNS]) : '['));
+
+          let cursor: string | undefined;
+          let isFirst = true;
+
+          while (true) {
+            const events = await prisma.babyEvent.findMany({
+              where,
+              include: EXPORT_EVENT_INCLUDE,
+              orderBy: [
+                { occurredAt: 'asc' },
+                { id: 'asc' },
+              ],
+              take: BATCH_SIZE,
+              ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+            });
+
+            for (const event of events) {
+              const row = flattenEventForExport(event);
+              if (format === 'csv') {
+                controller.enqueue(encoder.encode(toCsvLine(EXPORT_COLUMNS.map(column => row[column]))));
+              } else {
+                controller.enqueue(encoder.encode(`${isFirst ? '' : ','}\n${JSON.stringify(row)}`));
+              }
+              isFirst = false;
+            }
+
+            if (events.length < BATCH_SIZE) break;
+            cursor = events[events.length - 1].id;
+          }
+
+          if (format === 'json') {
+            controller.enqueue(encoder.encode('\n]\n'));
+          }
+          controller.close();
+        } catch (error) {
+          console.error('Error streaming export:', error);
+          controller.error(error);
+        }
+      },
+    });
+
+    const filename = getExportFilename(membership.group.name, format, from, to);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting events:', error);
+    return NextResponse.json(
+      { error: 'Failed to export events' },
+      { status: 500 }
+    );
+  }
+}
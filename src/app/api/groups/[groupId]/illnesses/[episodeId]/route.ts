@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { loadIllnessEpisodes, parseIllnessEpisodeInput } from '@/lib/illness';
+
+interface RouteParams {
+  params: Promise<{ groupId: string; episodeId: string }>;
+}
+
+// PUT /api/groups/[groupId]/illnesses/[episodeId] - Update an episode, e.g. to mark it over
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, episodeId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canEdit) {
+      return NextResponse.json({ error: 'You do not have permission to edit illnesses in this group' }, { status: 403 });
+    }
+
+    const existingEpisode = await prisma.illnessEpisode.findUnique({
+      where: {
+        id: episodeId,
+        groupId: groupId, // Ensure episode belongs to this group
+      },
+    });
+
+    if (!existingEpisode) {
+      return NextResponse.json({ error: 'Illness not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { data, error } = parseIllnessEpisodeInput(body);
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (data.childId && data.childId !== existingEpisode.childId) {
+      const child = await prisma.child.findUnique({
+        where: { id: data.childId, groupId },
+        select: { id: true },
+      });
+      if (!child) {
+        return NextResponse.json({ error: 'Child not found in this group' }, { status: 400 });
+      }
+    }
+
+    await prisma.illnessEpisode.update({
+      where: { id: episodeId },
+      data,
+    });
+
+    const [episode] = await loadIllnessEpisodes(prisma, groupId, { id: episodeId });
+
+    return NextResponse.json({
+      success: true,
+      data: { episode },
+    });
+  } catch (error) {
+    console.error('Error updating illness episode:', error);
+    return NextResponse.json(
+      { error: 'Failed to update illness episode' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/groups/[groupId]/illnesses/[episodeId] - Remove an episode; its readings and symptoms stay
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, episodeId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canDelete) {
+      return NextResponse.json({ error: 'You do not have permission to delete illnesses in this group' }, { status: 403 });
+    }
+
+    const existingEpisode = await prisma.illnessEpisode.findUnique({
+      where: {
+        id: episodeId,
+        groupId: groupId, // Ensure episode belongs to this group
+      },
+    });
+
+    if (!existingEpisode) {
+      return NextResponse.json({ error: 'Illness not found' }, { status: 404 });
+    }
+
+    await prisma.illnessEpisode.delete({
+      where: { id: episodeId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting illness episode:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete illness episode' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { loadIllnessEpisodes, parseIllnessEpisodeInput } from '@/lib/illness';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+// GET /api/groups/[groupId]/illnesses - Illness episodes with their readings and symptoms
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+    const childId = request.nextUrl.searchParams.get('childId');
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    // A child's view also shows episodes that weren't tied to one child
+    const episodes = await loadIllnessEpisodes(
+      prisma,
+      groupId,
+      childId ? { OR: [{ childId }, { childId: null }] } : {}
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { episodes },
+    });
+  } catch (error) {
+    console.error('Error fetching illness episodes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch illness episodes' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/groups/[groupId]/illnesses - Start (or record a past) illness episode
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canAdd) {
+      return NextResponse.json({ error: 'You do not have permission to add illnesses in this group' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { data, error } = parseIllnessEpisodeInput(body);
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (data.childId) {
+      const child = await prisma.child.findUnique({
+        where: { id: data.childId, groupId },
+        select: { id: true },
+      });
+      if (!child) {
+        return NextResponse.json({ error: 'Child not found in this group' }, { status: 400 });
+      }
+    }
+
+    const created = await prisma.illnessEpisode.create({
+      data: {
+        ...data,
+        groupId,
+      },
+    });
+
+    const [episode] = await loadIllnessEpisodes(prisma, groupId, { id: created.id });
+
+    return NextResponse.json({
+      success: true,
+      data: { episode },
+    });
+  } catch (error) {
+    console.error('Error creating illness episode:', error);
+    return NextResponse.json(
+      { error: 'Failed to create illness episode' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,267 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { recordEventRevision, snapshotEvent } from '@/lib/eventRevisions';
+import { publishToGroup } from '@/lib/groupStream';
+import { isValidTimeZone, resolveEventTimestamp, type EventTimestamp } from '@/lib/timezone';
+import { validateEventPayload } from '@/lib/validation';
+import {
+  buildEventDetailsCreate,
+  detectImportFormat,
+  getDuplicateKey,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  readImportRows,
+  rowToEventPayload,
+  type ImportEventPayload,
+  type ImportRow,
+} from '@/lib/eventImport';
+import type { ImportRowStatus } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+interface ParsedRow {
+  rowNumber: number;
+  row: ImportRow;
+  payload: ImportEventPayload;
+  childId: string | null;
+  timestamp: EventTimestamp | null;
+  errors: string[];
+  status: ImportRowStatus;
+}
+
+// POST /api/groups/[groupId]/import - Preview (dryRun) or import events from a CSV or JSON export
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+      include: {
+        group: {
+          select: { timezone: true },
+        },
+      },
+    });
+
+    if (!membership || !membership.canAdd) {
+      return NextResponse.json({ error: 'You do not have permission to add events to this group' }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const dryRun = formData.get('dryRun') !== 'false';
+    const requestedChildId = formData.get('childId');
+    const requestedTimeZone = formData.get('timezone');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Please choose a CSV or JSON file to import' }, { status: 400 });
+    }
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'Files must be 5 MB or smaller' }, { status: 400 });
+    }
+
+    const content = await file.text();
+    const format = detectImportFormat(file.name, content);
+
+    let rows: ImportRow[];
+    try {
+      rows = readImportRows(content, format);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return NextResponse.json({ error: `We couldn't read that file: ${message}` }, { status: 400 });
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'That file has no events in it' }, { status: 400 });
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: `Files can have at most ${MAX_IMPORT_ROWS} events` }, { status: 400 });
+    }
+
+    const children = await prisma.child.findMany({
+      where: { groupId },
+      select: { id: true, name: true },
+    });
+
+    if (requestedChildId && !children.some((child: { id: string }) => child.id === requestedChildId)) {
+      return NextResponse.json({ error: 'Child not found in this group' }, { status: 400 });
+    }
+
+    const defaultChildId = typeof requestedChildId === 'string' && requestedChildId
+      ? requestedChildId
+      : children.length === 1 ? children[0].id : null;
+
+    // Rows without their own timezone are read in the uploader's, then the group's
+    const fallbackTimeZone = isValidTimeZone(requestedTimeZone) ? requestedTimeZone : membership.group.timezone;
+
+    // CSV row numbers count the header line so they match what a spreadsheet shows
+    const firstRowNumber = format === 'csv' ? 2 : 1;
+
+    const parsedRows: ParsedRow[] = rows.map((row, index) => {
+      const payload = rowToEventPayload(row);
+      const errors = Object.values(validateEventPayload(payload.type, payload));
+
+      let childId = defaultChildId;
+      if (row.childName) {
+        const match = children.find((child: { name: string }) => child.name.toLowerCase() === row.childName.toLowerCase());
+        if (match) {
+          childId = match.id;
+        } else {
+          errors.push(`No child named "${row.childName}" in this group`);
+        }
+      } else if (!childId && children.length > 1) {
+        errors.push('Please choose which child these events are for');
+      }
+
+      let timestamp: EventTimestamp | null = null;
+      if (errors.length === 0) {
+        const timestampResult = resolveEventTimestamp(payload, fallbackTimeZone);
+        if (timestampResult.timestamp) {
+          timestamp = timestampResult.timestamp;
+        } else {
+          errors.push(timestampResult.error);
+        }
+      }
+
+      return {
+        rowNumber: index + firstRowNumber,
+        row,
+        payload,
+        childId,
+        timestamp,
+        errors,
+        status: errors.length > 0 ? 'error' : 'ready',
+      };
+    });
+
+    // Skip anything already recorded for the same child at the same date, time and type, including repeats within the file
+    const readyRows = parsedRows.filter(parsed => parsed.status === 'ready');
+    if (readyRows.length > 0) {
+      const dates = readyRows.map(parsed => parsed.timestamp!.date.getTime());
+      const existingEvents = await prisma.babyEvent.findMany({
+        where: {
+          groupId,
+          deletedAt: null,
+          date: {
+            gte: new Date(Math.min(...dates)),
+            lte: new Date(Math.max(...dates)),
+          },
+        },
+        select: { childId: true, date: true, time: true, type: true },
+      });
+
+      const seen = new Set(
+        existingEvents.map(event => getDuplicateKey(event.childId, event.date, event.time, event.type))
+      );
+
+      for (const parsed of readyRows) {
+        const key = getDuplicateKey(parsed.childId, parsed.timestamp!.date, parsed.timestamp!.time, parsed.payload.type!);
+        if (seen.has(key)) {
+          parsed.status = 'duplicate';
+        } else {
+          seen.add(key);
+        }
+      }
+    }
+
+    const rowsToImport = parsedRows.filter(parsed => parsed.status === 'ready');
+
+    if (!dryRun && rowsToImport.length > 0) {
+      // All or nothing, so a failure halfway never leaves a partial import behind
+      await prisma.$transaction(async (tx) => {
+        for (const parsed of rowsToImport) {
+          const event = await tx.babyEvent.create({
+            data: {
+              ...parsed.timestamp!,
+              type: parsed.payload.type!,
+              notes: parsed.payload.notes || null,
+              groupId,
+              childId: parsed.childId,
+              createdById: dbUser.id,
+              ...buildEventDetailsCreate(parsed.payload),
+            },
+            include: {
+              feedingEvent: true,
+              diaperEvent: true,
+              sleepEvent: true,
+              otherEvent: true,
+              growthEvent: true,
+              medicationEvent: true,
+              pumpingEvent: true,
+              temperatureEvent: true,
+              symptomEvent: true,
+              child: {
+                select: { id: true, name: true },
+              },
+            },
+          });
+
+          await recordEventRevision(tx, {
+            eventId: event.id,
+            groupId,
+            userId: dbUser.id,
+            action: 'create',
+            before: null,
+            after: snapshotEvent(event),
+          });
+
+          parsed.status = 'imported';
+        }
+      }, { timeout: 120000 });
+
+      publishToGroup(groupId, { type: 'events.changed' });
+    }
+
+    const countStatus = (status: ImportRowStatus) => parsedRows.filter(parsed => parsed.status === status).length;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        dryRun,
+        format,
+        rows: parsedRows.map(parsed => ({
+          rowNumber: parsed.rowNumber,
+          status: parsed.status,
+          type: parsed.payload.type || null,
+          date: parsed.timestamp ? parsed.timestamp.date.toISOString().split('T')[0] : parsed.row.date || null,
+          time: parsed.timestamp?.time || parsed.row.time || null,
+          childName: children.find((child: { id: string }) => child.id === parsed.childId)?.name || null,
+          description: parsed.payload.description || parsed.payload.notes || null,
+          errors: parsed.errors,
+        })),
+        summary: {
+          total: parsedRows.length,
+          ready: countStatus('ready'),
+          duplicates: countStatus('duplicate'),
+          errors: countStatus('error'),
+          imported: countStatus('imported'),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error importing events:', error);
+    return NextResponse.json(
+      { error: 'Failed to import events' },
+      { status: 500 }
+    );
+  }
+}
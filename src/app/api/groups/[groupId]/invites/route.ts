@@ -0,0 +1,250 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { GroupInvite, User } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import {
+  generateInviteCode,
+  getInviteStatus,
+  getPermissionsForRole,
+  INVITE_ROLES,
+  InvitePermissions,
+} from '@/lib/invites';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+const DEFAULT_EXPIRY_DAYS = 7;
+
+// Look up the requesting member and make sure they are allowed to manage invites
+async function getSharingMember(userId: string, groupId: string) {
+  const membership = await prisma.userGroupMember.findUnique({
+    where: {
+      userId_groupId: {
+        userId,
+        groupId,
+      },
+    },
+    include: {
+      group: true,
+    },
+  });
+
+  if (!membership) {
+    return { error: NextResponse.json({ error: 'Not a member of this group' }, { status: 403 }) };
+  }
+
+  const isOwner = membership.group.ownerId === userId;
+  if (!isOwner && !membership.canShare) {
+    return { error: NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 }) };
+  }
+
+  return { membership, isOwner };
+}
+
+function formatInvite(invite: GroupInvite & { createdBy: Pick<User, 'id' | 'name'> | null }) {
+  return {
+    id: invite.id,
+    code: invite.code,
+    role: invite.role,
+    permissions: {
+      canRead: invite.canRead,
+      canAdd: invite.canAdd,
+      canEdit: invite.canEdit,
+      canDelete: invite.canDelete,
+      canShare: invite.canShare,
+    },
+    expiresAt: invite.expiresAt,
+    maxUses: invite.maxUses,
+    useCount: invite.useCount,
+    revokedAt: invite.revokedAt,
+    status: getInviteStatus(invite),
+    createdAt: invite.createdAt,
+    createdBy: invite.createdBy
+      ? { id: invite.createdBy.id, name: invite.createdBy.name }
+      : null,
+  };
+}
+
+// GET /api/groups/[groupId]/invites - List invites for a group
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const access = await getSharingMember(dbUser.id, groupId);
+    if (access.error) {
+      return access.error;
+    }
+
+    const invites = await prisma.groupInvite.findMany({
+      where: { groupId },
+      include: {
+        createdBy: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { invites: invites.map(formatInvite) },
+    });
+  } catch (error) {
+    console.error('Error fetching invites:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invites' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/groups/[groupId]/invites - Create a new invite code
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+    const body = await request.json();
+    const { role = 'viewer', permissions, expiresInDays = DEFAULT_EXPIRY_DAYS, maxUses = null } = body;
+
+    const access = await getSharingMember(dbUser.id, groupId);
+    if (access.error) {
+      return access.error;
+    }
+    const { membership, isOwner } = access;
+
+    if (!INVITE_ROLES.includes(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+
+    if (expiresInDays !== null && (typeof expiresInDays !== 'number' || expiresInDays <= 0)) {
+      return NextResponse.json({ error: 'expiresInDays must be a positive number or null' }, { status: 400 });
+    }
+
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses <= 0)) {
+      return NextResponse.json({ error: 'maxUses must be a positive whole number or null' }, { status: 400 });
+    }
+
+    const granted: InvitePermissions = {
+      ...getPermissionsForRole(role),
+      ...(permissions || {}),
+    };
+
+    // Members can't hand out more than they have themselves; owners and admins can grant anything
+    if (!isOwner && membership.role !== 'admin') {
+      if (role === 'admin') {
+        return NextResponse.json({ error: 'Only admins can invite other admins' }, { status: 403 });
+      }
+      const exceeds = (Object.keys(granted) as (keyof InvitePermissions)[])
+        .some(key => granted[key] && !membership[key]);
+      if (exceeds) {
+        return NextResponse.json({ error: 'Cannot grant permissions you do not have' }, { status: 403 });
+      }
+    }
+
+    // Retry on the (very unlikely) chance of a code collision
+    let code = generateInviteCode();
+    while (await prisma.groupInvite.findUnique({ where: { code } })) {
+      code = generateInviteCode();
+    }
+
+    const invite = await prisma.groupInvite.create({
+      data: {
+        code,
+        groupId,
+        createdById: dbUser.id,
+        role,
+        canRead: !!granted.canRead,
+        canAdd: !!granted.canAdd,
+        canEdit: !!granted.canEdit,
+        canDelete: !!granted.canDelete,
+        canShare: !!granted.canShare,
+        expiresAt: expiresInDays !== null
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+          : null,
+        maxUses,
+      },
+      include: {
+        createdBy: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { invite: formatInvite(invite) },
+    });
+  } catch (error) {
+    console.error('Error creating invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to create invite' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/groups/[groupId]/invites - Revoke an invite
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+    const { inviteId } = await request.json();
+
+    const access = await getSharingMember(dbUser.id, groupId);
+    if (access.error) {
+      return access.error;
+    }
+
+    const invite = await prisma.groupInvite.findUnique({
+      where: {
+        id: inviteId,
+        groupId: groupId, // Ensure invite belongs to this group
+      },
+    });
+
+    if (!invite) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    if (!invite.revokedAt) {
+      await prisma.groupInvite.update({
+        where: { id: invite.id },
+        data: { revokedAt: new Date() },
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { ensureUserExists } from '@/lib/auth-utils';
+import { publishToGroup } from '@/lib/groupStream';
 
 interface RouteParams {
   params: Promise<{ groupId: string }>;
@@ -54,6 +55,8 @@ export async function POST(
       },
     });
 
+    publishToGroup(groupId, { type: 'membership.changed', userId: dbUser.id, change: 'left' });
+
     return NextResponse.json({ 
       success: true, 
       message: 'Successfully left the group' 
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { parseMedicationInput } from '@/lib/medications';
+
+interface RouteParams {
+  params: Promise<{ groupId: string; medicationId: string }>;
+}
+
+// PUT /api/groups/[groupId]/medications/[medicationId] - Update a medication's dose and schedule, or restart a finished course
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, medicationId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canEdit) {
+      return NextResponse.json({ error: 'You do not have permission to manage medications in this group' }, { status: 403 });
+    }
+
+    const existingMedication = await prisma.medication.findUnique({
+      where: {
+        id: medicationId,
+        groupId: groupId, // Ensure medication belongs to this group
+      },
+    });
+
+    if (!existingMedication) {
+      return NextResponse.json({ error: 'Medication not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { data, error } = parseMedicationInput(body);
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (data.childId) {
+      const child = await prisma.child.findUnique({
+        where: { id: data.childId, groupId },
+        select: { id: true },
+      });
+      if (!child) {
+        return NextResponse.json({ error: 'Child not found in this group' }, { status: 400 });
+      }
+    }
+
+    const medication = await prisma.medication.update({
+      where: { id: medicationId },
+      data: {
+        ...data,
+        // Only touch the course status when the client sends one
+        ...(typeof body.archived === 'boolean' && {
+          archivedAt: body.archived ? existingMedication.archivedAt ?? new Date() : null,
+        }),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { medication },
+    });
+  } catch (error) {
+    console.error('Error updating medication:', error);
+    return NextResponse.json(
+      { error: 'Failed to update medication' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/groups/[groupId]/medications/[medicationId] - Finish a course (logged doses are kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, medicationId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canEdit) {
+      return NextResponse.json({ error: 'You do not have permission to manage medications in this group' }, { status: 403 });
+    }
+
+    const existingMedication = await prisma.medication.findUnique({
+      where: {
+        id: medicationId,
+        groupId: groupId,
+      },
+    });
+
+    if (!existingMedication) {
+      return NextResponse.json({ error: 'Medication not found' }, { status: 404 });
+    }
+
+    if (!existingMedication.archivedAt) {
+      await prisma.medication.update({
+        where: { id: medicationId },
+        data: { archivedAt: new Date() },
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error archiving medication:', error);
+    return NextResponse.json(
+      { error: 'Failed to finish medication' },
+      { status: 500 }
+    );
+  }
+}
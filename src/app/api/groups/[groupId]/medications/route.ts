@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { getMedicationStatus, parseMedicationInput, RECENT_DOSE_HOURS } from '@/lib/medications';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+// GET /api/groups/[groupId]/medications - List a group's medications with when each is next due
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+    const { searchParams } = new URL(request.url);
+    const includeArchived = searchParams.get('includeArchived') === 'true';
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+      include: {
+        group: {
+          select: { timezone: true },
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const now = new Date();
+    const since = new Date(now.getTime() - RECENT_DOSE_HOURS * 60 * 60 * 1000);
+
+    const medications = await prisma.medication.findMany({
+      where: {
+        groupId,
+        ...(!includeArchived && { archivedAt: null }),
+      },
+      include: {
+        child: {
+          select: { id: true, name: true },
+        },
+        doses: {
+          where: {
+            event: {
+              deletedAt: null,
+              occurredAt: { gte: since },
+            },
+          },
+          select: {
+            eventId: true,
+            dose: true,
+            event: {
+              select: { occurredAt: true },
+            },
+          },
+        },
+      },
+      orderBy: [
+        { archivedAt: { sort: 'desc', nulls: 'first' } },
+        { name: 'asc' },
+      ],
+    });
+
+    const data = medications.map(({ doses, ...medication }) => {
+      const recentDoses = doses
+        .map(dose => ({ eventId: dose.eventId, occurredAt: dose.event.occurredAt.toISOString(), dose: dose.dose }))
+        .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+
+      return {
+        ...medication,
+        recentDoses,
+        status: getMedicationStatus(medication, recentDoses, membership.group.timezone, now),
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { medications: data },
+    });
+  } catch (error) {
+    console.error('Error fetching medications:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch medications' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/groups/[groupId]/medications - Add a medication and its schedule
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canEdit) {
+      return NextResponse.json({ error: 'You do not have permission to manage medications in this group' }, { status: 403 });
+    }
+
+    const { data, error } = parseMedicationInput(await request.json());
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (data.childId) {
+      const child = await prisma.child.findUnique({
+        where: { id: data.childId, groupId },
+        select: { id: true },
+      });
+      if (!child) {
+        return NextResponse.json({ error: 'Child not found in this group' }, { status: 400 });
+      }
+    }
+
+    const medication = await prisma.medication.create({
+      data: {
+        ...data,
+        groupId,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { medication },
+    });
+  } catch (error) {
+    console.error('Error creating medication:', error);
+    return NextResponse.json(
+      { error: 'Failed to create medication' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { ensureUserExists } from '@/lib/auth-utils';
+import { publishToGroup } from '@/lib/groupStream';
 
 interface RouteParams {
   params: Promise<{ groupId: string }>;
@@ -171,6 +172,8 @@ export async function PUT(
       },
     });
 
+    publishToGroup(groupId, { type: 'membership.changed', userId: updatedMember.userId, change: 'updated' });
+
     return NextResponse.json(updatedMember);
   } catch (error) {
     console.error('Error updating member:', error);
@@ -244,6 +247,8 @@ export async function DELETE(
       },
     });
 
+    publishToGroup(groupId, { type: 'membership.changed', userId: memberToRemove.userId, change: 'removed' });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error removing member:', error);
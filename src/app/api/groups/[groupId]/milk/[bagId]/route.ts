@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { MILK_STORAGE_LOCATIONS, toMilkBag } from '@/lib/milkInventory';
+
+interface RouteParams {
+  params: Promise<{ groupId: string; bagId: string }>;
+}
+
+const MAX_LABEL_LENGTH = 100;
+
+// PUT /api/groups/[groupId]/milk/[bagId] - Move a bag between fridge and freezer, or correct what's left
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, bagId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canEdit) {
+      return NextResponse.json({ error: 'You do not have permission to manage milk in this group' }, { status: 403 });
+    }
+
+    const existingBag = await prisma.milkBag.findUnique({
+      where: {
+        id: bagId,
+        groupId: groupId, // Ensure bag belongs to this group
+      },
+    });
+
+    if (!existingBag || existingBag.discardedAt) {
+      return NextResponse.json({ error: 'Milk not found' }, { status: 404 });
+    }
+
+    const { location, remaining, label } = await request.json();
+    const updates: { location?: string; thawedAt?: Date; remaining?: number; label?: string | null } = {};
+
+    if (location !== undefined && location !== existingBag.location) {
+      if (!(location in MILK_STORAGE_LOCATIONS)) {
+        return NextResponse.json({ error: 'Choose the fridge or the freezer' }, { status: 400 });
+      }
+      if (location === 'freezer' && existingBag.thawedAt) {
+        return NextResponse.json({ error: 'Thawed milk can\'t be frozen again' }, { status: 409 });
+      }
+      updates.location = location;
+      // Out of the freezer starts the thawed-milk clock
+      if (location === 'fridge') {
+        updates.thawedAt = new Date();
+      }
+    }
+
+    if (remaining !== undefined) {
+      if (!Number.isInteger(remaining) || remaining < 0 || remaining > existingBag.volume) {
+        return NextResponse.json({ error: `What's left must be between 0 and ${existingBag.volume} ml` }, { status: 400 });
+      }
+      updates.remaining = remaining;
+    }
+
+    if (label !== undefined) {
+      if (label !== null && typeof label !== 'string') {
+        return NextResponse.json({ error: 'Invalid label' }, { status: 400 });
+      }
+      if (label && label.trim().length > MAX_LABEL_LENGTH) {
+        return NextResponse.json({ error: `Label must be ${MAX_LABEL_LENGTH} characters or fewer` }, { status: 400 });
+      }
+      updates.label = label?.trim() || null;
+    }
+
+    const bag = await prisma.milkBag.update({
+      where: { id: bagId },
+      data: updates,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { bag: toMilkBag(bag) },
+    });
+  } catch (error) {
+    console.error('Error updating milk:', error);
+    return NextResponse.json(
+      { error: 'Failed to update milk' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/groups/[groupId]/milk/[bagId] - Throw a bag away (feedings that used it keep their history)
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId, bagId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canEdit) {
+      return NextResponse.json({ error: 'You do not have permission to manage milk in this group' }, { status: 403 });
+    }
+
+    const existingBag = await prisma.milkBag.findUnique({
+      where: {
+        id: bagId,
+        groupId: groupId,
+      },
+    });
+
+    if (!existingBag) {
+      return NextResponse.json({ error: 'Milk not found' }, { status: 404 });
+    }
+
+    if (!existingBag.discardedAt) {
+      await prisma.milkBag.update({
+        where: { id: bagId },
+        data: { discardedAt: new Date() },
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error discarding milk:', error);
+    return NextResponse.json(
+      { error: 'Failed to discard milk' },
+      { status: 500 }
+    );
+  }
+}
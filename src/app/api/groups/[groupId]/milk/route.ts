@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { parseMilkBagInput, summarizeMilkInventory, toMilkBag } from '@/lib/milkInventory';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+// GET /api/groups/[groupId]/milk - Stored expressed milk, in the order feedings use it
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const bags = await prisma.milkBag.findMany({
+      where: {
+        groupId,
+        discardedAt: null,
+        remaining: { gt: 0 },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: summarizeMilkInventory(bags),
+    });
+  } catch (error) {
+    console.error('Error fetching milk inventory:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch milk inventory' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/groups/[groupId]/milk - Add a bag or bottle of milk to storage
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canAdd) {
+      return NextResponse.json({ error: 'You do not have permission to add milk in this group' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { data, error } = parseMilkBagInput(body);
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const bag = await prisma.milkBag.create({
+      data: {
+        ...data,
+        remaining: data.volume,
+        groupId,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { bag: toMilkBag(bag) },
+    });
+  } catch (error) {
+    console.error('Error adding milk:', error);
+    return NextResponse.json(
+      { error: 'Failed to add milk' },
+      { status: 500 }
+    );
+  }
+}
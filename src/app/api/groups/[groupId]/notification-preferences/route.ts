@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { DEFAULT_NOTIFICATION_SETTINGS, QUIET_HOURS_PATTERN } from '@/lib/notifications';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+const toSettings = (preference: { feedingReminders: boolean; caregiverAlerts: boolean; quietHoursStart: string | null; quietHoursEnd: string | null }) => ({
+  feedingReminders: preference.feedingReminders,
+  caregiverAlerts: preference.caregiverAlerts,
+  quietHoursStart: preference.quietHoursStart,
+  quietHoursEnd: preference.quietHoursEnd,
+});
+
+// GET /api/groups/[groupId]/notification-preferences - Your notification settings for this group
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const [preference, deviceCount] = await Promise.all([
+      prisma.notificationPreference.findUnique({
+        where: { userId_groupId: { userId: dbUser.id, groupId } },
+      }),
+      prisma.pushSubscription.count({
+        where: { userId: dbUser.id },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        preferences: preference ? toSettings(preference) : DEFAULT_NOTIFICATION_SETTINGS,
+        deviceCount,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notification preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/groups/[groupId]/notification-preferences - Update your notification settings for this group
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+    const { feedingReminders, caregiverAlerts, quietHoursStart, quietHoursEnd } = await request.json();
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    if (typeof feedingReminders !== 'boolean' || typeof caregiverAlerts !== 'boolean') {
+      return NextResponse.json({ error: 'feedingReminders and caregiverAlerts must be true or false' }, { status: 400 });
+    }
+
+    // Quiet hours are both set or both cleared
+    const hasQuietHours = !!quietHoursStart || !!quietHoursEnd;
+    if (hasQuietHours && (!QUIET_HOURS_PATTERN.test(quietHoursStart || '') || !QUIET_HOURS_PATTERN.test(quietHoursEnd || ''))) {
+      return NextResponse.json({ error: 'Quiet hours need a start and an end in HH:mm format' }, { status: 400 });
+    }
+
+    const settings = {
+      feedingReminders,
+      caregiverAlerts,
+      quietHoursStart: hasQuietHours ? quietHoursStart : null,
+      quietHoursEnd: hasQuietHours ? quietHoursEnd : null,
+    };
+
+    const preference = await prisma.notificationPreference.upsert({
+      where: { userId_groupId: { userId: dbUser.id, groupId } },
+      create: { userId: dbUser.id, groupId, ...settings },
+      update: settings,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { preferences: toSettings(preference) },
+    });
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notification preferences' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import {
+  buildVisitReport,
+  DEFAULT_REPORT_DAYS,
+  getReportDayCount,
+  loadReportPhoto,
+  MAX_REPORT_DAYS,
+  MAX_REPORT_PHOTOS,
+  renderVisitReportPdf,
+} from '@/lib/report';
+import { addDaysToDate, getZonedDateTime, startOfZonedDay } from '@/lib/timezone';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/groups/[groupId]/report - Printable PDF summary of a date range for a checkup
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+    const { searchParams } = new URL(request.url);
+    const childId = searchParams.get('childId');
+    const photoIds = (searchParams.get('photos') || '').split(',').filter(Boolean).slice(0, MAX_REPORT_PHOTOS);
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+      include: {
+        group: {
+          select: { name: true, timezone: true },
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const timeZone = membership.group.timezone;
+    const to = searchParams.get('to') || getZonedDateTime(new Date(), timeZone).date;
+    const from = searchParams.get('from') || addDaysToDate(to, -(DEFAULT_REPORT_DAYS - 1));
+
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      return NextResponse.json({ error: 'from and to must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const dayCount = getReportDayCount(from, to);
+    if (dayCount < 1 || dayCount > MAX_REPORT_DAYS) {
+      return NextResponse.json(
+        { error: `Reports cover between 1 and ${MAX_REPORT_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const child = childId
+      ? await prisma.child.findFirst({
+        where: { id: childId, groupId },
+        select: { name: true, birthDate: true },
+      })
+      : null;
+
+    if (childId && !child) {
+      return NextResponse.json({ error: 'Child not found in this group' }, { status: 404 });
+    }
+
+    const [events, photos] = await Promise.all([
+      prisma.babyEvent.findMany({
+        where: {
+          groupId,
+          deletedAt: null,
+          ...(childId && { childId }),
+          occurredAt: {
+            gte: startOfZonedDay(from, timeZone),
+            lt: startOfZonedDay(addDaysToDate(to, 1), timeZone),
+          },
+        },
+        include: {
+          feedingEvent: true,
+          diaperEvent: true,
+          sleepEvent: true,
+          otherEvent: true,
+          symptomEvent: true,
+        },
+        orderBy: [
+          { occurredAt: 'asc' },
+        ],
+      }),
+      photoIds.length > 0
+        ? prisma.eventImage.findMany({
+          where: {
+            id: { in: photoIds },
+            event: { groupId, deletedAt: null },
+          },
+          include: {
+            event: {
+              select: { occurredAt: true, timezone: true },
+            },
+          },
+        })
+        : [],
+    ]);
+
+    const reportPhotos = await Promise.all(photos.map(async photo => ({
+      url: photo.url,
+      caption: photo.caption,
+      occurredAt: photo.event.occurredAt,
+      timezone: photo.event.timezone,
+      image: await loadReportPhoto(photo.url),
+    })));
+
+    const report = buildVisitReport({
+      events,
+      photos: reportPhotos.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime()),
+      from,
+      to,
+      timeZone,
+      groupName: membership.group.name,
+      childName: child?.name,
+      childBirthDate: child?.birthDate,
+    });
+
+    const pdf = await renderVisitReportPdf(report);
+
+    return new Response(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="checkup-report-${from}-to-${to}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { subscribeToGroup } from '@/lib/groupStream';
+
+// Streams stay open for as long as the page does
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+const HEARTBEAT_INTERVAL = 1000 * 25; // Keeps proxies from closing an idle connection
+const RECONNECT_DELAY = 1000 * 5;
+
+// GET /api/groups/[groupId]/stream - Server-sent events for moments and membership changes in a group
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const encoder = new TextEncoder();
+    let close = () => {};
+
+    const stream = new ReadableStream({
+      start(controller) {
+        let isClosed = false;
+        const send = (chunk: string) => {
+          if (!isClosed) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+        };
+
+        const unsubscribe = subscribeToGroup(groupId, (message) => {
+          send(`data: ${JSON.stringify(message)}\n\n`);
+
+          // Access may have changed; the browser reconnects and is checked again
+          if (message.type === 'membership.changed' && message.userId === dbUser.id) {
+            close();
+          }
+        });
+        const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+        close = () => {
+          if (isClosed) return;
+          isClosed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled by the browser
+          }
+        };
+        request.signal.addEventListener('abort', close);
+
+        send(`retry: ${RECONNECT_DELAY}\n: connected\n\n`);
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Stop nginx from buffering the stream
+      },
+    });
+  } catch (error) {
+    console.error('Error opening group stream:', error);
+    return NextResponse.json(
+      { error: 'Failed to open group stream' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { resolveEventChildId } from '@/lib/children';
+import { TIMER_EVENT_TYPES } from '@/lib/timers';
+import { recordEventRevision, snapshotEvent } from '@/lib/eventRevisions';
+import { publishEventChange } from '@/lib/groupStream';
+import { resolveEventTimestamp } from '@/lib/timezone';
+import { hasFieldErrors, validateTimerStart, VALIDATION_FAILED_MESSAGE } from '@/lib/validation';
+import { EventType } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+const timerEventInclude = {
+  feedingEvent: true,
+  sleepEvent: true,
+  timer: true,
+  child: {
+    select: { id: true, name: true },
+  },
+};
+
+// GET /api/groups/[groupId]/timers - List timers still running in a group
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const events = await prisma.babyEvent.findMany({
+      where: {
+        groupId,
+        timer: { isNot: null },
+        deletedAt: null,
+      },
+      include: timerEventInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { events },
+    });
+  } catch (error) {
+    console.error('Error fetching timers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timers' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/groups/[groupId]/timers - Start a feeding or sleep timer
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+    const body = await request.json();
+    const { type, date, time, timezone, childId, feedingType, side, sleepType } = body;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+      include: {
+        group: {
+          select: { timezone: true },
+        },
+      },
+    });
+
+    if (!membership || !membership.canAdd) {
+      return NextResponse.json({ error: 'You do not have permission to add events to this group' }, { status: 403 });
+    }
+
+    if (!TIMER_EVENT_TYPES.includes(type)) {
+      return NextResponse.json({ error: 'Timers can only be started for feedings and sleeps' }, { status: 400 });
+    }
+
+    // Date, time and timezone come from the starting device so the event lands in its local day
+    const timestampResult = resolveEventTimestamp({ date, time, timezone }, membership.group.timezone);
+    if (!timestampResult.timestamp) {
+      return NextResponse.json({ error: timestampResult.error }, { status: 400 });
+    }
+    const { timestamp } = timestampResult;
+
+    const fieldErrors = validateTimerStart(type, { feedingType, side, sleepType });
+    if (hasFieldErrors(fieldErrors)) {
+      return NextResponse.json(
+        { error: VALIDATION_FAILED_MESSAGE, fieldErrors },
+        { status: 422 }
+      );
+    }
+
+    const childResult = await resolveEventChildId(groupId, childId);
+    if (childResult.error) {
+      return NextResponse.json({ error: childResult.error }, { status: 400 });
+    }
+
+    // One running timer per child and type keeps two devices from double-starting
+    const existing = await prisma.babyEvent.findFirst({
+      where: {
+        groupId,
+        type,
+        childId: childResult.childId,
+        timer: { isNot: null },
+        deletedAt: null,
+      },
+      include: timerEventInclude,
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          error: `A ${type} timer is already running`,
+          data: { event: existing },
+        },
+        { status: 409 }
+      );
+    }
+
+    const event = await prisma.babyEvent.create({
+      data: {
+        ...timestamp,
+        type,
+        groupId,
+        childId: childResult.childId,
+        createdById: dbUser.id,
+        ...(type === EventType.FEEDING
+          ? {
+              feedingEvent: {
+                create: {
+                  feedingType,
+                  side: side || null,
+                },
+              },
+            }
+          : {
+              sleepEvent: {
+                create: {
+                  sleepType,
+                  startTime: timestamp.time,
+                },
+              },
+            }),
+        timer: {
+          create: {
+            status: 'running',
+            side: type === EventType.FEEDING ? side || null : null,
+          },
+        },
+      },
+      include: timerEventInclude,
+    });
+
+    await recordEventRevision(prisma, {
+      eventId: event.id,
+      groupId,
+      userId: dbUser.id,
+      action: 'create',
+      before: null,
+      after: snapshotEvent(event),
+    });
+
+    await publishEventChange(prisma, groupId, event.id, 'event.created').catch(error => {
+      console.error('Error publishing group update:', error);
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { event },
+    });
+  } catch (error) {
+    console.error('Error starting timer:', error);
+    return NextResponse.json(
+      { error: 'Failed to start timer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+// GET /api/groups/[groupId]/trash - List deleted events that can still be restored
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { groupId } = await params;
+
+    const membership = await prisma.userGroupMember.findUnique({
+      where: {
+        userId_groupId: {
+          userId: dbUser.id,
+          groupId: groupId,
+        },
+      },
+    });
+
+    if (!membership || !membership.canRead) {
+      return NextResponse.json({ error: 'You do not have access to this group' }, { status: 403 });
+    }
+
+    const events = await prisma.babyEvent.findMany({
+      where: {
+        groupId,
+        deletedAt: { not: null },
+      },
+      include: {
+        images: true,
+        feedingEvent: true,
+        diaperEvent: true,
+        sleepEvent: true,
+        otherEvent: true,
+        growthEvent: true,
+        medicationEvent: true,
+        pumpingEvent: true,
+        temperatureEvent: true,
+        symptomEvent: true,
+        child: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        events,
+        retentionDays: TRASH_RETENTION_DAYS,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trash' },
+      { status: 500 }
+    );
+  }
+}
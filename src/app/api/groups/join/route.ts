@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { ensureUserExists } from '@/lib/auth-utils';
+import { getInviteStatus, normalizeInviteCode } from '@/lib/invites';
+import { publishToGroup } from '@/lib/groupStream';
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,27 +25,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // For demo purposes, we'll use a simple invite code system
-    // In production, you'd want to store invite codes securely
-    // For now, let's assume invite codes are group IDs
-    
-    // Find the group (this is simplified - in real app, you'd have proper invite code system)
-    const group = await prisma.userGroup.findFirst({
-      where: {
-        OR: [
-          { id: inviteCode.trim() },
-          // You could add more conditions here for actual invite codes
-        ]
-      }
+    const invite = await prisma.groupInvite.findUnique({
+      where: { code: normalizeInviteCode(inviteCode) },
+      include: { group: true },
     });
 
-    if (!group) {
+    if (!invite) {
       return NextResponse.json(
         { success: false, error: 'Invalid invite code' },
         { status: 400 }
       );
     }
 
+    const status = getInviteStatus(invite);
+    if (status !== 'active') {
+      const messages: Record<string, string> = {
+        expired: 'This invite code has expired',
+        revoked: 'This invite code has been revoked',
+        used_up: 'This invite code has already been used the maximum number of times',
+      };
+      return NextResponse.json(
+        { success: false, error: messages[status] },
+        { status: 400 }
+      );
+    }
+
+    const group = invite.group;
+
     // Check if user is already a member
     const existingMember = await prisma.userGroupMember.findUnique({
       where: {
@@ -61,20 +69,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Add user to group with viewer permissions by default
-    const membership = await prisma.userGroupMember.create({
-      data: {
-        userId: dbUser.id,
-        groupId: group.id,
-        role: 'viewer',
-        canRead: true,
-        canAdd: false,
-        canEdit: false,
-        canDelete: false,
-        canShare: false,
+    // Claim a use and add the member together so concurrent joins can't exceed maxUses
+    const membership = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.groupInvite.updateMany({
+        where: {
+          id: invite.id,
+          revokedAt: null,
+          ...(invite.maxUses !== null && { useCount: { lt: invite.maxUses } }),
+        },
+        data: { useCount: { increment: 1 } },
+      });
+
+      if (claimed.count === 0) {
+        return null;
       }
+
+      return tx.userGroupMember.create({
+        data: {
+          userId: dbUser.id,
+          groupId: group.id,
+          role: invite.role,
+          canRead: invite.canRead,
+          canAdd: invite.canAdd,
+          canEdit: invite.canEdit,
+          canDelete: invite.canDelete,
+          canShare: invite.canShare,
+        }
+      });
     });
 
+    if (!membership) {
+      return NextResponse.json(
+        { success: false, error: 'This invite code is no longer valid' },
+        { status: 400 }
+      );
+    }
+
+    publishToGroup(group.id, { type: 'membership.changed', userId: dbUser.id, change: 'joined' });
+
     return NextResponse.json({
       success: true,
       data: {
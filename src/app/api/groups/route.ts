@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { randomBytes } from 'crypto';
 import { ensureUserExists } from '@/lib/auth-utils';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/lib/timezone';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,7 +16,7 @@ export async function POST(request: NextRequest) {
 
     const { dbUser } = authResult;
     const body = await request.json();
-    const { name, description } = body;
+    const { name, description, timezone } = body;
 
     if (!name?.trim()) {
       return NextResponse.json(
@@ -25,14 +25,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate invite code
-    const inviteCode = randomBytes(8).toString('hex').toUpperCase();
+    if (timezone && !isValidTimeZone(timezone)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown timezone: ${timezone}` },
+        { status: 400 }
+      );
+    }
 
     // Create the group
     const group = await prisma.userGroup.create({
       data: {
         name: name.trim(),
         description: description?.trim() || null,
+        timezone: timezone || DEFAULT_TIMEZONE,
         ownerId: dbUser.id,
       }
     });
@@ -58,7 +63,7 @@ export async function POST(request: NextRequest) {
           id: group.id,
           name: group.name,
           description: group.description,
-          inviteCode: inviteCode, // In real app, store this securely
+          timezone: group.timezone,
         }
       }
     });
@@ -93,7 +98,7 @@ export async function GET() {
           include: {
             owner: true,
             _count: {
-              select: { members: true, events: true }
+              select: { members: true, events: { where: { deletedAt: null } } }
             }
           }
         }
@@ -104,6 +109,7 @@ export async function GET() {
       id: membership.group.id,
       name: membership.group.name,
       description: membership.group.description,
+      timezone: membership.group.timezone,
       role: membership.role,
       permissions: {
         canRead: membership.canRead,
@@ -1,8 +1,9 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { ensureUserExists } from '@/lib/auth-utils'
-import { startOfDay, endOfDay, subDays, format } from 'date-fns'
+import { buildDailyStats, EMPTY_AVERAGES, getStatsAverages } from '@/lib/stats'
+import { buildPredictions } from '@/lib/predictions'
+import { addDaysToDate, DEFAULT_TIMEZONE, getZonedDateTime, startOfZonedDay } from '@/lib/timezone'
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,9 +17,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const days = parseInt(searchParams.get('days') || '7')
     const groupId = searchParams.get('groupId')
-    
-    const endDate = new Date()
-    const startDate = subDays(endDate, days - 1)
+    const childId = searchParams.get('childId')
 
     // Get user's accessible groups (same logic as events API)
     const userMemberships = await prisma.userGroupMember.findMany({
@@ -26,21 +25,35 @@ export async function GET(request: NextRequest) {
         userId: dbUser.id,
         canRead: true,
       },
-      select: { groupId: true },
+      select: {
+        groupId: true,
+        group: {
+          select: { timezone: true },
+        },
+      },
     });
 
     const accessibleGroups = userMemberships.map((m: { groupId: string }) => m.groupId);
 
+    // Days start and end at midnight in the group's timezone, not the server's
+    const timeZone = (
+      userMemberships.find((m: { groupId: string }) => m.groupId === groupId) || userMemberships[0]
+    )?.group.timezone || DEFAULT_TIMEZONE
+    const endDate = getZonedDateTime(new Date(), timeZone).date
+    const startDate = addDaysToDate(endDate, -(days - 1))
+
     if (accessibleGroups.length === 0) {
       return NextResponse.json({
         success: true,
         data: {
           dailyStats: [],
-          averages: { feedingsPerDay: 0, amountPerDay: 0, diapersPerDay: 0, sleepPerDay: 0 },
+          averages: EMPTY_AVERAGES,
+          predictions: buildPredictions([], timeZone),
           period: {
-            startDate: format(startDate, 'yyyy-MM-dd'),
-            endDate: format(endDate, 'yyyy-MM-dd'),
+            startDate,
+            endDate,
             days,
+            timeZone,
           },
         },
       });
@@ -64,100 +77,43 @@ export async function GET(request: NextRequest) {
 
     const events = await prisma.babyEvent.findMany({
       where: {
-        date: {
-          gte: startOfDay(startDate),
-          lte: endOfDay(endDate),
+        occurredAt: {
+          gte: startOfZonedDay(startDate, timeZone),
+          lt: startOfZonedDay(addDaysToDate(endDate, 1), timeZone),
         },
         groupId: groupFilter,
+        deletedAt: null,
+        ...(childId && { childId }),
       },
       include: {
         feedingEvent: true,
         diaperEvent: true,
         sleepEvent: true,
+        timer: {
+          select: { status: true },
+        },
       },
       orderBy: [
-        { date: 'asc' },
-        { time: 'asc' },
+        { occurredAt: 'asc' },
       ],
     })
 
-    const dailyStats = []
-    
-    for (let i = 0; i < days; i++) {
-      const currentDate = subDays(endDate, days - 1 - i)
-      const dateStr = format(currentDate, 'yyyy-MM-dd')
-      
-      const dayEvents = events.filter((event: any) => 
-        format(new Date(event.date), 'yyyy-MM-dd') === dateStr
-      )
-
-      const feedingEvents = dayEvents.filter((e: any) => e.type === 'feeding')
-      const diaperEvents = dayEvents.filter((e: any) => e.type === 'diaper')
-      const sleepEvents = dayEvents.filter((e: any) => e.type === 'sleep')
-
-      const totalAmount = feedingEvents.reduce((sum: number, event: any) => {
-        return sum + (event.feedingEvent?.amount || 0)
-      }, 0)
-
-      const totalFeedingDuration = feedingEvents.reduce((sum: number, event: any) => {
-        return sum + (event.feedingEvent?.duration || 0)
-      }, 0)
-
-      const totalWetDiapers = diaperEvents.reduce((sum: number, event: any) => {
-        return sum + (event.diaperEvent?.wet || 0)
-      }, 0)
-
-      const totalDirtyDiapers = diaperEvents.reduce((sum: number, event: any) => {
-        return sum + (event.diaperEvent?.dirty || 0)
-      }, 0)
-
-      const totalSleep = sleepEvents.reduce((sum: number, event: any) => {
-        return sum + (event.sleepEvent?.duration || 0)
-      }, 0)
-
-      dailyStats.push({
-        date: dateStr,
-        totalFeedings: feedingEvents.length,
-        totalAmount: totalAmount > 0 ? totalAmount : undefined,
-        totalFeedingDuration: totalFeedingDuration > 0 ? totalFeedingDuration : undefined,
-        totalDiapers: totalWetDiapers + totalDirtyDiapers,
-        wetDiapers: totalWetDiapers,
-        dirtyDiapers: totalDirtyDiapers,
-        totalSleep: totalSleep > 0 ? totalSleep : undefined,
-        totalEvents: dayEvents.length,
-      })
-    }
-
-    const totalDays = dailyStats.filter(day => day.totalEvents > 0).length
-    const averages = totalDays > 0 ? {
-      feedingsPerDay: Math.round(
-        dailyStats.reduce((sum, day) => sum + day.totalFeedings, 0) / totalDays * 10
-      ) / 10,
-      amountPerDay: Math.round(
-        dailyStats.reduce((sum, day) => sum + (day.totalAmount || 0), 0) / totalDays * 10
-      ) / 10,
-      diapersPerDay: Math.round(
-        dailyStats.reduce((sum, day) => sum + day.totalDiapers, 0) / totalDays * 10
-      ) / 10,
-      sleepPerDay: Math.round(
-        dailyStats.reduce((sum, day) => sum + (day.totalSleep || 0), 0) / totalDays * 10
-      ) / 10,
-    } : {
-      feedingsPerDay: 0,
-      amountPerDay: 0,
-      diapersPerDay: 0,
-      sleepPerDay: 0,
-    }
+    const dailyStats = buildDailyStats(events, startDate, days, timeZone)
+    const averages = getStatsAverages(dailyStats)
+    // Predictions only make sense for one child's rhythm, so callers pass childId when there are several
+    const predictions = buildPredictions(events, timeZone)
 
     return NextResponse.json({
       success: true,
       data: {
         dailyStats,
         averages,
+        predictions,
         period: {
-          startDate: format(startDate, 'yyyy-MM-dd'),
-          endDate: format(endDate, 'yyyy-MM-dd'),
+          startDate,
+          endDate,
           days,
+          timeZone,
         },
       },
     })
@@ -1,27 +1,61 @@
 import { createUploadthing, type FileRouter } from "uploadthing/next";
+import { UploadThingError } from "uploadthing/server";
+import { prisma } from "@/lib/prisma";
+import { ensureUserExists } from "@/lib/auth-utils";
+import { UPLOAD_GROUP_HEADER } from "@/lib/uploads";
 
 const f = createUploadthing();
 
 // File router for baby event images
 export const ourFileRouter = {
-  babyEventImages: f({ 
-    image: { 
-      maxFileSize: "4MB", 
-      maxFileCount: 5 
-    } 
+  babyEventImages: f({
+    image: {
+      maxFileSize: "4MB",
+      maxFileCount: 5
+    }
   })
-    .middleware(async () => {
-      // For now, we'll allow all uploads
-      // In the future, you might want to add authentication here
-      return { userId: "baby-tracker" };
+    .middleware(async ({ req }) => {
+      const authResult = await ensureUserExists();
+      if (!authResult) {
+        throw new UploadThingError("Please sign in to upload photos");
+      }
+
+      const groupId = req.headers.get(UPLOAD_GROUP_HEADER);
+      if (!groupId) {
+        throw new UploadThingError("Choose a group before uploading photos");
+      }
+
+      // Photos are for events being added or edited, so either permission will do
+      const membership = await prisma.userGroupMember.findUnique({
+        where: {
+          userId_groupId: {
+            userId: authResult.dbUser.id,
+            groupId,
+          },
+        },
+      });
+
+      if (!membership || (!membership.canAdd && !membership.canEdit)) {
+        throw new UploadThingError("You do not have permission to add photos to this group");
+      }
+
+      return { userId: authResult.dbUser.id, groupId };
     })
     .onUploadComplete(async ({ metadata, file }) => {
-      console.log("Upload complete for userId:", metadata.userId);
-      console.log("File URL:", file.url);
-      console.log("File key:", file.key);
-      
+      // Held until an event saved by the same user claims it
+      await prisma.pendingUpload.create({
+        data: {
+          key: file.key,
+          url: file.url,
+          filename: file.name,
+          fileSize: file.size,
+          userId: metadata.userId,
+          groupId: metadata.groupId,
+        },
+      });
+
       // Return metadata that will be available on the client
-      return { 
+      return {
         uploadedBy: metadata.userId,
         url: file.url,
         key: file.key
@@ -29,4 +63,4 @@ export const ourFileRouter = {
     }),
 } satisfies FileRouter;
 
-export type OurFileRouter = typeof ourFileRouter;
\ No newline at end of file
+export type OurFileRouter = typeof ourFileRouter;
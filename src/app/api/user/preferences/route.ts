@@ -47,7 +47,7 @@ export async function GET() {
             _count: {
               select: {
                 members: true,
-                events: true
+                events: { where: { deletedAt: null } }
               }
             }
           }
@@ -82,7 +82,7 @@ export async function GET() {
               _count: {
                 select: {
                   members: true,
-                  events: true
+                  events: { where: { deletedAt: null } }
                 }
               }
             }
@@ -119,7 +119,7 @@ export async function GET() {
           _count: {
             select: {
               members: true,
-              events: true
+              events: { where: { deletedAt: null } }
             }
           }
         }
@@ -151,7 +151,7 @@ export async function GET() {
                 _count: {
                   select: {
                     members: true,
-                    events: true
+                    events: { where: { deletedAt: null } }
                   }
                 }
               }
@@ -166,6 +166,7 @@ export async function GET() {
       id: preferences.activeGroup.id,
       name: preferences.activeGroup.name,
       description: preferences.activeGroup.description || '',
+      timezone: preferences.activeGroup.timezone,
       role: preferences.activeGroup.members[0]?.role || 'viewer',
       permissions: {
         canRead: preferences.activeGroup.members[0]?.canRead || false,
@@ -266,7 +267,7 @@ export async function PUT(request: NextRequest) {
             _count: {
               select: {
                 members: true,
-                events: true
+                events: { where: { deletedAt: null } }
               }
             }
           }
@@ -279,6 +280,7 @@ export async function PUT(request: NextRequest) {
       id: preferences.activeGroup.id,
       name: preferences.activeGroup.name,
       description: preferences.activeGroup.description || '',
+      timezone: preferences.activeGroup.timezone,
       role: preferences.activeGroup.members[0]?.role || 'viewer',
       permissions: {
         canRead: preferences.activeGroup.members[0]?.canRead || false,
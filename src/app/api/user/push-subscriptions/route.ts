@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { isAllowedPushEndpoint } from '@/lib/webPush';
+
+function isValidEndpoint(endpoint: unknown): endpoint is string {
+  return typeof endpoint === 'string' && isAllowedPushEndpoint(endpoint);
+}
+
+// POST /api/user/push-subscriptions - Register this device for push notifications
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { endpoint, keys } = await request.json();
+
+    if (!isValidEndpoint(endpoint) || typeof keys?.p256dh !== 'string' || typeof keys?.auth !== 'string') {
+      return NextResponse.json({ error: 'A push subscription with an endpoint and keys is required' }, { status: 400 });
+    }
+
+    // Signing out unsubscribes the device, so an endpoint still registered to someone
+    // else is not this user's to take over
+    const existing = await prisma.pushSubscription.findUnique({
+      where: { endpoint },
+      select: { userId: true },
+    });
+    if (existing && existing.userId !== dbUser.id) {
+      return NextResponse.json({ error: 'This push subscription belongs to another account' }, { status: 409 });
+    }
+
+    // The same browser re-subscribing updates its existing row
+    const subscription = await prisma.pushSubscription.upsert({
+      where: { endpoint },
+      create: {
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userId: dbUser.id,
+        userAgent: request.headers.get('user-agent'),
+      },
+      update: {
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userAgent: request.headers.get('user-agent'),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { id: subscription.id, createdAt: subscription.createdAt },
+    });
+  } catch (error) {
+    console.error('Error saving push subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to save push subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/user/push-subscriptions - Stop push notifications on this device
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+    const { endpoint } = await request.json();
+
+    await prisma.pushSubscription.deleteMany({
+      where: { endpoint, userId: dbUser.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing push subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove push subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ensureUserExists } from '@/lib/auth-utils';
+import { pushToUsers } from '@/lib/notifications';
+import { getVapidConfig } from '@/lib/webPush';
+
+// POST /api/user/push-subscriptions/test - Send a test notification to all of your devices
+export async function POST() {
+  try {
+    const authResult = await ensureUserExists();
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dbUser } = authResult;
+
+    if (!getVapidConfig()) {
+      return NextResponse.json({ error: 'Push notifications are not configured on this server' }, { status: 503 });
+    }
+
+    const delivered = await pushToUsers(prisma, [dbUser.id], {
+      title: '🔔 Notifications are on',
+      body: 'This is how reminders and updates from your group will look.',
+      url: '/notifications',
+      tag: 'test',
+    });
+
+    return NextResponse.json({ success: true, data: { delivered } });
+  } catch (error) {
+    console.error('Error sending test notification:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test notification' },
+      { status: 500 }
+    );
+  }
+}
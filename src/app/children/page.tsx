@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import { format, differenceInDays, differenceInMonths, parseISO } from "date-fns";
+import Image from "next/image";
+import Link from "next/link";
+import { Plus, Edit, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { ChildForm } from "@/components/forms/ChildForm";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { useGroup } from "@/contexts/GroupContext";
+import type { Child, ChildProfileForm } from "@/types";
+
+const formatAge = (birthDate: string) => {
+  const birth = parseISO(birthDate);
+  const months = differenceInMonths(new Date(), birth);
+  if (months < 1) {
+    const days = differenceInDays(new Date(), birth);
+    return `${days} day${days !== 1 ? 's' : ''} old`;
+  }
+  if (months < 24) {
+    return `${months} month${months !== 1 ? 's' : ''} old`;
+  }
+  const years = Math.floor(months / 12);
+  return `${years} year${years !== 1 ? 's' : ''} old`;
+};
+
+export default function ChildrenPage() {
+  const { activeGroup, isLoading: groupsLoading, children, refreshChildren } = useGroup();
+  const [editing, setEditing] = useState<Child | 'new' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleteDialog, setDeleteDialog] = useState<{ isOpen: boolean; child?: Child }>({ isOpen: false });
+
+  const handleSave = async (data: ChildProfileForm) => {
+    if (!activeGroup || !editing) return;
+
+    setIsSaving(true);
+    try {
+      const isNew = editing === 'new';
+      const url = isNew
+        ? `/api/groups/${activeGroup.id}/children`
+        : `/api/groups/${activeGroup.id}/children/${editing.id}`;
+
+      const response = await fetch(url, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save profile');
+      }
+
+      await refreshChildren();
+      setEditing(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!activeGroup || !deleteDialog.child) return;
+
+    try {
+      const response = await fetch(`/api/groups/${activeGroup.id}/children/${deleteDialog.child.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await refreshChildren();
+      } else {
+        const error = await response.json();
+        alert(`💔 We couldn't remove that profile. ${error.error || 'Please try again'}`);
+      }
+    } catch (error) {
+      console.error('Error deleting child:', error);
+      alert('💔 Something went wrong. Please try again!');
+    } finally {
+      setDeleteDialog({ isOpen: false });
+    }
+  };
+
+  if (groupsLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading your little ones...</p>
+      </div>
+    );
+  }
+
+  if (!activeGroup) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">👶</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Active Group</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Select a group first to manage the children you&apos;re tracking.
+        </p>
+        <Link href="/groups">
+          <Button className="inline-flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Manage Groups
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canEdit = activeGroup.permissions.canEdit;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 lg:px-0 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">👶 Our Little Ones</h1>
+          <p className="text-gray-600 text-sm lg:text-base">
+            Children tracked in &quot;{activeGroup.name}&quot;
+          </p>
+        </div>
+        {canEdit && !editing && (
+          <Button onClick={() => setEditing('new')} className="min-h-[44px]">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Child
+          </Button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            {editing === 'new' ? '✨ Welcome a new little one' : `💝 Update ${editing.name}'s profile`}
+          </h2>
+          <ChildForm
+            key={editing === 'new' ? 'new' : editing.id}
+            onSubmit={handleSave}
+            isLoading={isSaving}
+            onCancel={() => setEditing(null)}
+            submitLabel={editing === 'new' ? 'Add Child' : 'Save Profile'}
+            groupId={activeGroup.id}
+            defaultValues={editing === 'new' ? undefined : {
+              name: editing.name,
+              birthDate: editing.birthDate ? format(parseISO(editing.birthDate), 'yyyy-MM-dd') : '',
+              sex: editing.sex || '',
+              birthWeight: editing.birthWeight ?? undefined,
+              birthLength: editing.birthLength ?? undefined,
+              photoUrl: editing.photoUrl || '',
+              immunizationSchedule: editing.immunizationSchedule || '',
+            }}
+          />
+        </div>
+      )}
+
+      {children.length === 0 && !editing ? (
+        <div className="text-center py-12 bg-white rounded-lg border">
+          <div className="text-5xl mb-4">🍼</div>
+          <p className="text-gray-600 mb-2">No children added yet</p>
+          <p className="text-sm text-gray-400">
+            Add a profile for each little one so every moment is recorded for the right baby 💕
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {children.map((child) => (
+            <div key={child.id} className="bg-white p-4 rounded-lg shadow-sm border flex items-start gap-4">
+              {child.photoUrl ? (
+                <Image
+                  src={child.photoUrl}
+                  alt={child.name}
+                  width={64}
+                  height={64}
+                  className="w-16 h-16 rounded-full object-cover flex-shrink-0"
+                  unoptimized={child.photoUrl.includes('utfs.io')}
+                />
+              ) : (
+                <div className="w-16 h-16 rounded-full bg-pink-100 flex items-center justify-center text-3xl flex-shrink-0">
+                  👶
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-gray-900 truncate">{child.name}</h3>
+                {child.birthDate && (
+                  <p className="text-sm text-gray-600">
+                    🎂 {format(parseISO(child.birthDate), 'MMM d, yyyy')} • {formatAge(child.birthDate)}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  {[
+                    child.birthWeight ? `⚖️ ${child.birthWeight} g` : null,
+                    child.birthLength ? `📏 ${child.birthLength} cm` : null,
+                  ].filter(Boolean).join(' • ')}
+                </p>
+              </div>
+              <div className="flex flex-col gap-1">
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditing(child)}
+                    className="p-1.5 hover:bg-gray-100"
+                  >
+                    <Edit className="w-4 h-4 text-gray-500" />
+                  </Button>
+                )}
+                {activeGroup.permissions.canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeleteDialog({ isOpen: true, child })}
+                    className="p-1.5 hover:bg-red-100 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4 text-gray-500" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={deleteDialog.isOpen}
+        title={`Remove ${deleteDialog.child?.name}'s profile?`}
+        message="Their moments stay in your story, but will no longer be linked to a child. Are you sure?"
+        confirmText="Yes, remove"
+        cancelText="Keep it"
+        variant="danger"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteDialog({ isOpen: false })}
+      />
+    </div>
+  );
+}
@@ -2,13 +2,22 @@
 
 import { useParams, useRouter } from "next/navigation";
 import { useState, useEffect } from "react";
-import { format } from "date-fns";
 import { Button } from "@/components/ui/Button";
 import { FeedingForm } from "@/components/forms/FeedingForm";
 import { DiaperForm } from "@/components/forms/DiaperForm";
 import { SleepForm } from "@/components/forms/SleepForm";
 import { OtherForm } from "@/components/forms/OtherForm";
+import { GrowthForm } from "@/components/forms/GrowthForm";
+import { MedicationForm } from "@/components/forms/MedicationForm";
+import { PumpingForm } from "@/components/forms/PumpingForm";
+import { TemperatureForm } from "@/components/forms/TemperatureForm";
+import { SymptomForm } from "@/components/forms/SymptomForm";
+import { fromCelsius } from "@/lib/illness";
+import { getEventLocalDate } from "@/lib/timezone";
 import { useGroup } from "@/contexts/GroupContext";
+import { ChildSelector } from "@/components/ChildSelector";
+import { EventConflictMerge } from "@/components/EventConflictMerge";
+import { EventValidationError } from "@/lib/validation";
 import { Users } from "lucide-react";
 import Link from "next/link";
 import { 
@@ -20,16 +29,32 @@ import {
   type FeedingEventForm,
   type DiaperEventForm,
   type SleepEventForm,
-  type OtherEventForm
+  type OtherEventForm,
+  type GrowthEventForm,
+  type MedicationEventForm,
+  type PumpingEventForm,
+  type TemperatureEventForm,
+  type SymptomEventForm,
+  type MedicationRoute,
+  type MedicationUnit,
+  type SymptomSeverity,
+  type TemperatureMethod,
+  type TemperatureUnit
 } from "@/types";
 
+type EventFormData = FeedingEventForm | DiaperEventForm | SleepEventForm | OtherEventForm | GrowthEventForm | MedicationEventForm | PumpingEventForm | TemperatureEventForm | SymptomEventForm
+
 export default function EditEventPage() {
   const params = useParams()
   const router = useRouter()
-  const { activeGroup, isLoading: groupsLoading } = useGroup()
+  const { activeGroup, isLoading: groupsLoading, children } = useGroup()
   const [event, setEvent] = useState<BabyEventWithRelations | null>(null)
+  const [childId, setChildId] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  // Set when someone else saved this event while we were editing it
+  const [conflict, setConflict] = useState<{ mine: EventFormData & { childId: string | null }; theirs: BabyEventWithRelations } | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
 
   useEffect(() => {
     const fetchEvent = async () => {
@@ -39,6 +64,7 @@ export default function EditEventPage() {
         if (response.ok) {
           const event = await response.json()
           setEvent(event)
+          setChildId(event.childId || null)
         } else {
           setError('💔 We couldn\'t find that precious memory')
         }
@@ -55,33 +81,63 @@ export default function EditEventPage() {
     }
   }, [params.id])
 
-  const handleSubmit = async (formData: FeedingEventForm | DiaperEventForm | SleepEventForm | OtherEventForm) => {
+  const saveEvent = async (formData: EventFormData, selectedChildId: string | null, version?: number) => {
+    setIsSaving(true)
     try {
       const eventId = Array.isArray(params.id) ? params.id[0] : params.id
-      
-      // Log the form data to debug
-      console.log('Form data being submitted:', formData)
-      
+
       const response = await fetch(`/api/events/${eventId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: event?.type, ...formData }),
+        // The version we edited lets the server refuse to overwrite someone else's save
+        body: JSON.stringify({ type: event?.type, ...formData, ...(selectedChildId && { childId: selectedChildId }), version }),
       })
 
       if (response.ok) {
+        setConflict(null)
         alert('💕 Memory updated! ✨')
         router.push('/timeline')
+      } else if (response.status === 409) {
+        const { current } = await response.json()
+        setConflict({ mine: { ...formData, childId: selectedChildId }, theirs: current })
+      } else if (response.status === 422) {
+        const { error, fieldErrors } = await response.json()
+        throw new EventValidationError(fieldErrors, error)
       } else {
         const errorText = await response.text()
         console.error('API Error:', errorText)
         alert('💝 Oops! We couldn\'t save those changes right now. Please try again!')
       }
     } catch (error) {
+      // The form shows these next to the fields
+      if (error instanceof EventValidationError) {
+        throw error
+      }
       console.error('Error:', error)
       alert('✨ Something went wrong while saving. Please try again!')
+    } finally {
+      setIsSaving(false)
     }
   }
 
+  const handleSubmit = (formData: EventFormData) => saveEvent(formData, childId, event?.version)
+
+  const handleResolveConflict = (merged: EventFormData & { childId: string | null }) => {
+    if (!conflict) return
+    const { childId: mergedChildId, ...mergedForm } = merged
+    saveEvent(mergedForm as EventFormData, mergedChildId, conflict.theirs.version).catch((error: EventValidationError) => {
+      alert(`💝 ${error.message}:\n${Object.values(error.fieldErrors).join('\n')}`)
+    })
+  }
+
+  // Throw away our edits and continue from what was saved
+  const handleUseSavedVersion = () => {
+    if (!conflict) return
+    setEvent(conflict.theirs)
+    setChildId(conflict.theirs.childId || null)
+    setConflict(null)
+  }
+
   // Convert API event data to form format
   const createTimestamp = (date: string | Date, time: string) => {
     try {
@@ -108,29 +164,8 @@ export default function EditEventPage() {
   }
 
   const getFeedingFormDefaultValues = (event: BabyEventWithRelations) => {
-    let dateString: string
-    try {
-      if (typeof event.date === 'string') {
-        // Check if already in YYYY-MM-DD format
-        if (event.date.match(/^\d{4}-\d{2}-\d{2}$/)) {
-          dateString = event.date
-        } else {
-          // Parse and format
-          const parsedDate = new Date(event.date)
-          dateString = !isNaN(parsedDate.getTime()) ? format(parsedDate, 'yyyy-MM-dd') : event.date
-        }
-      } else {
-        // Treat as Date object
-        dateString = format(event.date as Date, 'yyyy-MM-dd')
-      }
-    } catch (error) {
-      console.error('Error formatting date:', error)
-      // Keep original date as string fallback
-      dateString = String(event.date)
-    }
-    
     return {
-      date: dateString,
+      date: getEventLocalDate(event.date),
       time: event.time || '00:00', // Don't default to current time!
       notes: event.notes || '',
       feedingType: event.feedingEvent?.feedingType as FeedingType,
@@ -150,30 +185,8 @@ export default function EditEventPage() {
   }
 
   const getDiaperFormDefaultValues = (event: BabyEventWithRelations) => {
-    // Preserve original date format if possible
-    let dateString: string
-    try {
-      if (typeof event.date === 'string') {
-        // Check if already in YYYY-MM-DD format
-        if (event.date.match(/^\d{4}-\d{2}-\d{2}$/)) {
-          dateString = event.date
-        } else {
-          // Parse and format
-          const parsedDate = new Date(event.date)
-          dateString = !isNaN(parsedDate.getTime()) ? format(parsedDate, 'yyyy-MM-dd') : event.date
-        }
-      } else {
-        // Treat as Date object
-        dateString = format(event.date as Date, 'yyyy-MM-dd')
-      }
-    } catch (error) {
-      console.error('Error formatting date:', error)
-      // Keep original date as string fallback
-      dateString = String(event.date)
-    }
-    
     return {
-      date: dateString,
+      date: getEventLocalDate(event.date),
       time: event.time || '00:00', // Don't default to current time!
       notes: event.notes || '',
       wet: event.diaperEvent?.wet || 0,
@@ -195,30 +208,8 @@ export default function EditEventPage() {
   }
 
   const getSleepFormDefaultValues = (event: BabyEventWithRelations) => {
-    // Preserve original date format if possible
-    let dateString: string
-    try {
-      if (typeof event.date === 'string') {
-        // Check if already in YYYY-MM-DD format
-        if (event.date.match(/^\d{4}-\d{2}-\d{2}$/)) {
-          dateString = event.date
-        } else {
-          // Parse and format
-          const parsedDate = new Date(event.date)
-          dateString = !isNaN(parsedDate.getTime()) ? format(parsedDate, 'yyyy-MM-dd') : event.date
-        }
-      } else {
-        // Treat as Date object
-        dateString = format(event.date as Date, 'yyyy-MM-dd')
-      }
-    } catch (error) {
-      console.error('Error formatting date:', error)
-      // Keep original date as string fallback
-      dateString = String(event.date)
-    }
-    
     return {
-      date: dateString,
+      date: getEventLocalDate(event.date),
       time: event.time || '00:00', // Don't default to current time!
       notes: event.notes || '',
       duration: event.sleepEvent?.duration,
@@ -238,34 +229,98 @@ export default function EditEventPage() {
   }
 
   const getOtherFormDefaultValues = (event: BabyEventWithRelations) => {
-    // Preserve original date format if possible
-    let dateString: string
-    try {
-      if (typeof event.date === 'string') {
-        // Check if already in YYYY-MM-DD format
-        if (event.date.match(/^\d{4}-\d{2}-\d{2}$/)) {
-          dateString = event.date
-        } else {
-          // Parse and format
-          const parsedDate = new Date(event.date)
-          dateString = !isNaN(parsedDate.getTime()) ? format(parsedDate, 'yyyy-MM-dd') : event.date
-        }
-      } else {
-        // Treat as Date object
-        dateString = format(event.date as Date, 'yyyy-MM-dd')
-      }
-    } catch (error) {
-      console.error('Error formatting date:', error)
-      // Keep original date as string fallback
-      dateString = String(event.date)
-    }
-    
     return {
-      date: dateString,
+      date: getEventLocalDate(event.date),
       time: event.time || '00:00', // Don't default to current time!
       notes: event.notes || '',
       eventType: event.otherEvent?.eventType as OtherEventType,
       description: event.otherEvent?.description || '',
+      milestoneKey: event.otherEvent?.milestoneKey || '',
+      images: event.images?.map(img => ({
+        id: img.id || crypto.randomUUID(),
+        url: img.url,
+        key: img.key || '',
+        name: img.name || 'image',
+        size: img.size || 0,
+        uploadedAt: img.uploadedAt || new Date().toISOString(),
+        caption: img.caption || ''
+      })) || []
+    }
+  }
+
+  const getGrowthFormDefaultValues = (event: BabyEventWithRelations) => {
+    return {
+      date: getEventLocalDate(event.date),
+      time: event.time || '00:00', // Don't default to current time!
+      notes: event.notes || '',
+      weight: event.growthEvent?.weight ?? undefined,
+      length: event.growthEvent?.length ?? undefined,
+      headCircumference: event.growthEvent?.headCircumference ?? undefined,
+      images: event.images?.map(img => ({
+        id: img.id || crypto.randomUUID(),
+        url: img.url,
+        key: img.key || '',
+        name: img.name || 'image',
+        size: img.size || 0,
+        uploadedAt: img.uploadedAt || new Date().toISOString(),
+        caption: img.caption || ''
+      })) || []
+    }
+  }
+
+  const getMedicationFormDefaultValues = (event: BabyEventWithRelations) => {
+    return {
+      date: getEventLocalDate(event.date),
+      time: event.time || '00:00', // Don't default to current time!
+      notes: event.notes || '',
+      medicationId: event.medicationEvent?.medicationId ?? undefined,
+      name: event.medicationEvent?.name || '',
+      dose: event.medicationEvent?.dose,
+      unit: event.medicationEvent?.unit as MedicationUnit,
+      route: event.medicationEvent?.route as MedicationRoute,
+      images: event.images?.map(img => ({
+        id: img.id || crypto.randomUUID(),
+        url: img.url,
+        key: img.key || '',
+        name: img.name || 'image',
+        size: img.size || 0,
+        uploadedAt: img.uploadedAt || new Date().toISOString(),
+        caption: img.caption || ''
+      })) || []
+    }
+  }
+
+  const getPumpingFormDefaultValues = (event: BabyEventWithRelations) => {
+    return {
+      date: getEventLocalDate(event.date),
+      time: event.time || '00:00', // Don't default to current time!
+      notes: event.notes || '',
+      leftAmount: event.pumpingEvent?.leftAmount ?? undefined,
+      rightAmount: event.pumpingEvent?.rightAmount ?? undefined,
+      duration: event.pumpingEvent?.duration ?? undefined,
+      images: event.images?.map(img => ({
+        id: img.id || crypto.randomUUID(),
+        url: img.url,
+        key: img.key || '',
+        name: img.name || 'image',
+        size: img.size || 0,
+        uploadedAt: img.uploadedAt || new Date().toISOString(),
+        caption: img.caption || ''
+      })) || []
+    }
+  }
+
+  const getTemperatureFormDefaultValues = (event: BabyEventWithRelations) => {
+    const unit = (event.temperatureEvent?.unit || 'C') as TemperatureUnit
+
+    return {
+      date: getEventLocalDate(event.date),
+      time: event.time || '00:00', // Don't default to current time!
+      notes: event.notes || '',
+      // Shown in the unit it was entered in
+      temperature: event.temperatureEvent ? fromCelsius(event.temperatureEvent.celsius, unit) : undefined,
+      unit,
+      method: event.temperatureEvent?.method as TemperatureMethod,
       images: event.images?.map(img => ({
         id: img.id || crypto.randomUUID(),
         url: img.url,
@@ -278,6 +333,42 @@ export default function EditEventPage() {
     }
   }
 
+  const getSymptomFormDefaultValues = (event: BabyEventWithRelations) => {
+    return {
+      date: getEventLocalDate(event.date),
+      time: event.time || '00:00', // Don't default to current time!
+      notes: event.notes || '',
+      symptom: event.symptomEvent?.symptom || '',
+      severity: event.symptomEvent?.severity as SymptomSeverity,
+      description: event.symptomEvent?.description || '',
+      images: event.images?.map(img => ({
+        id: img.id || crypto.randomUUID(),
+        url: img.url,
+        key: img.key || '',
+        name: img.name || 'image',
+        size: img.size || 0,
+        uploadedAt: img.uploadedAt || new Date().toISOString(),
+        caption: img.caption || ''
+      })) || []
+    }
+  }
+
+  // Saved event in the same shape the forms produce, for comparing against our edits
+  const getFormDefaultValues = (event: BabyEventWithRelations) => {
+    switch (event.type) {
+      case EventType.FEEDING: return getFeedingFormDefaultValues(event)
+      case EventType.DIAPER: return getDiaperFormDefaultValues(event)
+      case EventType.SLEEP: return getSleepFormDefaultValues(event)
+      case EventType.OTHER: return getOtherFormDefaultValues(event)
+      case EventType.GROWTH: return getGrowthFormDefaultValues(event)
+      case EventType.MEDICATION: return getMedicationFormDefaultValues(event)
+      case EventType.PUMPING: return getPumpingFormDefaultValues(event)
+      case EventType.TEMPERATURE: return getTemperatureFormDefaultValues(event)
+      case EventType.SYMPTOM: return getSymptomFormDefaultValues(event)
+      default: return {}
+    }
+  }
+
   // Show loading state while groups are loading
   if (groupsLoading) {
     return (
@@ -377,13 +468,38 @@ export default function EditEventPage() {
         </Button>
         <h1 className="text-3xl font-bold text-gray-800 mb-2">💝 Update Your Memory</h1>
         <p className="text-gray-600">Edit this precious moment and keep your story perfect ✨</p>
+        {children.length > 1 && !conflict && (
+          <div className="mt-4">
+            <p className="text-sm text-gray-600 mb-2">Who is this moment for? 💕</p>
+            <ChildSelector
+              childOptions={children}
+              value={childId}
+              onChange={setChildId}
+              includeAll={false}
+            />
+          </div>
+        )}
       </div>
       
+      {conflict && (
+        <EventConflictMerge
+          mine={conflict.mine}
+          theirs={{ ...getFormDefaultValues(conflict.theirs), childId: conflict.theirs.childId || null }}
+          childOptions={children}
+          onResolve={handleResolveConflict}
+          onDiscardMine={handleUseSavedVersion}
+          isSaving={isSaving}
+        />
+      )}
+      {/* Keyed by version so the form picks up the saved values after a conflict */}
+      {!conflict && (
+        <div key={event.version}>
       {event.type === EventType.FEEDING && (
         <FeedingForm 
           onSubmit={handleSubmit} 
           defaultValues={getFeedingFormDefaultValues(event)}
           submitLabel="💕 Update Memory"
+          groupId={event.groupId}
         />
       )}
       {event.type === EventType.DIAPER && (
@@ -391,6 +507,7 @@ export default function EditEventPage() {
           onSubmit={handleSubmit} 
           defaultValues={getDiaperFormDefaultValues(event)}
           submitLabel="💕 Update Memory"
+          groupId={event.groupId}
         />
       )}
       {event.type === EventType.SLEEP && (
@@ -398,6 +515,7 @@ export default function EditEventPage() {
           onSubmit={handleSubmit} 
           defaultValues={getSleepFormDefaultValues(event)}
           submitLabel="💕 Update Memory"
+          groupId={event.groupId}
         />
       )}
       {event.type === EventType.OTHER && (
@@ -405,8 +523,54 @@ export default function EditEventPage() {
           onSubmit={handleSubmit} 
           defaultValues={getOtherFormDefaultValues(event)}
           submitLabel="💕 Update Memory"
+          groupId={event.groupId}
         />
       )}
+      {event.type === EventType.GROWTH && (
+        <GrowthForm 
+          onSubmit={handleSubmit} 
+          defaultValues={getGrowthFormDefaultValues(event)}
+          submitLabel="💕 Update Memory"
+          groupId={event.groupId}
+        />
+      )}
+      {event.type === EventType.MEDICATION && (
+        <MedicationForm 
+          onSubmit={handleSubmit} 
+          defaultValues={getMedicationFormDefaultValues(event)}
+          submitLabel="💕 Update Memory"
+          groupId={event.groupId}
+          eventId={event.id}
+        />
+      )}
+      {event.type === EventType.PUMPING && (
+        <PumpingForm 
+          onSubmit={handleSubmit} 
+          defaultValues={getPumpingFormDefaultValues(event)}
+          submitLabel="💕 Update Memory"
+          groupId={event.groupId}
+          allowStoring={false}
+        />
+      )}
+      {event.type === EventType.TEMPERATURE && (
+        <TemperatureForm 
+          onSubmit={handleSubmit} 
+          defaultValues={getTemperatureFormDefaultValues(event)}
+          submitLabel="💕 Update Memory"
+          groupId={event.groupId}
+          birthDate={children.find(child => child.id === childId)?.birthDate}
+        />
+      )}
+      {event.type === EventType.SYMPTOM && (
+        <SymptomForm 
+          onSubmit={handleSubmit} 
+          defaultValues={getSymptomFormDefaultValues(event)}
+          submitLabel="💕 Update Memory"
+          groupId={event.groupId}
+        />
+      )}
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
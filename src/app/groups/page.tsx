@@ -4,14 +4,16 @@ import { useState, useEffect } from 'react';
 import { useUser } from '@clerk/nextjs';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
-import { Users, Plus, Settings, Share, Crown, Eye, Edit, UserPlus, Trash2 } from 'lucide-react';
+import { Users, Plus, Settings, Share, Crown, Eye, Edit, UserPlus, Trash2, Calendar } from 'lucide-react';
 import { useGroup } from '@/contexts/GroupContext';
+import { getLocalTimeZone } from '@/lib/timezone';
 import Image from 'next/image';
 
 interface UserGroup {
   id: string;
   name: string;
   description: string;
+  timezone: string;
   role: string;
   permissions: {
     canRead: boolean;
@@ -31,6 +33,57 @@ interface UserGroup {
   joinedAt: string;
 }
 
+interface GroupInvite {
+  id: string;
+  code: string;
+  role: string;
+  permissions: {
+    canRead: boolean;
+    canAdd: boolean;
+    canEdit: boolean;
+    canDelete: boolean;
+    canShare: boolean;
+  };
+  expiresAt: string | null;
+  maxUses: number | null;
+  useCount: number;
+  revokedAt: string | null;
+  status: 'active' | 'expired' | 'revoked' | 'used_up';
+  createdAt: string;
+  createdBy: {
+    id: string;
+    name: string | null;
+  } | null;
+}
+
+interface CalendarFeedLink {
+  id: string;
+  token: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+interface MemberCalendarFeed {
+  id: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  user: {
+    id: string;
+    name: string;
+  };
+}
+
+interface CalendarDialogState {
+  isOpen: boolean;
+  group?: UserGroup;
+  feed: CalendarFeedLink | null;
+  memberFeeds: MemberCalendarFeed[];
+  canManageAll: boolean;
+  loading: boolean;
+}
+
+const CLOSED_CALENDAR_DIALOG: CalendarDialogState = { isOpen: false, feed: null, memberFeeds: [], canManageAll: false, loading: false };
+
 interface GroupMember {
   id: string;
   userId: string;
@@ -60,10 +113,14 @@ export default function GroupsPage() {
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [newGroup, setNewGroup] = useState({ name: '', description: '' });
-  const [shareDialog, setShareDialog] = useState<{ isOpen: boolean; group?: UserGroup }>({ isOpen: false });
+  const [shareDialog, setShareDialog] = useState<{ isOpen: boolean; group?: UserGroup; invites: GroupInvite[]; loading: boolean }>({ isOpen: false, invites: [], loading: false });
+  const [newInvite, setNewInvite] = useState<{ role: string; expiresInDays: number | null; maxUses: number | null }>({ role: 'viewer', expiresInDays: 7, maxUses: 1 });
+  const [creatingInvite, setCreatingInvite] = useState(false);
   const [manageDialog, setManageDialog] = useState<{ isOpen: boolean; group?: UserGroup }>({ isOpen: false });
   const [membersDialog, setMembersDialog] = useState<{ isOpen: boolean; group?: UserGroup; members: GroupMember[] }>({ isOpen: false, members: [] });
   const [editingMember, setEditingMember] = useState<GroupMember | null>(null);
+  const [calendarDialog, setCalendarDialog] = useState<CalendarDialogState>(CLOSED_CALENDAR_DIALOG);
+  const [updatingFeed, setUpdatingFeed] = useState(false);
 
   // Permission presets for different roles
   const getPermissionsForRole = (role: string) => {
@@ -130,7 +187,7 @@ export default function GroupsPage() {
       const response = await fetch('/api/groups', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newGroup)
+        body: JSON.stringify({ ...newGroup, timezone: getLocalTimeZone() })
       });
 
       if (response.ok) {
@@ -145,18 +202,189 @@ export default function GroupsPage() {
     }
   };
 
-  const handleShare = (group: UserGroup) => {
-    setShareDialog({ isOpen: true, group });
+  const fetchGroupInvites = async (groupId: string): Promise<GroupInvite[]> => {
+    try {
+      const response = await fetch(`/api/groups/${groupId}/invites`);
+      if (response.ok) {
+        const data = await response.json();
+        return data.success ? data.data.invites : [];
+      } else {
+        const error = await response.json();
+        console.error('Failed to fetch invites:', error.error);
+        return [];
+      }
+    } catch (error) {
+      console.error('Error fetching invites:', error);
+      return [];
+    }
+  };
+
+  const handleShare = async (group: UserGroup) => {
+    setShareDialog({ isOpen: true, group, invites: [], loading: true });
+    const invites = await fetchGroupInvites(group.id);
+    setShareDialog({ isOpen: true, group, invites, loading: false });
+  };
+
+  const closeShareDialog = () => {
+    setShareDialog({ isOpen: false, invites: [], loading: false });
+  };
+
+  const handleCreateInvite = async () => {
+    if (!shareDialog.group) return;
+
+    setCreatingInvite(true);
+    try {
+      const response = await fetch(`/api/groups/${shareDialog.group.id}/invites`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newInvite),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setShareDialog(prev => ({ ...prev, invites: [data.data.invite, ...prev.invites] }));
+      } else {
+        const error = await response.json();
+        alert(`Failed to create invite: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      alert('Failed to create invite');
+    } finally {
+      setCreatingInvite(false);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: GroupInvite) => {
+    if (!shareDialog.group) return;
+
+    if (confirm(`Revoke invite code ${invite.code}? Anyone who hasn't used it yet won't be able to join.`)) {
+      try {
+        const response = await fetch(`/api/groups/${shareDialog.group.id}/invites`, {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ inviteId: invite.id }),
+        });
+
+        if (response.ok) {
+          const invites = await fetchGroupInvites(shareDialog.group.id);
+          setShareDialog(prev => ({ ...prev, invites }));
+        } else {
+          const error = await response.json();
+          alert(`Failed to revoke invite: ${error.error}`);
+        }
+      } catch (error) {
+        console.error('Error revoking invite:', error);
+        alert('Failed to revoke invite');
+      }
+    }
+  };
+
+  const describeInvite = (invite: GroupInvite) => {
+    const parts = [invite.role];
+    if (invite.maxUses !== null) {
+      parts.push(`${invite.useCount}/${invite.maxUses} used`);
+    } else {
+      parts.push(`${invite.useCount} used`);
+    }
+    if (invite.status === 'active') {
+      parts.push(invite.expiresAt ? `expires ${new Date(invite.expiresAt).toLocaleDateString()}` : 'never expires');
+    }
+    return parts.join(' • ');
+  };
+
+  const fetchCalendarFeeds = async (group: UserGroup) => {
+    try {
+      const response = await fetch(`/api/groups/${group.id}/calendar-feeds`);
+      if (response.ok) {
+        const data = await response.json();
+        setCalendarDialog({ isOpen: true, group, ...data.data, loading: false });
+      } else {
+        const error = await response.json();
+        console.error('Failed to fetch calendar feeds:', error.error);
+        setCalendarDialog(prev => ({ ...prev, loading: false }));
+      }
+    } catch (error) {
+      console.error('Error fetching calendar feeds:', error);
+      setCalendarDialog(prev => ({ ...prev, loading: false }));
+    }
+  };
+
+  const handleCalendar = async (group: UserGroup) => {
+    setCalendarDialog({ ...CLOSED_CALENDAR_DIALOG, isOpen: true, group, loading: true });
+    await fetchCalendarFeeds(group);
+  };
+
+  const getCalendarFeedUrl = (groupId: string, token: string) =>
+    `${window.location.origin}/api/groups/${groupId}/calendar.ics?token=${encodeURIComponent(token)}`;
+
+  const handleCreateCalendarFeed = async () => {
+    if (!calendarDialog.group) return;
+
+    if (calendarDialog.feed && !confirm('Make a new calendar link? Calendars subscribed with the current link will stop updating.')) {
+      return;
+    }
+
+    setUpdatingFeed(true);
+    try {
+      const response = await fetch(`/api/groups/${calendarDialog.group.id}/calendar-feeds`, { method: 'POST' });
+
+      if (response.ok) {
+        const data = await response.json();
+        setCalendarDialog(prev => ({ ...prev, feed: data.data.feed }));
+      } else {
+        const error = await response.json();
+        alert(`Failed to create calendar link: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      alert('Failed to create calendar link');
+    } finally {
+      setUpdatingFeed(false);
+    }
+  };
+
+  const handleRevokeCalendarFeed = async (feedId: string, ownerName?: string) => {
+    if (!calendarDialog.group) return;
+
+    const message = ownerName
+      ? `Turn off ${ownerName}'s calendar link? Their calendar app will stop receiving updates.`
+      : 'Turn off your calendar link? Calendars subscribed with it will stop updating.';
+    if (!confirm(message)) return;
+
+    setUpdatingFeed(true);
+    try {
+      const response = await fetch(`/api/groups/${calendarDialog.group.id}/calendar-feeds`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ feedId }),
+      });
+
+      if (response.ok) {
+        await fetchCalendarFeeds(calendarDialog.group);
+      } else {
+        const error = await response.json();
+        alert(`Failed to turn off calendar link: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error);
+      alert('Failed to turn off calendar link');
+    } finally {
+      setUpdatingFeed(false);
+    }
+  };
+
+  const copyCalendarFeedUrl = (url: string) => {
+    navigator.clipboard.writeText(url);
+    alert('Calendar link copied! Paste it into your calendar app\'s "subscribe" option 📅');
   };
 
   const handleManage = (group: UserGroup) => {
     setManageDialog({ isOpen: true, group });
   };
 
-  const copyInviteCode = (groupId: string) => {
-    // For now, use the group ID as invite code
-    // In production, you'd have proper invite codes
-    navigator.clipboard.writeText(groupId);
+  const copyInviteCode = (code: string) => {
+    navigator.clipboard.writeText(code);
     alert('Invite code copied to clipboard! 📋');
   };
 
@@ -437,6 +665,16 @@ export default function GroupsPage() {
                 </div>
                 
                 <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3 mt-2 sm:mt-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCalendar(group)}
+                    className="min-h-[44px] sm:min-h-[36px] flex-1 sm:flex-none text-sm sm:text-xs"
+                  >
+                    <Calendar className="w-4 h-4 mr-1" />
+                    Calendar
+                  </Button>
+
                   {group.permissions.canShare && (
                     <Button
                       variant="outline"
@@ -476,7 +714,7 @@ export default function GroupsPage() {
                 Share &quot;{shareDialog.group.name}&quot;
               </h3>
               <button
-                onClick={() => setShareDialog({ isOpen: false })}
+                onClick={closeShareDialog}
                 className="text-gray-400 hover:text-gray-600 min-h-[44px] min-w-[44px] flex items-center justify-center sm:min-h-auto sm:min-w-auto"
               >
                 ✕
@@ -484,29 +722,111 @@ export default function GroupsPage() {
             </div>
             
             <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Invite Code
-                </label>
-                <div className="flex flex-col sm:flex-row gap-2">
-                  <Input
-                    type="text"
-                    value={shareDialog.group.id}
-                    readOnly
-                    className="flex-1 min-h-[44px] text-sm sm:text-base"
-                  />
-                  <Button
-                    onClick={() => copyInviteCode(shareDialog.group!.id)}
-                    variant="outline"
-                    size="sm"
-                    className="min-h-[44px] sm:min-h-[36px] text-base sm:text-sm"
+              {/* Create Invite */}
+              <div className="border border-gray-200 rounded-lg p-3 sm:p-4 space-y-3">
+                <h4 className="text-sm font-medium text-gray-900">✨ New invite code</h4>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Joins as</label>
+                  <select
+                    value={newInvite.role}
+                    onChange={(e) => setNewInvite({ ...newInvite, role: e.target.value })}
+                    className="text-sm border border-gray-300 bg-white text-gray-900 rounded px-3 py-2 min-h-[44px] sm:min-h-[32px] w-full"
                   >
-                    Copy
-                  </Button>
+                    <option value="viewer">👁️ Viewer - Can only view events</option>
+                    <option value="editor">✏️ Editor - Can add and edit events</option>
+                    {(shareDialog.group.role === 'admin' || shareDialog.group.owner.id === user?.id) && (
+                      <option value="admin">👑 Admin - Full access</option>
+                    )}
+                  </select>
                 </div>
-                <p className="text-xs text-gray-500 mt-1">
-                  Share this code with family members to invite them to your group
-                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Expires after</label>
+                    <select
+                      value={newInvite.expiresInDays ?? 'never'}
+                      onChange={(e) => setNewInvite({ ...newInvite, expiresInDays: e.target.value === 'never' ? null : Number(e.target.value) })}
+                      className="text-sm border border-gray-300 bg-white text-gray-900 rounded px-3 py-2 min-h-[44px] sm:min-h-[32px] w-full"
+                    >
+                      <option value={1}>1 day</option>
+                      <option value={7}>7 days</option>
+                      <option value={30}>30 days</option>
+                      <option value="never">Never</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Can be used</label>
+                    <select
+                      value={newInvite.maxUses ?? 'unlimited'}
+                      onChange={(e) => setNewInvite({ ...newInvite, maxUses: e.target.value === 'unlimited' ? null : Number(e.target.value) })}
+                      className="text-sm border border-gray-300 bg-white text-gray-900 rounded px-3 py-2 min-h-[44px] sm:min-h-[32px] w-full"
+                    >
+                      <option value={1}>Once</option>
+                      <option value={5}>5 times</option>
+                      <option value={10}>10 times</option>
+                      <option value="unlimited">Unlimited</option>
+                    </select>
+                  </div>
+                </div>
+                <Button
+                  onClick={handleCreateInvite}
+                  disabled={creatingInvite}
+                  size="sm"
+                  className="w-full min-h-[44px] sm:min-h-[36px]"
+                >
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  {creatingInvite ? 'Creating...' : 'Create Invite Code'}
+                </Button>
+              </div>
+
+              {/* Existing Invites */}
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Invite codes</h4>
+                {shareDialog.loading ? (
+                  <p className="text-sm text-gray-500">Loading invites...</p>
+                ) : shareDialog.invites.length === 0 ? (
+                  <p className="text-sm text-gray-500">No invite codes yet. Create one above to invite your family 💕</p>
+                ) : (
+                  <div className="space-y-2">
+                    {shareDialog.invites.map((invite) => (
+                      <div
+                        key={invite.id}
+                        className={`flex items-center justify-between gap-2 p-2 sm:p-3 rounded-lg border ${
+                          invite.status === 'active' ? 'border-green-200 bg-green-50' : 'border-gray-200 bg-gray-50'
+                        }`}
+                      >
+                        <div className="min-w-0">
+                          <div className={`font-mono text-sm sm:text-base font-semibold ${invite.status === 'active' ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                            {invite.code}
+                          </div>
+                          <div className="text-xs text-gray-500 truncate">
+                            {invite.status === 'active' ? '' : `${invite.status.replace('_', ' ')} • `}
+                            {describeInvite(invite)}
+                          </div>
+                        </div>
+                        {invite.status === 'active' && (
+                          <div className="flex gap-1 flex-shrink-0">
+                            <Button
+                              onClick={() => copyInviteCode(invite.code)}
+                              variant="outline"
+                              size="sm"
+                              className="min-h-[36px] text-xs"
+                            >
+                              Copy
+                            </Button>
+                            <Button
+                              onClick={() => handleRevokeInvite(invite)}
+                              variant="outline"
+                              size="sm"
+                              className="min-h-[36px] text-xs text-red-600 hover:text-red-700"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <div className="bg-blue-50 p-4 rounded-lg">
@@ -514,15 +834,15 @@ export default function GroupsPage() {
                   💡 How to invite someone:
                 </h4>
                 <ol className="text-sm text-blue-800 space-y-1">
-                  <li>1. Copy the invite code above</li>
-                  <li>2. Share it with your family member</li>
+                  <li>1. Create an invite code with the access they need</li>
+                  <li>2. Copy it and share it with your family member</li>
                   <li>3. They can use it on the setup page to join your group</li>
                 </ol>
               </div>
 
               <div className="flex gap-3 mt-6">
                 <Button
-                  onClick={() => setShareDialog({ isOpen: false })}
+                  onClick={closeShareDialog}
                   variant="outline"
                   className="flex-1 min-h-[44px] text-base"
                 >
@@ -534,6 +854,132 @@ export default function GroupsPage() {
         </div>
       )}
 
+      {/* Calendar Feed Dialog */}
+      {calendarDialog.isOpen && calendarDialog.group && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-4 sm:p-6 max-w-sm sm:max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-start mb-4">
+              <h3 className="text-base sm:text-lg font-semibold text-gray-900 pr-4">
+                📅 Calendar for &quot;{calendarDialog.group.name}&quot;
+              </h3>
+              <button
+                onClick={() => setCalendarDialog(CLOSED_CALENDAR_DIALOG)}
+                className="text-gray-400 hover:text-gray-600 min-h-[44px] min-w-[44px] flex items-center justify-center sm:min-h-auto sm:min-w-auto"
+              >
+                ✕
+              </button>
+            </div>
+
+            {calendarDialog.loading ? (
+              <p className="text-sm text-gray-500">Loading calendar link...</p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Subscribe in Google Calendar, Apple Calendar or Outlook to see sleeps, feedings and diapers alongside your day.
+                  The link is private to you — anyone who has it can see this group&apos;s events.
+                </p>
+
+                <div className="border border-gray-200 rounded-lg p-3 sm:p-4 space-y-3">
+                  <h4 className="text-sm font-medium text-gray-900">Your calendar link</h4>
+                  {calendarDialog.feed ? (
+                    <>
+                      <div className="font-mono text-xs bg-gray-50 border rounded p-2 break-all text-gray-700">
+                        {getCalendarFeedUrl(calendarDialog.group.id, calendarDialog.feed.token)}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Created {new Date(calendarDialog.feed.createdAt).toLocaleDateString()}
+                        {' • '}
+                        {calendarDialog.feed.lastUsedAt
+                          ? `last synced ${new Date(calendarDialog.feed.lastUsedAt).toLocaleString()}`
+                          : 'not synced yet'}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          onClick={() => copyCalendarFeedUrl(getCalendarFeedUrl(calendarDialog.group!.id, calendarDialog.feed!.token))}
+                          size="sm"
+                          className="min-h-[36px] text-xs"
+                        >
+                          Copy Link
+                        </Button>
+                        <Button
+                          onClick={handleCreateCalendarFeed}
+                          disabled={updatingFeed}
+                          variant="outline"
+                          size="sm"
+                          className="min-h-[36px] text-xs"
+                        >
+                          New Link
+                        </Button>
+                        <Button
+                          onClick={() => handleRevokeCalendarFeed(calendarDialog.feed!.id)}
+                          disabled={updatingFeed}
+                          variant="outline"
+                          size="sm"
+                          className="min-h-[36px] text-xs text-red-600 hover:text-red-700"
+                        >
+                          Turn Off
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    <Button
+                      onClick={handleCreateCalendarFeed}
+                      disabled={updatingFeed}
+                      size="sm"
+                      className="w-full min-h-[44px] sm:min-h-[36px]"
+                    >
+                      <Calendar className="w-4 h-4 mr-2" />
+                      {updatingFeed ? 'Creating...' : 'Create Calendar Link'}
+                    </Button>
+                  )}
+                </div>
+
+                {calendarDialog.canManageAll && (
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Members&apos; calendar links</h4>
+                    {calendarDialog.memberFeeds.length === 0 ? (
+                      <p className="text-sm text-gray-500">No one else has a calendar link for this group.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {calendarDialog.memberFeeds.map((feed) => (
+                          <div key={feed.id} className="flex items-center justify-between gap-2 p-2 sm:p-3 rounded-lg border border-gray-200">
+                            <div className="min-w-0">
+                              <div className="text-sm font-medium text-gray-900 truncate">{feed.user.name}</div>
+                              <div className="text-xs text-gray-500">
+                                {feed.lastUsedAt ? `Last synced ${new Date(feed.lastUsedAt).toLocaleString()}` : 'Not synced yet'}
+                              </div>
+                            </div>
+                            <Button
+                              onClick={() => handleRevokeCalendarFeed(feed.id, feed.user.name)}
+                              disabled={updatingFeed}
+                              variant="outline"
+                              size="sm"
+                              className="min-h-[36px] text-xs text-red-600 hover:text-red-700 flex-shrink-0"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex gap-3 mt-6">
+                  <Button
+                    onClick={() => setCalendarDialog(CLOSED_CALENDAR_DIALOG)}
+                    variant="outline"
+                    className="flex-1 min-h-[44px] text-base"
+                  >
+                    Close
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Manage Dialog */}
       {manageDialog.isOpen && manageDialog.group && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -583,7 +1029,7 @@ export default function GroupsPage() {
                     className="w-full justify-start min-h-[44px] text-base sm:text-sm"
                   >
                     <Share className="w-4 h-4 mr-2" />
-                    Share Invite Code
+                    Manage Invite Codes
                   </Button>
 
                   {/* Set as Active Button */}
@@ -823,7 +1269,7 @@ export default function GroupsPage() {
                                 />
                                 <div>
                                   <span className="text-sm font-medium text-gray-700">🗑️ Delete</span>
-                                  <p className="text-xs text-gray-500">Remove events permanently</p>
+                                  <p className="text-xs text-gray-500">Move events to the trash and restore them</p>
                                 </div>
                               </label>
 
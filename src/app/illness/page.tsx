@@ -0,0 +1,359 @@
+"use client";
+
+import { useState } from "react";
+import { format, formatDistanceStrict, parseISO } from "date-fns";
+import Link from "next/link";
+import { Plus, Edit, Trash2, Users, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { ChildSelector } from "@/components/ChildSelector";
+import { IllnessChart } from "@/components/IllnessChart";
+import { IllnessEpisodeForm } from "@/components/forms/IllnessEpisodeForm";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { useGroup } from "@/contexts/GroupContext";
+import { useIllnessEpisodes } from "@/hooks/useIllnessEpisodes";
+import { formatTemperature, getFeverThresholds, SYMPTOMS, SYMPTOM_SEVERITIES, TEMPERATURE_METHODS } from "@/lib/illness";
+import { getLocalTimeZone, zonedDateTimeToInstant } from "@/lib/timezone";
+import type { IllnessEpisode, IllnessEpisodeForm as IllnessEpisodeFormData } from "@/types";
+
+const formatDateTime = (date: string) => format(parseISO(date), 'MMM d, h:mm a');
+
+const toFormValues = (episode: IllnessEpisode): IllnessEpisodeFormData => ({
+  name: episode.name,
+  startDate: format(parseISO(episode.startedAt), 'yyyy-MM-dd'),
+  startTime: format(parseISO(episode.startedAt), 'HH:mm'),
+  endDate: episode.endedAt ? format(parseISO(episode.endedAt), 'yyyy-MM-dd') : '',
+  endTime: episode.endedAt ? format(parseISO(episode.endedAt), 'HH:mm') : '',
+  notes: episode.notes || '',
+  childId: episode.childId || '',
+});
+
+const toRequestBody = (data: IllnessEpisodeFormData) => ({
+  name: data.name,
+  startedAt: zonedDateTimeToInstant(data.startDate, data.startTime, getLocalTimeZone()).toISOString(),
+  endedAt: data.endDate
+    ? zonedDateTimeToInstant(data.endDate, data.endTime || '23:59', getLocalTimeZone()).toISOString()
+    : null,
+  notes: data.notes,
+  childId: data.childId || null,
+});
+
+export default function IllnessPage() {
+  const { activeGroup, isLoading: groupsLoading, children, activeChildId, setActiveChildId } = useGroup();
+  const { episodes, isLoading, refetch } = useIllnessEpisodes(activeGroup?.id, activeChildId);
+  // Starting a new episode or correcting one
+  const [editing, setEditing] = useState<{ episode: IllnessEpisode | null } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleteDialog, setDeleteDialog] = useState<{ isOpen: boolean; episode?: IllnessEpisode }>({ isOpen: false });
+
+  const saveEpisode = async (episode: IllnessEpisode | null, data: IllnessEpisodeFormData) => {
+    if (!activeGroup) return;
+
+    const baseUrl = `/api/groups/${activeGroup.id}/illnesses`;
+    const response = await fetch(episode ? `${baseUrl}/${episode.id}` : baseUrl, {
+      method: episode ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toRequestBody(data)),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to save illness');
+    }
+    await refetch();
+  };
+
+  const handleSave = async (data: IllnessEpisodeFormData) => {
+    if (!editing) return;
+
+    setIsSaving(true);
+    try {
+      await saveEpisode(editing.episode, data);
+      setEditing(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEnd = async (episode: IllnessEpisode) => {
+    try {
+      await saveEpisode(episode, {
+        ...toFormValues(episode),
+        endDate: format(new Date(), 'yyyy-MM-dd'),
+        endTime: format(new Date(), 'HH:mm'),
+      });
+    } catch (error) {
+      console.error('Error ending illness episode:', error);
+      alert(`💔 ${error instanceof Error ? error.message : 'Something went wrong. Please try again!'}`);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!activeGroup || !deleteDialog.episode) return;
+
+    try {
+      const response = await fetch(`/api/groups/${activeGroup.id}/illnesses/${deleteDialog.episode.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await refetch();
+      } else {
+        const error = await response.json();
+        alert(`💔 We couldn't remove that illness. ${error.error || 'Please try again'}`);
+      }
+    } catch (error) {
+      console.error('Error deleting illness episode:', error);
+      alert('💔 Something went wrong. Please try again!');
+    } finally {
+      setDeleteDialog({ isOpen: false });
+    }
+  };
+
+  if (groupsLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading illnesses...</p>
+      </div>
+    );
+  }
+
+  if (!activeGroup) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">🤒</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Active Group</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Select a group first to keep track of illnesses.
+        </p>
+        <Link href="/groups">
+          <Button className="inline-flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Manage Groups
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canAdd = activeGroup.permissions.canAdd;
+  const canEdit = activeGroup.permissions.canEdit;
+  const canDelete = activeGroup.permissions.canDelete;
+  const focusedChild = children.find(c => c.id === activeChildId);
+  // Advice for today's age, taken rectally, for whichever child is in focus
+  const adviceChild = focusedChild ?? (children.length === 1 ? children[0] : undefined);
+  const advice = adviceChild ? getFeverThresholds(adviceChild.birthDate, new Date(), 'rectal').advice : null;
+
+  const renderEpisode = (episode: IllnessEpisode) => {
+    const child = children.find(c => c.id === episode.childId);
+    const flagged = episode.readings.filter(reading => reading.level !== 'normal');
+
+    return (
+      <div key={episode.id} className="bg-white p-4 sm:p-6 rounded-lg shadow-sm border space-y-4">
+        <div className="flex items-start gap-4">
+          <div className={`w-12 h-12 rounded-full flex items-center justify-center text-2xl flex-shrink-0 ${episode.endedAt ? 'bg-green-100' : 'bg-orange-100'}`}>
+            {episode.endedAt ? '🌈' : '🤒'}
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-gray-900">
+              {episode.name}
+              {children.length > 1 && (
+                <span className="text-sm font-normal text-gray-600"> • {episode.child?.name ?? 'Everyone'}</span>
+              )}
+            </h3>
+            <p className="text-sm text-gray-600">
+              {formatDateTime(episode.startedAt)}
+              {episode.endedAt
+                ? ` – ${formatDateTime(episode.endedAt)} (${formatDistanceStrict(parseISO(episode.startedAt), parseISO(episode.endedAt))})`
+                : ` • still going, ${formatDistanceStrict(parseISO(episode.startedAt), new Date())} so far`}
+            </p>
+            {episode.peakCelsius !== null && (
+              <p className="text-xs text-gray-500 mt-1">
+                🌡️ Highest {formatTemperature(episode.peakCelsius, episode.readings[episode.readings.length - 1].unit)}
+                {episode.needsAttention > 0 && (
+                  <span className="text-red-600"> • {episode.needsAttention} reading{episode.needsAttention === 1 ? '' : 's'} needed attention</span>
+                )}
+              </p>
+            )}
+            {episode.notes && (
+              <p className="text-xs text-gray-500 mt-1">{episode.notes}</p>
+            )}
+          </div>
+          <div className="flex flex-col gap-1">
+            {canEdit && !episode.endedAt && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleEnd(episode)}
+                className="whitespace-nowrap"
+              >
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Better now
+              </Button>
+            )}
+            <div className="flex gap-1 justify-end">
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditing({ episode })}
+                  className="p-1.5 hover:bg-gray-100"
+                  aria-label="Edit illness"
+                >
+                  <Edit className="w-4 h-4 text-gray-500" />
+                </Button>
+              )}
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDeleteDialog({ isOpen: true, episode })}
+                  className="p-1.5 hover:bg-red-100 hover:text-red-600"
+                  aria-label="Remove illness"
+                >
+                  <Trash2 className="w-4 h-4 text-gray-500" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <IllnessChart episode={episode} birthDate={child?.birthDate} />
+
+        {flagged.length > 0 && (
+          <div className="space-y-1">
+            <h4 className="text-sm font-medium text-gray-700">🔥 Fever readings</h4>
+            {flagged.map(reading => (
+              <p
+                key={reading.eventId}
+                className={`text-sm ${reading.level === 'attention' ? 'text-red-700' : 'text-orange-700'}`}
+              >
+                {reading.level === 'attention' ? '⚠️' : '🔥'} {formatTemperature(reading.celsius, reading.unit)}
+                {` (${TEMPERATURE_METHODS[reading.method]}) • ${formatDateTime(reading.occurredAt)}`}
+                {reading.level === 'attention' && ' • needs attention'}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {episode.symptoms.length > 0 && (
+          <div className="space-y-1">
+            <h4 className="text-sm font-medium text-gray-700">🤧 Symptoms</h4>
+            {episode.symptoms.map(symptom => (
+              <p key={symptom.eventId} className={`text-sm ${symptom.severity === 'severe' ? 'text-red-700' : 'text-gray-700'}`}>
+                {SYMPTOMS[symptom.symptom] || symptom.symptom} • {SYMPTOM_SEVERITIES[symptom.severity]}
+                {symptom.description && ` • ${symptom.description}`}
+                <span className="text-gray-500"> • {formatDateTime(symptom.occurredAt)}</span>
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const ongoing = episodes.filter(episode => !episode.endedAt);
+  const past = episodes.filter(episode => episode.endedAt);
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 lg:px-0 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">🤒 Illness</h1>
+          <p className="text-gray-600 text-sm lg:text-base">
+            Temperatures and symptoms, grouped by each time they were unwell
+          </p>
+        </div>
+        {canAdd && !editing && (
+          <Button onClick={() => setEditing({ episode: null })} className="min-h-[44px]">
+            <Plus className="w-4 h-4 mr-2" />
+            Start Illness
+          </Button>
+        )}
+      </div>
+
+      {children.length > 1 && (
+        <ChildSelector
+          childOptions={children}
+          value={activeChildId}
+          onChange={setActiveChildId}
+        />
+      )}
+
+      {advice && (
+        <div className="p-4 rounded-lg border border-orange-200 bg-orange-50 text-sm text-orange-800">
+          🌡️ {advice}.{!adviceChild?.birthDate && (
+            <> Add {adviceChild?.name}&apos;s birthday on their <Link href="/children" className="underline">profile</Link> for advice that fits their age.</>
+          )}
+        </div>
+      )}
+
+      {editing && (
+        <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            {editing.episode ? `💝 Update ${editing.episode.name}` : '✨ Start an illness'}
+          </h2>
+          <IllnessEpisodeForm
+            key={editing.episode?.id ?? 'new'}
+            onSubmit={handleSave}
+            isLoading={isSaving}
+            onCancel={() => setEditing(null)}
+            submitLabel={editing.episode ? 'Save Illness' : 'Start Illness'}
+            defaultValues={editing.episode
+              ? toFormValues(editing.episode)
+              : { childId: activeChildId ?? children[0]?.id ?? '' }}
+            childOptions={children}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        </div>
+      ) : episodes.length === 0 ? (
+        <div className="text-center py-8 bg-white rounded-lg border">
+          <div className="text-5xl mb-4">🌈</div>
+          <p className="text-gray-600 mb-2">No illnesses recorded</p>
+          <p className="text-sm text-gray-400">
+            When they&apos;re unwell, start one here and log temperatures and symptoms as usual 💕
+          </p>
+        </div>
+      ) : (
+        <>
+          {ongoing.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-700">🤒 Going on now</h2>
+              <div className="grid gap-4">
+                {ongoing.map(renderEpisode)}
+              </div>
+            </div>
+          )}
+
+          {past.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-700">🌈 Past illnesses</h2>
+              <div className="grid gap-4">
+                {past.map(renderEpisode)}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      <p className="text-xs text-gray-400 text-center">
+        Fever guidance follows the American Academy of Pediatrics. Always follow your doctor&apos;s advice.
+      </p>
+
+      <ConfirmDialog
+        isOpen={deleteDialog.isOpen}
+        title={`Remove ${deleteDialog.episode?.name}?`}
+        message="The illness will be removed. Its temperatures and symptoms stay on the timeline."
+        confirmText="Yes, remove"
+        cancelText="Keep it"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteDialog({ isOpen: false })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import Link from "next/link";
+import { Plus, Edit, Trash2, Printer, Users } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { ChildSelector } from "@/components/ChildSelector";
+import { ImmunizationForm } from "@/components/forms/ImmunizationForm";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { useGroup } from "@/contexts/GroupContext";
+import { useImmunizations } from "@/hooks/useImmunizations";
+import { IMMUNIZATION_SITES } from "@/lib/immunizations";
+import { getZonedDateTime } from "@/lib/timezone";
+import type { Immunization, ImmunizationDoseStatus, ImmunizationForm as ImmunizationFormData } from "@/types";
+
+const STATUS_STYLES: Record<ImmunizationDoseStatus['status'], { label: string; className: string }> = {
+  overdue: { label: 'Overdue', className: 'bg-amber-50 border-amber-300 text-amber-700' },
+  due: { label: 'Due now', className: 'bg-pink-50 border-pink-200 text-pink-700' },
+  upcoming: { label: 'Coming up', className: 'bg-blue-50 border-blue-200 text-blue-700' },
+  scheduled: { label: 'Later', className: 'bg-white text-gray-600' },
+  given: { label: 'Given', className: 'bg-green-50 border-green-200 text-green-700' },
+};
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+const formatDoseNumber = (dose: number | null | undefined) =>
+  dose === null || dose === undefined ? '' : dose === 0 ? ' • birth dose' : ` • dose ${dose}`;
+
+const toFormValues = (record: Immunization): ImmunizationFormData => ({
+  scheduleDoseId: record.scheduleDoseId || '',
+  vaccine: record.scheduleDoseId ? '' : record.vaccine,
+  doseNumber: record.doseNumber ?? undefined,
+  givenOn: record.givenOn,
+  lotNumber: record.lotNumber || '',
+  site: record.site || '',
+  provider: record.provider || '',
+  reactions: record.reactions || '',
+  notes: record.notes || '',
+  eventId: record.eventId || '',
+});
+
+export default function ImmunizationsPage() {
+  const { activeGroup, isLoading: groupsLoading, children, activeChildId, setActiveChildId } = useGroup();
+  const childId = activeChildId ?? children[0]?.id ?? null;
+  const child = children.find(c => c.id === childId);
+  const { overview, isLoading, refetch } = useImmunizations(activeGroup?.id, childId);
+  // Recording a new dose (optionally a particular one from the schedule) or correcting a record
+  const [editing, setEditing] = useState<{ record: Immunization | null; doseId?: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleteDialog, setDeleteDialog] = useState<{ isOpen: boolean; record?: Immunization }>({ isOpen: false });
+
+  const handleSave = async (data: ImmunizationFormData) => {
+    if (!activeGroup || !childId || !editing) return;
+
+    setIsSaving(true);
+    try {
+      const baseUrl = `/api/groups/${activeGroup.id}/children/${childId}/immunizations`;
+      const response = await fetch(editing.record ? `${baseUrl}/${editing.record.id}` : baseUrl, {
+        method: editing.record ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save vaccine');
+      }
+      await refetch();
+      setEditing(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!activeGroup || !childId || !deleteDialog.record) return;
+
+    try {
+      const response = await fetch(`/api/groups/${activeGroup.id}/children/${childId}/immunizations/${deleteDialog.record.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await refetch();
+      } else {
+        const error = await response.json();
+        alert(`💔 We couldn't remove that vaccine. ${error.error || 'Please try again'}`);
+      }
+    } catch (error) {
+      console.error('Error deleting immunization:', error);
+      alert('💔 Something went wrong. Please try again!');
+    } finally {
+      setDeleteDialog({ isOpen: false });
+    }
+  };
+
+  if (groupsLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading vaccines...</p>
+      </div>
+    );
+  }
+
+  if (!activeGroup) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">💉</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Active Group</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Select a group first to keep a vaccine record.
+        </p>
+        <Link href="/groups">
+          <Button className="inline-flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Manage Groups
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (!child) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">👶</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Children Yet</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Add your little one&apos;s profile and birthday to see which vaccines are coming up.
+        </p>
+        <Link href="/children">
+          <Button className="inline-flex items-center">
+            <Plus className="w-4 h-4 mr-2" />
+            Add a Child
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canAdd = activeGroup.permissions.canAdd;
+  const canEdit = activeGroup.permissions.canEdit;
+  const canDelete = activeGroup.permissions.canDelete;
+  const doses = overview?.doses ?? [];
+  const needsAttention = doses.filter(d => d.status === 'overdue' || d.status === 'due' || d.status === 'upcoming');
+  const later = doses.filter(d => d.status === 'scheduled');
+  const today = getZonedDateTime(new Date(), activeGroup.timezone).date;
+
+  // The doses a record can be for: those not given yet, plus the one being corrected
+  const doseOptions = doses.filter(d => d.status !== 'given' || (editing?.record && d.record?.id === editing.record.id));
+
+  const renderDose = (dose: ImmunizationDoseStatus) => {
+    const style = STATUS_STYLES[dose.status];
+    return (
+      <div key={dose.id} className={`p-3 rounded-lg border flex items-center gap-3 ${style.className}`}>
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-gray-900">
+            {dose.vaccineName}{formatDoseNumber(dose.dose)}
+          </div>
+          <div className="text-xs">
+            {style.label}
+            {dose.dueOn && ` • due ${formatDate(dose.dueOn)}`}
+            {dose.status === 'overdue' && dose.overdueOn && ` • recommended by ${formatDate(dose.overdueOn)}`}
+          </div>
+          {dose.note && <div className="text-xs text-gray-500 mt-0.5">{dose.note}</div>}
+        </div>
+        {canAdd && dose.status !== 'scheduled' && (
+          <Button variant="outline" size="sm" onClick={() => setEditing({ record: null, doseId: dose.id })}>
+            💉 Given
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const renderRecord = (record: Immunization) => (
+    <div key={record.id} className="bg-white p-4 rounded-lg shadow-sm border flex items-start gap-4">
+      <div className="w-12 h-12 rounded-full bg-green-100 flex items-center justify-center text-2xl flex-shrink-0">
+        💉
+      </div>
+      <div className="flex-1 min-w-0">
+        <h3 className="font-semibold text-gray-900">
+          {record.vaccineName}
+          <span className="text-sm font-normal text-gray-600">{formatDoseNumber(record.doseNumber)}</span>
+        </h3>
+        <p className="text-sm text-gray-600">
+          {formatDate(record.givenOn)}
+          {record.site && ` • ${IMMUNIZATION_SITES[record.site]}`}
+          {record.lotNumber && ` • Lot ${record.lotNumber}`}
+          {record.provider && ` • ${record.provider}`}
+        </p>
+        {record.reactions && (
+          <p className="text-xs text-amber-700 mt-1">🌡️ {record.reactions}</p>
+        )}
+        {record.notes && (
+          <p className="text-xs text-gray-500 mt-1">{record.notes}</p>
+        )}
+        {record.event && (
+          <Link href={`/edit/${record.event.id}`} className="text-xs text-pink-600 hover:underline mt-1 inline-block">
+            🔗 Linked to the {record.event.type.replace('_', ' ')} at {getZonedDateTime(new Date(record.event.occurredAt), record.event.timezone).time}
+          </Link>
+        )}
+      </div>
+      {(canEdit || canDelete) && (
+        <div className="flex flex-col gap-1">
+          {canEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setEditing({ record })}
+              className="p-1.5 hover:bg-gray-100"
+              aria-label="Edit vaccine"
+            >
+              <Edit className="w-4 h-4 text-gray-500" />
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setDeleteDialog({ isOpen: true, record })}
+              className="p-1.5 hover:bg-red-100 hover:text-red-600"
+              aria-label="Remove vaccine"
+            >
+              <Trash2 className="w-4 h-4 text-gray-500" />
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 lg:px-0 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">💉 Vaccines</h1>
+          <p className="text-gray-600 text-sm lg:text-base">
+            {child.name}&apos;s immunization record{overview && ` • ${overview.scheduleName} schedule`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <a
+            href={`/api/groups/${activeGroup.id}/children/${child.id}/immunizations/card`}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            <Button variant="outline" className="min-h-[44px]">
+              <Printer className="w-4 h-4 mr-2" />
+              Print Card
+            </Button>
+          </a>
+          {canAdd && !editing && (
+            <Button onClick={() => setEditing({ record: null })} className="min-h-[44px]">
+              <Plus className="w-4 h-4 mr-2" />
+              Record Vaccine
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {children.length > 1 && (
+        <ChildSelector
+          childOptions={children}
+          value={child.id}
+          onChange={setActiveChildId}
+          includeAll={false}
+        />
+      )}
+
+      {!child.birthDate && (
+        <div className="p-4 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+          🎂 Add {child.name}&apos;s birthday on their <Link href="/children" className="underline">profile</Link> to see when each vaccine is due.
+        </div>
+      )}
+
+      {editing && (
+        <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            {editing.record ? `💝 Update ${editing.record.vaccineName}` : '✨ Record a vaccine'}
+          </h2>
+          <ImmunizationForm
+            key={editing.record?.id ?? editing.doseId ?? 'new'}
+            onSubmit={handleSave}
+            isLoading={isSaving}
+            onCancel={() => setEditing(null)}
+            submitLabel={editing.record ? 'Save Vaccine' : 'Record Vaccine'}
+            defaultValues={editing.record
+              ? toFormValues(editing.record)
+              : editing.doseId ? { scheduleDoseId: editing.doseId, givenOn: today } : undefined}
+            doseOptions={doseOptions}
+            groupId={activeGroup.id}
+            childId={child.id}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        </div>
+      ) : (
+        <>
+          {needsAttention.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-700">⏰ Due and coming up</h2>
+              <div className="grid gap-3">
+                {needsAttention.map(renderDose)}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-700">✅ Given</h2>
+            {overview && overview.records.length > 0 ? (
+              <div className="grid gap-4">
+                {overview.records.map(renderRecord)}
+              </div>
+            ) : (
+              <div className="text-center py-8 bg-white rounded-lg border">
+                <div className="text-5xl mb-4">🩹</div>
+                <p className="text-gray-600 mb-2">No vaccines recorded yet</p>
+                <p className="text-sm text-gray-400">
+                  Copy them from the clinic&apos;s record, lot numbers and all 💕
+                </p>
+              </div>
+            )}
+          </div>
+
+          {later.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-700">📅 Later on</h2>
+              <div className="grid gap-2 sm:grid-cols-2 opacity-75">
+                {later.map(renderDose)}
+              </div>
+            </div>
+          )}
+
+          {overview && (
+            <p className="text-xs text-gray-400 text-center">
+              {overview.scheduleSource} Always follow your doctor&apos;s advice.
+            </p>
+          )}
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={deleteDialog.isOpen}
+        title={`Remove ${deleteDialog.record?.vaccineName}?`}
+        message="This dose will be taken off the record and shown as still to come."
+        confirmText="Yes, remove"
+        cancelText="Keep it"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteDialog({ isOpen: false })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Upload, FileText, Users, CheckCircle, AlertCircle, Copy } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { ChildSelector } from "@/components/ChildSelector";
+import { useGroup } from "@/contexts/GroupContext";
+import { getLocalTimeZone } from "@/lib/timezone";
+import type { ImportResult, ImportRowStatus } from "@/types";
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  ready: { label: '✨ Ready', className: 'bg-green-50 text-green-700' },
+  imported: { label: '💕 Imported', className: 'bg-green-50 text-green-700' },
+  duplicate: { label: '🔁 Already saved', className: 'bg-gray-100 text-gray-600' },
+  error: { label: '⚠️ Needs fixing', className: 'bg-red-50 text-red-700' },
+};
+
+export default function ImportPage() {
+  const { activeGroup, isLoading: groupsLoading, children } = useGroup();
+  const [file, setFile] = useState<File | null>(null);
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const childId = selectedChildId ?? (children.length === 1 ? children[0].id : null);
+
+  const runImport = async (dryRun: boolean) => {
+    if (!activeGroup || !file) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      body.append('dryRun', String(dryRun));
+      body.append('timezone', getLocalTimeZone());
+      if (childId) body.append('childId', childId);
+
+      const response = await fetch(`/api/groups/${activeGroup.id}/import`, {
+        method: 'POST',
+        body,
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setResult(data.data);
+      } else {
+        setResult(null);
+        setError(data.error || 'We couldn\'t read that file. Please try again!');
+      }
+    } catch (error) {
+      console.error('Error importing events:', error);
+      setError('💔 Something went wrong. Please try again!');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setResult(null);
+    setError(null);
+  };
+
+  if (groupsLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!activeGroup) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">📥</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Active Group</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Select a group first to import moments into it.
+        </p>
+        <Link href="/groups">
+          <Button className="inline-flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Manage Groups
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (!activeGroup.permissions.canAdd) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <div className="text-6xl">🔒</div>
+        <h1 className="text-2xl font-bold text-gray-900">Import Not Available</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          You need permission to add moments in &quot;{activeGroup.name}&quot; to import them.
+        </p>
+      </div>
+    );
+  }
+
+  const isDone = result && !result.dryRun;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 lg:px-0 space-y-6">
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">📥 Import Moments</h1>
+        <p className="text-gray-600 text-sm lg:text-base">
+          Bring your notes or a withGrace export into &quot;{activeGroup.name}&quot;
+        </p>
+      </div>
+
+      <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border space-y-4">
+        <div>
+          <label htmlFor="import-file" className="block text-sm font-medium text-gray-700 mb-2">
+            📄 CSV or JSON file
+          </label>
+          <input
+            id="import-file"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+            className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-pink-50 file:text-pink-700 hover:file:bg-pink-100"
+          />
+          <p className="text-xs text-gray-500 mt-2">
+            Columns need at least <code>date</code>, <code>time</code> and <code>type</code>. Feedings, diapers and sleeps
+            can be described in a <code>description</code> column like &quot;formula 60 ml&quot; or &quot;1 wet 1 dirty&quot;.
+            Photos aren&apos;t imported.
+          </p>
+        </div>
+
+        {children.length > 1 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">👶 Rows without a child are for</p>
+            <ChildSelector
+              childOptions={children}
+              value={childId}
+              onChange={setSelectedChildId}
+              includeAll={false}
+            />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button
+            variant="outline"
+            onClick={() => runImport(true)}
+            disabled={!file || isWorking}
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            {isWorking && !result ? 'Reading...' : 'Preview'}
+          </Button>
+          {result?.dryRun && result.summary.ready > 0 && (
+            <Button onClick={() => runImport(false)} disabled={isWorking}>
+              <Upload className="w-4 h-4 mr-2" />
+              {isWorking ? 'Importing...' : `💕 Import ${result.summary.ready} moment${result.summary.ready !== 1 ? 's' : ''}`}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {result && (
+        <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border space-y-4">
+          {isDone ? (
+            <div className="flex items-start gap-3">
+              <CheckCircle className="w-6 h-6 text-green-500 flex-shrink-0" />
+              <div>
+                <h2 className="font-semibold text-gray-900">
+                  {result.summary.imported} moment{result.summary.imported !== 1 ? 's' : ''} imported ✨
+                </h2>
+                <Link href="/timeline" className="text-sm text-pink-600 hover:underline">
+                  See them on the timeline →
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <h2 className="font-semibold text-gray-900">👀 Preview — nothing is saved yet</h2>
+          )}
+
+          <div className="flex flex-wrap gap-2 text-sm">
+            <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-700">{result.summary.total} rows</span>
+            {result.summary.ready > 0 && (
+              <span className="px-3 py-1 rounded-full bg-green-50 text-green-700">{result.summary.ready} ready</span>
+            )}
+            {result.summary.duplicates > 0 && (
+              <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-600 inline-flex items-center gap-1">
+                <Copy className="w-3 h-3" />
+                {result.summary.duplicates} already saved
+              </span>
+            )}
+            {result.summary.errors > 0 && (
+              <span className="px-3 py-1 rounded-full bg-red-50 text-red-700">{result.summary.errors} need fixing</span>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-3 font-medium">Row</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2 pr-3 font-medium">When</th>
+                  <th className="py-2 pr-3 font-medium">Type</th>
+                  <th className="py-2 pr-3 font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.map((row) => (
+                  <tr key={row.rowNumber} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-3 text-gray-500">{row.rowNumber}</td>
+                    <td className="py-2 pr-3">
+                      <span className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${STATUS_STYLES[row.status].className}`}>
+                        {STATUS_STYLES[row.status].label}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap text-gray-700">
+                      {[row.date, row.time].filter(Boolean).join(' ') || '—'}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-700">
+                      {row.type || '—'}
+                      {row.childName && <span className="text-gray-400"> • {row.childName}</span>}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-600 break-words">
+                      {row.description}
+                      {row.errors.length > 0 && (
+                        <ul className="text-red-600 text-xs mt-1 space-y-0.5">
+                          {row.errors.map((message) => (
+                            <li key={message}>{message}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
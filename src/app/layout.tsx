@@ -1,4 +1,4 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { Layout } from "@/components/Layout";
@@ -19,6 +19,16 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "With Grace - Monitor Your Baby's Daily Activities",
   description: "Track feeding, diaper changes, sleep, and other important baby events with photos and detailed notes.",
+  applicationName: "withGrace",
+  appleWebApp: {
+    capable: true,
+    title: "withGrace",
+    statusBarStyle: "default",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#ec4899",
 };
 
 export default function RootLayout({
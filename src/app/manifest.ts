@@ -0,0 +1,23 @@
+import type { MetadataRoute } from "next";
+
+// Web app manifest, served at /manifest.webmanifest so the app can be installed
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "With Grace - Baby Tracker",
+    short_name: "withGrace",
+    description: "Track feeding, diaper changes, sleep, and other important baby events with photos and detailed notes.",
+    id: "/",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    orientation: "portrait",
+    background_color: "#ffffff",
+    theme_color: "#ec4899",
+    categories: ["health", "lifestyle"],
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png", purpose: "any" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "any" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import Link from "next/link";
+import { Plus, Edit, CheckCircle, RotateCcw, Users } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { MedicationScheduleForm } from "@/components/forms/MedicationScheduleForm";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { useGroup } from "@/contexts/GroupContext";
+import { useMedications } from "@/hooks/useMedications";
+import { describeSchedule, MEDICATION_ROUTES } from "@/lib/medications";
+import type { MedicationScheduleForm as MedicationScheduleFormData, MedicationWithStatus } from "@/types";
+
+const toFormValues = (medication: MedicationWithStatus): MedicationScheduleFormData => ({
+  name: medication.name,
+  dose: medication.dose,
+  unit: medication.unit,
+  route: medication.route,
+  scheduleType: medication.scheduleType,
+  times: medication.times,
+  intervalHours: medication.intervalHours ?? undefined,
+  maxDailyDose: medication.maxDailyDose ?? undefined,
+  notes: medication.notes || '',
+  childId: medication.childId || '',
+});
+
+export default function MedicationsPage() {
+  const { activeGroup, isLoading: groupsLoading, children } = useGroup();
+  const { medications, isLoading, refetch } = useMedications(activeGroup?.id, { includeArchived: true });
+  const [editing, setEditing] = useState<MedicationWithStatus | 'new' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [finishDialog, setFinishDialog] = useState<{ isOpen: boolean; medication?: MedicationWithStatus }>({ isOpen: false });
+
+  const saveMedication = async (url: string, method: 'POST' | 'PUT', body: object) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to save medicine');
+    }
+    await refetch();
+  };
+
+  const handleSave = async (data: MedicationScheduleFormData) => {
+    if (!activeGroup || !editing) return;
+
+    setIsSaving(true);
+    try {
+      const isNew = editing === 'new';
+      await saveMedication(
+        isNew ? `/api/groups/${activeGroup.id}/medications` : `/api/groups/${activeGroup.id}/medications/${editing.id}`,
+        isNew ? 'POST' : 'PUT',
+        data
+      );
+      setEditing(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestart = async (medication: MedicationWithStatus) => {
+    if (!activeGroup) return;
+
+    try {
+      await saveMedication(
+        `/api/groups/${activeGroup.id}/medications/${medication.id}`,
+        'PUT',
+        { ...toFormValues(medication), archived: false }
+      );
+    } catch (error) {
+      console.error('Error restarting medication:', error);
+      alert(`💔 ${error instanceof Error ? error.message : 'Something went wrong. Please try again!'}`);
+    }
+  };
+
+  const handleFinishConfirm = async () => {
+    if (!activeGroup || !finishDialog.medication) return;
+
+    try {
+      const response = await fetch(`/api/groups/${activeGroup.id}/medications/${finishDialog.medication.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await refetch();
+      } else {
+        const error = await response.json();
+        alert(`💔 We couldn't finish that course. ${error.error || 'Please try again'}`);
+      }
+    } catch (error) {
+      console.error('Error finishing medication:', error);
+      alert('💔 Something went wrong. Please try again!');
+    } finally {
+      setFinishDialog({ isOpen: false });
+    }
+  };
+
+  if (groupsLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading your medicines...</p>
+      </div>
+    );
+  }
+
+  if (!activeGroup) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">💊</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Active Group</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Select a group first to manage medicines and their schedules.
+        </p>
+        <Link href="/groups">
+          <Button className="inline-flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Manage Groups
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canEdit = activeGroup.permissions.canEdit;
+  const current = medications.filter(m => !m.archivedAt);
+  const finished = medications.filter(m => m.archivedAt);
+
+  const renderMedication = (medication: MedicationWithStatus) => (
+    <div key={medication.id} className="bg-white p-4 rounded-lg shadow-sm border flex items-start gap-4">
+      <div className="w-12 h-12 rounded-full bg-red-100 flex items-center justify-center text-2xl flex-shrink-0">
+        💊
+      </div>
+      <div className="flex-1 min-w-0">
+        <h3 className="font-semibold text-gray-900 truncate">{medication.name}</h3>
+        <p className="text-sm text-gray-600">
+          {medication.dose} {medication.unit} • {MEDICATION_ROUTES[medication.route]}
+          {medication.child && ` • 👶 ${medication.child.name}`}
+        </p>
+        <p className="text-xs text-gray-500 mt-1">{describeSchedule(medication)}</p>
+        {medication.archivedAt ? (
+          <p className="text-xs text-gray-400 mt-1">Finished {format(new Date(medication.archivedAt), 'MMM d, yyyy')}</p>
+        ) : medication.status.nextDueAt && (
+          <p className="text-xs text-pink-600 mt-1">Next due {format(new Date(medication.status.nextDueAt), 'EEE h:mm a')}</p>
+        )}
+        {medication.notes && (
+          <p className="text-xs text-gray-500 mt-1">{medication.notes}</p>
+        )}
+      </div>
+      {canEdit && (
+        <div className="flex flex-col gap-1">
+          {medication.archivedAt ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleRestart(medication)}
+              className="p-1.5 hover:bg-gray-100"
+              aria-label="Restart course"
+            >
+              <RotateCcw className="w-4 h-4 text-gray-500" />
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEditing(medication)}
+                className="p-1.5 hover:bg-gray-100"
+                aria-label="Edit medicine"
+              >
+                <Edit className="w-4 h-4 text-gray-500" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setFinishDialog({ isOpen: true, medication })}
+                className="p-1.5 hover:bg-green-100 hover:text-green-600"
+                aria-label="Finish course"
+              >
+                <CheckCircle className="w-4 h-4 text-gray-500" />
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 lg:px-0 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">💊 Medications</h1>
+          <p className="text-gray-600 text-sm lg:text-base">
+            Medicines and dosing schedules for &quot;{activeGroup.name}&quot;
+          </p>
+        </div>
+        {canEdit && !editing && (
+          <Button onClick={() => setEditing('new')} className="min-h-[44px]">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Medicine
+          </Button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            {editing === 'new' ? '✨ Add a medicine' : `💝 Update ${editing.name}`}
+          </h2>
+          <MedicationScheduleForm
+            key={editing === 'new' ? 'new' : editing.id}
+            onSubmit={handleSave}
+            isLoading={isSaving}
+            onCancel={() => setEditing(null)}
+            submitLabel={editing === 'new' ? 'Add Medicine' : 'Save Medicine'}
+            defaultValues={editing === 'new' ? undefined : toFormValues(editing)}
+            childOptions={children}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        </div>
+      ) : current.length === 0 && !editing ? (
+        <div className="text-center py-12 bg-white rounded-lg border">
+          <div className="text-5xl mb-4">🩺</div>
+          <p className="text-gray-600 mb-2">No medicines yet</p>
+          <p className="text-sm text-gray-400">
+            Add vitamin drops, antibiotics or fever reducers to see when the next dose is due 💕
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {current.map(renderMedication)}
+        </div>
+      )}
+
+      {finished.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-700">✅ Finished courses</h2>
+          <div className="grid gap-4 opacity-75">
+            {finished.map(renderMedication)}
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={finishDialog.isOpen}
+        title={`Finish ${finishDialog.medication?.name}?`}
+        message="It will stop showing on the dashboard. Doses already given stay in your timeline, and you can restart it any time."
+        confirmText="Yes, finish"
+        cancelText="Keep going"
+        onConfirm={handleFinishConfirm}
+        onCancel={() => setFinishDialog({ isOpen: false })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import Image from "next/image";
+import Link from "next/link";
+import { Plus, Users } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { ChildSelector } from "@/components/ChildSelector";
+import { OtherForm } from "@/components/forms/OtherForm";
+import { useGroup } from "@/contexts/GroupContext";
+import { useMilestones } from "@/hooks/useMilestones";
+import { formatExpectedRange, MILESTONE_CATEGORIES } from "@/lib/milestones";
+import { offlineQueue } from "@/lib/offlineQueue";
+import { getLocalTimeZone } from "@/lib/timezone";
+import { EventValidationError } from "@/lib/validation";
+import { EventType, OtherEventType } from "@/types";
+import type { MilestoneCategory, MilestoneEntry, MilestoneProgress, MilestoneTiming, OtherEventForm } from "@/types";
+
+const TIMING_STYLES: Record<MilestoneTiming, { label: string; className: string }> = {
+  early: { label: 'Early', className: 'bg-blue-50 border-blue-200 text-blue-700' },
+  on_time: { label: 'Right on time', className: 'bg-green-50 border-green-200 text-green-700' },
+  late: { label: 'Later than most', className: 'bg-amber-50 border-amber-300 text-amber-700' },
+};
+
+const STATUS_STYLES: Record<MilestoneProgress['status'], { label: string; className: string }> = {
+  reached: { label: 'Reached', className: 'bg-green-50 border-green-200 text-green-700' },
+  expected: { label: 'Any time now', className: 'bg-pink-50 border-pink-200 text-pink-700' },
+  late: { label: 'Not logged yet', className: 'bg-amber-50 border-amber-300 text-amber-700' },
+  upcoming: { label: 'Later on', className: 'bg-white text-gray-600' },
+};
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+export default function MilestonesPage() {
+  const { activeGroup, isLoading: groupsLoading, children, activeChildId, setActiveChildId } = useGroup();
+  const childId = activeChildId ?? children[0]?.id ?? null;
+  const child = children.find(c => c.id === childId);
+  const { journal, isLoading, refetch } = useMilestones(activeGroup?.id, childId);
+  // Logging a catalog milestone (by id) or one of the family's own ('')
+  const [logging, setLogging] = useState<{ milestoneKey: string; title: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (data: OtherEventForm) => {
+    if (!activeGroup || !childId) return;
+
+    setIsSaving(true);
+    try {
+      const eventData = {
+        type: EventType.OTHER,
+        groupId: activeGroup.id,
+        childId,
+        timezone: getLocalTimeZone(),
+        ...data,
+      };
+
+      // Keep it on this device and save it once we're back online
+      if (!navigator.onLine) {
+        await offlineQueue.enqueue({ type: 'create', data: eventData });
+        setLogging(null);
+        alert('You\'re offline, so this milestone is saved on your device 💕 It will sync as soon as you\'re back online ✨');
+        return;
+      }
+
+      const response = await fetch('/api/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(eventData),
+      });
+
+      const result = await response.json();
+
+      if (response.status === 422) {
+        throw new EventValidationError(result.fieldErrors, result.error);
+      }
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save milestone');
+      }
+
+      await refetch();
+      setLogging(null);
+    } catch (error) {
+      // The form shows these next to the fields
+      if (error instanceof EventValidationError) {
+        throw error;
+      }
+      console.error('Error saving milestone:', error);
+      alert('Oops! We couldn\'t save that milestone right now. Please try again! 💝');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (groupsLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading milestones...</p>
+      </div>
+    );
+  }
+
+  if (!activeGroup) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">🏆</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Active Group</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Select a group first to keep a milestones journal.
+        </p>
+        <Link href="/groups">
+          <Button className="inline-flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Manage Groups
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (!child) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">👶</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Children Yet</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Add your little one&apos;s profile and birthday to stamp each milestone with their age.
+        </p>
+        <Link href="/children">
+          <Button className="inline-flex items-center">
+            <Plus className="w-4 h-4 mr-2" />
+            Add a Child
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canAdd = activeGroup.permissions.canAdd;
+  const catalog = journal?.catalog ?? [];
+  // Families rarely log every milestone, so ones past their range only show in the catalog
+  const comingUp = catalog.filter(m => m.status === 'expected');
+
+  const renderEntry = (entry: MilestoneEntry) => {
+    const timing = entry.timing ? TIMING_STYLES[entry.timing] : null;
+    return (
+      <div key={entry.eventId} className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        {entry.images.length > 0 && (
+          <div className={`grid gap-0.5 ${entry.images.length > 1 ? 'grid-cols-2' : ''}`}>
+            {entry.images.slice(0, 4).map(image => (
+              <Image
+                key={image.id}
+                src={image.url}
+                alt={image.caption || entry.title}
+                width={400}
+                height={300}
+                className="w-full h-40 object-cover"
+              />
+            ))}
+          </div>
+        )}
+        <div className="p-4 space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <h3 className="font-semibold text-gray-900">🏆 {entry.title}</h3>
+            {timing && (
+              <span className={`text-xs px-2 py-0.5 rounded-full border whitespace-nowrap ${timing.className}`}>
+                {timing.label}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-600">
+            {formatDate(entry.reachedAt)}
+            {entry.ageLabel && ` • at ${entry.ageLabel}`}
+          </p>
+          {entry.expectedMonths && (
+            <p className="text-xs text-gray-500">Most children: {formatExpectedRange(entry.expectedMonths)}</p>
+          )}
+          {entry.description && <p className="text-sm text-gray-700">{entry.description}</p>}
+          {entry.notes && <p className="text-xs text-gray-500">{entry.notes}</p>}
+          <Link href={`/edit/${entry.eventId}`} className="text-xs text-pink-600 hover:underline inline-block">
+            Edit or add photos
+          </Link>
+        </div>
+      </div>
+    );
+  };
+
+  const renderProgress = (milestone: MilestoneProgress) => {
+    const style = STATUS_STYLES[milestone.status];
+    return (
+      <div key={milestone.id} className={`p-3 rounded-lg border flex items-center gap-3 ${style.className}`}>
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-gray-900">{milestone.title}</div>
+          <div className="text-xs">
+            {style.label} • most children {formatExpectedRange(milestone.expectedMonths)}
+          </div>
+        </div>
+        {canAdd && milestone.status !== 'reached' && milestone.status !== 'upcoming' && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setLogging({ milestoneKey: milestone.id, title: milestone.title })}
+          >
+            🎉 Reached it!
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 lg:px-0 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">🏆 Milestones</h1>
+          <p className="text-gray-600 text-sm lg:text-base">
+            {child.name}&apos;s firsts{journal?.ageLabel && ` • ${journal.ageLabel} old`}
+          </p>
+        </div>
+        {canAdd && !logging && (
+          <Button onClick={() => setLogging({ milestoneKey: '', title: '' })} className="min-h-[44px]">
+            <Plus className="w-4 h-4 mr-2" />
+            Log Milestone
+          </Button>
+        )}
+      </div>
+
+      {children.length > 1 && (
+        <ChildSelector
+          childOptions={children}
+          value={child.id}
+          onChange={setActiveChildId}
+          includeAll={false}
+        />
+      )}
+
+      {!child.birthDate && (
+        <div className="p-4 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+          🎂 Add {child.name}&apos;s birthday on their <Link href="/children" className="underline">profile</Link> to stamp each milestone with their age.
+        </div>
+      )}
+
+      {logging && (
+        <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              {logging.title ? `🎉 ${logging.title}` : '✨ Log a milestone'}
+            </h2>
+            <Button variant="ghost" size="sm" onClick={() => setLogging(null)}>
+              Cancel
+            </Button>
+          </div>
+          <OtherForm
+            key={logging.milestoneKey || 'custom'}
+            onSubmit={handleSave}
+            isLoading={isSaving}
+            submitLabel="Save Milestone"
+            groupId={activeGroup.id}
+            defaultValues={{
+              eventType: OtherEventType.MILESTONE,
+              milestoneKey: logging.milestoneKey,
+              description: logging.title,
+            }}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        </div>
+      ) : (
+        <>
+          {comingUp.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-700">🌱 Around now</h2>
+              <div className="grid gap-3">
+                {comingUp.map(renderProgress)}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-700">📸 Journal</h2>
+            {journal && journal.entries.length > 0 ? (
+              <div className="grid gap-4 sm:grid-cols-2">
+                {journal.entries.map(renderEntry)}
+              </div>
+            ) : (
+              <div className="text-center py-8 bg-white rounded-lg border">
+                <div className="text-5xl mb-4">🌟</div>
+                <p className="text-gray-600 mb-2">No milestones logged yet</p>
+                <p className="text-sm text-gray-400">
+                  First smiles, first steps, first words - add a photo to each one 💕
+                </p>
+              </div>
+            )}
+          </div>
+
+          {catalog.length > 0 && (
+            <div className="space-y-4">
+              <h2 className="text-lg font-semibold text-gray-700">📋 All milestones</h2>
+              {(Object.keys(MILESTONE_CATEGORIES) as MilestoneCategory[]).map(category => (
+                <div key={category} className="space-y-2">
+                  <h3 className="text-sm font-medium text-gray-600">{MILESTONE_CATEGORIES[category]}</h3>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {catalog.filter(m => m.category === category).map(renderProgress)}
+                  </div>
+                </div>
+              ))}
+              {catalog.some(m => m.status === 'late') && (
+                <p className="text-xs text-gray-500">
+                  Already happened? Tap &quot;Reached it!&quot; to add it. If something hasn&apos;t happened yet, it&apos;s worth mentioning at the next checkup.
+                </p>
+              )}
+            </div>
+          )}
+
+          {journal && (
+            <p className="text-xs text-gray-400 text-center">{journal.source}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import Link from "next/link";
+import { Plus, Edit, Trash2, Snowflake, Refrigerator, Users } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { MilkBagForm } from "@/components/forms/MilkBagForm";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { useGroup } from "@/contexts/GroupContext";
+import { useMilkInventory } from "@/hooks/useMilkInventory";
+import { isMilkExpired, isMilkExpiringSoon, MILK_STORAGE_RULES } from "@/lib/milkInventory";
+import { getLocalTimeZone, zonedDateTimeToInstant } from "@/lib/timezone";
+import type { MilkBag, MilkBagForm as MilkBagFormData, MilkStorageLocation } from "@/types";
+
+export default function MilkPage() {
+  const { activeGroup, isLoading: groupsLoading } = useGroup();
+  const { inventory, isLoading, refetch } = useMilkInventory(activeGroup?.id);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editing, setEditing] = useState<{ bagId: string; remaining: string; label: string } | null>(null);
+  const [discardDialog, setDiscardDialog] = useState<{ isOpen: boolean; bag?: MilkBag }>({ isOpen: false });
+
+  const sendRequest = async (url: string, method: 'POST' | 'PUT' | 'DELETE', body?: object) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to save milk');
+    }
+    await refetch();
+  };
+
+  const updateBag = async (bag: MilkBag, updates: object) => {
+    if (!activeGroup) return;
+
+    try {
+      await sendRequest(`/api/groups/${activeGroup.id}/milk/${bag.id}`, 'PUT', updates);
+      setEditing(null);
+    } catch (error) {
+      console.error('Error updating milk:', error);
+      alert(`💔 ${error instanceof Error ? error.message : 'Something went wrong. Please try again!'}`);
+    }
+  };
+
+  const handleAdd = async (data: MilkBagFormData) => {
+    if (!activeGroup) return;
+
+    setIsSaving(true);
+    try {
+      await sendRequest(`/api/groups/${activeGroup.id}/milk`, 'POST', {
+        volume: data.volume,
+        pumpedAt: zonedDateTimeToInstant(data.pumpedDate, data.pumpedTime, getLocalTimeZone()).toISOString(),
+        location: data.location,
+        label: data.label,
+      });
+      setIsAdding(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscardConfirm = async () => {
+    if (!activeGroup || !discardDialog.bag) return;
+
+    try {
+      await sendRequest(`/api/groups/${activeGroup.id}/milk/${discardDialog.bag.id}`, 'DELETE');
+    } catch (error) {
+      console.error('Error discarding milk:', error);
+      alert('💔 Something went wrong. Please try again!');
+    } finally {
+      setDiscardDialog({ isOpen: false });
+    }
+  };
+
+  if (groupsLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading your milk stash...</p>
+      </div>
+    );
+  }
+
+  if (!activeGroup) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">🫙</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Active Group</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Select a group first to keep track of stored milk.
+        </p>
+        <Link href="/groups">
+          <Button className="inline-flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Manage Groups
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canEdit = activeGroup.permissions.canEdit;
+  const canAdd = activeGroup.permissions.canAdd;
+  const now = new Date();
+  const bags = inventory?.bags ?? [];
+
+  const renderBag = (bag: MilkBag) => {
+    const expired = isMilkExpired(bag, now);
+    const expiringSoon = isMilkExpiringSoon(bag, now);
+    const isEditing = editing?.bagId === bag.id;
+
+    return (
+      <div
+        key={bag.id}
+        className={`bg-white p-4 rounded-lg shadow-sm border flex items-start gap-4 ${expired ? 'border-red-300 bg-red-50' : expiringSoon ? 'border-amber-300' : ''}`}
+      >
+        <div className="w-12 h-12 rounded-full bg-pink-100 flex items-center justify-center text-2xl flex-shrink-0">
+          {bag.location === 'freezer' ? '❄️' : '🍼'}
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-gray-900">
+            {bag.remaining} ml
+            {bag.remaining < bag.volume && <span className="text-sm font-normal text-gray-500"> of {bag.volume} ml</span>}
+            {bag.label && <span className="text-sm font-normal text-gray-600"> • {bag.label}</span>}
+          </h3>
+          <p className="text-sm text-gray-600">
+            Pumped {format(new Date(bag.pumpedAt), 'MMM d, h:mm a')}
+            {bag.thawedAt && ` • thawed ${format(new Date(bag.thawedAt), 'MMM d, h:mm a')}`}
+          </p>
+          <p className={`text-xs mt-1 ${expired ? 'text-red-600 font-medium' : expiringSoon ? 'text-amber-700 font-medium' : 'text-gray-500'}`}>
+            {expired
+              ? `Expired ${formatDistanceToNow(new Date(bag.expiresAt), { addSuffix: true })} — please throw it away`
+              : `Use by ${format(new Date(bag.expiresAt), 'MMM d, h:mm a')}`}
+          </p>
+
+          {isEditing && (
+            <div className="mt-3 flex flex-wrap items-end gap-2">
+              <div>
+                <label htmlFor={`remaining-${bag.id}`} className="block text-xs text-gray-600 mb-1">Left (ml)</label>
+                <Input
+                  id={`remaining-${bag.id}`}
+                  type="number"
+                  min="0"
+                  max={bag.volume}
+                  value={editing.remaining}
+                  onChange={(e) => setEditing(prev => prev && { ...prev, remaining: e.target.value })}
+                  className="w-24"
+                />
+              </div>
+              <div>
+                <label htmlFor={`label-${bag.id}`} className="block text-xs text-gray-600 mb-1">Label</label>
+                <Input
+                  id={`label-${bag.id}`}
+                  type="text"
+                  value={editing.label}
+                  onChange={(e) => setEditing(prev => prev && { ...prev, label: e.target.value })}
+                  className="w-40"
+                />
+              </div>
+              <Button
+                size="sm"
+                onClick={() => updateBag(bag, { remaining: parseInt(editing.remaining) || 0, label: editing.label })}
+              >
+                Save
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+            </div>
+          )}
+        </div>
+        {canEdit && !isEditing && (
+          <div className="flex flex-col gap-1">
+            {bag.location === 'freezer' ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateBag(bag, { location: 'fridge' as MilkStorageLocation })}
+                className="p-1.5 hover:bg-gray-100"
+                aria-label="Move to the fridge to thaw"
+                title="Move to the fridge to thaw"
+              >
+                <Refrigerator className="w-4 h-4 text-gray-500" />
+              </Button>
+            ) : !bag.thawedAt && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateBag(bag, { location: 'freezer' as MilkStorageLocation })}
+                className="p-1.5 hover:bg-gray-100"
+                aria-label="Move to the freezer"
+                title="Move to the freezer"
+              >
+                <Snowflake className="w-4 h-4 text-gray-500" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setEditing({ bagId: bag.id, remaining: String(bag.remaining), label: bag.label || '' })}
+              className="p-1.5 hover:bg-gray-100"
+              aria-label="Edit milk"
+            >
+              <Edit className="w-4 h-4 text-gray-500" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setDiscardDialog({ isOpen: true, bag })}
+              className="p-1.5 hover:bg-red-100 hover:text-red-600"
+              aria-label="Throw away"
+            >
+              <Trash2 className="w-4 h-4 text-gray-500" />
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const sections: { location: MilkStorageLocation; title: string; total: number }[] = [
+    { location: 'fridge', title: '🧊 Fridge', total: inventory?.fridgeTotal ?? 0 },
+    { location: 'freezer', title: '❄️ Freezer', total: inventory?.freezerTotal ?? 0 },
+  ];
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 lg:px-0 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">🫙 Milk Stash</h1>
+          <p className="text-gray-600 text-sm lg:text-base">
+            Bottles of expressed milk are taken from here automatically, thawed milk first and then the oldest
+          </p>
+        </div>
+        {canAdd && !isAdding && (
+          <Button onClick={() => setIsAdding(true)} className="min-h-[44px]">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Milk
+          </Button>
+        )}
+      </div>
+
+      {isAdding && (
+        <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">✨ Add stored milk</h2>
+          <MilkBagForm
+            onSubmit={handleAdd}
+            isLoading={isSaving}
+            onCancel={() => setIsAdding(false)}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        </div>
+      ) : bags.length === 0 && !isAdding ? (
+        <div className="text-center py-12 bg-white rounded-lg border">
+          <div className="text-5xl mb-4">🍼</div>
+          <p className="text-gray-600 mb-2">No milk stored yet</p>
+          <p className="text-sm text-gray-400">
+            Log a pumping session and choose the fridge or freezer, or add bags you already have 💕
+          </p>
+        </div>
+      ) : (
+        sections.map(section => {
+          const sectionBags = bags.filter(bag => bag.location === section.location);
+          if (sectionBags.length === 0) return null;
+
+          return (
+            <div key={section.location} className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-700">
+                {section.title} <span className="text-sm font-normal text-gray-500">• {section.total} ml usable</span>
+              </h2>
+              <div className="grid gap-4">
+                {sectionBags.map(renderBag)}
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      <p className="text-xs text-gray-400 text-center">
+        Milk keeps {MILK_STORAGE_RULES.fridgeDays} days in the fridge, {MILK_STORAGE_RULES.freezerMonths} months in the freezer,
+        and {MILK_STORAGE_RULES.thawedHours} hours once thawed. Thawed milk shouldn&apos;t be frozen again.
+      </p>
+
+      <ConfirmDialog
+        isOpen={discardDialog.isOpen}
+        title="Throw this milk away?"
+        message={`${discardDialog.bag?.remaining ?? 0} ml will be taken out of your stash. Feedings that already used it keep their history.`}
+        confirmText="Yes, throw away"
+        cancelText="Keep it"
+        onConfirm={handleDiscardConfirm}
+        onCancel={() => setDiscardDialog({ isOpen: false })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Bell, BellOff, Send, Users } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useGroup } from "@/contexts/GroupContext";
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/pushClient";
+
+interface NotificationSettings {
+  feedingReminders: boolean;
+  caregiverAlerts: boolean;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}
+
+export default function NotificationsPage() {
+  const { activeGroup, isLoading: groupsLoading } = useGroup();
+  const [isSupported, setIsSupported] = useState(false);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [deviceCount, setDeviceCount] = useState(0);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsSupported(isPushSupported());
+    getPushSubscription()
+      .then(subscription => setIsSubscribed(!!subscription))
+      .catch(error => console.error('Error checking push subscription:', error));
+  }, []);
+
+  const fetchSettings = useCallback(async () => {
+    if (!activeGroup?.id) return;
+
+    try {
+      const response = await fetch(`/api/groups/${activeGroup.id}/notification-preferences`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setSettings(result.data.preferences);
+          setDeviceCount(result.data.deviceCount);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+    }
+  }, [activeGroup?.id]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const handleToggleDevice = async () => {
+    setBusyAction('device');
+    try {
+      if (isSubscribed) {
+        await unsubscribeFromPush();
+        setIsSubscribed(false);
+      } else if (await subscribeToPush()) {
+        setIsSubscribed(true);
+      } else {
+        alert('🔕 Notifications are blocked for this site. You can allow them in your browser settings.');
+      }
+      fetchSettings();
+    } catch (error) {
+      console.error('Error updating push subscription:', error);
+      alert(`💔 ${error instanceof Error ? error.message : 'We couldn\'t update notifications on this device.'}`);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleSendTest = async () => {
+    setBusyAction('test');
+    try {
+      const response = await fetch('/api/user/push-subscriptions/test', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`💔 ${result.error || 'We couldn\'t send a test notification.'}`);
+      } else if (result.data.delivered === 0) {
+        alert('🤔 No device accepted the test notification. Try turning notifications off and on again.');
+      }
+    } catch (error) {
+      console.error('Error sending test notification:', error);
+      alert('💔 Something went wrong sending the test notification.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!activeGroup || !settings) return;
+
+    setBusyAction('save');
+    try {
+      const response = await fetch(`/api/groups/${activeGroup.id}/notification-preferences`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setSettings(result.data.preferences);
+        alert('✨ Notification settings saved!');
+      } else {
+        alert(`💔 ${result.error || 'We couldn\'t save your notification settings.'}`);
+      }
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      alert('💔 Something went wrong saving your notification settings.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  if (groupsLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!activeGroup) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">🔔</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Active Group</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Select a group first to choose which notifications you get.
+        </p>
+        <Link href="/groups">
+          <Button className="inline-flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Manage Groups
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const hasQuietHours = !!settings?.quietHoursStart || !!settings?.quietHoursEnd;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 lg:px-0 space-y-6">
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">🔔 Notifications</h1>
+        <p className="text-gray-600 text-sm lg:text-base">
+          Reminders when a feeding is due, and a heads-up when someone else logs a moment
+        </p>
+      </div>
+
+      <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">📱 This device</h2>
+        {!isSupported ? (
+          <p className="text-sm text-gray-500">
+            Push notifications aren&apos;t available in this browser. On iPhone, add withGrace to your Home Screen first.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {isSubscribed
+                ? 'Notifications are on for this device.'
+                : 'Notifications are off for this device.'}
+              {deviceCount > 0 && ` You have ${deviceCount} device${deviceCount !== 1 ? 's' : ''} signed up.`}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant={isSubscribed ? 'outline' : 'default'}
+                onClick={handleToggleDevice}
+                disabled={busyAction !== null}
+              >
+                {isSubscribed ? <BellOff className="w-4 h-4 mr-2" /> : <Bell className="w-4 h-4 mr-2" />}
+                {isSubscribed ? 'Turn Off Here' : 'Turn On Here'}
+              </Button>
+              {isSubscribed && (
+                <Button variant="outline" onClick={handleSendTest} disabled={busyAction !== null}>
+                  <Send className="w-4 h-4 mr-2" />
+                  Send Test
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">👪 {activeGroup.name}</h2>
+        {!settings ? (
+          <p className="text-sm text-gray-500">Loading settings...</p>
+        ) : (
+          <>
+            <label className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                checked={settings.feedingReminders}
+                onChange={(e) => setSettings({ ...settings, feedingReminders: e.target.checked })}
+                className="mt-0.5 rounded text-pink-600 focus:ring-pink-500"
+              />
+              <div>
+                <span className="text-sm font-medium text-gray-700">🍼 Feeding due</span>
+                <p className="text-xs text-gray-500">When the usual time between feedings has passed</p>
+              </div>
+            </label>
+
+            <label className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                checked={settings.caregiverAlerts}
+                onChange={(e) => setSettings({ ...settings, caregiverAlerts: e.target.checked })}
+                className="mt-0.5 rounded text-pink-600 focus:ring-pink-500"
+              />
+              <div>
+                <span className="text-sm font-medium text-gray-700">💬 Caregiver updates</span>
+                <p className="text-xs text-gray-500">When another member logs a feeding, diaper, sleep or moment</p>
+              </div>
+            </label>
+
+            <div>
+              <label className="flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  checked={hasQuietHours}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    quietHoursStart: e.target.checked ? '22:00' : null,
+                    quietHoursEnd: e.target.checked ? '07:00' : null,
+                  })}
+                  className="mt-0.5 rounded text-pink-600 focus:ring-pink-500"
+                />
+                <div>
+                  <span className="text-sm font-medium text-gray-700">🌙 Quiet hours</span>
+                  <p className="text-xs text-gray-500">
+                    No notifications from this group during these hours ({activeGroup.timezone} time)
+                  </p>
+                </div>
+              </label>
+              {hasQuietHours && (
+                <div className="grid grid-cols-2 gap-4 mt-3 ml-7">
+                  <div>
+                    <label htmlFor="quiet-start" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                    <input
+                      id="quiet-start"
+                      type="time"
+                      value={settings.quietHoursStart || ''}
+                      onChange={(e) => setSettings({ ...settings, quietHoursStart: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="quiet-end" className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+                    <input
+                      id="quiet-end"
+                      type="time"
+                      value={settings.quietHoursEnd || ''}
+                      onChange={(e) => setSettings({ ...settings, quietHoursEnd: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Button onClick={handleSave} disabled={busyAction !== null} className="w-full sm:w-auto">
+              {busyAction === 'save' ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import Link from "next/link";
 import { Plus, Milk, Baby, Clock, Edit, Trash2, Users } from "lucide-react";
 import { Button } from "@/components/ui/Button";
@@ -10,6 +10,16 @@ import { ConfirmDialog } from "@/components/ConfirmDialog";
 import { useRouter } from "next/navigation";
 import { useUser } from "@clerk/nextjs";
 import { useGroup } from "@/contexts/GroupContext";
+import { ChildSelector } from "@/components/ChildSelector";
+import { ActiveTimers } from "@/components/ActiveTimers";
+import { QuickEntryBar } from "@/components/QuickEntryBar";
+import { PredictionCountdown } from "@/components/PredictionCountdown";
+import { MedicationsDue } from "@/components/MedicationsDue";
+import { MilkStash } from "@/components/MilkStash";
+import { VaccinesDue } from "@/components/VaccinesDue";
+import { usePredictions } from "@/hooks/usePredictions";
+import { useGroupStream } from "@/hooks/useGroupStream";
+import { getEventLocalDate } from "@/lib/timezone";
 
 interface DailyStats {
   date: string;
@@ -41,12 +51,19 @@ interface RecentEvent {
     sleepType: string;
     duration?: number;
   };
+  child?: {
+    id: string;
+    name: string;
+  } | null;
+  timer?: {
+    status: string;
+  } | null;
 }
 
 export default function Home() {
   const router = useRouter();
   const { user, isLoaded } = useUser();
-  const { activeGroup, userGroups, isLoading: groupsLoading, switchGroup } = useGroup();
+  const { activeGroup, userGroups, isLoading: groupsLoading, switchGroup, children, activeChildId, setActiveChildId } = useGroup();
   const [todayStats, setTodayStats] = useState<DailyStats | null>(null);
   const [recentEvents, setRecentEvents] = useState<RecentEvent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -54,6 +71,12 @@ export default function Home() {
   const [deleteDialog, setDeleteDialog] = useState<{ isOpen: boolean; eventId?: string; eventType?: string }>({
     isOpen: false
   });
+  // Predictions follow one child's rhythm, so they wait for a child to be picked when there are several
+  const { predictions, refetch: refetchPredictions } = usePredictions(
+    activeGroup?.id,
+    activeChildId,
+    !!activeChildId || children.length <= 1
+  );
 
   // Ensure userGroups is always an array to prevent runtime errors
   const safeUserGroups = Array.isArray(userGroups) ? userGroups : [];
@@ -95,8 +118,11 @@ export default function Home() {
         return;
       }
 
+      // Narrow to the selected child, if any
+      const childParam = activeChildId ? `&childId=${activeChildId}` : '';
+
       // Fetch today's stats for the active group
-      const statsRes = await fetch(`/api/stats?days=1&groupId=${activeGroup.id}`);
+      const statsRes = await fetch(`/api/stats?days=1&groupId=${activeGroup.id}${childParam}`);
       if (statsRes.ok) {
         const statsData = await statsRes.json();
         if (statsData.success && statsData.data.dailyStats.length > 0) {
@@ -105,7 +131,7 @@ export default function Home() {
       }
 
       // Fetch recent events for the active group
-      const eventsRes = await fetch(`/api/events?limit=5&groupId=${activeGroup.id}`);
+      const eventsRes = await fetch(`/api/events?limit=5&groupId=${activeGroup.id}${childParam}`);
       if (eventsRes.ok) {
         const eventsData = await eventsRes.json();
         if (eventsData.success) {
@@ -117,7 +143,20 @@ export default function Home() {
     } finally {
       setIsLoading(false);
     }
-  }, [activeGroup?.id]);
+  }, [activeGroup?.id, activeChildId]);
+
+  // After an event is added, changed or removed; predictions refresh on their own otherwise
+  const refreshDashboard = useCallback(() => {
+    fetchDashboardData();
+    refetchPredictions();
+  }, [fetchDashboardData, refetchPredictions]);
+
+  // Pick up moments other caregivers log as they happen
+  useGroupStream(activeGroup?.id, (message) => {
+    if (message.type !== 'membership.changed') {
+      refreshDashboard();
+    }
+  });
 
   const formatTime = (timeStr: string) => {
     return format(new Date(`2000-01-01T${timeStr}`), 'h:mm a');
@@ -195,7 +234,7 @@ export default function Home() {
         setRecentEvents(prev => prev.filter(event => event.id !== deleteDialog.eventId));
         setDeleteDialog({ isOpen: false });
         // Refresh dashboard stats
-        fetchDashboardData();
+        refreshDashboard();
       } else {
         const error = await response.json();
         alert(`💔 We couldn't remove that moment right now. ${error.error || 'Please try again in a moment'} 💕`);
@@ -355,6 +394,14 @@ export default function Home() {
         <p className="text-gray-600 text-sm lg:text-base max-w-2xl mx-auto">
           Capturing precious moments and sweet milestones with love ✨
         </p>
+        {children.length > 1 && (
+          <ChildSelector
+            childOptions={children}
+            value={activeChildId}
+            onChange={setActiveChildId}
+            className="justify-center mt-4"
+          />
+        )}
       </div>
 
       {/* Quick Stats - Mobile optimized grid */}
@@ -385,6 +432,39 @@ export default function Home() {
         </div>
       </div>
 
+      {/* Type a moment instead of filling in a form */}
+      <QuickEntryBar
+        childId={activeChildId ?? (children.length === 1 ? children[0].id : null)}
+        onSaved={refreshDashboard}
+        className="mx-4 lg:mx-0"
+      />
+
+      {/* When the next feeding and nap are likely */}
+      <PredictionCountdown predictions={predictions} className="mx-4 lg:mx-0" />
+
+      {/* Next dose due for each medicine */}
+      <MedicationsDue
+        childId={activeChildId}
+        onDoseLogged={refreshDashboard}
+        className="mx-4 lg:mx-0"
+      />
+
+      {/* Stored breast milk and what's about to expire */}
+      <MilkStash className="mx-4 lg:mx-0" />
+
+      {/* Vaccines due soon for the child being shown */}
+      <VaccinesDue
+        childId={activeChildId ?? (children.length === 1 ? children[0].id : null)}
+        className="mx-4 lg:mx-0"
+      />
+
+      {/* Live feeding/sleep timers shared across the group */}
+      <ActiveTimers
+        childId={activeChildId ?? (children.length === 1 ? children[0].id : null)}
+        onTimerStopped={refreshDashboard}
+        className="mx-4 lg:mx-0"
+      />
+
       {/* Recent Activity - Mobile optimized */}
       <div className="bg-white mx-4 lg:mx-0 p-4 lg:p-6 rounded-lg shadow-sm border">
         <div className="flex justify-between items-center mb-4">
@@ -429,7 +509,9 @@ export default function Home() {
                     {getEventDescription(event)}
                   </p>
                   <p className="text-xs text-gray-500">
-                    {format(new Date(event.date), 'MMM d')} at {formatTime(event.time)}
+                    {format(parseISO(getEventLocalDate(event.date)), 'MMM d')} at {formatTime(event.time)}
+                    {!activeChildId && children.length > 1 && event.child && ` • 👶 ${event.child.name}`}
+                    {event.timer && ' • ⏱️ in progress'}
                   </p>
                 </div>
                 <div className="flex items-center space-x-1">
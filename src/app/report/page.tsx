@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { format, parseISO, subDays } from "date-fns";
+import { FileText, Users, Check } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { ChildSelector } from "@/components/ChildSelector";
+import { useGroup } from "@/contexts/GroupContext";
+import { getEventLocalDate } from "@/lib/timezone";
+import type { BabyEventWithRelations } from "@/types";
+
+interface PhotoOption {
+  id: string;
+  url: string;
+  caption?: string;
+  date: string;
+  time: string;
+}
+
+// Photos offered for the report come from the events in the chosen range
+const PHOTO_EVENT_LIMIT = 200;
+
+export default function ReportPage() {
+  const { activeGroup, isLoading: groupsLoading, children, activeChildId } = useGroup();
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 13), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [childId, setChildId] = useState<string | null>(activeChildId);
+  const [photos, setPhotos] = useState<PhotoOption[]>([]);
+  const [selectedPhotoIds, setSelectedPhotoIds] = useState<string[]>([]);
+  const [isLoadingPhotos, setIsLoadingPhotos] = useState(false);
+
+  const fetchPhotos = useCallback(async () => {
+    if (!activeGroup?.id || !from || !to) return;
+
+    setIsLoadingPhotos(true);
+    try {
+      const params = new URLSearchParams({
+        groupId: activeGroup.id,
+        dateFrom: from,
+        dateTo: to,
+        limit: String(PHOTO_EVENT_LIMIT),
+      });
+      if (childId) params.set('childId', childId);
+
+      const response = await fetch(`/api/events?${params}`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          const events: BabyEventWithRelations[] = result.data.events;
+          setPhotos(events.flatMap(event => (event.images || []).map(image => ({
+            id: image.id,
+            url: image.url,
+            caption: image.caption,
+            date: format(parseISO(getEventLocalDate(event.date)), 'MMM d'),
+            time: event.time,
+          }))));
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching photos:', error);
+    } finally {
+      setIsLoadingPhotos(false);
+    }
+  }, [activeGroup?.id, from, to, childId]);
+
+  useEffect(() => {
+    fetchPhotos();
+    setSelectedPhotoIds([]);
+  }, [fetchPhotos]);
+
+  const togglePhoto = (id: string) => {
+    setSelectedPhotoIds(prev => prev.includes(id) ? prev.filter(photoId => photoId !== id) : [...prev, id]);
+  };
+
+  const handleOpenReport = () => {
+    if (!activeGroup) return;
+
+    const params = new URLSearchParams({ from, to });
+    if (childId) params.set('childId', childId);
+    if (selectedPhotoIds.length > 0) params.set('photos', selectedPhotoIds.join(','));
+    window.open(`/api/groups/${activeGroup.id}/report?${params}`, '_blank');
+  };
+
+  if (groupsLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!activeGroup) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">📋</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Active Group</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Select a group first to put together a checkup report.
+        </p>
+        <Link href="/groups">
+          <Button className="inline-flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Manage Groups
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 lg:px-0 space-y-6">
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">📋 Checkup Report</h1>
+        <p className="text-gray-600 text-sm lg:text-base">
+          A printable summary of feedings, diapers, sleep and symptoms to bring to the pediatrician
+        </p>
+      </div>
+
+      <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="report-from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              id="report-from"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="report-to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              id="report-to"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+            />
+          </div>
+        </div>
+
+        {children.length > 1 && (
+          <ChildSelector
+            childOptions={children}
+            value={childId}
+            onChange={setChildId}
+          />
+        )}
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">📸 Photos to include</p>
+          {isLoadingPhotos ? (
+            <p className="text-sm text-gray-500">Loading photos...</p>
+          ) : photos.length === 0 ? (
+            <p className="text-sm text-gray-500">No photos in this period.</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {photos.map((photo) => {
+                const isSelected = selectedPhotoIds.includes(photo.id);
+                return (
+                  <button
+                    key={photo.id}
+                    type="button"
+                    onClick={() => togglePhoto(photo.id)}
+                    className={`relative rounded-md overflow-hidden border-2 ${isSelected ? 'border-pink-500' : 'border-transparent'}`}
+                  >
+                    <div className="relative w-full h-24">
+                      <Image
+                        src={photo.url}
+                        alt={photo.caption || 'Photo'}
+                        fill
+                        className="object-cover"
+                        sizes="(max-width: 640px) 33vw, 25vw"
+                      />
+                    </div>
+                    <span className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-xs px-1 py-0.5">
+                      {photo.date} {photo.time}
+                    </span>
+                    {isSelected && (
+                      <span className="absolute top-1 right-1 bg-pink-500 text-white rounded-full p-0.5">
+                        <Check className="w-3 h-3" />
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <Button onClick={handleOpenReport} disabled={!from || !to || from > to} className="w-full sm:w-auto">
+          <FileText className="w-4 h-4 mr-2" />
+          Open PDF Report
+        </Button>
+        <p className="text-xs text-gray-500">
+          The report opens as a PDF in a new tab, ready to print or save.
+        </p>
+      </div>
+    </div>
+  );
+}
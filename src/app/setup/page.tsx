@@ -8,6 +8,7 @@ import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Textarea';
 import { Users, Plus, UserPlus } from 'lucide-react';
 import { useGroup } from '@/contexts/GroupContext';
+import { getLocalTimeZone } from '@/lib/timezone';
 
 export default function SetupPage() {
   const { user } = useUser();
@@ -15,6 +16,7 @@ export default function SetupPage() {
   const { refreshGroups } = useGroup();
   const [mode, setMode] = useState<'create' | 'join' | null>(null);
   const [loading, setLoading] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     groupName: '',
     groupDescription: '',
@@ -31,7 +33,8 @@ export default function SetupPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name: formData.groupName,
-          description: formData.groupDescription
+          description: formData.groupDescription,
+          timezone: getLocalTimeZone()
         })
       });
 
@@ -53,6 +56,7 @@ export default function SetupPage() {
     if (!formData.inviteCode.trim()) return;
     
     setLoading(true);
+    setJoinError(null);
     try {
       const response = await fetch('/api/groups/join', {
         method: 'POST',
@@ -67,7 +71,9 @@ export default function SetupPage() {
         await refreshGroups(); // Update global group state
         router.push('/');
       } else {
-        console.error('Failed to join group');
+        const result = await response.json().catch(() => null);
+        console.error('Failed to join group:', result?.error);
+        setJoinError(result?.error || 'Failed to join group');
       }
     } catch (error) {
       console.error('Error joining group:', error);
@@ -213,13 +219,20 @@ export default function SetupPage() {
                 </label>
                 <Input
                   type="text"
-                  placeholder="Enter the invite code shared with you"
+                  placeholder="e.g., K7QX-M2PD"
                   value={formData.inviteCode}
-                  onChange={(e) => setFormData({...formData, inviteCode: e.target.value})}
+                  onChange={(e) => {
+                    setFormData({...formData, inviteCode: e.target.value});
+                    setJoinError(null);
+                  }}
                 />
-                <p className="text-sm text-gray-500 mt-1">
-                  Ask the group creator for their invite code
-                </p>
+                {joinError ? (
+                  <p className="text-sm text-red-600 mt-1">{joinError}</p>
+                ) : (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Ask someone in the group to create an invite code for you
+                  </p>
+                )}
               </div>
 
               <div className="flex gap-4">
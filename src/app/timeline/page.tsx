@@ -1,17 +1,22 @@
 "use client";
 
 import { useState, useCallback, forwardRef, useMemo } from "react";
-import { format, parseISO, subDays } from "date-fns";
-import { Milk, Baby, Clock, Heart, Calendar, Filter, ChevronDown, Edit, Trash2, Grid3X3, Wifi, WifiOff, Clock as LoadingClock, AlertCircle, Users } from "lucide-react";
+import { format, subDays } from "date-fns";
+import { Milk, Baby, Clock, Heart, Calendar, Filter, ChevronDown, Edit, Trash2, Grid3X3, Wifi, WifiOff, Clock as LoadingClock, AlertCircle, Users, Ruler, Pill, Droplets, Thermometer, Stethoscope, Download } from "lucide-react";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
 import { ConfirmDialog } from "@/components/ConfirmDialog";
 import { VisualTimeline } from "@/components/VisualTimeline";
-import { EventType } from "@/types";
+import { EventType, type SymptomSeverity, type TemperatureUnit } from "@/types";
+import { SYMPTOMS, SYMPTOM_SEVERITIES, formatTemperature } from "@/lib/illness";
+import { getEventLocalDate } from "@/lib/timezone";
 import { useEvents } from "@/hooks/useReduxEvents";
 import { useIsHydrated } from "@/hooks/useIsHydrated";
+import { usePredictions } from "@/hooks/usePredictions";
+import { useIllnessEpisodes } from "@/hooks/useIllnessEpisodes";
 import { useGroup } from "@/contexts/GroupContext";
+import { ChildSelector } from "@/components/ChildSelector";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
@@ -80,7 +85,7 @@ const getSampleEvents = () => {
 export default function TimelinePage() {
   const router = useRouter();
   const isHydrated = useIsHydrated();
-  const { activeGroup, isLoading: groupsLoading } = useGroup();
+  const { activeGroup, isLoading: groupsLoading, children, activeChildId, setActiveChildId } = useGroup();
   const [filter, setFilter] = useState<string>('');
   const [dateFilter, setDateFilter] = useState<string>('');
   const [viewMode, setViewMode] = useState<'visual' | 'grid' | 'list'>('visual');
@@ -89,14 +94,18 @@ export default function TimelinePage() {
     isOpen: false
   });
   const [selectedEvent, setSelectedEvent] = useState<TimelineEvent | null>(null);
+  // Ghost markers for the next feeding and nap, only when the timeline follows one child
+  const { predictions } = usePredictions(activeGroup?.id, activeChildId, !!activeChildId || children.length <= 1);
+  const { episodes } = useIllnessEpisodes(activeGroup?.id, activeChildId);
 
   // Memoize filters to prevent excessive API calls
   const memoizedFilters = useMemo(() => ({
     type: filter || undefined,
     dateFrom: dateFilter || format(subDays(new Date(), 30), 'yyyy-MM-dd'),
     groupId: activeGroup?.id,
+    childId: activeChildId || undefined,
     limit: 100
-  }), [filter, dateFilter, activeGroup?.id]);
+  }), [filter, dateFilter, activeGroup?.id, activeChildId]);
 
   // Use Redux-based caching hooks for data management
   const {
@@ -112,8 +121,8 @@ export default function TimelinePage() {
     syncStatus
   } = useEvents({
     filters: memoizedFilters,
-    // Remove aggressive auto-refresh - only fetch when needed
-    refetchInterval: 0 // Disabled to prevent constant API calls
+    // No fixed refresh - the group's live stream keeps this current, with polling only while it is down
+    refetchInterval: 0
   });
 
   // Convert BabyEvents to TimelineEvents for compatibility - memoized to prevent re-renders
@@ -141,6 +150,16 @@ export default function TimelinePage() {
         return <Clock className={`${iconClass} text-purple-600`} />;
       case EventType.OTHER:
         return <Heart className={`${iconClass} text-orange-600`} />;
+      case EventType.GROWTH:
+        return <Ruler className={`${iconClass} text-teal-600`} />;
+      case EventType.MEDICATION:
+        return <Pill className={`${iconClass} text-red-600`} />;
+      case EventType.PUMPING:
+        return <Droplets className={`${iconClass} text-pink-600`} />;
+      case EventType.TEMPERATURE:
+        return <Thermometer className={`${iconClass} text-orange-600`} />;
+      case EventType.SYMPTOM:
+        return <Stethoscope className={`${iconClass} text-sky-600`} />;
       default:
         return <div className={`${iconClass} rounded-full bg-gray-400`} />;
     }
@@ -156,6 +175,16 @@ export default function TimelinePage() {
         return 'Sleep';
       case EventType.OTHER:
         return event.otherEvent?.eventType?.replace('_', ' ') || 'Other';
+      case EventType.GROWTH:
+        return 'Growth';
+      case EventType.MEDICATION:
+        return event.medicationEvent?.name || 'Medicine';
+      case EventType.PUMPING:
+        return 'Pumping';
+      case EventType.TEMPERATURE:
+        return 'Temperature';
+      case EventType.SYMPTOM:
+        return event.symptomEvent ? SYMPTOMS[event.symptomEvent.symptom] || event.symptomEvent.symptom : 'Symptom';
       default:
         return event.type;
     }
@@ -197,6 +226,36 @@ export default function TimelinePage() {
         
       case EventType.OTHER:
         return event.otherEvent?.description;
+
+      case EventType.GROWTH:
+        const growth = event.growthEvent;
+        if (!growth) return null;
+
+        const growthDetails = [];
+        if (growth.weight) growthDetails.push(`${(growth.weight / 1000).toFixed(2)} kg`);
+        if (growth.length) growthDetails.push(`${growth.length} cm`);
+        if (growth.headCircumference) growthDetails.push(`head ${growth.headCircumference} cm`);
+        return growthDetails.join(' • ');
+
+      case EventType.MEDICATION:
+        const medication = event.medicationEvent;
+        if (!medication) return null;
+        return `${medication.dose} ${medication.unit}`;
+
+      case EventType.PUMPING:
+        const pumping = event.pumpingEvent;
+        if (!pumping) return null;
+        return `${(pumping.leftAmount || 0) + (pumping.rightAmount || 0)}ml`;
+
+      case EventType.TEMPERATURE:
+        const temperature = event.temperatureEvent;
+        if (!temperature) return null;
+        return formatTemperature(temperature.celsius, temperature.unit as TemperatureUnit);
+
+      case EventType.SYMPTOM:
+        const symptom = event.symptomEvent;
+        if (!symptom) return null;
+        return SYMPTOM_SEVERITIES[symptom.severity as SymptomSeverity] || symptom.severity;
         
       default:
         return null;
@@ -219,6 +278,15 @@ export default function TimelinePage() {
     router.push(`/edit/${eventId}`);
   };
 
+  // Download exactly what the filters are showing
+  const handleDownload = (exportFormat: 'csv' | 'json') => {
+    if (!activeGroup) return;
+    const params = new URLSearchParams({ format: exportFormat, from: memoizedFilters.dateFrom });
+    if (memoizedFilters.type) params.set('type', memoizedFilters.type);
+    if (memoizedFilters.childId) params.set('childId', memoizedFilters.childId);
+    window.location.href = `/api/groups/${activeGroup.id}/export?${params}`;
+  };
+
   const handleDeleteClick = (eventId: string, eventTitle: string) => {
     setDeleteDialog({
       isOpen: true,
@@ -264,7 +332,7 @@ export default function TimelinePage() {
   const getEventsForDayAndHour = (day: Date, hour: number) => {
     const dayStr = format(day, 'yyyy-MM-dd');
     return events.filter(event => {
-      if (format(parseISO(event.date), 'yyyy-MM-dd') !== dayStr) return false;
+      if (getEventLocalDate(event.date) !== dayStr) return false;
       
       const eventHour = parseInt(event.time.split(':')[0]);
       return eventHour === hour;
@@ -281,6 +349,16 @@ export default function TimelinePage() {
         return 'bg-purple-100 border-purple-300 text-purple-700';
       case 'other':
         return 'bg-orange-100 border-orange-300 text-orange-700';
+      case 'growth':
+        return 'bg-teal-100 border-teal-300 text-teal-700';
+      case 'medication':
+        return 'bg-red-100 border-red-300 text-red-700';
+      case 'pumping':
+        return 'bg-pink-100 border-pink-300 text-pink-700';
+      case 'temperature':
+        return 'bg-orange-100 border-orange-300 text-orange-700';
+      case 'symptom':
+        return 'bg-sky-100 border-sky-300 text-sky-700';
       default:
         return 'bg-gray-100 border-gray-300 text-gray-700';
     }
@@ -608,6 +686,17 @@ export default function TimelinePage() {
         </div>
       </div>
 
+      {/* Child Filter */}
+      {children.length > 1 && (
+        <div className="px-4 lg:px-0 flex-shrink-0 mb-4">
+          <ChildSelector
+            childOptions={children}
+            value={activeChildId}
+            onChange={setActiveChildId}
+          />
+        </div>
+      )}
+
       {/* Filters */}
       <div className={`px-4 lg:px-0 flex-shrink-0 ${showFilters ? 'block' : 'hidden'}`}>
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 bg-white p-4 rounded-lg border mb-4">
@@ -650,6 +739,36 @@ export default function TimelinePage() {
                   label: "✨ Special Moments",
                   description: "Magical memories",
                   icon: <Calendar className="w-4 h-4" />
+                },
+                {
+                  value: EventType.GROWTH,
+                  label: "📏 Growing Up",
+                  description: "Weight & length",
+                  icon: <Ruler className="w-4 h-4" />
+                },
+                {
+                  value: EventType.MEDICATION,
+                  label: "💊 Medicine",
+                  description: "Doses given",
+                  icon: <Pill className="w-4 h-4" />
+                },
+                {
+                  value: EventType.PUMPING,
+                  label: "🫙 Pumping",
+                  description: "Milk expressed",
+                  icon: <Droplets className="w-4 h-4" />
+                },
+                {
+                  value: EventType.TEMPERATURE,
+                  label: "🌡️ Temperature",
+                  description: "Readings taken",
+                  icon: <Thermometer className="w-4 h-4" />
+                },
+                {
+                  value: EventType.SYMPTOM,
+                  label: "🤧 Symptoms",
+                  description: "Signs of feeling unwell",
+                  icon: <Stethoscope className="w-4 h-4" />
                 }
               ]}
             />
@@ -666,7 +785,7 @@ export default function TimelinePage() {
             />
           </div>
           
-          <div className="flex items-end">
+          <div className="flex flex-wrap items-end gap-2">
             <Button
               variant="outline"
               onClick={() => {
@@ -678,6 +797,24 @@ export default function TimelinePage() {
             >
               💫 Show All Memories
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleDownload('csv')}
+              title="Download what I'm looking at as a spreadsheet"
+              className="w-full lg:w-auto"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleDownload('json')}
+              title="Download what I'm looking at as JSON"
+              className="w-full lg:w-auto"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              JSON
+            </Button>
           </div>
         </div>
       </div>
@@ -687,6 +824,8 @@ export default function TimelinePage() {
         {viewMode === 'visual' ? (
           <VisualTimeline
             events={events}
+            predictions={predictions}
+            episodes={episodes}
             onEdit={handleEdit}
             onDelete={handleDeleteClick}
             isLoading={isLoading}
@@ -883,7 +1022,7 @@ export default function TimelinePage() {
       <ConfirmDialog
         isOpen={deleteDialog.isOpen}
         title="💔 Remove this sweet memory?"
-        message={`This ${deleteDialog.eventTitle?.toLowerCase()} moment will be removed from your baby's timeline. We know every moment is precious - are you sure? 💕`}
+        message={`This ${deleteDialog.eventTitle?.toLowerCase()} moment will be moved to the trash. You can restore it from there for 30 days 💕`}
         confirmText="Yes, remove it"
         cancelText="Keep this memory"
         variant="danger"
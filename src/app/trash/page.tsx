@@ -0,0 +1,156 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import Link from "next/link";
+import { RotateCcw, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useGroup } from "@/contexts/GroupContext";
+import { convertToTimelineEvent } from "@/utils/eventConversion";
+import { getEventTitle, getEventDetails } from "@/components/timeline/TimelineUtils";
+import { getDaysUntilPurge, TRASH_RETENTION_DAYS } from "@/lib/trash";
+import type { BabyEventWithRelations } from "@/types/baby-events";
+
+export default function TrashPage() {
+  const { activeGroup, isLoading: groupsLoading } = useGroup();
+  const [events, setEvents] = useState<BabyEventWithRelations[]>([]);
+  const [retentionDays, setRetentionDays] = useState(TRASH_RETENTION_DAYS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    if (!activeGroup) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/groups/${activeGroup.id}/trash`);
+      if (response.ok) {
+        const result = await response.json();
+        setEvents(result.data.events);
+        setRetentionDays(result.data.retentionDays);
+      }
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeGroup]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const handleRestore = async (eventId: string) => {
+    setRestoringId(eventId);
+    try {
+      const response = await fetch(`/api/events/${eventId}/restore`, { method: 'POST' });
+
+      if (response.ok) {
+        setEvents(prev => prev.filter(event => event.id !== eventId));
+      } else {
+        const error = await response.json();
+        alert(`💔 We couldn't restore that moment. ${error.error || 'Please try again'}`);
+      }
+    } catch (error) {
+      console.error('Error restoring event:', error);
+      alert('💔 Something went wrong. Please try again!');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (groupsLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!activeGroup) {
+    return (
+      <div className="text-center py-12 space-y-6">
+        <div className="text-6xl">🗑️</div>
+        <h1 className="text-2xl font-bold text-gray-900">No Active Group</h1>
+        <p className="text-gray-600 max-w-md mx-auto">
+          Select a group first to see its deleted moments.
+        </p>
+        <Link href="/groups">
+          <Button className="inline-flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Manage Groups
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canRestore = activeGroup.permissions.canDelete;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 lg:px-0 space-y-6">
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">🗑️ Trash</h1>
+        <p className="text-gray-600 text-sm lg:text-base">
+          Deleted moments stay here for {retentionDays} days before they&apos;re gone for good
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading deleted moments...</p>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg border">
+          <Trash2 className="w-10 h-10 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600 mb-2">The trash is empty</p>
+          <p className="text-sm text-gray-400">Every moment is safe and sound 💕</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {events.map((babyEvent) => {
+            const event = convertToTimelineEvent(babyEvent);
+            const daysLeft = babyEvent.deletedAt
+              ? getDaysUntilPurge(babyEvent.deletedAt, retentionDays)
+              : retentionDays;
+
+            return (
+              <div key={event.id} className="bg-white p-4 rounded-lg shadow-sm border flex items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-semibold text-gray-900">{getEventTitle(event)}</h3>
+                  <p className="text-sm text-gray-600 break-words">{getEventDetails(event)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {format(new Date(babyEvent.date), 'MMM d, yyyy')} at {event.time}
+                    {event.child && ` • ${event.child.name}`}
+                  </p>
+                  {babyEvent.deletedAt && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      Deleted {format(new Date(babyEvent.deletedAt), 'MMM d, h:mm a')} •{' '}
+                      {daysLeft === 0
+                        ? 'removed for good soon'
+                        : `removed for good in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}`}
+                    </p>
+                  )}
+                </div>
+                {canRestore && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(event.id)}
+                    disabled={restoringId !== null}
+                    className="flex-shrink-0"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    {restoringId === event.id ? 'Restoring...' : 'Restore'}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
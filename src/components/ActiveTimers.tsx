@@ -0,0 +1,269 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { Pause, Play, Square, ArrowLeftRight, Timer } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useGroup } from "@/contexts/GroupContext";
+import { SYNC_INTERVALS } from "@/lib/queryClient";
+import { useGroupStream } from "@/hooks/useGroupStream";
+import { formatTimerElapsed, getTimerElapsedMs, type TimerAction } from "@/lib/timers";
+import { getLocalTimeZone } from "@/lib/timezone";
+import { EventType, FeedingType, SleepType, type BabyEventWithRelations } from "@/types";
+
+interface ActiveTimersProps {
+  childId: string | null; // Child new timers are started for
+  types?: EventType[]; // Which "start" buttons to offer
+  onTimerStopped?: (event: BabyEventWithRelations) => void;
+  className?: string;
+}
+
+/**
+ * Running feeding/sleep timers for the active group, shared by every member's device.
+ */
+export function ActiveTimers({
+  childId,
+  types = [EventType.FEEDING, EventType.SLEEP],
+  onTimerStopped,
+  className = ""
+}: ActiveTimersProps) {
+  const { activeGroup, children } = useGroup();
+  const [timers, setTimers] = useState<BabyEventWithRelations[]>([]);
+  const [now, setNow] = useState(() => new Date());
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchTimers = useCallback(async () => {
+    if (!activeGroup?.id) {
+      setTimers([]);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/groups/${activeGroup.id}/timers`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setTimers(result.data.events);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching timers:', error);
+    }
+  }, [activeGroup?.id]);
+
+  // Poll so timers started or stopped on other devices show up here
+  useEffect(() => {
+    fetchTimers();
+    const intervalId = setInterval(fetchTimers, SYNC_INTERVALS.REALTIME);
+    return () => clearInterval(intervalId);
+  }, [fetchTimers]);
+
+  // ...and right away when the group's live stream is up
+  useGroupStream(activeGroup?.id, (message) => {
+    if (message.type !== 'membership.changed') {
+      fetchTimers();
+    }
+  });
+
+  // Tick the stopwatch display while anything is running
+  useEffect(() => {
+    if (timers.length === 0) return;
+    const intervalId = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(intervalId);
+  }, [timers.length]);
+
+  const canAdd = !!activeGroup?.permissions.canAdd;
+  const canEdit = !!activeGroup?.permissions.canEdit;
+  const needsChild = children.length > 1 && !childId;
+
+  const startTimer = async (type: EventType, side?: 'left' | 'right') => {
+    if (!activeGroup) return;
+
+    setBusyId(`start-${type}`);
+    try {
+      const startedAt = new Date();
+      const response = await fetch(`/api/groups/${activeGroup.id}/timers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          childId,
+          date: format(startedAt, 'yyyy-MM-dd'),
+          time: format(startedAt, 'HH:mm'),
+          timezone: getLocalTimeZone(),
+          ...(type === EventType.FEEDING
+            ? { feedingType: FeedingType.BREASTFED, side }
+            : { sleepType: startedAt.getHours() >= 19 || startedAt.getHours() < 6 ? SleepType.NIGHT_SLEEP : SleepType.NAP }),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        // There's no form to show field errors next to, so say what was wrong
+        const fieldError = result.fieldErrors && Object.values(result.fieldErrors)[0];
+        alert(`💔 ${fieldError || result.error || 'We couldn\'t start the timer. Please try again!'}`);
+      }
+      await fetchTimers();
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      alert('💔 Something went wrong starting the timer. Please try again!');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const updateTimer = async (event: BabyEventWithRelations, action: TimerAction) => {
+    setBusyId(event.id);
+    try {
+      const response = await fetch(`/api/events/${event.id}/timer`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          ...(action === 'stop' && { endTime: format(new Date(), 'HH:mm') }),
+        }),
+      });
+
+      if (response.ok) {
+        const updated = await response.json();
+        if (action === 'stop') {
+          onTimerStopped?.(updated);
+        }
+      } else if (response.status !== 409) {
+        // 409 means another device already stopped it; the refresh below catches up
+        const error = await response.json();
+        alert(`💔 ${error.error || 'We couldn\'t update the timer. Please try again!'}`);
+      }
+      await fetchTimers();
+    } catch (error) {
+      console.error('Error updating timer:', error);
+      alert('💔 Something went wrong. Please try again!');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!activeGroup || (timers.length === 0 && !canAdd)) {
+    return null;
+  }
+
+  const runningTypes = new Set(
+    timers.filter(t => !childId || t.childId === childId).map(t => t.type)
+  );
+
+  return (
+    <div className={`bg-white p-4 lg:p-6 rounded-lg shadow-sm border ${className}`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Timer className="w-5 h-5 text-pink-500" />
+        <h2 className="text-lg font-semibold text-gray-900">⏱️ Live Timers</h2>
+      </div>
+
+      {timers.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {timers.map(event => {
+            const timer = event.timer!;
+            const isFeeding = event.type === EventType.FEEDING;
+            const isPaused = timer.status === 'paused';
+            const isBusy = busyId === event.id;
+
+            return (
+              <div
+                key={event.id}
+                className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border ${
+                  isFeeding ? 'bg-blue-50 border-blue-200' : 'bg-purple-50 border-purple-200'
+                }`}
+              >
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {isFeeding ? '🍼 Feeding' : '😴 Sleeping'}
+                    {event.child && children.length > 1 && ` • 👶 ${event.child.name}`}
+                    {isPaused && <span className="ml-2 text-xs text-amber-600">(paused)</span>}
+                  </div>
+                  <div className="text-2xl font-mono font-bold text-gray-800">
+                    {formatTimerElapsed(getTimerElapsedMs(timer, now))}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Started {format(new Date(timer.startedAt), 'h:mm a')}
+                    {isFeeding && timer.side && ` • ${timer.side === 'left' ? '👈 Left' : '👉 Right'} side`}
+                  </div>
+                </div>
+
+                {canEdit && (
+                  <div className="flex gap-2 flex-wrap">
+                    {isFeeding && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => updateTimer(event, 'switch_side')}
+                      >
+                        <ArrowLeftRight className="w-4 h-4 mr-1" />
+                        Switch
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => updateTimer(event, isPaused ? 'resume' : 'pause')}
+                    >
+                      {isPaused ? <Play className="w-4 h-4 mr-1" /> : <Pause className="w-4 h-4 mr-1" />}
+                      {isPaused ? 'Resume' : 'Pause'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => updateTimer(event, 'stop')}
+                    >
+                      <Square className="w-4 h-4 mr-1" />
+                      Stop
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canAdd && (
+        needsChild ? (
+          <p className="text-sm text-gray-500">Pick a little one above to start a timer 💕</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {types.includes(EventType.FEEDING) && !runningTypes.has(EventType.FEEDING) && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyId !== null}
+                  onClick={() => startTimer(EventType.FEEDING, 'left')}
+                >
+                  🤱 Start feeding (left)
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyId !== null}
+                  onClick={() => startTimer(EventType.FEEDING, 'right')}
+                >
+                  🤱 Start feeding (right)
+                </Button>
+              </>
+            )}
+            {types.includes(EventType.SLEEP) && !runningTypes.has(EventType.SLEEP) && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busyId !== null}
+                onClick={() => startTimer(EventType.SLEEP)}
+              >
+                😴 Start sleep timer
+              </Button>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
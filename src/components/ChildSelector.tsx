@@ -0,0 +1,64 @@
+"use client";
+
+import Image from "next/image";
+import { cn } from "@/lib/utils";
+import type { Child } from "@/types";
+
+interface ChildSelectorProps {
+  childOptions: Child[];
+  value: string | null;
+  onChange: (childId: string | null) => void;
+  includeAll?: boolean; // Show an "All children" option that maps to null
+  className?: string;
+}
+
+export function ChildSelector({
+  childOptions,
+  value,
+  onChange,
+  includeAll = true,
+  className
+}: ChildSelectorProps) {
+  const pillClass = (isActive: boolean) => cn(
+    "inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium border transition-colors min-h-[36px]",
+    isActive
+      ? "bg-pink-100 text-pink-700 border-pink-300"
+      : "bg-white text-gray-600 border-gray-200 hover:bg-gray-50"
+  );
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {includeAll && (
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className={pillClass(value === null)}
+        >
+          👨‍👩‍👧 All children
+        </button>
+      )}
+      {childOptions.map((child) => (
+        <button
+          key={child.id}
+          type="button"
+          onClick={() => onChange(child.id)}
+          className={pillClass(value === child.id)}
+        >
+          {child.photoUrl ? (
+            <Image
+              src={child.photoUrl}
+              alt={child.name}
+              width={20}
+              height={20}
+              className="rounded-full object-cover w-5 h-5"
+              unoptimized={child.photoUrl.includes('utfs.io')}
+            />
+          ) : (
+            <span>👶</span>
+          )}
+          {child.name}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/Button";
+import type { Child } from "@/types";
+
+type FormValues = Record<string, unknown>;
+
+const FIELD_LABELS: Record<string, string> = {
+  childId: '👶 Little one',
+  date: '📅 Date',
+  time: '🕐 Time',
+  notes: '📝 Notes',
+  feedingType: '🍼 Feeding type',
+  amount: '🥛 Amount (ml)',
+  duration: '⏱️ Duration (min)',
+  side: '🤱 Side',
+  wet: '💧 Wet',
+  dirty: '💩 Dirty',
+  'diaperDetails.color': '🎨 Color',
+  'diaperDetails.consistency': '🧪 Consistency',
+  sleepType: '😴 Sleep type',
+  startTime: '🌙 Fell asleep',
+  endTime: '🌅 Woke up',
+  eventType: '💝 Moment type',
+  description: '📖 Description',
+  milestoneKey: '🏆 Milestone',
+  weight: '⚖️ Weight (g)',
+  length: '📏 Length (cm)',
+  headCircumference: '🧠 Head (cm)',
+  medicationId: '💊 Saved medicine',
+  name: '🏷️ Medicine',
+  dose: '🥄 Dose',
+  unit: '📐 Unit',
+  route: '👄 Given how',
+  leftAmount: '⬅️ Left (ml)',
+  rightAmount: '➡️ Right (ml)',
+  temperature: '🌡️ Temperature',
+  method: '🩺 Taken how',
+  symptom: '🤧 Symptom',
+  severity: '📊 Severity',
+  images: '📸 Photos',
+};
+
+interface EventConflictMergeProps<T extends object> {
+  mine: T; // What this user tried to save
+  theirs: object; // The server copy, in the same form shape
+  childOptions: Child[];
+  onResolve: (merged: T) => void;
+  onDiscardMine: () => void;
+  isSaving?: boolean;
+}
+
+function getValue(values: object, field: string): unknown {
+  return field.split('.').reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as FormValues)[key] : undefined,
+    values
+  );
+}
+
+function setValue(values: FormValues, field: string, value: unknown): FormValues {
+  const [key, nested] = field.split('.');
+  if (!nested) {
+    return { ...values, [key]: value };
+  }
+  return { ...values, [key]: { ...(values[key] as FormValues | undefined), [nested]: value } };
+}
+
+// null, undefined and "" all mean "not filled in"
+function normalize(field: string, value: unknown): string {
+  if (field === 'images') {
+    return JSON.stringify(((value as { url: string }[]) || []).map(img => img.url).sort());
+  }
+  return value === null || value === undefined || value === '' ? '' : String(value);
+}
+
+/**
+ * Side-by-side merge shown when someone else saved the same event first.
+ */
+export function EventConflictMerge<T extends object>({
+  mine,
+  theirs,
+  childOptions,
+  onResolve,
+  onDiscardMine,
+  isSaving = false
+}: EventConflictMergeProps<T>) {
+  const conflictingFields = useMemo(
+    () => Object.keys(FIELD_LABELS).filter(
+      field => normalize(field, getValue(mine, field)) !== normalize(field, getValue(theirs, field))
+    ),
+    [mine, theirs]
+  );
+
+  // Keep the user's own changes unless they pick otherwise
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>({});
+
+  const formatValue = (field: string, value: unknown) => {
+    if (field === 'images') {
+      const count = ((value as unknown[]) || []).length;
+      return count === 0 ? 'No photos' : `${count} photo${count === 1 ? '' : 's'}`;
+    }
+    if (field === 'childId') {
+      return childOptions.find(child => child.id === value)?.name || 'No one selected';
+    }
+    const normalized = normalize(field, value);
+    return normalized === '' ? '—' : normalized.replace(/_/g, ' ');
+  };
+
+  const handleResolve = () => {
+    const merged = conflictingFields.reduce<FormValues>(
+      (values, field) => choices[field] === 'theirs'
+        ? setValue(values, field, getValue(theirs, field))
+        : values,
+      mine as FormValues
+    );
+    onResolve(merged as T);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-gray-900 mb-1">💞 Someone else updated this moment</h2>
+        <p className="text-sm text-gray-600">
+          While you were editing, another family member saved changes. Pick which value to keep for each difference.
+        </p>
+      </div>
+
+      {conflictingFields.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Your changes match what was saved ✨ Saving again will keep everything as it is.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {conflictingFields.map(field => {
+            const choice = choices[field] || 'mine';
+            return (
+              <div key={field} className="border rounded-lg p-3">
+                <div className="text-sm font-medium text-gray-800 mb-2">{FIELD_LABELS[field]}</div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {(['mine', 'theirs'] as const).map(side => (
+                    <label
+                      key={side}
+                      className={`flex items-start gap-2 p-3 rounded-lg border cursor-pointer transition-colors ${
+                        choice === side
+                          ? 'border-pink-400 bg-pink-50'
+                          : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name={`merge-${field}`}
+                        checked={choice === side}
+                        onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                        className="mt-1"
+                      />
+                      <div className="min-w-0">
+                        <div className="text-xs text-gray-500">
+                          {side === 'mine' ? 'Your version' : 'Saved version'}
+                        </div>
+                        <div className="text-sm text-gray-900 break-words whitespace-pre-wrap">
+                          {formatValue(field, getValue(side === 'mine' ? mine : theirs, field))}
+                        </div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end">
+        <Button variant="outline" onClick={onDiscardMine} disabled={isSaving}>
+          Use saved version
+        </Button>
+        <Button onClick={handleResolve} disabled={isSaving}>
+          {isSaving ? 'Saving...' : '💕 Save merged memory'}
+        </Button>
+      </div>
+    </div>
+  );
+}
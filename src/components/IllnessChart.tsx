@@ -0,0 +1,103 @@
+"use client";
+
+import { format } from "date-fns";
+import { ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { fromCelsius, getFeverThresholds, TEMPERATURE_METHODS } from '@/lib/illness';
+import type { FeverLevel, IllnessEpisode, TemperatureMethod, TemperatureUnit } from '@/types';
+
+interface IllnessChartProps {
+  episode: IllnessEpisode;
+  birthDate?: string | null;
+}
+
+const LEVEL_COLORS: Record<FeverLevel, string> = {
+  normal: '#0ea5e9',
+  fever: '#f97316',
+  attention: '#dc2626',
+};
+
+/**
+ * An episode's temperature readings over time, with the fever and call-the-doctor lines
+ * for the child's age. Readings are shown in the unit of the latest one.
+ */
+export function IllnessChart({ episode, birthDate }: IllnessChartProps) {
+  const { readings } = episode;
+  if (readings.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-4">
+        🌡️ Temperatures logged while this lasts will show up here
+      </p>
+    );
+  }
+
+  const latest = readings[readings.length - 1];
+  const unit: TemperatureUnit = latest.unit;
+  // Lines follow the most recent reading's method, since thresholds differ by method
+  const thresholds = getFeverThresholds(birthDate, new Date(latest.occurredAt), latest.method);
+
+  const points = readings.map(reading => ({
+    time: new Date(reading.occurredAt).getTime(),
+    value: fromCelsius(reading.celsius, unit),
+    level: reading.level,
+    method: reading.method,
+  }));
+
+  const fever = fromCelsius(thresholds.feverCelsius, unit);
+  const attention = fromCelsius(thresholds.attentionCelsius, unit);
+  const values = points.map(point => point.value);
+  const padding = unit === 'F' ? 1 : 0.5;
+
+  return (
+    <div className="h-48 sm:h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={points}>
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            scale="time"
+            tick={{ fontSize: 10 }}
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(time: number) => format(new Date(time), 'MMM d HH:mm')}
+          />
+          <YAxis
+            type="number"
+            domain={[
+              Math.floor(Math.min(...values, fever) - padding),
+              Math.ceil(Math.max(...values, attention) + padding),
+            ]}
+            tick={{ fontSize: 10 }}
+            tickLine={false}
+            axisLine={false}
+            unit={` °${unit}`}
+            width={56}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'white',
+              border: '1px solid #e5e7eb',
+              borderRadius: '8px',
+              fontSize: '11px'
+            }}
+            formatter={(value: number, _name: string, props: { payload?: { method: TemperatureMethod } }) => [
+              `${value} °${unit}${props.payload ? ` (${TEMPERATURE_METHODS[props.payload.method]})` : ''}`,
+              'Temperature',
+            ]}
+            labelFormatter={(time: number) => format(new Date(time), 'MMM d, h:mm a')}
+          />
+          <ReferenceLine y={fever} stroke="#f97316" strokeDasharray="4 4" label={{ value: 'Fever', position: 'insideTopLeft', fontSize: 10, fill: '#f97316' }} />
+          <ReferenceLine y={attention} stroke="#dc2626" strokeDasharray="4 4" label={{ value: 'Call the doctor', position: 'insideTopLeft', fontSize: 10, fill: '#dc2626' }} />
+          <Line
+            dataKey="value"
+            stroke="#94a3b8"
+            isAnimationActive={false}
+            dot={(props: { index?: number; cx?: number; cy?: number; payload?: { level: FeverLevel } }) => (
+              <circle key={props.index} cx={props.cx} cy={props.cy} r={4} fill={LEVEL_COLORS[props.payload?.level ?? 'normal']} />
+            )}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
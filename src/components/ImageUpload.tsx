@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { UploadButton } from "@/lib/uploadthing";
+import { UPLOAD_GROUP_HEADER } from "@/lib/uploads";
 import { X, Camera } from "lucide-react";
 import Image from "next/image";
 import type { ImageData } from "@/types";
@@ -9,6 +10,7 @@ import { cn } from "@/lib/utils";
 
 interface ImageUploadProps {
   images: ImageData[];
+  groupId: string | undefined; // The event's or child's own group, which may not be the active one
   onImagesChange: (images: ImageData[]) => void;
   maxImages?: number;
   className?: string;
@@ -16,6 +18,7 @@ interface ImageUploadProps {
 
 export function ImageUpload({ 
   images, 
+  groupId,
   onImagesChange, 
   maxImages = 5,
   className 
@@ -89,6 +92,8 @@ export function ImageUpload({
             
             <UploadButton
               endpoint="babyEventImages"
+              // Uploads are checked against the group's permissions and kept for it
+              headers={groupId ? { [UPLOAD_GROUP_HEADER]: groupId } : undefined}
               onClientUploadComplete={(res) => {
                 setUploadError(null);
                 const newImages: ImageData[] = res.map(file => ({
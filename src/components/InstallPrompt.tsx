@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, Share, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+
+// Chrome's install event isn't in the DOM typings yet
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+const DISMISSED_KEY = 'installPromptDismissedAt';
+const DISMISS_DURATION = 1000 * 60 * 60 * 24 * 30; // Ask again after 30 days
+
+function isInstalled(): boolean {
+  return window.matchMedia('(display-mode: standalone)').matches
+    || (navigator as Navigator & { standalone?: boolean }).standalone === true;
+}
+
+/**
+ * Offers to add withGrace to the home screen. Safari on iOS has no install prompt,
+ * so there it explains how to do it from the Share menu instead.
+ */
+export function InstallPrompt() {
+  const [installEvent, setInstallEvent] = useState<BeforeInstallPromptEvent | null>(null);
+  const [showIosHint, setShowIosHint] = useState(false);
+
+  useEffect(() => {
+    const dismissedAt = Number(localStorage.getItem(DISMISSED_KEY) || 0);
+    if (isInstalled() || Date.now() - dismissedAt < DISMISS_DURATION) return;
+
+    setShowIosHint(/iphone|ipad|ipod/i.test(navigator.userAgent));
+
+    const handleBeforeInstallPrompt = (event: Event) => {
+      // Show our own banner instead of the browser's mini-infobar
+      event.preventDefault();
+      setInstallEvent(event as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => setInstallEvent(null);
+
+    window.addEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
+    window.addEventListener('appinstalled', handleInstalled);
+
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  const handleDismiss = () => {
+    localStorage.setItem(DISMISSED_KEY, String(Date.now()));
+    setInstallEvent(null);
+    setShowIosHint(false);
+  };
+
+  const handleInstall = async () => {
+    if (!installEvent) return;
+
+    await installEvent.prompt();
+    const { outcome } = await installEvent.userChoice;
+    // The event can only be used once either way
+    setInstallEvent(null);
+    if (outcome === 'dismissed') {
+      handleDismiss();
+    }
+  };
+
+  if (!installEvent && !showIosHint) {
+    return null;
+  }
+
+  return (
+    <div className="mx-4 lg:mx-0 mb-4 flex items-start gap-3 rounded-xl border border-pink-200 bg-pink-50 p-4">
+      <div className="text-2xl">📲</div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-900">Install withGrace</p>
+        {installEvent ? (
+          <p className="text-sm text-gray-600">
+            Open it from your home screen and keep logging moments even without a connection.
+          </p>
+        ) : (
+          <p className="text-sm text-gray-600">
+            Tap <Share className="inline w-4 h-4 align-text-bottom" /> Share, then &quot;Add to Home Screen&quot; to open it like an app and use it offline.
+          </p>
+        )}
+        {installEvent && (
+          <Button size="sm" className="mt-3" onClick={handleInstall}>
+            <Download className="w-4 h-4 mr-2" />
+            Install App
+          </Button>
+        )}
+      </div>
+      <button
+        onClick={handleDismiss}
+        className="text-gray-400 hover:text-gray-600"
+        aria-label="Dismiss install prompt"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { Baby, BookOpen, Home, Plus, Menu, X, Users, LogOut, ChevronDown, Check } from "lucide-react";
+import { Baby, BookOpen, Home, Plus, Users, LogOut, ChevronDown, Check, Trash2, Upload, FileText, Bell, Pill, Droplets, Syringe, Thermometer, Trophy } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useState } from "react";
@@ -9,6 +9,10 @@ import { useIsHydrated } from "@/hooks/useIsHydrated";
 import { useUser, SignOutButton } from "@clerk/nextjs";
 import { useGroup } from "@/contexts/GroupContext";
 import Image from "next/image";
+import { SyncStatus } from "@/components/SyncStatus";
+import { InstallPrompt } from "@/components/InstallPrompt";
+import { clearCachedUserData } from "@/lib/serviceWorker";
+import { unsubscribeFromPush } from "@/lib/pushClient";
 
 const navigation = [
   { name: 'Home', href: '/', icon: Home },
@@ -139,9 +143,106 @@ function UserProfile() {
             <Users className="w-4 h-4 mr-3" />
             Manage Groups
           </Link>
+
+          <Link
+            href="/children"
+            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            onClick={() => setShowDropdown(false)}
+          >
+            <Baby className="w-4 h-4 mr-3" />
+            Manage Children
+          </Link>
+
+          <Link
+            href="/medications"
+            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            onClick={() => setShowDropdown(false)}
+          >
+            <Pill className="w-4 h-4 mr-3" />
+            Medications
+          </Link>
+
+          <Link
+            href="/milk"
+            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            onClick={() => setShowDropdown(false)}
+          >
+            <Droplets className="w-4 h-4 mr-3" />
+            Milk Stash
+          </Link>
+
+          <Link
+            href="/immunizations"
+            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            onClick={() => setShowDropdown(false)}
+          >
+            <Syringe className="w-4 h-4 mr-3" />
+            Vaccines
+          </Link>
+
+          <Link
+            href="/illness"
+            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            onClick={() => setShowDropdown(false)}
+          >
+            <Thermometer className="w-4 h-4 mr-3" />
+            Illness
+          </Link>
+
+          <Link
+            href="/milestones"
+            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            onClick={() => setShowDropdown(false)}
+          >
+            <Trophy className="w-4 h-4 mr-3" />
+            Milestones
+          </Link>
+
+          <Link
+            href="/trash"
+            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            onClick={() => setShowDropdown(false)}
+          >
+            <Trash2 className="w-4 h-4 mr-3" />
+            Trash
+          </Link>
+
+          <Link
+            href="/import"
+            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            onClick={() => setShowDropdown(false)}
+          >
+            <Upload className="w-4 h-4 mr-3" />
+            Import
+          </Link>
+
+          <Link
+            href="/report"
+            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            onClick={() => setShowDropdown(false)}
+          >
+            <FileText className="w-4 h-4 mr-3" />
+            Checkup Report
+          </Link>
+
+          <Link
+            href="/notifications"
+            className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            onClick={() => setShowDropdown(false)}
+          >
+            <Bell className="w-4 h-4 mr-3" />
+            Notifications
+          </Link>
           
           <SignOutButton>
-            <button className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+            <button
+              className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+              onClick={() => {
+                clearCachedUserData();
+                // The next person to sign in on this device gets their own subscription
+                unsubscribeFromPush().catch(error => console.error('Error unsubscribing from push:', error));
+              }}
+            >
               <LogOut className="w-4 h-4 mr-3" />
               Sign Out
             </button>
@@ -273,10 +374,14 @@ export function Layout({ children }: { children: React.ReactNode }) {
         isSignedIn ? "pb-20" : "pb-6" // Only add bottom padding for mobile nav when signed in
       )}>
         <div className="py-4 lg:py-6">
+          {isSignedIn && <InstallPrompt />}
           {children}
         </div>
       </main>
       
+      {/* Changes waiting in the offline queue */}
+      {isSignedIn && <SyncStatus />}
+
       {/* Bottom navigation for mobile */}
       <BottomNavigation />
     </div>
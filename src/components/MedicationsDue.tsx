@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Pill } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useGroup } from "@/contexts/GroupContext";
+import { useMedications } from "@/hooks/useMedications";
+import { checkDose, describeSchedule } from "@/lib/medications";
+import { getLocalTimeZone } from "@/lib/timezone";
+import { EventType, type MedicationWithStatus } from "@/types";
+
+interface MedicationsDueProps {
+  childId: string | null; // Only show this child's medicines (plus unassigned ones)
+  onDoseLogged?: () => void;
+  className?: string;
+}
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+};
+
+function getDueLabel(medication: MedicationWithStatus, now: Date): { text: string; tone: string } {
+  const { nextDueAt, lastDoseAt } = medication.status;
+  if (!nextDueAt) {
+    return lastDoseAt
+      ? { text: 'Done for now', tone: 'text-gray-900' }
+      : { text: 'Not given yet', tone: 'text-gray-900' };
+  }
+
+  const minutes = Math.round((new Date(nextDueAt).getTime() - now.getTime()) / (60 * 1000));
+  if (minutes > 0) {
+    return { text: `in ${formatMinutes(minutes)}`, tone: 'text-gray-900' };
+  }
+  if (minutes > -15) {
+    return { text: 'due now', tone: 'text-pink-600' };
+  }
+  return { text: `${formatMinutes(-minutes)} overdue`, tone: 'text-amber-600' };
+}
+
+/**
+ * When each medicine is next due, with a one-tap way to log a dose. Warns before
+ * logging one that would come too soon or go over the daily limit.
+ */
+export function MedicationsDue({ childId, onDoseLogged, className = "" }: MedicationsDueProps) {
+  const { activeGroup, children } = useGroup();
+  const { medications, refetch } = useMedications(activeGroup?.id);
+  const [now, setNow] = useState(() => new Date());
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const visible = medications.filter(m => !childId || !m.childId || m.childId === childId);
+  if (!activeGroup || visible.length === 0) {
+    return null;
+  }
+
+  const canAdd = activeGroup.permissions.canAdd;
+
+  const logDose = async (medication: MedicationWithStatus) => {
+    const givenAt = new Date();
+    // Checked again now, since the status may be a few minutes old
+    const warnings = checkDose(medication, medication.recentDoses, activeGroup.timezone, givenAt);
+    if (warnings.length > 0 && !confirm(`⚠️ ${warnings.join('\n⚠️ ')}\n\nLog this dose of ${medication.name} anyway?`)) {
+      return;
+    }
+
+    setBusyId(medication.id);
+    try {
+      const response = await fetch('/api/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: EventType.MEDICATION,
+          groupId: activeGroup.id,
+          childId: medication.childId || childId,
+          medicationId: medication.id,
+          date: format(givenAt, 'yyyy-MM-dd'),
+          time: format(givenAt, 'HH:mm'),
+          timezone: getLocalTimeZone(),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`💔 ${result.error || 'We couldn\'t log that dose. Please try again!'}`);
+        return;
+      }
+      await refetch();
+      onDoseLogged?.();
+    } catch (error) {
+      console.error('Error logging dose:', error);
+      alert('💔 Something went wrong logging the dose. Please try again!');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className={`bg-white p-4 lg:p-6 rounded-lg shadow-sm border ${className}`}>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Pill className="w-5 h-5 text-pink-500" />
+          <h2 className="text-lg font-semibold text-gray-900">💊 Medicines</h2>
+        </div>
+        <Link href="/medications" className="text-sm text-pink-600 hover:underline">
+          Manage
+        </Link>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {visible.map(medication => {
+          const due = getDueLabel(medication, now);
+          const { status } = medication;
+          // What giving a dose right now would run into
+          const warnings = checkDose(medication, medication.recentDoses, activeGroup.timezone, now);
+
+          return (
+            <div key={medication.id} className="p-3 rounded-lg border bg-red-50 border-red-200 space-y-1">
+              <div className="font-medium text-gray-900">
+                {medication.name} • {medication.dose} {medication.unit}
+                {medication.child && children.length > 1 && ` • 👶 ${medication.child.name}`}
+              </div>
+              <div className={`text-2xl font-bold ${due.tone}`}>
+                {due.text}
+              </div>
+              <div className="text-xs text-gray-500">
+                {describeSchedule(medication)}
+                {status.lastDoseAt && ` • last given ${format(new Date(status.lastDoseAt), 'h:mm a')}`}
+              </div>
+              {status.dailyLimit !== null && (
+                <div className="text-xs text-gray-500">
+                  {Math.round(status.amountInWindow * 100) / 100} of {status.dailyLimit} {medication.unit} {medication.scheduleType === 'interval' ? 'in the last 24 hours' : 'today'}
+                </div>
+              )}
+              {warnings.map(warning => (
+                <p key={warning} className="text-xs text-amber-700">⚠️ {warning}</p>
+              ))}
+              {canAdd && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-2"
+                  disabled={busyId !== null}
+                  onClick={() => logDose(medication)}
+                >
+                  {busyId === medication.id ? '💝 Saving...' : '💊 Given now'}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Droplets } from "lucide-react";
+import { useGroup } from "@/contexts/GroupContext";
+import { useMilkInventory } from "@/hooks/useMilkInventory";
+import { isMilkExpiringSoon, MILK_STORAGE_LOCATIONS } from "@/lib/milkInventory";
+
+interface MilkStashProps {
+  className?: string;
+}
+
+/**
+ * How much expressed milk is in the fridge and freezer, and which bags need using
+ * or throwing away soon.
+ */
+export function MilkStash({ className = "" }: MilkStashProps) {
+  const { activeGroup } = useGroup();
+  const { inventory } = useMilkInventory(activeGroup?.id);
+
+  if (!inventory || inventory.bags.length === 0) {
+    return null;
+  }
+
+  const now = new Date();
+  const expiringBags = inventory.bags.filter(bag => isMilkExpiringSoon(bag, now));
+
+  return (
+    <div className={`bg-white p-4 lg:p-6 rounded-lg shadow-sm border ${className}`}>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Droplets className="w-5 h-5 text-pink-500" />
+          <h2 className="text-lg font-semibold text-gray-900">🫙 Milk Stash</h2>
+        </div>
+        <Link href="/milk" className="text-sm text-pink-600 hover:underline">
+          Manage
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="p-3 rounded-lg border bg-blue-50 border-blue-200">
+          <div className="text-sm text-gray-600">🧊 Fridge</div>
+          <div className="text-2xl font-bold text-gray-900">{inventory.fridgeTotal} ml</div>
+        </div>
+        <div className="p-3 rounded-lg border bg-indigo-50 border-indigo-200">
+          <div className="text-sm text-gray-600">❄️ Freezer</div>
+          <div className="text-2xl font-bold text-gray-900">{inventory.freezerTotal} ml</div>
+        </div>
+      </div>
+
+      {(expiringBags.length > 0 || inventory.expired > 0) && (
+        <div className="mt-4 space-y-1">
+          {expiringBags.map(bag => (
+            <p key={bag.id} className="text-sm text-amber-700">
+              ⏳ {bag.remaining} ml in the {MILK_STORAGE_LOCATIONS[bag.location].toLowerCase()}
+              {bag.label && ` (${bag.label})`} expires {formatDistanceToNow(new Date(bag.expiresAt), { addSuffix: true })}
+            </p>
+          ))}
+          {inventory.expired > 0 && (
+            <p className="text-sm text-red-600">
+              🗑️ {inventory.expired} {inventory.expired === 1 ? 'bag has' : 'bags have'} expired and should be thrown away
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Hourglass } from "lucide-react";
+import { EventType, type EventPrediction, type EventPredictions } from "@/types";
+
+interface PredictionCountdownProps {
+  predictions: EventPredictions | null;
+  className?: string;
+}
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+};
+
+const minutesUntil = (iso: string, now: Date) => Math.round((new Date(iso).getTime() - now.getTime()) / (60 * 1000));
+
+function getCountdownLabel(prediction: EventPrediction, now: Date): { text: string; tone: string } {
+  const untilExpected = minutesUntil(prediction.expectedAt, now);
+
+  if (minutesUntil(prediction.earliest, now) > 0) {
+    return { text: `in ~${formatMinutes(untilExpected)}`, tone: 'text-gray-900' };
+  }
+  if (minutesUntil(prediction.latest, now) >= 0) {
+    return { text: 'any time now', tone: 'text-pink-600' };
+  }
+  return { text: `${formatMinutes(-untilExpected)} later than usual`, tone: 'text-amber-600' };
+}
+
+/**
+ * Countdown to the next expected feeding and nap, based on the recent rhythm.
+ */
+export function PredictionCountdown({ predictions, className = "" }: PredictionCountdownProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const rows = [predictions?.feeding, predictions?.nap].filter((prediction): prediction is EventPrediction => !!prediction);
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`bg-white p-4 lg:p-6 rounded-lg shadow-sm border ${className}`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Hourglass className="w-5 h-5 text-pink-500" />
+        <h2 className="text-lg font-semibold text-gray-900">🔮 Coming Up</h2>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {rows.map(prediction => {
+          const isFeeding = prediction.type === EventType.FEEDING;
+          const countdown = getCountdownLabel(prediction, now);
+          const elapsed = Math.max(0, -minutesUntil(prediction.since, now));
+
+          return (
+            <div
+              key={prediction.type}
+              className={`p-3 rounded-lg border ${isFeeding ? 'bg-blue-50 border-blue-200' : 'bg-purple-50 border-purple-200'}`}
+            >
+              <div className="font-medium text-gray-900">
+                {isFeeding ? '🍼 Next feeding' : '😴 Next nap'}
+              </div>
+              <div className={`text-2xl font-bold ${countdown.tone}`}>
+                {countdown.text}
+              </div>
+              <div className="text-xs text-gray-500">
+                {isFeeding
+                  ? `Last fed ${formatMinutes(elapsed)} ago • usually every ${formatMinutes(prediction.medianInterval)}`
+                  : `Awake ${formatMinutes(elapsed)} • usual wake window ${formatMinutes(prediction.medianInterval)}`}
+              </div>
+              <div className="text-xs text-gray-500">
+                Likely {format(new Date(prediction.earliest), 'h:mm a')} – {format(new Date(prediction.latest), 'h:mm a')}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { format, isToday } from "date-fns";
+import { Sparkles, Send } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useGroup } from "@/contexts/GroupContext";
+import { parseQuickEntry, type ParsedQuickEntry } from "@/lib/eventParser";
+import { offlineQueue } from "@/lib/offlineQueue";
+import { getLocalTimeZone } from "@/lib/timezone";
+import { validateEventPayload } from "@/lib/validation";
+import { EventType } from "@/types";
+
+interface QuickEntryBarProps {
+  childId: string | null; // Child the typed events are for
+  onSaved?: () => void;
+  className?: string;
+}
+
+const EVENT_EMOJI: Record<EventType, string> = {
+  [EventType.FEEDING]: '🍼',
+  [EventType.DIAPER]: '👶',
+  [EventType.SLEEP]: '😴',
+  [EventType.OTHER]: '🌟',
+  [EventType.GROWTH]: '📏',
+  [EventType.MEDICATION]: '💊',
+  [EventType.PUMPING]: '🫙',
+  [EventType.TEMPERATURE]: '🌡️',
+  [EventType.SYMPTOM]: '🤧',
+};
+
+function describeEntry({ type, data }: ParsedQuickEntry): string {
+  switch (type) {
+    case EventType.FEEDING: {
+      let desc = typeof data.feedingType === 'string' ? data.feedingType.replace(/_/g, ' ') : 'Feeding';
+      if (data.amount) desc += ` - ${data.amount}ml`;
+      if (data.duration) desc += ` - ${data.duration}min`;
+      if (data.side) desc += ` (${data.side})`;
+      return desc;
+    }
+    case EventType.DIAPER: {
+      const parts = [];
+      if (Number(data.wet) > 0) parts.push(`${data.wet} wet`);
+      if (Number(data.dirty) > 0) parts.push(`${data.dirty} dirty`);
+      return `Diaper: ${parts.join(', ') || '?'}`;
+    }
+    case EventType.SLEEP:
+      return `${String(data.sleepType).replace('_', ' ')}${data.duration ? ` - ${data.duration}min` : ''}`;
+    default:
+      return `${typeof data.eventType === 'string' ? data.eventType.replace('_', ' ') : 'Other'}: ${data.description}`;
+  }
+}
+
+/**
+ * Log moments by typing them, e.g. "breastfed left 20 min at 3:10, wet diaper 10 minutes ago".
+ */
+export function QuickEntryBar({ childId, onSaved, className = "" }: QuickEntryBarProps) {
+  const { activeGroup, children } = useGroup();
+  const [text, setText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const entries = useMemo(() => {
+    return parseQuickEntry(text).map(entry => {
+      const payload = {
+        type: entry.type,
+        occurredAt: entry.occurredAt.toISOString(),
+        timezone: getLocalTimeZone(),
+        ...entry.data,
+      };
+      return { entry, payload, errors: Object.values(validateEventPayload(entry.type, payload)) };
+    });
+  }, [text]);
+
+  if (!activeGroup?.permissions.canAdd) {
+    return null;
+  }
+
+  const needsChild = children.length > 1 && !childId;
+  const canSave = entries.length > 0 && entries.every(({ errors }) => errors.length === 0) && !needsChild;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave || isSaving) return;
+
+    setIsSaving(true);
+    setMessage(null);
+    let saved = 0;
+    try {
+      for (const { payload } of entries) {
+        const eventData = { ...payload, groupId: activeGroup.id, childId };
+
+        // Keep it on this device and save it once we're back online
+        if (!navigator.onLine) {
+          await offlineQueue.enqueue({ type: 'create', data: eventData });
+        } else {
+          const response = await fetch('/api/events', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(eventData),
+          });
+          const result = await response.json();
+          if (!result.success) {
+            const details = result.fieldErrors ? Object.values(result.fieldErrors).join(', ') : null;
+            throw new Error(details || result.error || 'Failed to save event');
+          }
+        }
+        saved++;
+      }
+
+      setText('');
+      setMessage(`💕 Saved ${saved} moment${saved !== 1 ? 's' : ''}${navigator.onLine ? '' : ' on this device'} ✨`);
+    } catch (error) {
+      console.error('Error saving quick entry:', error);
+      // Leave only what still needs saving, pinned to the times already worked out
+      setText(entries.slice(saved).map(({ entry }) => `${entry.text} at ${format(entry.occurredAt, 'HH:mm')}`).join('; '));
+      setMessage(`💔 ${saved > 0 ? `Saved ${saved}, but ` : ''}we couldn't save the rest: ${error instanceof Error ? error.message : 'please try again'}`);
+    } finally {
+      setIsSaving(false);
+      if (saved > 0) onSaved?.();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={`bg-white p-4 lg:p-6 rounded-lg shadow-sm border ${className}`}>
+      <div className="flex items-center gap-2 mb-3">
+        <Sparkles className="w-5 h-5 text-pink-500" />
+        <h2 className="text-lg font-semibold text-gray-900">✍️ Quick Add</h2>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setMessage(null);
+          }}
+          placeholder='e.g. "breastfed left 20 min at 3:10, wet diaper 10 minutes ago"'
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+          aria-label="Describe what happened"
+        />
+        <Button type="submit" disabled={!canSave || isSaving}>
+          <Send className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">{isSaving ? 'Saving...' : 'Save'}</span>
+        </Button>
+      </div>
+
+      {text.trim() && entries.length === 0 && (
+        <p className="text-sm text-gray-500 mt-3">
+          Try mentioning a feeding, diaper, sleep or bath so we know what to save 💭
+        </p>
+      )}
+
+      {entries.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {entries.map(({ entry, errors }, index) => (
+            <li key={index} className="flex items-start gap-3 p-2 bg-gray-50 rounded-md text-sm">
+              <span>{EVENT_EMOJI[entry.type]}</span>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 capitalize">{describeEntry(entry)}</p>
+                <p className="text-xs text-gray-500">
+                  {isToday(entry.occurredAt) ? 'Today' : format(entry.occurredAt, 'MMM d')} at {format(entry.occurredAt, 'h:mm a')}
+                </p>
+                {errors.length > 0 && (
+                  <p className="text-xs text-red-600 mt-1">{errors.join(' • ')}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {needsChild && entries.length > 0 && (
+        <p className="text-sm text-amber-600 mt-3">Please choose which little one these moments are for above 👶</p>
+      )}
+
+      {message && <p className="text-sm text-gray-700 mt-3">{message}</p>}
+    </form>
+  );
+}
@@ -3,7 +3,10 @@
 import { Provider } from 'react-redux';
 import { store } from '@/store';
 import { useEffect, useState } from 'react';
-import { setOnlineStatus } from '@/store/cacheSlice';
+import { setOnlineStatus, setOfflineActions, updateSyncStatus } from '@/store/cacheSlice';
+import { eventsApi } from '@/store/eventsApi';
+import { offlineQueue } from '@/lib/offlineQueue';
+import { onServiceWorkerMessage, registerServiceWorker } from '@/lib/serviceWorker';
 
 export function ReduxProvider({ children }: { children: React.ReactNode }) {
   const [isHydrated, setIsHydrated] = useState(false);
@@ -13,14 +16,46 @@ export function ReduxProvider({ children }: { children: React.ReactNode }) {
     setIsHydrated(true);
     store.dispatch(setOnlineStatus(navigator.onLine));
 
+    // Mirror the durable offline queue into the store
+    const unsubscribe = offlineQueue.subscribe((actions, replayed) => {
+      store.dispatch(setOfflineActions(actions));
+      store.dispatch(updateSyncStatus({ syncInProgress: false }));
+      if (replayed > 0) {
+        store.dispatch(updateSyncStatus({ lastSync: Date.now() }));
+        // Swap optimistic placeholders for the saved events
+        store.dispatch(eventsApi.util.invalidateTags(['EventsList']));
+      }
+    });
+    offlineQueue.getAll()
+      .then(actions => store.dispatch(setOfflineActions(actions)))
+      .catch(error => console.warn('Offline queue load error:', error));
+
+    // Replay anything left over from a previous session
+    offlineQueue.replay();
+
+    // The service worker queues writes it couldn't send and says when cached events changed
+    const unsubscribeWorker = onServiceWorkerMessage((message) => {
+      if (message.type === 'offline-queue-updated') {
+        offlineQueue.refresh().then(() => offlineQueue.replay());
+      } else if (message.type === 'api-cache-updated' && new URL(message.url).pathname === '/api/events') {
+        store.dispatch(eventsApi.util.invalidateTags(['EventsList']));
+      }
+    });
+    registerServiceWorker().catch(error => console.warn('Service worker registration error:', error));
+
     // Listen for online/offline events
-    const handleOnline = () => store.dispatch(setOnlineStatus(true));
+    const handleOnline = () => {
+      store.dispatch(setOnlineStatus(true));
+      offlineQueue.replay();
+    };
     const handleOffline = () => store.dispatch(setOnlineStatus(false));
 
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
 
     return () => {
+      unsubscribe();
+      unsubscribeWorker();
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
@@ -1,8 +1,18 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, LineChart, Line, Tooltip, LabelList } from 'recharts';
+import { useState, useEffect, useCallback } from "react";
+import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, LineChart, Line, Tooltip, LabelList, ComposedChart, Area, Scatter } from 'recharts';
 import { useGroup } from '@/contexts/GroupContext';
+import {
+  calculatePercentile,
+  formatPercentile,
+  getAgeInMonths,
+  getPercentileCurves,
+  toWhoUnit,
+  WHO_MAX_AGE_MONTHS,
+  type GrowthMetric,
+} from '@/lib/growth';
+import type { BabyEventWithRelations, Child } from '@/types';
 
 interface DailyStats {
   date: string;
@@ -19,23 +29,183 @@ interface StatsChartsProps {
   className?: string;
 }
 
+const GROWTH_METRIC_OPTIONS: { metric: GrowthMetric; label: string; unit: string }[] = [
+  { metric: 'weight', label: '⚖️ Weight', unit: 'kg' },
+  { metric: 'length', label: '📏 Length', unit: 'cm' },
+  { metric: 'headCircumference', label: '🧠 Head', unit: 'cm' },
+];
+
+interface GrowthPoint {
+  month: number; // age in months, matching the curves' x axis key
+  value: number;
+  percentile: number | null;
+  date: string;
+}
+
+/**
+ * Plots a child's growth measurements over the WHO 0-24 month percentile bands.
+ */
+function GrowthPercentileChart({ groupId, child }: { groupId: string; child: Child }) {
+  const [metric, setMetric] = useState<GrowthMetric>('weight');
+  const [measurements, setMeasurements] = useState<BabyEventWithRelations[]>([]);
+
+  useEffect(() => {
+    const fetchMeasurements = async () => {
+      try {
+        const response = await fetch(`/api/events?type=growth&groupId=${groupId}&childId=${child.id}&limit=200`);
+        if (response.ok) {
+          const result = await response.json();
+          if (result.success) {
+            setMeasurements(result.data.events);
+          }
+        } else {
+          console.error('Failed to fetch growth measurements:', response.status);
+          setMeasurements([]);
+        }
+      } catch (error) {
+        console.error('Error fetching growth measurements:', error);
+        setMeasurements([]);
+      }
+    };
+
+    fetchMeasurements();
+  }, [groupId, child.id]);
+
+  if (!child.birthDate || (child.sex !== 'male' && child.sex !== 'female')) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-4">
+        📏 Add {child.name}&apos;s birthday and sex to their profile to see WHO growth percentiles 💕
+      </p>
+    );
+  }
+
+  const birthDate = child.birthDate;
+  const option = GROWTH_METRIC_OPTIONS.find(o => o.metric === metric)!;
+
+  // Birth measurements from the profile count as the first point on the curve
+  const rawPoints: { date: string; value?: number | null }[] = [
+    {
+      date: birthDate,
+      value: metric === 'weight' ? child.birthWeight : metric === 'length' ? child.birthLength : null,
+    },
+    ...measurements.map(event => ({
+      date: event.date,
+      value: event.growthEvent?.[metric],
+    })),
+  ];
+
+  const points: GrowthPoint[] = rawPoints
+    .filter((p): p is { date: string; value: number } => !!p.value)
+    .map(p => {
+      const ageMonths = getAgeInMonths(birthDate, p.date);
+      return {
+        month: Math.round(ageMonths * 100) / 100,
+        value: Math.round(toWhoUnit(metric, p.value) * 100) / 100,
+        percentile: calculatePercentile(metric, child.sex, ageMonths, p.value),
+        date: p.date,
+      };
+    })
+    .filter(p => p.month >= 0 && p.month <= WHO_MAX_AGE_MONTHS)
+    .sort((a, b) => a.month - b.month);
+
+  // Only draw the curves a little past the latest measurement so the points stay readable
+  const latestAge = points.length > 0 ? points[points.length - 1].month : getAgeInMonths(birthDate, new Date());
+  const maxMonth = Math.min(WHO_MAX_AGE_MONTHS, Math.max(6, Math.ceil(latestAge) + 2));
+  const curves = getPercentileCurves(metric, child.sex, maxMonth).map(row => ({
+    ...row,
+    outerBand: [row.p3, row.p97],
+    innerBand: [row.p15, row.p85],
+  }));
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <h4 className="text-sm font-medium text-teal-600">📈 {child.name}&apos;s Growth (WHO percentiles)</h4>
+        <div className="flex gap-1">
+          {GROWTH_METRIC_OPTIONS.map(o => (
+            <button
+              key={o.metric}
+              type="button"
+              onClick={() => setMetric(o.metric)}
+              className={`px-2 py-1 rounded text-xs font-medium border ${
+                metric === o.metric
+                  ? 'bg-teal-100 text-teal-700 border-teal-300'
+                  : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="h-56 sm:h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={curves}>
+            <XAxis
+              dataKey="month"
+              type="number"
+              domain={[0, maxMonth]}
+              tick={{ fontSize: 10 }}
+              tickLine={false}
+              axisLine={false}
+              label={{ value: 'Age (months)', position: 'insideBottom', offset: -2, fontSize: 10 }}
+            />
+            <YAxis
+              type="number"
+              domain={['auto', 'auto']}
+              tick={{ fontSize: 10 }}
+              tickLine={false}
+              axisLine={false}
+              unit={` ${option.unit}`}
+              width={56}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #e5e7eb',
+                borderRadius: '8px',
+                fontSize: '11px'
+              }}
+              formatter={(value: number | number[], name: string, props: { payload?: GrowthPoint }) => {
+                if (name === 'measurement' && props.payload) {
+                  const percentile = props.payload.percentile;
+                  return [
+                    `${props.payload.value} ${option.unit}${percentile !== null ? ` (${formatPercentile(percentile)})` : ''}`,
+                    'Measured',
+                  ];
+                }
+                if (Array.isArray(value)) return [`${value[0]} – ${value[1]} ${option.unit}`, name];
+                return [`${value} ${option.unit}`, name];
+              }}
+              labelFormatter={(month: number) => `${month} months`}
+            />
+            <Area dataKey="outerBand" name="3rd–97th" stroke="none" fill="#ccfbf1" isAnimationActive={false} />
+            <Area dataKey="innerBand" name="15th–85th" stroke="none" fill="#99f6e4" isAnimationActive={false} />
+            <Line dataKey="p50" name="Median" stroke="#14b8a6" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+            <Scatter data={points} dataKey="value" name="measurement" fill="#db2777" line={{ stroke: '#db2777' }} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="text-xs text-center text-gray-500">
+        {latest?.percentile != null
+          ? `Latest: ${latest.value} ${option.unit} • ${formatPercentile(latest.percentile)}`
+          : 'Add a growth measurement to see where your little one sits on the curve 🌱'}
+      </div>
+    </div>
+  );
+}
+
 export function StatsCharts({ className = "" }: StatsChartsProps) {
-  const { activeGroup } = useGroup();
+  const { activeGroup, activeChildId, children } = useGroup();
   const [data, setData] = useState<DailyStats[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    if (activeGroup?.id) {
-      fetchStats();
-    } else {
-      // No active group, clear data and stop loading
-      setData([]);
-      setIsLoading(false);
-    }
-  }, [activeGroup?.id]);
+  const groupId = activeGroup?.id;
+  const groupName = activeGroup?.name;
 
-  const fetchStats = async () => {
-    if (!activeGroup?.id) {
+  const fetchStats = useCallback(async () => {
+    if (!groupId) {
       console.log('No active group, skipping stats fetch');
       setData([]);
       setIsLoading(false);
@@ -43,8 +213,9 @@ export function StatsCharts({ className = "" }: StatsChartsProps) {
     }
 
     try {
-      console.log('Fetching stats for group:', activeGroup.name);
-      const response = await fetch(`/api/stats?days=7&groupId=${activeGroup.id}`);
+      console.log('Fetching stats for group:', groupName);
+      const childParam = activeChildId ? `&childId=${activeChildId}` : '';
+      const response = await fetch(`/api/stats?days=7&groupId=${groupId}${childParam}`);
       if (response.ok) {
         const result = await response.json();
         if (result.success) {
@@ -61,7 +232,17 @@ export function StatsCharts({ className = "" }: StatsChartsProps) {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [groupId, groupName, activeChildId]);
+
+  useEffect(() => {
+    if (groupId) {
+      fetchStats();
+    } else {
+      // No active group, clear data and stop loading
+      setData([]);
+      setIsLoading(false);
+    }
+  }, [groupId, fetchStats]);
 
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
@@ -119,6 +300,9 @@ export function StatsCharts({ className = "" }: StatsChartsProps) {
 
   const chartData = getChartData();
 
+  // Growth charts are per child: the one being viewed, or the only child in the group
+  const growthChild = children.find(c => c.id === activeChildId) || (children.length === 1 ? children[0] : null);
+
   return (
     <div className={`bg-white p-4 lg:p-6 rounded-lg shadow-sm border ${className}`}>
       <h3 className="text-lg font-semibold text-gray-900 mb-6">Weekly Overview</h3>
@@ -298,6 +482,12 @@ export function StatsCharts({ className = "" }: StatsChartsProps) {
           </div>
         </div>
       </div>
+
+      {growthChild && activeGroup && (
+        <div className="mt-6 pt-6 border-t">
+          <GrowthPercentileChart groupId={activeGroup.id} child={growthChild} />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
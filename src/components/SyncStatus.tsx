@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { CloudOff, RefreshCw, Trash2, X, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useAppSelector } from "@/store/hooks";
+import { offlineQueue, type OfflineAction } from "@/lib/offlineQueue";
+
+const ACTION_LABELS: Record<OfflineAction['type'], string> = {
+  create: '✨ New moment',
+  update: '✏️ Edited moment',
+  delete: '🗑️ Removed moment',
+};
+
+/**
+ * Floating indicator for changes waiting in the offline queue, with retry and discard for stuck ones
+ * and a way to keep an edit that conflicts with someone else's.
+ */
+export function SyncStatus() {
+  const syncStatus = useAppSelector((state) => state.cache.syncStatus);
+  const offlineActions = useAppSelector((state) => state.cache.offlineActions);
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (offlineActions.length === 0 && syncStatus.isOnline) {
+    return null;
+  }
+
+  const stuckCount = offlineActions.filter(action => action.status === 'failed').length;
+
+  const handleRetry = async (id?: string) => {
+    setBusyId(id || 'all');
+    try {
+      if (id) {
+        await offlineQueue.retry(id);
+      } else {
+        await offlineQueue.replay();
+      }
+    } catch (error) {
+      console.error('Error retrying offline changes:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOverwrite = async (action: OfflineAction) => {
+    if (!confirm('Save your edit over the other change? 💕')) return;
+
+    setBusyId(action.id);
+    try {
+      await offlineQueue.overwrite(action.id);
+    } catch (error) {
+      console.error('Error saving conflicted offline change:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (action: OfflineAction) => {
+    if (!confirm('Discard this change? It will not be saved. 💔')) return;
+
+    setBusyId(action.id);
+    try {
+      await offlineQueue.discard(action.id);
+    } catch (error) {
+      console.error('Error discarding offline change:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed right-4 bottom-20 sm:bottom-6 z-40 flex flex-col items-end gap-2">
+      {isOpen && (
+        <div className="w-80 max-w-[calc(100vw-2rem)] bg-white rounded-xl shadow-lg border p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-gray-900">💕 Waiting to sync</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {!syncStatus.isOnline && (
+            <p className="text-xs text-gray-500 mb-3">
+              You&apos;re offline. Changes are kept safe on this device and will be saved once you&apos;re back online.
+            </p>
+          )}
+
+          {offlineActions.length === 0 ? (
+            <p className="text-sm text-gray-500">Everything is saved ✨</p>
+          ) : (
+            <ul className="space-y-2 max-h-72 overflow-y-auto">
+              {offlineActions.map(action => (
+                <li
+                  key={action.id}
+                  className={`p-2 rounded-lg border text-sm ${
+                    action.status === 'failed' ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 truncate">
+                        {ACTION_LABELS[action.type]}
+                        {typeof action.data?.type === 'string' && ` • ${action.data.type}`}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Queued {format(new Date(action.timestamp), 'MMM d, h:mm a')}
+                        {action.attempts > 0 && ` • ${action.attempts} ${action.attempts === 1 ? 'try' : 'tries'}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={busyId !== null || !syncStatus.isOnline || action.conflictVersion !== undefined}
+                        onClick={() => handleRetry(action.id)}
+                        className="p-1.5"
+                        title="Retry now"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={busyId !== null}
+                        onClick={() => handleDiscard(action)}
+                        className="p-1.5 hover:bg-red-100"
+                        title="Discard"
+                      >
+                        <Trash2 className="w-3 h-3 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                  {action.lastError && (
+                    <p className="mt-1 text-xs text-red-600">{action.lastError}</p>
+                  )}
+                  {action.conflictVersion !== undefined && (
+                    <div className="mt-2">
+                      <p className="text-xs text-gray-600">
+                        Keep your edit to replace theirs, or discard it to keep theirs.
+                      </p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busyId !== null || !syncStatus.isOnline}
+                        onClick={() => handleOverwrite(action)}
+                        className="w-full mt-1"
+                      >
+                        Keep my edit
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {offlineActions.length > 0 && syncStatus.isOnline && (
+            <Button
+              size="sm"
+              className="w-full mt-3"
+              disabled={busyId !== null}
+              onClick={() => handleRetry()}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${busyId === 'all' ? 'animate-spin' : ''}`} />
+              Sync now
+            </Button>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 rounded-full shadow-md text-sm font-medium ${
+          stuckCount > 0
+            ? 'bg-red-100 text-red-700'
+            : 'bg-orange-100 text-orange-700'
+        }`}
+      >
+        {stuckCount > 0 ? (
+          <AlertTriangle className="w-4 h-4" />
+        ) : !syncStatus.isOnline ? (
+          <CloudOff className="w-4 h-4" />
+        ) : (
+          <RefreshCw className="w-4 h-4 animate-spin" />
+        )}
+        {stuckCount > 0
+          ? `${stuckCount} need attention`
+          : offlineActions.length > 0
+            ? `${offlineActions.length} waiting to sync`
+            : 'Offline'}
+      </button>
+    </div>
+  );
+}
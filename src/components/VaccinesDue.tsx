@@ -0,0 +1,58 @@
+"use client";
+
+import Link from "next/link";
+import { format, parseISO } from "date-fns";
+import { Syringe } from "lucide-react";
+import { useGroup } from "@/contexts/GroupContext";
+import { useImmunizations } from "@/hooks/useImmunizations";
+
+interface VaccinesDueProps {
+  childId: string | null; // Hidden unless a single child is shown
+  className?: string;
+}
+
+/**
+ * Vaccines that are overdue, due now or coming up in the next few weeks for a child.
+ */
+export function VaccinesDue({ childId, className = "" }: VaccinesDueProps) {
+  const { activeGroup, children } = useGroup();
+  const { overview } = useImmunizations(activeGroup?.id, childId);
+
+  const doses = overview?.doses.filter(d => d.status === 'overdue' || d.status === 'due' || d.status === 'upcoming') ?? [];
+  if (doses.length === 0) {
+    return null;
+  }
+
+  const child = children.find(c => c.id === childId);
+
+  return (
+    <div className={`bg-white p-4 lg:p-6 rounded-lg shadow-sm border ${className}`}>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Syringe className="w-5 h-5 text-pink-500" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            💉 Vaccines{children.length > 1 && child && ` for ${child.name}`}
+          </h2>
+        </div>
+        <Link href="/immunizations" className="text-sm text-pink-600 hover:underline">
+          Manage
+        </Link>
+      </div>
+
+      <div className="space-y-1">
+        {doses.map(dose => (
+          <p
+            key={dose.id}
+            className={`text-sm ${dose.status === 'overdue' ? 'text-amber-700' : dose.status === 'due' ? 'text-pink-600' : 'text-gray-700'}`}
+          >
+            {dose.status === 'overdue' ? '⚠️' : dose.status === 'due' ? '⏰' : '📅'} {dose.vaccineName}
+            {dose.dose > 0 && ` (dose ${dose.dose})`}
+            {dose.dueOn && (dose.status === 'upcoming'
+              ? ` • due ${format(parseISO(dose.dueOn), 'MMM d')}`
+              : dose.status === 'overdue' ? ' • overdue' : ' • due now')}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -16,11 +16,15 @@ import { TimelinePath, useTimelinePath } from "./timeline/TimelinePath";
 import { TimelineLabels } from "./timeline/TimelineLabels";
 import { EventPoints } from "./timeline/EventPoints";
 import { EventModal } from "./timeline/EventModal";
+import { IllnessOverlay } from "./timeline/IllnessOverlay";
+import type { EventPredictions, IllnessEpisode } from "@/types";
 
 
 
 interface VisualTimelineProps {
   events: TimelineEvent[];
+  predictions?: EventPredictions | null; // Drawn as ghost markers
+  episodes?: IllnessEpisode[]; // Shaded behind the timeline while they lasted
   onEdit: (eventId: string) => void;
   onDelete: (eventId: string, eventTitle: string) => void;
   isLoading?: boolean;
@@ -28,7 +32,7 @@ interface VisualTimelineProps {
 
 
 
-export function VisualTimeline({ events, onEdit, onDelete, isLoading = false }: VisualTimelineProps) {
+export function VisualTimeline({ events, predictions, episodes = [], onEdit, onDelete, isLoading = false }: VisualTimelineProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const timelinePathRef = useRef<SVGPathElement>(null);
   const [selectedEvent, setSelectedEvent] = useState<TimelineEvent | null>(null);
@@ -260,6 +264,13 @@ export function VisualTimeline({ events, onEdit, onDelete, isLoading = false }:
           >
 
 
+            {/* Illness episodes, behind everything else */}
+            <IllnessOverlay
+              episodes={episodes}
+              visibleDays={visibleDays}
+              timelineWidth={TIMELINE_WIDTH}
+            />
+
             {/* Timeline Labels (Day and Hour labels) */}
             <TimelineLabels 
               visibleDays={visibleDays}
@@ -328,6 +339,7 @@ export function VisualTimeline({ events, onEdit, onDelete, isLoading = false }:
             {/* Event Points */}
             <EventPoints
               events={events}
+              predictions={predictions}
               visibleDays={visibleDays}
               timelinePoints={timelinePoints}
               hoveredEvent={hoveredEvent}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
+import { Select } from "@/components/ui/Select";
+import { ImageUpload } from "@/components/ImageUpload";
+import { DEFAULT_IMMUNIZATION_SCHEDULE, IMMUNIZATION_SCHEDULE_OPTIONS } from "@/lib/immunizations";
+import { type ChildProfileForm, type ImageData } from "@/types";
+import { format } from "date-fns";
+
+interface ChildFormProps {
+  onSubmit: (data: ChildProfileForm) => Promise<void>;
+  isLoading?: boolean;
+  defaultValues?: Partial<ChildProfileForm>;
+  submitLabel?: string;
+  onCancel?: () => void;
+  groupId?: string; // Group photos are uploaded to
+}
+
+export function ChildForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Profile', onCancel, groupId }: ChildFormProps) {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState<ChildProfileForm>({
+    name: defaultValues?.name || '',
+    birthDate: defaultValues?.birthDate || '',
+    sex: defaultValues?.sex || '',
+    birthWeight: defaultValues?.birthWeight,
+    birthLength: defaultValues?.birthLength,
+    photoUrl: defaultValues?.photoUrl || '',
+    immunizationSchedule: defaultValues?.immunizationSchedule || DEFAULT_IMMUNIZATION_SCHEDULE,
+  });
+  // ImageUpload works with ImageData lists, so keep the single photo in that shape
+  const [photo, setPhoto] = useState<ImageData[]>(() =>
+    defaultValues?.photoUrl
+      ? [{ id: 'current-photo', url: defaultValues.photoUrl, key: '', name: 'photo', size: 0, uploadedAt: new Date().toISOString() }]
+      : []
+  );
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name || formData.name.trim().length === 0) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (formData.birthDate && formData.birthDate > format(new Date(), 'yyyy-MM-dd')) {
+      newErrors.birthDate = 'Birth date cannot be in the future';
+    }
+
+    if (formData.birthWeight !== undefined && formData.birthWeight <= 0) {
+      newErrors.birthWeight = 'Birth weight must be positive';
+    }
+
+    if (formData.birthLength !== undefined && formData.birthLength <= 0) {
+      newErrors.birthLength = 'Birth length must be positive';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      await onSubmit({ ...formData, photoUrl: photo[0]?.url || '' });
+      setErrors({});
+    } catch (error) {
+      setErrors({ submit: error instanceof Error ? error.message : 'Failed to save profile. Please try again.' });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Name */}
+      <div>
+        <label htmlFor="childName" className="block text-sm font-medium text-gray-700 mb-1">
+          👶 What&apos;s your little one&apos;s name? *
+        </label>
+        <Input
+          id="childName"
+          type="text"
+          value={formData.name}
+          onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="e.g., Grace"
+          required
+          className={errors.name ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+        />
+        {errors.name && (
+          <p className="text-red-600 text-sm mt-1">💕 Please tell us their name</p>
+        )}
+      </div>
+
+      {/* Birth Date */}
+      <div>
+        <label htmlFor="birthDate" className="block text-sm font-medium text-gray-700 mb-1">
+          🎂 Birthday
+        </label>
+        <Input
+          id="birthDate"
+          type="date"
+          value={formData.birthDate || ''}
+          max={format(new Date(), 'yyyy-MM-dd')}
+          onChange={(e) => setFormData(prev => ({ ...prev, birthDate: e.target.value }))}
+          className={errors.birthDate ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+        />
+        {errors.birthDate && (
+          <p className="text-red-600 text-sm mt-1">💕 {errors.birthDate}</p>
+        )}
+      </div>
+
+      {/* Sex */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          ✨ Sex
+        </label>
+        <RadioButtonGroup
+          name="sex"
+          value={formData.sex || ''}
+          onChange={(value) => setFormData(prev => ({ ...prev, sex: value as ChildProfileForm['sex'] }))}
+          cols={3}
+          options={[
+            { value: 'female', label: '👧 Girl' },
+            { value: 'male', label: '👦 Boy' },
+            { value: 'other', label: '🌈 Other' },
+          ]}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Birth Weight */}
+        <div>
+          <label htmlFor="birthWeight" className="block text-sm font-medium text-gray-700 mb-1">
+            ⚖️ Birth weight (g)
+          </label>
+          <Input
+            id="birthWeight"
+            type="number"
+            min="1"
+            value={formData.birthWeight ?? ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, birthWeight: e.target.value ? parseInt(e.target.value) : undefined }))}
+            placeholder="e.g., 3400"
+            className={errors.birthWeight ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.birthWeight && (
+            <p className="text-red-600 text-sm mt-1">💕 {errors.birthWeight}</p>
+          )}
+        </div>
+
+        {/* Birth Length */}
+        <div>
+          <label htmlFor="birthLength" className="block text-sm font-medium text-gray-700 mb-1">
+            📏 Birth length (cm)
+          </label>
+          <Input
+            id="birthLength"
+            type="number"
+            min="1"
+            step="0.1"
+            value={formData.birthLength ?? ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, birthLength: e.target.value ? parseFloat(e.target.value) : undefined }))}
+            placeholder="e.g., 50.5"
+            className={errors.birthLength ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.birthLength && (
+            <p className="text-red-600 text-sm mt-1">💕 {errors.birthLength}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Vaccination schedule */}
+      <div>
+        <label htmlFor="immunizationSchedule" className="block text-sm font-medium text-gray-700 mb-1">
+          💉 Vaccination schedule
+        </label>
+        <Select
+          id="immunizationSchedule"
+          value={formData.immunizationSchedule}
+          onChange={(e) => setFormData(prev => ({ ...prev, immunizationSchedule: e.target.value }))}
+        >
+          {IMMUNIZATION_SCHEDULE_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </Select>
+        <p className="text-xs text-gray-500 mt-1">Used to work out which vaccines are coming up</p>
+      </div>
+
+      {/* Photo */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          📸 Profile photo
+        </label>
+        <ImageUpload
+          images={photo}
+          groupId={groupId}
+          onImagesChange={setPhoto}
+          maxImages={1}
+        />
+      </div>
+
+      {/* Submit Button */}
+      <div className="flex flex-col items-end space-y-2">
+        {errors.submit && (
+          <p className="text-red-600 text-sm">{errors.submit}</p>
+        )}
+        <div className="flex gap-3 w-full sm:w-auto">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              className="flex-1 sm:flex-none"
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="submit"
+            disabled={isLoading}
+            className="flex-1 sm:flex-none"
+          >
+            {isLoading ? '💝 Saving...' : `✨ ${submitLabel}`}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
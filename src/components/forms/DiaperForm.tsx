@@ -6,7 +6,8 @@ import { Input } from "@/components/ui/Input";
 import { Textarea } from "@/components/ui/Textarea";
 import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
 import { ImageUpload } from "@/components/ImageUpload";
-import { type DiaperEventForm, type ImageData } from "@/types";
+import { EventType, type DiaperEventForm, type ImageData } from "@/types";
+import { EventValidationError, hasFieldErrors, validateEventPayload } from "@/lib/validation";
 import { format } from "date-fns";
 import { Droplet, Baby } from "lucide-react";
 
@@ -15,9 +16,10 @@ interface DiaperFormProps {
   isLoading?: boolean;
   defaultValues?: Partial<DiaperEventForm & { timestamp: string; type: string; consistency: string; color: string }>;
   submitLabel?: string;
+  groupId?: string; // Group photos are uploaded to
 }
 
-export function DiaperForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Diaper Change' }: DiaperFormProps) {
+export function DiaperForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Diaper Change', groupId }: DiaperFormProps) {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [formData, setFormData] = useState<DiaperEventForm>(() => {
     if (defaultValues) {
@@ -57,22 +59,10 @@ export function DiaperForm({ onSubmit, isLoading = false, defaultValues, submitL
   });
 
   const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.date) {
-      newErrors.date = 'Date is required';
-    }
-
-    if (!formData.time) {
-      newErrors.time = 'Time is required';
-    }
-
-    if (formData.wet === 0 && formData.dirty === 0) {
-      newErrors.type = 'Please select at least wet or dirty diaper';
-    }
-
+    // Same rules the API applies, so mistakes are caught before saving
+    const newErrors = validateEventPayload(EventType.DIAPER, formData);
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return !hasFieldErrors(newErrors);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -94,8 +84,11 @@ export function DiaperForm({ onSubmit, isLoading = false, defaultValues, submitL
         images: []
       });
       setErrors({});
-    } catch {
-      setErrors({ submit: 'Failed to save diaper change. Please try again.' });
+    } catch (error) {
+      // Show what the server rejected next to the fields it named
+      setErrors(error instanceof EventValidationError
+        ? { ...error.fieldErrors, submit: error.message }
+        : { submit: 'Failed to save diaper change. Please try again.' });
     }
   };
 
@@ -276,6 +269,7 @@ export function DiaperForm({ onSubmit, isLoading = false, defaultValues, submitL
         </p>
         <ImageUpload
           images={formData.images || []}
+          groupId={groupId}
           onImagesChange={handleImagesChange}
           maxImages={3}
         />
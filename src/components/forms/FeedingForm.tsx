@@ -6,7 +6,10 @@ import { Input } from "@/components/ui/Input";
 import { Textarea } from "@/components/ui/Textarea";
 import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
 import { ImageUpload } from "@/components/ImageUpload";
-import { FeedingType, type FeedingEventForm, type ImageData } from "@/types";
+import { useGroup } from "@/contexts/GroupContext";
+import { useMilkInventory } from "@/hooks/useMilkInventory";
+import { EventType, FeedingType, type FeedingEventForm, type ImageData } from "@/types";
+import { EventValidationError, hasFieldErrors, validateEventPayload, requiresFeedingAmount, requiresFeedingDuration } from "@/lib/validation";
 import { format } from "date-fns";
 import { Milk, Baby, FlaskConical, Zap } from "lucide-react";
 
@@ -15,9 +18,12 @@ interface FeedingFormProps {
   isLoading?: boolean;
   defaultValues?: Partial<FeedingEventForm & { timestamp: string; method: string }>;
   submitLabel?: string;
+  groupId?: string; // Group photos are uploaded to
 }
 
-export function FeedingForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Feeding' }: FeedingFormProps) {
+export function FeedingForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Feeding', groupId }: FeedingFormProps) {
+  const { activeGroup } = useGroup();
+  const { inventory } = useMilkInventory(activeGroup?.id);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [formData, setFormData] = useState<FeedingEventForm>(() => {
     if (defaultValues) {
@@ -55,30 +61,10 @@ export function FeedingForm({ onSubmit, isLoading = false, defaultValues, submit
   });
 
   const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.date) {
-      newErrors.date = 'Date is required';
-    }
-
-    if (!formData.time) {
-      newErrors.time = 'Time is required';
-    }
-
-    if (requiresAmount && (!formData.amount || formData.amount <= 0)) {
-      newErrors.amount = 'Amount is required and must be greater than 0';
-    }
-
-    if (requiresDuration && (!formData.duration || formData.duration <= 0)) {
-      newErrors.duration = 'Duration is required and must be greater than 0';
-    }
-
-    if (formData.feedingType === FeedingType.BREASTFED && !formData.side) {
-      newErrors.side = 'Please select which side was used for breastfeeding';
-    }
-
+    // Same rules the API applies, so mistakes are caught before saving
+    const newErrors = validateEventPayload(EventType.FEEDING, formData);
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return !hasFieldErrors(newErrors);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -99,8 +85,11 @@ export function FeedingForm({ onSubmit, isLoading = false, defaultValues, submit
         images: []
       });
       setErrors({});
-    } catch {
-      setErrors({ submit: 'Failed to save feeding. Please try again.' });
+    } catch (error) {
+      // Show what the server rejected next to the fields it named
+      setErrors(error instanceof EventValidationError
+        ? { ...error.fieldErrors, submit: error.message }
+        : { submit: 'Failed to save feeding. Please try again.' });
     }
   };
 
@@ -108,8 +97,8 @@ export function FeedingForm({ onSubmit, isLoading = false, defaultValues, submit
     setFormData(prev => ({ ...prev, images }));
   };
 
-  const requiresAmount = formData.feedingType !== FeedingType.BREASTFED;
-  const requiresDuration = formData.feedingType === FeedingType.BREASTFED || formData.feedingType === FeedingType.MIXED;
+  const requiresAmount = requiresFeedingAmount(formData.feedingType);
+  const requiresDuration = requiresFeedingDuration(formData.feedingType);
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
@@ -220,6 +209,11 @@ export function FeedingForm({ onSubmit, isLoading = false, defaultValues, submit
             {errors.amount && (
               <p className="text-red-600 text-sm mt-1">💕 How much did baby have?</p>
             )}
+            {formData.feedingType === FeedingType.EXPRESSED_BREAST_MILK && inventory && inventory.bags.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                🫙 Taken from your milk stash, oldest first: {inventory.fridgeTotal} ml in the fridge, {inventory.freezerTotal} ml in the freezer
+              </p>
+            )}
           </div>
         )}
 
@@ -308,6 +302,7 @@ export function FeedingForm({ onSubmit, isLoading = false, defaultValues, submit
         </label>
         <ImageUpload
           images={formData.images || []}
+          groupId={groupId}
           onImagesChange={handleImagesChange}
           maxImages={3}
         />
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Textarea } from "@/components/ui/Textarea";
+import { ImageUpload } from "@/components/ImageUpload";
+import { EventType, type GrowthEventForm, type ImageData } from "@/types";
+import { EventValidationError, hasFieldErrors, validateEventPayload } from "@/lib/validation";
+import { format } from "date-fns";
+
+interface GrowthFormProps {
+  onSubmit: (data: GrowthEventForm) => Promise<void>;
+  isLoading?: boolean;
+  defaultValues?: Partial<GrowthEventForm>;
+  submitLabel?: string;
+  groupId?: string; // Group photos are uploaded to
+}
+
+export function GrowthForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Measurement', groupId }: GrowthFormProps) {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState<GrowthEventForm>({
+    date: defaultValues?.date || format(new Date(), 'yyyy-MM-dd'),
+    time: defaultValues?.time || format(new Date(), 'HH:mm'),
+    weight: defaultValues?.weight,
+    length: defaultValues?.length,
+    headCircumference: defaultValues?.headCircumference,
+    notes: defaultValues?.notes || '',
+    images: defaultValues?.images || []
+  });
+
+  const validateForm = (): boolean => {
+    // Same rules the API applies, so mistakes are caught before saving
+    const newErrors = validateEventPayload(EventType.GROWTH, formData);
+    setErrors(newErrors);
+    return !hasFieldErrors(newErrors);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      await onSubmit(formData);
+
+      // Reset form after successful submission
+      setFormData({
+        date: format(new Date(), 'yyyy-MM-dd'),
+        time: format(new Date(), 'HH:mm'),
+        images: []
+      });
+      setErrors({});
+    } catch (error) {
+      // Show what the server rejected next to the fields it named
+      setErrors(error instanceof EventValidationError
+        ? { ...error.fieldErrors, submit: error.message }
+        : { submit: 'Failed to save measurement. Please try again.' });
+    }
+  };
+
+  const handleImagesChange = (images: ImageData[]) => {
+    setFormData(prev => ({ ...prev, images }));
+  };
+
+  const parseNumber = (value: string, parser: (v: string) => number) =>
+    value ? parser(value) : undefined;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Date */}
+        <div>
+          <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-1">
+            📅 When was baby measured? *
+          </label>
+          <Input
+            id="date"
+            type="date"
+            value={formData.date}
+            onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+            required
+            className={errors.date ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.date && (
+            <p className="text-red-600 text-sm mt-1">💕 Please pick the date of the measurement</p>
+          )}
+        </div>
+
+        {/* Time */}
+        <div>
+          <label htmlFor="time" className="block text-sm font-medium text-gray-700 mb-1">
+            ⏰ What time? *
+          </label>
+          <Input
+            id="time"
+            type="time"
+            value={formData.time}
+            onChange={(e) => setFormData(prev => ({ ...prev, time: e.target.value }))}
+            required
+            className={errors.time ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.time && (
+            <p className="text-red-600 text-sm mt-1">💕 What time was baby measured?</p>
+          )}
+        </div>
+      </div>
+
+      {/* Measurements */}
+      <div>
+        <p className="text-sm text-gray-600 mb-3">
+          🌱 Fill in whatever was measured — even just one is perfect!
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="weight" className="block text-sm font-medium text-gray-700 mb-1">
+              ⚖️ Weight (g)
+            </label>
+            <Input
+              id="weight"
+              type="number"
+              min="1"
+              value={formData.weight ?? ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, weight: parseNumber(e.target.value, parseInt) }))}
+              placeholder="e.g., 5400"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="length" className="block text-sm font-medium text-gray-700 mb-1">
+              📏 Length (cm)
+            </label>
+            <Input
+              id="length"
+              type="number"
+              min="1"
+              step="0.1"
+              value={formData.length ?? ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, length: parseNumber(e.target.value, parseFloat) }))}
+              placeholder="e.g., 58.5"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="headCircumference" className="block text-sm font-medium text-gray-700 mb-1">
+              🧠 Head (cm)
+            </label>
+            <Input
+              id="headCircumference"
+              type="number"
+              min="1"
+              step="0.1"
+              value={formData.headCircumference ?? ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, headCircumference: parseNumber(e.target.value, parseFloat) }))}
+              placeholder="e.g., 39.2"
+            />
+          </div>
+        </div>
+        {errors.measurements && (
+          <p className="text-red-600 text-sm mt-2">💕 {errors.measurements}</p>
+        )}
+      </div>
+
+      {/* Notes */}
+      <div>
+        <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+          💭 Any notes from the checkup?
+        </label>
+        <Textarea
+          id="notes"
+          value={formData.notes || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="What did the doctor say? How is baby doing? 🥰"
+          rows={3}
+        />
+      </div>
+
+      {/* Images */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          📸 Capture how big they&apos;re getting
+        </label>
+        <ImageUpload
+          images={formData.images || []}
+          groupId={groupId}
+          onImagesChange={handleImagesChange}
+          maxImages={5}
+        />
+      </div>
+
+      {/* Submit Button */}
+      <div className="flex flex-col items-end space-y-2">
+        {errors.submit && (
+          <p className="text-red-600 text-sm">{errors.submit}</p>
+        )}
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="w-full sm:w-auto"
+        >
+          {isLoading ? '💝 Saving...' : `✨ ${submitLabel}`}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { Textarea } from "@/components/ui/Textarea";
+import type { Child, IllnessEpisodeForm as IllnessEpisodeFormData } from "@/types";
+
+interface IllnessEpisodeFormProps {
+  onSubmit: (data: IllnessEpisodeFormData) => Promise<void>;
+  isLoading?: boolean;
+  defaultValues?: Partial<IllnessEpisodeFormData>;
+  submitLabel?: string;
+  onCancel?: () => void;
+  childOptions: Child[];
+}
+
+export function IllnessEpisodeForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Illness', onCancel, childOptions }: IllnessEpisodeFormProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<IllnessEpisodeFormData>({
+    name: defaultValues?.name || '',
+    startDate: defaultValues?.startDate || format(new Date(), 'yyyy-MM-dd'),
+    startTime: defaultValues?.startTime || format(new Date(), 'HH:mm'),
+    endDate: defaultValues?.endDate || '',
+    endTime: defaultValues?.endTime || '',
+    notes: defaultValues?.notes || '',
+    childId: defaultValues?.childId ?? childOptions[0]?.id ?? '',
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      setError('Give it a name, e.g. "Cold" or "Ear infection"');
+      return;
+    }
+    if (formData.endDate && `${formData.endDate}T${formData.endTime || '23:59'}` < `${formData.startDate}T${formData.startTime}`) {
+      setError('It can\'t end before it started');
+      return;
+    }
+
+    try {
+      await onSubmit(formData);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save illness. Please try again.');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="illnessName" className="block text-sm font-medium text-gray-700 mb-1">
+            🤒 What is it? *
+          </label>
+          <Input
+            id="illnessName"
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g., Cold, Ear infection"
+            required
+          />
+        </div>
+
+        {childOptions.length > 1 && (
+          <div>
+            <label htmlFor="illnessChild" className="block text-sm font-medium text-gray-700 mb-1">
+              👶 Who is unwell?
+            </label>
+            <Select
+              id="illnessChild"
+              value={formData.childId || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, childId: e.target.value }))}
+            >
+              {childOptions.map(child => (
+                <option key={child.id} value={child.id}>{child.name}</option>
+              ))}
+              <option value="">Everyone</option>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="startDate" className="block text-sm font-medium text-gray-700 mb-1">
+            📅 Started *
+          </label>
+          <div className="flex gap-2">
+            <Input
+              id="startDate"
+              type="date"
+              value={formData.startDate}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+              required
+            />
+            <Input
+              id="startTime"
+              type="time"
+              value={formData.startTime}
+              onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+              required
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="endDate" className="block text-sm font-medium text-gray-700 mb-1">
+            🌈 Better since
+          </label>
+          <div className="flex gap-2">
+            <Input
+              id="endDate"
+              type="date"
+              value={formData.endDate || ''}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
+            />
+            <Input
+              id="endTime"
+              type="time"
+              value={formData.endTime || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+              disabled={!formData.endDate}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Leave empty while they&apos;re still unwell</p>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="illnessNotes" className="block text-sm font-medium text-gray-700 mb-1">
+          💭 Notes
+        </label>
+        <Textarea
+          id="illnessNotes"
+          value={formData.notes || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="What the doctor said, what helped... 💕"
+          rows={2}
+        />
+      </div>
+
+      <div className="flex flex-col items-end space-y-2">
+        {error && (
+          <p className="text-red-600 text-sm">💕 {error}</p>
+        )}
+        <div className="flex gap-3 w-full sm:w-auto">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              className="flex-1 sm:flex-none"
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="submit"
+            disabled={isLoading}
+            className="flex-1 sm:flex-none"
+          >
+            {isLoading ? '💝 Saving...' : `✨ ${submitLabel}`}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
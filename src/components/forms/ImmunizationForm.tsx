@@ -0,0 +1,273 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { Textarea } from "@/components/ui/Textarea";
+import { getEventTitle } from "@/components/timeline/TimelineUtils";
+import { convertToTimelineEvent } from "@/utils/eventConversion";
+import { IMMUNIZATION_SITES } from "@/lib/immunizations";
+import type { BabyEventWithRelations } from "@/types/baby-events";
+import type { ImmunizationDoseStatus, ImmunizationForm as ImmunizationFormData, ImmunizationSite } from "@/types";
+
+interface ImmunizationFormProps {
+  onSubmit: (data: ImmunizationFormData) => Promise<void>;
+  isLoading?: boolean;
+  defaultValues?: Partial<ImmunizationFormData>;
+  submitLabel?: string;
+  onCancel?: () => void;
+  doseOptions: ImmunizationDoseStatus[]; // schedule doses this record can be for
+  groupId: string;
+  childId: string; // used to offer that day's events to link to
+}
+
+export function ImmunizationForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Vaccine', onCancel, doseOptions, groupId, childId }: ImmunizationFormProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [dayEvents, setDayEvents] = useState<BabyEventWithRelations[]>([]);
+  const [formData, setFormData] = useState<ImmunizationFormData>({
+    scheduleDoseId: defaultValues?.scheduleDoseId ?? doseOptions[0]?.id ?? '',
+    vaccine: defaultValues?.vaccine || '',
+    doseNumber: defaultValues?.doseNumber,
+    givenOn: defaultValues?.givenOn || format(new Date(), 'yyyy-MM-dd'),
+    lotNumber: defaultValues?.lotNumber || '',
+    site: defaultValues?.site || '',
+    provider: defaultValues?.provider || '',
+    reactions: defaultValues?.reactions || '',
+    notes: defaultValues?.notes || '',
+    eventId: defaultValues?.eventId || '',
+  });
+
+  // Offer the events logged for this child on the day it was given, e.g. the doctor visit
+  useEffect(() => {
+    if (!formData.givenOn) {
+      setDayEvents([]);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchDayEvents = async () => {
+      try {
+        const response = await fetch(`/api/events?groupId=${groupId}&dateFrom=${formData.givenOn}&dateTo=${formData.givenOn}&limit=100`);
+        if (!response.ok) return;
+        const result = await response.json();
+        if (!cancelled && result.success) {
+          setDayEvents(result.data.events.filter((event: BabyEventWithRelations) => !event.childId || event.childId === childId));
+        }
+      } catch (error) {
+        console.error('Error fetching events for the day:', error);
+      }
+    };
+
+    fetchDayEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId, childId, formData.givenOn]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.scheduleDoseId && !formData.vaccine.trim()) {
+      setError('Which vaccine was it?');
+      return;
+    }
+    if (formData.givenOn > format(new Date(), 'yyyy-MM-dd')) {
+      setError('The date can\'t be in the future');
+      return;
+    }
+
+    try {
+      await onSubmit(formData);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save vaccine. Please try again.');
+    }
+  };
+
+  const describeDose = (dose: ImmunizationDoseStatus) =>
+    `${dose.vaccineName} — ${dose.dose === 0 ? 'birth dose' : `dose ${dose.dose}`}${dose.dueOn ? ` (due ${format(parseISO(dose.dueOn), 'MMM d, yyyy')})` : ''}`;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Which dose */}
+      <div>
+        <label htmlFor="scheduleDoseId" className="block text-sm font-medium text-gray-700 mb-1">
+          💉 Which vaccine? *
+        </label>
+        <Select
+          id="scheduleDoseId"
+          value={formData.scheduleDoseId}
+          onChange={(e) => setFormData(prev => ({ ...prev, scheduleDoseId: e.target.value }))}
+        >
+          {doseOptions.map(dose => (
+            <option key={dose.id} value={dose.id}>{describeDose(dose)}</option>
+          ))}
+          <option value="">Another vaccine (not on the schedule)</option>
+        </Select>
+      </div>
+
+      {!formData.scheduleDoseId && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label htmlFor="vaccineName" className="block text-sm font-medium text-gray-700 mb-1">
+              🏷️ Vaccine name *
+            </label>
+            <Input
+              id="vaccineName"
+              type="text"
+              value={formData.vaccine}
+              onChange={(e) => setFormData(prev => ({ ...prev, vaccine: e.target.value }))}
+              placeholder="e.g., Influenza"
+            />
+          </div>
+          <div>
+            <label htmlFor="doseNumber" className="block text-sm font-medium text-gray-700 mb-1">
+              🔢 Dose number
+            </label>
+            <Input
+              id="doseNumber"
+              type="number"
+              min="0"
+              value={formData.doseNumber ?? ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, doseNumber: e.target.value ? parseInt(e.target.value) : undefined }))}
+              placeholder="e.g., 1"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="givenOn" className="block text-sm font-medium text-gray-700 mb-1">
+            📅 Given on *
+          </label>
+          <Input
+            id="givenOn"
+            type="date"
+            value={formData.givenOn}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => setFormData(prev => ({ ...prev, givenOn: e.target.value, eventId: '' }))}
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="site" className="block text-sm font-medium text-gray-700 mb-1">
+            📍 Where was it given?
+          </label>
+          <Select
+            id="site"
+            value={formData.site || ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, site: e.target.value as ImmunizationSite | '' }))}
+          >
+            <option value="">Not noted</option>
+            {Object.entries(IMMUNIZATION_SITES).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </Select>
+        </div>
+
+        <div>
+          <label htmlFor="lotNumber" className="block text-sm font-medium text-gray-700 mb-1">
+            🔖 Lot number
+          </label>
+          <Input
+            id="lotNumber"
+            type="text"
+            value={formData.lotNumber || ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, lotNumber: e.target.value }))}
+            placeholder="From the sticker on the record"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="provider" className="block text-sm font-medium text-gray-700 mb-1">
+            🩺 Given by
+          </label>
+          <Input
+            id="provider"
+            type="text"
+            value={formData.provider || ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, provider: e.target.value }))}
+            placeholder="e.g., Dr. Patel, City Clinic"
+          />
+        </div>
+      </div>
+
+      {/* Link to the visit */}
+      <div>
+        <label htmlFor="eventId" className="block text-sm font-medium text-gray-700 mb-1">
+          🔗 Link to an event that day
+        </label>
+        <Select
+          id="eventId"
+          value={formData.eventId || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, eventId: e.target.value }))}
+        >
+          <option value="">No linked event</option>
+          {dayEvents.map(event => (
+            <option key={event.id} value={event.id}>
+              {event.time} • {getEventTitle(convertToTimelineEvent(event))}
+            </option>
+          ))}
+        </Select>
+        {dayEvents.length === 0 && (
+          <p className="text-xs text-gray-500 mt-1">Log the doctor visit for this day to link it here</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="reactions" className="block text-sm font-medium text-gray-700 mb-1">
+          🌡️ Any reactions?
+        </label>
+        <Textarea
+          id="reactions"
+          value={formData.reactions || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, reactions: e.target.value }))}
+          placeholder="Fever, fussiness, redness where it was given..."
+          rows={2}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="immunizationNotes" className="block text-sm font-medium text-gray-700 mb-1">
+          💭 Notes
+        </label>
+        <Textarea
+          id="immunizationNotes"
+          value={formData.notes || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="Anything else to remember 💕"
+          rows={2}
+        />
+      </div>
+
+      <div className="flex flex-col items-end space-y-2">
+        {error && (
+          <p className="text-red-600 text-sm">💕 {error}</p>
+        )}
+        <div className="flex gap-3 w-full sm:w-auto">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              className="flex-1 sm:flex-none"
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="submit"
+            disabled={isLoading}
+            className="flex-1 sm:flex-none"
+          >
+            {isLoading ? '💝 Saving...' : `✨ ${submitLabel}`}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { Textarea } from "@/components/ui/Textarea";
+import { ImageUpload } from "@/components/ImageUpload";
+import { useGroup } from "@/contexts/GroupContext";
+import { useMedications } from "@/hooks/useMedications";
+import { checkDose, MEDICATION_ROUTES, MEDICATION_UNITS } from "@/lib/medications";
+import { getLocalTimeZone, zonedDateTimeToInstant } from "@/lib/timezone";
+import { EventType, type ImageData, type MedicationEventForm, type MedicationRoute, type MedicationUnit } from "@/types";
+import { EventValidationError, hasFieldErrors, validateEventPayload } from "@/lib/validation";
+import { format } from "date-fns";
+
+interface MedicationFormProps {
+  onSubmit: (data: MedicationEventForm) => Promise<void>;
+  isLoading?: boolean;
+  defaultValues?: Partial<MedicationEventForm>;
+  submitLabel?: string;
+  eventId?: string; // Dose being edited, left out of the schedule checks
+  groupId?: string; // Group photos are uploaded to
+}
+
+const ONE_OFF = '';
+
+export function MedicationForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Dose', eventId, groupId }: MedicationFormProps) {
+  const { activeGroup, children } = useGroup();
+  // A dose being edited may belong to a course that has since finished
+  const { medications: allMedications } = useMedications(activeGroup?.id, { includeArchived: !!defaultValues?.medicationId });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState<MedicationEventForm>({
+    date: defaultValues?.date || format(new Date(), 'yyyy-MM-dd'),
+    time: defaultValues?.time || format(new Date(), 'HH:mm'),
+    medicationId: defaultValues?.medicationId || ONE_OFF,
+    name: defaultValues?.name || '',
+    dose: defaultValues?.dose,
+    unit: defaultValues?.unit || 'ml',
+    route: defaultValues?.route || 'oral',
+    notes: defaultValues?.notes || '',
+    images: defaultValues?.images || []
+  });
+
+  const medications = allMedications.filter(m => !m.archivedAt || m.id === formData.medicationId);
+  const selectedMedication = medications.find(m => m.id === formData.medicationId);
+
+  // Start new doses on the first saved medicine once the list arrives
+  const firstMedication = medications[0];
+  const startsBlank = !defaultValues?.medicationId && !defaultValues?.name;
+  useEffect(() => {
+    if (!firstMedication || !startsBlank) return;
+    setFormData(prev => prev.medicationId || prev.name ? prev : {
+      ...prev,
+      medicationId: firstMedication.id,
+      name: firstMedication.name,
+      dose: firstMedication.dose,
+      unit: firstMedication.unit,
+      route: firstMedication.route,
+    });
+  }, [firstMedication, startsBlank]);
+
+  // Checked against the schedule as the dose or time changes; saving is still allowed
+  const warnings = useMemo(() => {
+    if (!selectedMedication || !activeGroup || !formData.date || !formData.time || !formData.dose) {
+      return [];
+    }
+    const givenAt = zonedDateTimeToInstant(formData.date, formData.time, getLocalTimeZone());
+    if (isNaN(givenAt.getTime())) return [];
+
+    const otherDoses = selectedMedication.recentDoses.filter(dose => dose.eventId !== eventId);
+    return checkDose(selectedMedication, otherDoses, activeGroup.timezone, givenAt, formData.dose);
+  }, [selectedMedication, activeGroup, formData.date, formData.time, formData.dose, eventId]);
+
+  const handleMedicationChange = (medicationId: string) => {
+    const medication = medications.find(m => m.id === medicationId);
+    setFormData(prev => medication
+      ? { ...prev, medicationId, name: medication.name, dose: medication.dose, unit: medication.unit, route: medication.route }
+      : { ...prev, medicationId: ONE_OFF });
+  };
+
+  const validateForm = (): boolean => {
+    // Same rules the API applies, so mistakes are caught before saving
+    const newErrors = validateEventPayload(EventType.MEDICATION, formData);
+    setErrors(newErrors);
+    return !hasFieldErrors(newErrors);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      await onSubmit({ ...formData, medicationId: formData.medicationId || undefined });
+
+      // Reset form after successful submission
+      setFormData(prev => ({
+        date: format(new Date(), 'yyyy-MM-dd'),
+        time: format(new Date(), 'HH:mm'),
+        medicationId: prev.medicationId,
+        name: prev.name,
+        dose: prev.dose,
+        unit: prev.unit,
+        route: prev.route,
+        images: []
+      }));
+      setErrors({});
+    } catch (error) {
+      // Show what the server rejected next to the fields it named
+      setErrors(error instanceof EventValidationError
+        ? { ...error.fieldErrors, submit: error.message }
+        : { submit: 'Failed to save dose. Please try again.' });
+    }
+  };
+
+  const handleImagesChange = (images: ImageData[]) => {
+    setFormData(prev => ({ ...prev, images }));
+  };
+
+  const isOneOff = !formData.medicationId;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Date */}
+        <div>
+          <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-1">
+            📅 When was it given? *
+          </label>
+          <Input
+            id="date"
+            type="date"
+            value={formData.date}
+            onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+            required
+            className={errors.date ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.date && (
+            <p className="text-red-600 text-sm mt-1">💕 Please pick the date of the dose</p>
+          )}
+        </div>
+
+        {/* Time */}
+        <div>
+          <label htmlFor="time" className="block text-sm font-medium text-gray-700 mb-1">
+            ⏰ What time? *
+          </label>
+          <Input
+            id="time"
+            type="time"
+            value={formData.time}
+            onChange={(e) => setFormData(prev => ({ ...prev, time: e.target.value }))}
+            required
+            className={errors.time ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.time && (
+            <p className="text-red-600 text-sm mt-1">💕 What time was the dose given?</p>
+          )}
+        </div>
+      </div>
+
+      {/* Medicine */}
+      <div>
+        <label htmlFor="medicationId" className="block text-sm font-medium text-gray-700 mb-1">
+          💊 Which medicine?
+        </label>
+        <Select
+          id="medicationId"
+          value={formData.medicationId}
+          onChange={(e) => handleMedicationChange(e.target.value)}
+        >
+          {medications.map(medication => (
+            <option key={medication.id} value={medication.id}>
+              {medication.name}
+              {medication.child && children.length > 1 ? ` (${medication.child.name})` : ''}
+            </option>
+          ))}
+          <option value={ONE_OFF}>Something else (one-off)</option>
+        </Select>
+        <p className="text-xs text-gray-500 mt-1">
+          Give a regular medicine a schedule on the <Link href="/medications" className="text-pink-600 hover:underline">Medications</Link> page to see when it&apos;s next due.
+        </p>
+      </div>
+
+      {isOneOff && (
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+            🏷️ Medicine name *
+          </label>
+          <Input
+            id="name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g., Paracetamol, Vitamin D drops"
+            className={errors.name ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.name && (
+            <p className="text-red-600 text-sm mt-1">💕 {errors.name}</p>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="dose" className="block text-sm font-medium text-gray-700 mb-1">
+            🥄 Dose *
+          </label>
+          <Input
+            id="dose"
+            type="number"
+            min="0"
+            step="any"
+            value={formData.dose ?? ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, dose: e.target.value ? parseFloat(e.target.value) : undefined }))}
+            placeholder="e.g., 2.5"
+            className={errors.dose ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.dose && (
+            <p className="text-red-600 text-sm mt-1">💕 {errors.dose}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="unit" className="block text-sm font-medium text-gray-700 mb-1">
+            📐 Unit
+          </label>
+          <Select
+            id="unit"
+            value={formData.unit}
+            disabled={!isOneOff}
+            onChange={(e) => setFormData(prev => ({ ...prev, unit: e.target.value as MedicationUnit }))}
+          >
+            {MEDICATION_UNITS.map(unit => (
+              <option key={unit} value={unit}>{unit}</option>
+            ))}
+          </Select>
+        </div>
+
+        <div>
+          <label htmlFor="route" className="block text-sm font-medium text-gray-700 mb-1">
+            👄 Given how?
+          </label>
+          <Select
+            id="route"
+            value={formData.route}
+            disabled={!isOneOff}
+            onChange={(e) => setFormData(prev => ({ ...prev, route: e.target.value as MedicationRoute }))}
+          >
+            {Object.entries(MEDICATION_ROUTES).map(([route, label]) => (
+              <option key={route} value={route}>{label}</option>
+            ))}
+          </Select>
+        </div>
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 space-y-1">
+          {warnings.map(warning => (
+            <p key={warning} className="text-sm text-amber-800">⚠️ {warning}</p>
+          ))}
+          <p className="text-xs text-amber-700">Please double-check with your doctor or pharmacist before giving it.</p>
+        </div>
+      )}
+
+      {/* Notes */}
+      <div>
+        <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+          💭 Anything to remember?
+        </label>
+        <Textarea
+          id="notes"
+          value={formData.notes || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="Why it was given, how baby took it... 🥰"
+          rows={3}
+        />
+      </div>
+
+      {/* Images */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          📸 Photo of the label or prescription
+        </label>
+        <ImageUpload
+          images={formData.images || []}
+          groupId={groupId}
+          onImagesChange={handleImagesChange}
+          maxImages={5}
+        />
+      </div>
+
+      {/* Submit Button */}
+      <div className="flex flex-col items-end space-y-2">
+        {errors.submit && (
+          <p className="text-red-600 text-sm">{errors.submit}</p>
+        )}
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="w-full sm:w-auto"
+        >
+          {isLoading ? '💝 Saving...' : `✨ ${submitLabel}`}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { Textarea } from "@/components/ui/Textarea";
+import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
+import { MEDICATION_ROUTES, MEDICATION_UNITS, parseMedicationInput } from "@/lib/medications";
+import type { Child, MedicationRoute, MedicationScheduleForm as MedicationScheduleFormData, MedicationScheduleType, MedicationUnit } from "@/types";
+
+interface MedicationScheduleFormProps {
+  onSubmit: (data: MedicationScheduleFormData) => Promise<void>;
+  isLoading?: boolean;
+  defaultValues?: Partial<MedicationScheduleFormData>;
+  submitLabel?: string;
+  onCancel?: () => void;
+  childOptions: Child[];
+}
+
+export function MedicationScheduleForm({
+  onSubmit,
+  isLoading = false,
+  defaultValues,
+  submitLabel = 'Save Medicine',
+  onCancel,
+  childOptions
+}: MedicationScheduleFormProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<MedicationScheduleFormData>({
+    name: defaultValues?.name || '',
+    dose: defaultValues?.dose,
+    unit: defaultValues?.unit || 'ml',
+    route: defaultValues?.route || 'oral',
+    scheduleType: defaultValues?.scheduleType || 'interval',
+    times: defaultValues?.times?.length ? defaultValues.times : ['08:00'],
+    intervalHours: defaultValues?.intervalHours,
+    maxDailyDose: defaultValues?.maxDailyDose,
+    notes: defaultValues?.notes || '',
+    childId: defaultValues?.childId || (childOptions.length === 1 ? childOptions[0].id : ''),
+  });
+
+  const parseNumber = (value: string) => value ? parseFloat(value) : undefined;
+
+  const updateTime = (index: number, time: string) => {
+    setFormData(prev => ({ ...prev, times: prev.times.map((t, i) => i === index ? time : t) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Same rules the API applies, so mistakes are caught before saving
+    const { error: inputError } = parseMedicationInput(formData);
+    if (inputError) {
+      setError(inputError);
+      return;
+    }
+
+    try {
+      await onSubmit(formData);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save medicine. Please try again.');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Name */}
+      <div>
+        <label htmlFor="medicationName" className="block text-sm font-medium text-gray-700 mb-1">
+          💊 Medicine name *
+        </label>
+        <Input
+          id="medicationName"
+          type="text"
+          value={formData.name}
+          onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="e.g., Vitamin D drops, Amoxicillin"
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="medicationDose" className="block text-sm font-medium text-gray-700 mb-1">
+            🥄 Dose *
+          </label>
+          <Input
+            id="medicationDose"
+            type="number"
+            min="0"
+            step="any"
+            value={formData.dose ?? ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, dose: parseNumber(e.target.value) }))}
+            placeholder="e.g., 2.5"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="medicationUnit" className="block text-sm font-medium text-gray-700 mb-1">
+            📐 Unit
+          </label>
+          <Select
+            id="medicationUnit"
+            value={formData.unit}
+            onChange={(e) => setFormData(prev => ({ ...prev, unit: e.target.value as MedicationUnit }))}
+          >
+            {MEDICATION_UNITS.map(unit => (
+              <option key={unit} value={unit}>{unit}</option>
+            ))}
+          </Select>
+        </div>
+
+        <div>
+          <label htmlFor="medicationRoute" className="block text-sm font-medium text-gray-700 mb-1">
+            👄 Given how?
+          </label>
+          <Select
+            id="medicationRoute"
+            value={formData.route}
+            onChange={(e) => setFormData(prev => ({ ...prev, route: e.target.value as MedicationRoute }))}
+          >
+            {Object.entries(MEDICATION_ROUTES).map(([route, label]) => (
+              <option key={route} value={route}>{label}</option>
+            ))}
+          </Select>
+        </div>
+      </div>
+
+      {/* Schedule */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          🗓️ How often?
+        </label>
+        <RadioButtonGroup
+          name="scheduleType"
+          value={formData.scheduleType}
+          onChange={(value) => setFormData(prev => ({ ...prev, scheduleType: value as MedicationScheduleType }))}
+          options={[
+            { value: 'interval', label: '⏳ Every few hours', description: 'e.g., fever reducers, as needed' },
+            { value: 'fixed_times', label: '⏰ At set times', description: 'e.g., vitamins, antibiotic courses' },
+          ]}
+        />
+      </div>
+
+      {formData.scheduleType === 'interval' ? (
+        <div>
+          <label htmlFor="intervalHours" className="block text-sm font-medium text-gray-700 mb-1">
+            ⏳ At least this many hours apart *
+          </label>
+          <Input
+            id="intervalHours"
+            type="number"
+            min="0"
+            step="0.5"
+            value={formData.intervalHours ?? ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, intervalHours: parseNumber(e.target.value) }))}
+            placeholder="e.g., 6"
+          />
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            ⏰ Times of day *
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {formData.times.map((time, index) => (
+              <div key={index} className="flex items-center gap-1">
+                <Input
+                  type="time"
+                  value={time}
+                  onChange={(e) => updateTime(index, e.target.value)}
+                  className="w-32"
+                  aria-label={`Dose time ${index + 1}`}
+                />
+                {formData.times.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFormData(prev => ({ ...prev, times: prev.times.filter((_, i) => i !== index) }))}
+                    aria-label="Remove time"
+                  >
+                    <X className="w-4 h-4 text-gray-500" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setFormData(prev => ({ ...prev, times: [...prev.times, '20:00'] }))}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add time
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">In the group&apos;s timezone</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="maxDailyDose" className="block text-sm font-medium text-gray-700 mb-1">
+            🛑 Most in a day ({formData.unit})
+          </label>
+          <Input
+            id="maxDailyDose"
+            type="number"
+            min="0"
+            step="any"
+            value={formData.maxDailyDose ?? ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, maxDailyDose: parseNumber(e.target.value) }))}
+            placeholder={formData.scheduleType === 'interval' ? 'e.g., 20' : 'One dose per time if empty'}
+          />
+        </div>
+
+        {childOptions.length > 0 && (
+          <div>
+            <label htmlFor="medicationChild" className="block text-sm font-medium text-gray-700 mb-1">
+              👶 For
+            </label>
+            <Select
+              id="medicationChild"
+              value={formData.childId || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, childId: e.target.value }))}
+            >
+              <option value="">Any little one</option>
+              {childOptions.map(child => (
+                <option key={child.id} value={child.id}>{child.name}</option>
+              ))}
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {/* Notes */}
+      <div>
+        <label htmlFor="medicationNotes" className="block text-sm font-medium text-gray-700 mb-1">
+          💭 Notes
+        </label>
+        <Textarea
+          id="medicationNotes"
+          value={formData.notes || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="Prescribed by, course length, give with food... 🩺"
+          rows={2}
+        />
+      </div>
+
+      {/* Submit Button */}
+      <div className="flex flex-col items-end space-y-2">
+        {error && (
+          <p className="text-red-600 text-sm">💕 {error}</p>
+        )}
+        <div className="flex gap-3 w-full sm:w-auto">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              className="flex-1 sm:flex-none"
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="submit"
+            disabled={isLoading}
+            className="flex-1 sm:flex-none"
+          >
+            {isLoading ? '💝 Saving...' : `✨ ${submitLabel}`}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
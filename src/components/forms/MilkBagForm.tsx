@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
+import { MILK_STORAGE_RULES } from "@/lib/milkInventory";
+import type { MilkBagForm as MilkBagFormData, MilkStorageLocation } from "@/types";
+
+interface MilkBagFormProps {
+  onSubmit: (data: MilkBagFormData) => Promise<void>;
+  isLoading?: boolean;
+  onCancel?: () => void;
+}
+
+export function MilkBagForm({ onSubmit, isLoading = false, onCancel }: MilkBagFormProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<MilkBagFormData>({
+    volume: undefined,
+    pumpedDate: format(new Date(), 'yyyy-MM-dd'),
+    pumpedTime: format(new Date(), 'HH:mm'),
+    location: 'freezer',
+    label: '',
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.volume || formData.volume < 1) {
+      setError('How much milk is in it?');
+      return;
+    }
+
+    try {
+      await onSubmit(formData);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to add milk. Please try again.');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="milkVolume" className="block text-sm font-medium text-gray-700 mb-1">
+            🍼 Amount (ml) *
+          </label>
+          <Input
+            id="milkVolume"
+            type="number"
+            min="1"
+            value={formData.volume ?? ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, volume: e.target.value ? parseInt(e.target.value) : undefined }))}
+            placeholder="e.g., 120"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="pumpedDate" className="block text-sm font-medium text-gray-700 mb-1">
+            📅 Pumped on *
+          </label>
+          <Input
+            id="pumpedDate"
+            type="date"
+            value={formData.pumpedDate}
+            onChange={(e) => setFormData(prev => ({ ...prev, pumpedDate: e.target.value }))}
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="pumpedTime" className="block text-sm font-medium text-gray-700 mb-1">
+            ⏰ At
+          </label>
+          <Input
+            id="pumpedTime"
+            type="time"
+            value={formData.pumpedTime}
+            onChange={(e) => setFormData(prev => ({ ...prev, pumpedTime: e.target.value }))}
+            required
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          🧊 Where is it?
+        </label>
+        <RadioButtonGroup
+          name="milkLocation"
+          value={formData.location}
+          onChange={(value) => setFormData(prev => ({ ...prev, location: value as MilkStorageLocation }))}
+          options={[
+            { value: 'fridge', label: '🧊 Fridge', description: `Keeps for ${MILK_STORAGE_RULES.fridgeDays} days` },
+            { value: 'freezer', label: '❄️ Freezer', description: `Keeps for ${MILK_STORAGE_RULES.freezerMonths} months` },
+          ]}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="milkLabel" className="block text-sm font-medium text-gray-700 mb-1">
+          🏷️ Label
+        </label>
+        <Input
+          id="milkLabel"
+          type="text"
+          value={formData.label || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, label: e.target.value }))}
+          placeholder="e.g., Bag #12, top shelf"
+        />
+      </div>
+
+      <div className="flex flex-col items-end space-y-2">
+        {error && (
+          <p className="text-red-600 text-sm">💕 {error}</p>
+        )}
+        <div className="flex gap-3 w-full sm:w-auto">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              className="flex-1 sm:flex-none"
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="submit"
+            disabled={isLoading}
+            className="flex-1 sm:flex-none"
+          >
+            {isLoading ? '💝 Saving...' : '✨ Add Milk'}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -3,10 +3,13 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
 import { Textarea } from "@/components/ui/Textarea";
 import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
 import { ImageUpload } from "@/components/ImageUpload";
-import { OtherEventType, type OtherEventForm, type ImageData } from "@/types";
+import { EventType, OtherEventType, type OtherEventForm, type ImageData } from "@/types";
+import { EventValidationError, hasFieldErrors, validateEventPayload } from "@/lib/validation";
+import { formatExpectedRange, getCatalogMilestone, MILESTONE_CATALOG, MILESTONE_CATEGORIES } from "@/lib/milestones";
 import { format } from "date-fns";
 import { Bath, Stethoscope, AlertCircle, Trophy, HandHeart } from "lucide-react";
 
@@ -15,9 +18,10 @@ interface OtherFormProps {
   isLoading?: boolean;
   defaultValues?: Partial<OtherEventForm & { timestamp: string; activity: string }>;
   submitLabel?: string;
+  groupId?: string; // Group photos are uploaded to
 }
 
-export function OtherForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Event' }: OtherFormProps) {
+export function OtherForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Event', groupId }: OtherFormProps) {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [formData, setFormData] = useState<OtherEventForm>(() => {
     if (defaultValues) {
@@ -36,8 +40,9 @@ export function OtherForm({ onSubmit, isLoading = false, defaultValues, submitLa
       return {
         date: format(timestamp, 'yyyy-MM-dd'),
         time: format(timestamp, 'HH:mm'),
-        eventType: (defaultValues.activity as OtherEventType) || OtherEventType.MILESTONE,
+        eventType: (defaultValues.activity as OtherEventType) || defaultValues.eventType || OtherEventType.MILESTONE,
         description: defaultValues.description || '',
+        milestoneKey: defaultValues.milestoneKey || '',
         notes: defaultValues.notes || '',
         images: defaultValues.images || []
       };
@@ -52,26 +57,10 @@ export function OtherForm({ onSubmit, isLoading = false, defaultValues, submitLa
   });
 
   const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.date) {
-      newErrors.date = 'Date is required';
-    }
-
-    if (!formData.time) {
-      newErrors.time = 'Time is required';
-    }
-
-    if (!formData.eventType) {
-      newErrors.eventType = 'Event type is required';
-    }
-
-    if (!formData.description || formData.description.trim().length === 0) {
-      newErrors.description = 'Description is required';
-    }
-
+    // Same rules the API applies, so mistakes are caught before saving
+    const newErrors = validateEventPayload(EventType.OTHER, formData);
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return !hasFieldErrors(newErrors);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -90,11 +79,15 @@ export function OtherForm({ onSubmit, isLoading = false, defaultValues, submitLa
         time: format(new Date(), 'HH:mm'),
         eventType: OtherEventType.MILESTONE,
         description: '',
+        milestoneKey: '',
         images: []
       });
       setErrors({});
-    } catch {
-      setErrors({ submit: 'Failed to save event. Please try again.' });
+    } catch (error) {
+      // Show what the server rejected next to the fields it named
+      setErrors(error instanceof EventValidationError
+        ? { ...error.fieldErrors, submit: error.message }
+        : { submit: 'Failed to save event. Please try again.' });
     }
   };
 
@@ -102,6 +95,21 @@ export function OtherForm({ onSubmit, isLoading = false, defaultValues, submitLa
     setFormData(prev => ({ ...prev, images }));
   };
 
+  // Picking from the catalog fills in the description, unless it's been written already
+  const handleMilestoneChange = (milestoneKey: string) => {
+    setFormData(prev => {
+      const previousTitle = getCatalogMilestone(prev.milestoneKey)?.title;
+      const keepDescription = prev.description.trim() && prev.description !== previousTitle;
+      return {
+        ...prev,
+        milestoneKey,
+        description: keepDescription ? prev.description : getCatalogMilestone(milestoneKey)?.title || '',
+      };
+    });
+  };
+
+  const selectedMilestone = getCatalogMilestone(formData.milestoneKey);
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -150,7 +158,11 @@ export function OtherForm({ onSubmit, isLoading = false, defaultValues, submitLa
         <RadioButtonGroup
           name="eventType"
           value={formData.eventType}
-          onChange={(value) => setFormData(prev => ({ ...prev, eventType: value as OtherEventType }))}
+          onChange={(value) => setFormData(prev => ({
+            ...prev,
+            eventType: value as OtherEventType,
+            milestoneKey: value === OtherEventType.MILESTONE ? prev.milestoneKey : '',
+          }))}
           cols={2}
           options={[
             {
@@ -190,6 +202,36 @@ export function OtherForm({ onSubmit, isLoading = false, defaultValues, submitLa
         )}
       </div>
 
+      {/* Milestone */}
+      {formData.eventType === OtherEventType.MILESTONE && (
+        <div>
+          <label htmlFor="milestoneKey" className="block text-sm font-medium text-gray-700 mb-1">
+            🏆 Which milestone?
+          </label>
+          <Select
+            id="milestoneKey"
+            value={formData.milestoneKey || ''}
+            onChange={(e) => handleMilestoneChange(e.target.value)}
+          >
+            <option value="">Something else (my own milestone)</option>
+            {Object.entries(MILESTONE_CATEGORIES).map(([category, label]) => (
+              <optgroup key={category} label={label}>
+                {MILESTONE_CATALOG.filter(milestone => milestone.category === category).map(milestone => (
+                  <option key={milestone.id} value={milestone.id}>{milestone.title}</option>
+                ))}
+              </optgroup>
+            ))}
+          </Select>
+          {errors.milestoneKey ? (
+            <p className="text-red-600 text-sm mt-1">💕 {errors.milestoneKey}</p>
+          ) : selectedMilestone && (
+            <p className="text-xs text-gray-500 mt-1">
+              Most children get there at {formatExpectedRange(selectedMilestone.months)} 🌱
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Description */}
       <div>
         <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
@@ -233,6 +275,7 @@ export function OtherForm({ onSubmit, isLoading = false, defaultValues, submitLa
         </p>
         <ImageUpload
           images={formData.images || []}
+          groupId={groupId}
           onImagesChange={handleImagesChange}
           maxImages={5}
         />
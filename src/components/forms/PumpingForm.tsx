@@ -0,0 +1,242 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Textarea } from "@/components/ui/Textarea";
+import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
+import { ImageUpload } from "@/components/ImageUpload";
+import { MILK_STORAGE_RULES } from "@/lib/milkInventory";
+import { EventType, type ImageData, type MilkStorageLocation, type PumpingEventForm } from "@/types";
+import { EventValidationError, hasFieldErrors, validateEventPayload } from "@/lib/validation";
+import { format } from "date-fns";
+
+interface PumpingFormProps {
+  onSubmit: (data: PumpingEventForm) => Promise<void>;
+  isLoading?: boolean;
+  defaultValues?: Partial<PumpingEventForm>;
+  submitLabel?: string;
+  allowStoring?: boolean; // Off when editing; stored milk is managed from the inventory after that
+  groupId?: string; // Group photos are uploaded to
+}
+
+export function PumpingForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Pumping', allowStoring = true, groupId }: PumpingFormProps) {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState<PumpingEventForm>({
+    date: defaultValues?.date || format(new Date(), 'yyyy-MM-dd'),
+    time: defaultValues?.time || format(new Date(), 'HH:mm'),
+    leftAmount: defaultValues?.leftAmount,
+    rightAmount: defaultValues?.rightAmount,
+    duration: defaultValues?.duration,
+    storeIn: defaultValues?.storeIn || '',
+    notes: defaultValues?.notes || '',
+    images: defaultValues?.images || []
+  });
+
+  const validateForm = (): boolean => {
+    // Same rules the API applies, so mistakes are caught before saving
+    const newErrors = validateEventPayload(EventType.PUMPING, formData);
+    setErrors(newErrors);
+    return !hasFieldErrors(newErrors);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      await onSubmit({ ...formData, storeIn: allowStoring ? formData.storeIn : '' });
+
+      // Reset form after successful submission, remembering where the milk usually goes
+      setFormData(prev => ({
+        date: format(new Date(), 'yyyy-MM-dd'),
+        time: format(new Date(), 'HH:mm'),
+        storeIn: prev.storeIn,
+        images: []
+      }));
+      setErrors({});
+    } catch (error) {
+      // Show what the server rejected next to the fields it named
+      setErrors(error instanceof EventValidationError
+        ? { ...error.fieldErrors, submit: error.message }
+        : { submit: 'Failed to save pumping session. Please try again.' });
+    }
+  };
+
+  const handleImagesChange = (images: ImageData[]) => {
+    setFormData(prev => ({ ...prev, images }));
+  };
+
+  const parseNumber = (value: string) => value ? parseInt(value) : undefined;
+
+  const total = (formData.leftAmount || 0) + (formData.rightAmount || 0);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Date */}
+        <div>
+          <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-1">
+            📅 When did you pump? *
+          </label>
+          <Input
+            id="date"
+            type="date"
+            value={formData.date}
+            onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+            required
+            className={errors.date ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.date && (
+            <p className="text-red-600 text-sm mt-1">💕 Please pick the date of the session</p>
+          )}
+        </div>
+
+        {/* Time */}
+        <div>
+          <label htmlFor="time" className="block text-sm font-medium text-gray-700 mb-1">
+            ⏰ What time? *
+          </label>
+          <Input
+            id="time"
+            type="time"
+            value={formData.time}
+            onChange={(e) => setFormData(prev => ({ ...prev, time: e.target.value }))}
+            required
+            className={errors.time ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.time && (
+            <p className="text-red-600 text-sm mt-1">💕 What time was the session?</p>
+          )}
+        </div>
+      </div>
+
+      {/* Amounts */}
+      <div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="leftAmount" className="block text-sm font-medium text-gray-700 mb-1">
+              ⬅️ Left side (ml)
+            </label>
+            <Input
+              id="leftAmount"
+              type="number"
+              min="0"
+              value={formData.leftAmount ?? ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, leftAmount: parseNumber(e.target.value) }))}
+              placeholder="e.g., 60"
+              className={errors.leftAmount ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+            />
+            {errors.leftAmount && (
+              <p className="text-red-600 text-sm mt-1">💕 {errors.leftAmount}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="rightAmount" className="block text-sm font-medium text-gray-700 mb-1">
+              ➡️ Right side (ml)
+            </label>
+            <Input
+              id="rightAmount"
+              type="number"
+              min="0"
+              value={formData.rightAmount ?? ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, rightAmount: parseNumber(e.target.value) }))}
+              placeholder="e.g., 50"
+              className={errors.rightAmount ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+            />
+            {errors.rightAmount && (
+              <p className="text-red-600 text-sm mt-1">💕 {errors.rightAmount}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="duration" className="block text-sm font-medium text-gray-700 mb-1">
+              ⏱️ Duration (minutes)
+            </label>
+            <Input
+              id="duration"
+              type="number"
+              min="1"
+              value={formData.duration ?? ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, duration: parseNumber(e.target.value) }))}
+              placeholder="e.g., 20"
+              className={errors.duration ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+            />
+            {errors.duration && (
+              <p className="text-red-600 text-sm mt-1">💕 {errors.duration}</p>
+            )}
+          </div>
+        </div>
+        {errors.amount ? (
+          <p className="text-red-600 text-sm mt-2">💕 {errors.amount}</p>
+        ) : total > 0 && (
+          <p className="text-sm text-gray-600 mt-2">🍼 {total} ml in total — amazing work!</p>
+        )}
+      </div>
+
+      {/* Storage */}
+      {allowStoring && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-3">
+            🧊 Where is the milk going?
+          </label>
+          <RadioButtonGroup
+            name="storeIn"
+            value={formData.storeIn || ''}
+            onChange={(value) => setFormData(prev => ({ ...prev, storeIn: value as MilkStorageLocation | '' }))}
+            options={[
+              { value: '', label: '🍼 Used right away', description: 'Not added to your milk stash' },
+              { value: 'fridge', label: '🧊 Fridge', description: `Keeps for ${MILK_STORAGE_RULES.fridgeDays} days` },
+              { value: 'freezer', label: '❄️ Freezer', description: `Keeps for ${MILK_STORAGE_RULES.freezerMonths} months` },
+            ]}
+          />
+        </div>
+      )}
+
+      {/* Notes */}
+      <div>
+        <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+          💭 Anything to remember?
+        </label>
+        <Textarea
+          id="notes"
+          value={formData.notes || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="Pump settings, how you felt, bag labels... 💕"
+          rows={3}
+        />
+      </div>
+
+      {/* Images */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          📸 Photos
+        </label>
+        <ImageUpload
+          images={formData.images || []}
+          groupId={groupId}
+          onImagesChange={handleImagesChange}
+          maxImages={5}
+        />
+      </div>
+
+      {/* Submit Button */}
+      <div className="flex flex-col items-end space-y-2">
+        {errors.submit && (
+          <p className="text-red-600 text-sm">{errors.submit}</p>
+        )}
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="w-full sm:w-auto"
+        >
+          {isLoading ? '💝 Saving...' : `✨ ${submitLabel}`}
+        </Button>
+      </div>
+    </form>
+  );
+}
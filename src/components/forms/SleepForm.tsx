@@ -6,7 +6,8 @@ import { Input } from "@/components/ui/Input";
 import { Textarea } from "@/components/ui/Textarea";
 import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
 import { ImageUpload } from "@/components/ImageUpload";
-import { SleepType, type SleepEventForm, type ImageData } from "@/types";
+import { EventType, SleepType, type SleepEventForm, type ImageData } from "@/types";
+import { EventValidationError, hasFieldErrors, validateEventPayload } from "@/lib/validation";
 import { format, parse, differenceInMinutes } from "date-fns";
 import { Moon, Sun, Clock } from "lucide-react";
 
@@ -15,9 +16,10 @@ interface SleepFormProps {
   isLoading?: boolean;
   defaultValues?: Partial<SleepEventForm & { timestamp: string; sleepType: string }>;
   submitLabel?: string;
+  groupId?: string; // Group photos are uploaded to
 }
 
-export function SleepForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Sleep' }: SleepFormProps) {
+export function SleepForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Sleep', groupId }: SleepFormProps) {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [formData, setFormData] = useState<SleepEventForm>(() => {
     if (defaultValues) {
@@ -53,37 +55,10 @@ export function SleepForm({ onSubmit, isLoading = false, defaultValues, submitLa
   });
 
   const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.date) {
-      newErrors.date = 'Date is required';
-    }
-
-    if (!formData.time) {
-      newErrors.time = 'Time is required';
-    }
-
-    if (!formData.sleepType) {
-      newErrors.sleepType = 'Sleep type is required';
-    }
-
-    // Validate start and end times if both are provided
-    if (formData.startTime && formData.endTime) {
-      const startDateTime = parse(`${formData.date} ${formData.startTime}`, 'yyyy-MM-dd HH:mm', new Date());
-      const endDateTime = parse(`${formData.date} ${formData.endTime}`, 'yyyy-MM-dd HH:mm', new Date());
-      
-      if (endDateTime <= startDateTime) {
-        newErrors.endTime = 'End time must be after start time';
-      }
-    }
-
-    // Require either duration OR start/end times
-    if (!formData.duration && (!formData.startTime || !formData.endTime)) {
-      newErrors.duration = 'Please provide either duration or start/end times';
-    }
-
+    // Same rules the API applies, so mistakes are caught before saving
+    const newErrors = validateEventPayload(EventType.SLEEP, formData);
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return !hasFieldErrors(newErrors);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -99,7 +74,9 @@ export function SleepForm({ onSubmit, isLoading = false, defaultValues, submitLa
       if (formData.startTime && formData.endTime && !formData.duration) {
         const startDateTime = parse(`${formData.date} ${formData.startTime}`, 'yyyy-MM-dd HH:mm', new Date());
         const endDateTime = parse(`${formData.date} ${formData.endTime}`, 'yyyy-MM-dd HH:mm', new Date());
-        finalFormData.duration = differenceInMinutes(endDateTime, startDateTime);
+        const minutes = differenceInMinutes(endDateTime, startDateTime);
+        // An end before the start means the sleep ran past midnight
+        finalFormData.duration = minutes < 0 ? minutes + 24 * 60 : minutes;
       }
 
       await onSubmit(finalFormData);
@@ -112,8 +89,11 @@ export function SleepForm({ onSubmit, isLoading = false, defaultValues, submitLa
         images: []
       });
       setErrors({});
-    } catch {
-      setErrors({ submit: 'Failed to save sleep record. Please try again.' });
+    } catch (error) {
+      // Show what the server rejected next to the fields it named
+      setErrors(error instanceof EventValidationError
+        ? { ...error.fieldErrors, submit: error.message }
+        : { submit: 'Failed to save sleep record. Please try again.' });
     }
   };
 
@@ -285,6 +265,7 @@ export function SleepForm({ onSubmit, isLoading = false, defaultValues, submitLa
         </p>
         <ImageUpload
           images={formData.images || []}
+          groupId={groupId}
           onImagesChange={handleImagesChange}
           maxImages={3}
         />
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { Textarea } from "@/components/ui/Textarea";
+import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
+import { ImageUpload } from "@/components/ImageUpload";
+import { SYMPTOMS, SYMPTOM_SEVERITIES } from "@/lib/illness";
+import { EventType, type ImageData, type SymptomEventForm, type SymptomSeverity } from "@/types";
+import { EventValidationError, hasFieldErrors, validateEventPayload } from "@/lib/validation";
+import { format } from "date-fns";
+
+interface SymptomFormProps {
+  onSubmit: (data: SymptomEventForm) => Promise<void>;
+  isLoading?: boolean;
+  defaultValues?: Partial<SymptomEventForm>;
+  submitLabel?: string;
+  groupId?: string; // Group photos are uploaded to
+}
+
+export function SymptomForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Symptom', groupId }: SymptomFormProps) {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState<SymptomEventForm>({
+    date: defaultValues?.date || format(new Date(), 'yyyy-MM-dd'),
+    time: defaultValues?.time || format(new Date(), 'HH:mm'),
+    symptom: defaultValues?.symptom || Object.keys(SYMPTOMS)[0],
+    severity: defaultValues?.severity || 'mild',
+    description: defaultValues?.description || '',
+    notes: defaultValues?.notes || '',
+    images: defaultValues?.images || []
+  });
+
+  const validateForm = (): boolean => {
+    // Same rules the API applies, so mistakes are caught before saving
+    const newErrors = validateEventPayload(EventType.SYMPTOM, formData);
+    setErrors(newErrors);
+    return !hasFieldErrors(newErrors);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      await onSubmit(formData);
+
+      // Reset form after successful submission
+      setFormData({
+        date: format(new Date(), 'yyyy-MM-dd'),
+        time: format(new Date(), 'HH:mm'),
+        symptom: Object.keys(SYMPTOMS)[0],
+        severity: 'mild',
+        images: []
+      });
+      setErrors({});
+    } catch (error) {
+      // Show what the server rejected next to the fields it named
+      setErrors(error instanceof EventValidationError
+        ? { ...error.fieldErrors, submit: error.message }
+        : { submit: 'Failed to save symptom. Please try again.' });
+    }
+  };
+
+  const handleImagesChange = (images: ImageData[]) => {
+    setFormData(prev => ({ ...prev, images }));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Date */}
+        <div>
+          <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-1">
+            📅 When did you notice it? *
+          </label>
+          <Input
+            id="date"
+            type="date"
+            value={formData.date}
+            onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+            required
+            className={errors.date ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.date && (
+            <p className="text-red-600 text-sm mt-1">💕 Please pick the date you noticed it</p>
+          )}
+        </div>
+
+        {/* Time */}
+        <div>
+          <label htmlFor="time" className="block text-sm font-medium text-gray-700 mb-1">
+            ⏰ What time? *
+          </label>
+          <Input
+            id="time"
+            type="time"
+            value={formData.time}
+            onChange={(e) => setFormData(prev => ({ ...prev, time: e.target.value }))}
+            required
+            className={errors.time ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.time && (
+            <p className="text-red-600 text-sm mt-1">💕 What time did you notice it?</p>
+          )}
+        </div>
+      </div>
+
+      {/* Symptom */}
+      <div>
+        <label htmlFor="symptom" className="block text-sm font-medium text-gray-700 mb-1">
+          🤧 What&apos;s going on? *
+        </label>
+        <Select
+          id="symptom"
+          value={formData.symptom}
+          onChange={(e) => setFormData(prev => ({ ...prev, symptom: e.target.value }))}
+        >
+          {Object.entries(SYMPTOMS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </Select>
+        {errors.symptom && (
+          <p className="text-red-600 text-sm mt-1">💕 {errors.symptom}</p>
+        )}
+      </div>
+
+      {/* Severity */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          📊 How bad is it?
+        </label>
+        <RadioButtonGroup
+          name="severity"
+          value={formData.severity}
+          onChange={(value) => setFormData(prev => ({ ...prev, severity: value as SymptomSeverity }))}
+          options={Object.entries(SYMPTOM_SEVERITIES).map(([value, label]) => ({ value, label }))}
+          cols={3}
+        />
+        {errors.severity && (
+          <p className="text-red-600 text-sm mt-1">💕 {errors.severity}</p>
+        )}
+      </div>
+
+      {/* Description */}
+      <div>
+        <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
+          📝 Describe it{formData.symptom === 'other' && ' *'}
+        </label>
+        <Textarea
+          id="description"
+          value={formData.description || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+          placeholder="Where the rash is, what the cough sounds like... 💕"
+          rows={2}
+          className={errors.description ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+        />
+        {errors.description && (
+          <p className="text-red-600 text-sm mt-1">💕 {errors.description}</p>
+        )}
+      </div>
+
+      {/* Notes */}
+      <div>
+        <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+          💭 Anything to remember?
+        </label>
+        <Textarea
+          id="notes"
+          value={formData.notes || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="What helped, who you called, how they're doing... 💕"
+          rows={3}
+        />
+      </div>
+
+      {/* Images */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          📸 Photos
+        </label>
+        <ImageUpload
+          images={formData.images || []}
+          groupId={groupId}
+          onImagesChange={handleImagesChange}
+          maxImages={5}
+        />
+      </div>
+
+      {/* Submit Button */}
+      <div className="flex flex-col items-end space-y-2">
+        {errors.submit && (
+          <p className="text-red-600 text-sm">{errors.submit}</p>
+        )}
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="w-full sm:w-auto"
+        >
+          {isLoading ? '💝 Saving...' : `✨ ${submitLabel}`}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Textarea } from "@/components/ui/Textarea";
+import { RadioButtonGroup } from "@/components/ui/RadioButtonGroup";
+import { ImageUpload } from "@/components/ImageUpload";
+import { TEMPERATURE_METHODS, getFeverLevel, getFeverThresholds, toCelsius } from "@/lib/illness";
+import { EventType, type ImageData, type TemperatureEventForm, type TemperatureMethod, type TemperatureUnit } from "@/types";
+import { EventValidationError, hasFieldErrors, validateEventPayload } from "@/lib/validation";
+import { format, parseISO } from "date-fns";
+
+interface TemperatureFormProps {
+  onSubmit: (data: TemperatureEventForm) => Promise<void>;
+  isLoading?: boolean;
+  defaultValues?: Partial<TemperatureEventForm>;
+  submitLabel?: string;
+  birthDate?: string | null; // Child's birthday, for fever advice that fits their age
+  groupId?: string; // Group photos are uploaded to
+}
+
+export function TemperatureForm({ onSubmit, isLoading = false, defaultValues, submitLabel = 'Save Temperature', birthDate, groupId }: TemperatureFormProps) {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState<TemperatureEventForm>({
+    date: defaultValues?.date || format(new Date(), 'yyyy-MM-dd'),
+    time: defaultValues?.time || format(new Date(), 'HH:mm'),
+    temperature: defaultValues?.temperature,
+    unit: defaultValues?.unit || 'C',
+    method: defaultValues?.method || 'rectal',
+    notes: defaultValues?.notes || '',
+    images: defaultValues?.images || []
+  });
+
+  const validateForm = (): boolean => {
+    // Same rules the API applies, so mistakes are caught before saving
+    const newErrors = validateEventPayload(EventType.TEMPERATURE, formData);
+    setErrors(newErrors);
+    return !hasFieldErrors(newErrors);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      await onSubmit(formData);
+
+      // Reset form after successful submission, keeping the thermometer settings
+      setFormData(prev => ({
+        date: format(new Date(), 'yyyy-MM-dd'),
+        time: format(new Date(), 'HH:mm'),
+        unit: prev.unit,
+        method: prev.method,
+        images: []
+      }));
+      setErrors({});
+    } catch (error) {
+      // Show what the server rejected next to the fields it named
+      setErrors(error instanceof EventValidationError
+        ? { ...error.fieldErrors, submit: error.message }
+        : { submit: 'Failed to save temperature. Please try again.' });
+    }
+  };
+
+  const handleImagesChange = (images: ImageData[]) => {
+    setFormData(prev => ({ ...prev, images }));
+  };
+
+  // Flag the reading as it's typed, using the thresholds for the child's age
+  const takenAt = formData.date && formData.time ? parseISO(`${formData.date}T${formData.time}`) : new Date();
+  const celsius = formData.temperature !== undefined ? toCelsius(formData.temperature, formData.unit) : null;
+  const feverLevel = celsius !== null && !hasFieldErrors(validateEventPayload(EventType.TEMPERATURE, formData))
+    ? getFeverLevel(celsius, formData.method, birthDate, takenAt)
+    : null;
+  const { advice } = getFeverThresholds(birthDate, takenAt, formData.method);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Date */}
+        <div>
+          <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-1">
+            📅 When was it taken? *
+          </label>
+          <Input
+            id="date"
+            type="date"
+            value={formData.date}
+            onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+            required
+            className={errors.date ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.date && (
+            <p className="text-red-600 text-sm mt-1">💕 Please pick the date of the reading</p>
+          )}
+        </div>
+
+        {/* Time */}
+        <div>
+          <label htmlFor="time" className="block text-sm font-medium text-gray-700 mb-1">
+            ⏰ What time? *
+          </label>
+          <Input
+            id="time"
+            type="time"
+            value={formData.time}
+            onChange={(e) => setFormData(prev => ({ ...prev, time: e.target.value }))}
+            required
+            className={errors.time ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+          />
+          {errors.time && (
+            <p className="text-red-600 text-sm mt-1">💕 What time was the reading?</p>
+          )}
+        </div>
+      </div>
+
+      {/* Reading */}
+      <div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="temperature" className="block text-sm font-medium text-gray-700 mb-1">
+              🌡️ Temperature *
+            </label>
+            <Input
+              id="temperature"
+              type="number"
+              step="0.1"
+              value={formData.temperature ?? ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, temperature: e.target.value ? parseFloat(e.target.value) : undefined }))}
+              placeholder={formData.unit === 'F' ? 'e.g., 99.5' : 'e.g., 37.5'}
+              className={errors.temperature ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''}
+            />
+            {errors.temperature && (
+              <p className="text-red-600 text-sm mt-1">💕 {errors.temperature}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              📐 Unit
+            </label>
+            <RadioButtonGroup
+              name="unit"
+              value={formData.unit}
+              onChange={(value) => setFormData(prev => ({ ...prev, unit: value as TemperatureUnit }))}
+              options={[
+                { value: 'C', label: '°C' },
+                { value: 'F', label: '°F' },
+              ]}
+            />
+          </div>
+        </div>
+        {feverLevel === 'attention' ? (
+          <p className="text-sm text-red-700 mt-2">⚠️ {advice}</p>
+        ) : feverLevel === 'fever' ? (
+          <p className="text-sm text-orange-700 mt-2">🔥 That&apos;s a fever — keep an eye on it and check again soon</p>
+        ) : null}
+      </div>
+
+      {/* Method */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          🩺 How was it taken?
+        </label>
+        <RadioButtonGroup
+          name="method"
+          value={formData.method}
+          onChange={(value) => setFormData(prev => ({ ...prev, method: value as TemperatureMethod }))}
+          options={Object.entries(TEMPERATURE_METHODS).map(([value, label]) => ({ value, label }))}
+          cols={3}
+        />
+        {errors.method && (
+          <p className="text-red-600 text-sm mt-1">💕 {errors.method}</p>
+        )}
+      </div>
+
+      {/* Notes */}
+      <div>
+        <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+          💭 Anything to remember?
+        </label>
+        <Textarea
+          id="notes"
+          value={formData.notes || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="Fever reducer given, how they seemed, what the doctor said... 💕"
+          rows={3}
+        />
+      </div>
+
+      {/* Images */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          📸 Photos
+        </label>
+        <ImageUpload
+          images={formData.images || []}
+          groupId={groupId}
+          onImagesChange={handleImagesChange}
+          maxImages={5}
+        />
+      </div>
+
+      {/* Submit Button */}
+      <div className="flex flex-col items-end space-y-2">
+        {errors.submit && (
+          <p className="text-red-600 text-sm">{errors.submit}</p>
+        )}
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="w-full sm:w-auto"
+        >
+          {isLoading ? '💝 Saving...' : `✨ ${submitLabel}`}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { History } from "lucide-react";
+import { formatRevisionChange, REVISION_FIELDS } from "@/lib/eventRevisions";
+import type { EventRevision } from "@/types";
+
+interface EventHistoryProps {
+  eventId: string;
+}
+
+const getAuthorName = (revision: EventRevision) =>
+  revision.user?.name || revision.user?.email?.split('@')[0] || 'Someone';
+
+/**
+ * Who created and changed an event, newest first.
+ */
+export function EventHistory({ eventId }: EventHistoryProps) {
+  const [revisions, setRevisions] = useState<EventRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/events/${eventId}/history`);
+        if (response.ok) {
+          setRevisions(await response.json());
+        } else if (response.status === 404) {
+          setRevisions([]);
+        } else {
+          setError('💔 We couldn\'t load the history right now');
+        }
+      } catch (error) {
+        console.error('Error fetching event history:', error);
+        setError('💔 We couldn\'t load the history right now');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [eventId]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 text-center py-6">Loading history... ✨</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 text-center py-6">{error}</p>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-6">
+        <History className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+        <p className="text-sm text-gray-500">No history recorded for this moment yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-3">
+      {revisions.map(revision => {
+        const author = getAuthorName(revision);
+        const fields = Object.keys(REVISION_FIELDS).filter(field => revision.changes[field]);
+
+        return (
+          <li key={revision.id} className="bg-gray-50 rounded-lg p-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="text-sm text-gray-800 min-w-0">
+                {revision.action === 'create' && (
+                  <p><span className="font-semibold">{author}</span> added this moment ✨</p>
+                )}
+                {revision.action === 'delete' && (
+                  <p><span className="font-semibold">{author}</span> moved this moment to the trash</p>
+                )}
+                {revision.action === 'restore' && (
+                  <p><span className="font-semibold">{author}</span> restored this moment from the trash 💕</p>
+                )}
+                {revision.action === 'update' && (
+                  <ul className="space-y-1">
+                    {fields.map(field => (
+                      <li key={field} className="break-words">
+                        <span className="font-semibold">{author}</span>{' '}
+                        {formatRevisionChange(field, revision.changes[field])}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <time
+                dateTime={revision.createdAt}
+                className="text-xs text-gray-500 whitespace-nowrap flex-shrink-0"
+                title={format(new Date(revision.createdAt), 'PPpp')}
+              >
+                {format(new Date(revision.createdAt), 'MMM d')} at {format(new Date(revision.createdAt), 'HH:mm')}
+              </time>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
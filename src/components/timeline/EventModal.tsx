@@ -1,10 +1,15 @@
 import { format, parseISO, addMinutes } from "date-fns";
-import { Edit, Trash2, Clock, Calendar, FileText, Camera, Award, Droplets, Utensils, MapPin, X, ChevronLeft, ChevronRight } from "lucide-react";
+import { Edit, Trash2, Clock, Calendar, FileText, Camera, Award, Droplets, Utensils, MapPin, X, ChevronLeft, ChevronRight, Ruler, Pill, Thermometer, Stethoscope, AlertTriangle } from "lucide-react";
 import Image from "next/image";
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/Button";
 import { TimelineEvent, getEventTitle, getEventDetails, getEventColor, getEventIcon } from "./TimelineUtils";
-import { EventType } from "@/types";
+import { EventType, type MedicationRoute, type SymptomSeverity, type TemperatureMethod, type TemperatureUnit } from "@/types";
+import { useGroup } from "@/contexts/GroupContext";
+import { calculatePercentile, formatPercentile, getAgeInMonths, type GrowthMetric } from "@/lib/growth";
+import { MEDICATION_ROUTES } from "@/lib/medications";
+import { SYMPTOMS, SYMPTOM_SEVERITIES, TEMPERATURE_METHODS, formatTemperature, getFeverLevel, getFeverThresholds } from "@/lib/illness";
+import { EventHistory } from "./EventHistory";
 
 interface EventModalProps {
   selectedEvent: TimelineEvent | null;
@@ -15,6 +20,13 @@ interface EventModalProps {
 
 export function EventModal({ selectedEvent, onClose, onEdit, onDelete }: EventModalProps) {
   const [fullscreenImage, setFullscreenImage] = useState<{ url: string; filename: string; index: number } | null>(null);
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+  const { children } = useGroup();
+
+  // Start on the details tab whenever a different event is opened
+  useEffect(() => {
+    setActiveTab('details');
+  }, [selectedEvent?.id]);
   
   const handleEdit = () => {
     if (!selectedEvent) return;
@@ -238,6 +250,202 @@ export function EventModal({ selectedEvent, onClose, onEdit, onDelete }: EventMo
           </div>
         );
         
+      case EventType.GROWTH:
+        const growth = selectedEvent.growthEvent;
+        if (!growth) return null;
+
+        // Percentiles need the child's sex and birth date from their profile
+        const growthChild = children.find(c => c.id === selectedEvent.child?.id);
+        const ageMonths = growthChild?.birthDate ? getAgeInMonths(growthChild.birthDate, eventDate) : null;
+        const measurements: { metric: GrowthMetric; label: string; value?: number; display: string }[] = [
+          { metric: 'weight', label: 'Weight', value: growth.weight, display: growth.weight ? `${(growth.weight / 1000).toFixed(2)} kg` : '' },
+          { metric: 'length', label: 'Length', value: growth.length, display: `${growth.length} cm` },
+          { metric: 'headCircumference', label: 'Head', value: growth.headCircumference, display: `${growth.headCircumference} cm` },
+        ];
+
+        return (
+          <div className="bg-teal-50 rounded-lg p-4 border-l-4 border-teal-400">
+            <div className="flex items-center gap-2 mb-3">
+              <Ruler className="w-5 h-5 text-teal-600" />
+              <h3 className="font-semibold text-teal-800">Growth Details</h3>
+            </div>
+            <div className="text-sm space-y-2">
+              {measurements.filter(m => m.value).map(m => {
+                const percentile = ageMonths !== null
+                  ? calculatePercentile(m.metric, growthChild?.sex, ageMonths, m.value as number)
+                  : null;
+                return (
+                  <div key={m.metric} className="flex items-center gap-2">
+                    <div className="w-2 h-2 bg-teal-400 rounded-full"></div>
+                    <span className="text-gray-600">{m.label}:</span>
+                    <span className="font-medium">{m.display}</span>
+                    {percentile !== null && (
+                      <span className="text-xs text-teal-700 bg-teal-100 px-2 py-0.5 rounded-full">
+                        {formatPercentile(percentile)}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+              {ageMonths === null && (
+                <p className="text-xs text-gray-500">
+                  Add a birthday and sex to the child&apos;s profile to see WHO percentiles 💕
+                </p>
+              )}
+            </div>
+          </div>
+        );
+
+      case EventType.MEDICATION:
+        const medication = selectedEvent.medicationEvent;
+        if (!medication) return null;
+
+        return (
+          <div className="bg-red-50 rounded-lg p-4 border-l-4 border-red-400">
+            <div className="flex items-center gap-2 mb-3">
+              <Pill className="w-5 h-5 text-red-600" />
+              <h3 className="font-semibold text-red-800">Medicine Details</h3>
+            </div>
+            <div className="text-sm space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-red-400 rounded-full"></div>
+                <span className="text-gray-600">Medicine:</span>
+                <span className="font-medium">{medication.name}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-red-400 rounded-full"></div>
+                <span className="text-gray-600">Dose:</span>
+                <span className="font-medium">{medication.dose} {medication.unit}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-red-400 rounded-full"></div>
+                <span className="text-gray-600">Given:</span>
+                <span className="font-medium">{MEDICATION_ROUTES[medication.route as MedicationRoute] || medication.route}</span>
+              </div>
+            </div>
+          </div>
+        );
+
+      case EventType.PUMPING:
+        const pumping = selectedEvent.pumpingEvent;
+        if (!pumping) return null;
+
+        return (
+          <div className="bg-pink-50 rounded-lg p-4 border-l-4 border-pink-400">
+            <div className="flex items-center gap-2 mb-3">
+              <Droplets className="w-5 h-5 text-pink-600" />
+              <h3 className="font-semibold text-pink-800">Pumping Details</h3>
+            </div>
+            <div className="text-sm space-y-2">
+              {pumping.leftAmount ? (
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 bg-pink-400 rounded-full"></div>
+                  <span className="text-gray-600">Left:</span>
+                  <span className="font-medium">{pumping.leftAmount} ml</span>
+                </div>
+              ) : null}
+              {pumping.rightAmount ? (
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 bg-pink-400 rounded-full"></div>
+                  <span className="text-gray-600">Right:</span>
+                  <span className="font-medium">{pumping.rightAmount} ml</span>
+                </div>
+              ) : null}
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-pink-400 rounded-full"></div>
+                <span className="text-gray-600">Total:</span>
+                <span className="font-medium">{(pumping.leftAmount || 0) + (pumping.rightAmount || 0)} ml</span>
+              </div>
+              {pumping.duration ? (
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 bg-pink-400 rounded-full"></div>
+                  <span className="text-gray-600">Duration:</span>
+                  <span className="font-medium">{pumping.duration} minutes</span>
+                </div>
+              ) : null}
+            </div>
+          </div>
+        );
+
+      case EventType.TEMPERATURE:
+        const temperature = selectedEvent.temperatureEvent;
+        if (!temperature) return null;
+
+        // Whether it's a fever, and how worrying, depends on the child's age
+        const temperatureChild = children.find(c => c.id === selectedEvent.child?.id);
+        const temperatureMethod = temperature.method as TemperatureMethod;
+        const feverLevel = getFeverLevel(temperature.celsius, temperatureMethod, temperatureChild?.birthDate, eventDate);
+        const feverThresholds = getFeverThresholds(temperatureChild?.birthDate, eventDate, temperatureMethod);
+
+        return (
+          <div className="bg-orange-50 rounded-lg p-4 border-l-4 border-orange-400">
+            <div className="flex items-center gap-2 mb-3">
+              <Thermometer className="w-5 h-5 text-orange-600" />
+              <h3 className="font-semibold text-orange-800">Temperature Details</h3>
+            </div>
+            <div className="text-sm space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-orange-400 rounded-full"></div>
+                <span className="text-gray-600">Reading:</span>
+                <span className="font-medium">{formatTemperature(temperature.celsius, temperature.unit as TemperatureUnit)}</span>
+                {feverLevel !== 'normal' && (
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${feverLevel === 'attention' ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'}`}>
+                    {feverLevel === 'attention' ? 'Needs attention' : 'Fever'}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-orange-400 rounded-full"></div>
+                <span className="text-gray-600">Taken:</span>
+                <span className="font-medium">{TEMPERATURE_METHODS[temperatureMethod] || temperature.method}</span>
+              </div>
+              {feverLevel === 'attention' && (
+                <p className="flex items-start gap-2 text-xs text-red-700">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  {feverThresholds.advice}
+                </p>
+              )}
+              {!temperatureChild?.birthDate && (
+                <p className="text-xs text-gray-500">
+                  Add a birthday to the child&apos;s profile for fever advice that fits their age 💕
+                </p>
+              )}
+            </div>
+          </div>
+        );
+
+      case EventType.SYMPTOM:
+        const symptom = selectedEvent.symptomEvent;
+        if (!symptom) return null;
+
+        return (
+          <div className="bg-sky-50 rounded-lg p-4 border-l-4 border-sky-400">
+            <div className="flex items-center gap-2 mb-3">
+              <Stethoscope className="w-5 h-5 text-sky-600" />
+              <h3 className="font-semibold text-sky-800">Symptom Details</h3>
+            </div>
+            <div className="text-sm space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-sky-400 rounded-full"></div>
+                <span className="text-gray-600">Symptom:</span>
+                <span className="font-medium">{SYMPTOMS[symptom.symptom] || symptom.symptom}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-sky-400 rounded-full"></div>
+                <span className="text-gray-600">Severity:</span>
+                <span className="font-medium">{SYMPTOM_SEVERITIES[symptom.severity as SymptomSeverity] || symptom.severity}</span>
+              </div>
+              {symptom.description && (
+                <div className="flex items-start gap-2">
+                  <div className="w-2 h-2 bg-sky-400 rounded-full mt-1.5"></div>
+                  <span className="text-gray-600">Details:</span>
+                  <span className="font-medium">{symptom.description}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+
       default:
         return null;
     }
@@ -265,6 +473,18 @@ export function EventModal({ selectedEvent, onClose, onEdit, onDelete }: EventMo
                   </h2>
                   {/* Mobile: Stack date/time, Desktop: Horizontal */}
                   <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4 text-xs sm:text-sm text-gray-600">
+                    {selectedEvent.child && (
+                      <div className="flex items-center gap-1">
+                        <span>👶</span>
+                        <span className="truncate">{selectedEvent.child.name}</span>
+                      </div>
+                    )}
+                    {selectedEvent.timer && (
+                      <div className="flex items-center gap-1 text-pink-600 font-medium">
+                        <span>⏱️</span>
+                        <span>{selectedEvent.timer.status === 'paused' ? 'Timer paused' : 'In progress'}</span>
+                      </div>
+                    )}
                     <div className="flex items-center gap-1">
                       <Calendar className="w-3 h-3 sm:w-4 sm:h-4" />
                       <span className="truncate">{format(eventDate, 'EEE, MMM d, yyyy')}</span>
@@ -334,7 +554,29 @@ export function EventModal({ selectedEvent, onClose, onEdit, onDelete }: EventMo
           )}
         </div>
         
-        {/* Content */}
+        {/* Tabs */}
+        <div className="flex border-b px-4 sm:px-6">
+          {(['details', 'history'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                activeTab === tab
+                  ? 'border-pink-500 text-pink-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab === 'details' ? '💝 Details' : '🕰️ History'}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'history' ? (
+          <div className="p-4 sm:p-6">
+            <EventHistory eventId={selectedEvent.id} />
+          </div>
+        ) : (
+        /* Content */
         <div className="p-4 sm:p-6 space-y-4 sm:space-y-6">
           {/* Event-specific details */}
           {getDetailedEventInfo()}
@@ -408,6 +650,7 @@ export function EventModal({ selectedEvent, onClose, onEdit, onDelete }: EventMo
             </div>
           )}
         </div>
+        )}
       </div>
 
       {/* Fullscreen Image Viewer */}
@@ -1,5 +1,6 @@
-import { useMemo, useLayoutEffect, useRef, useState } from "react";
-import { parseISO, addMinutes, isSameDay } from "date-fns";
+import { useEffect, useMemo, useLayoutEffect, useRef, useState } from "react";
+import { addMinutes, isSameDay, format } from "date-fns";
+import { getEventLocalDate } from "@/lib/timezone";
 import { TIMELINE_CONFIG } from "./TimelineConstants";
 import { 
   TimelineEvent, 
@@ -10,7 +11,7 @@ import {
   getEventDetails 
 } from "./TimelineUtils";
 import { TimelinePoint } from "./TimelinePath";
-import { EventType } from "@/types";
+import { EventType, type EventPrediction, type EventPredictions } from "@/types";
 
 export interface EventPoint {
   event: TimelineEvent;
@@ -21,10 +22,21 @@ export interface EventPoint {
   details: string;
   isStart?: boolean; // For sleep events
   isEnd?: boolean; // For sleep events
+  isOngoing?: boolean; // Sleep whose timer is still running
+}
+
+// A predicted feeding or nap, drawn as a ghost marker with its likely window
+export interface PredictionPoint {
+  prediction: EventPrediction;
+  x: number;
+  y: number;
+  windowStartY: number;
+  windowEndY: number;
 }
 
 interface EventPointsProps {
   events: TimelineEvent[];
+  predictions?: EventPredictions | null;
   visibleDays: Date[];
   timelinePoints: TimelinePoint[];
   hoveredEvent: string | null;
@@ -106,8 +118,9 @@ function usePrecisePathCoordinates(
 export function useEventPoints({
   events,
   visibleDays,
-  timelinePoints
-}: Pick<EventPointsProps, 'events' | 'visibleDays' | 'timelinePoints'>): EventPoint[] {
+  timelinePoints,
+  now = new Date()
+}: Pick<EventPointsProps, 'events' | 'visibleDays' | 'timelinePoints'> & { now?: Date }): EventPoint[] {
   return useMemo(() => {
     const points: EventPoint[] = [];
     
@@ -121,7 +134,7 @@ export function useEventPoints({
     // Process events for each visible day
     visibleDays.forEach((day, dayIndex) => {
       const dayEvents = events.filter(event => 
-        isSameDay(parseISO(event.date), day)
+        getEventLocalDate(event.date) === format(day, 'yyyy-MM-dd')
       );
       
       const dayStartY = dayIndex * (DAY_HEIGHT + DAY_SEPARATOR_HEIGHT);
@@ -169,8 +182,16 @@ export function useEventPoints({
           // Check if event has duration (sleep or feeding events longer than 60 minutes)
           let hasDuration = false;
           let durationMinutes = 0;
+          // Sleeps with a running timer are drawn open-ended up to now
+          const isOngoing = event.type === EventType.SLEEP && !!event.timer;
           
-          if (event.type === EventType.SLEEP) {
+          if (isOngoing) {
+            const elapsedMinutes = Math.round((now.getTime() - new Date(event.timer!.startedAt).getTime()) / (1000 * 60));
+            // Don't run past the end of the day the sleep started on
+            const minutesLeftInDay = 24 * 60 - 1 - (hour * 60 + minute);
+            durationMinutes = Math.max(1, Math.min(elapsedMinutes, minutesLeftInDay));
+            hasDuration = true;
+          } else if (event.type === EventType.SLEEP) {
             // Handle both nested sleepEvent structure and flat structure
             const sleepData = event.sleepEvent || (event as any);
             
@@ -293,7 +314,7 @@ export function useEventPoints({
               const endY = endTimelinePoint.y + (nextEndTimelinePoint.y - endTimelinePoint.y) * endMinuteProgress;
 
               // Add start point with duration info
-              const startTitle = (() => {
+              const startTitle = isOngoing ? '💤 Sleeping Now' : (() => {
                 switch (event.type) {
                   case EventType.SLEEP: return '😴 Sweet Dreams Started';
                   case EventType.FEEDING: return '🍼 Feeding Time Began';
@@ -308,6 +329,7 @@ export function useEventPoints({
               const durationText = durationHours > 0 
                 ? `${durationHours}h ${durationMins}m of precious time` 
                 : `${durationMins} minutes of care`;
+              const durationLabel = isOngoing ? `${durationText} so far` : durationText;
               
               points.push({
                 event,
@@ -315,12 +337,13 @@ export function useEventPoints({
                 y,
                 endY,
                 title: startTitle,
-                details: `${details} • ${durationText}`,
-                isStart: true
+                details: `${details} • ${durationLabel}`,
+                isStart: true,
+                isOngoing
               });
 
               // Add end point
-              const endTitle = (() => {
+              const endTitle = isOngoing ? '⏳ Still Sleeping…' : (() => {
                 switch (event.type) {
                   case EventType.SLEEP: return '🌅 All Rested & Refreshed';
                   case EventType.FEEDING: return '😊 Fed & Content';
@@ -335,8 +358,9 @@ export function useEventPoints({
                 x: endX,
                 y: endY,
                 title: endTitle,
-                details: `${details} • ${durationText}`,
-                isEnd: true
+                details: `${details} • ${durationLabel}`,
+                isEnd: true,
+                isOngoing
               });
             }
           } else {
@@ -354,11 +378,55 @@ export function useEventPoints({
     });
 
     return points;
-  }, [events, visibleDays, timelinePoints]);
+  }, [events, visibleDays, timelinePoints, now]);
+}
+
+/**
+ * Where a moment in time falls on the timeline path, or null if its day isn't loaded
+ */
+function getTimelinePosition(time: Date, visibleDays: Date[], timelinePoints: TimelinePoint[]): { x: number; y: number } | null {
+  const dayIndex = visibleDays.findIndex(day => isSameDay(time, day));
+  if (dayIndex < 0) return null;
+
+  const hourProgress = Math.max(0, Math.min(23.99, time.getHours() + time.getMinutes() / 60));
+  const hourIndex = Math.floor(hourProgress);
+  const timelinePoint = timelinePoints[dayIndex * 25 + hourIndex];
+  const nextTimelinePoint = timelinePoints[dayIndex * 25 + Math.min(hourIndex + 1, 23)];
+  if (!timelinePoint || !nextTimelinePoint) return null;
+
+  const minuteProgress = time.getMinutes() / 60;
+  return {
+    x: timelinePoint.x + (nextTimelinePoint.x - timelinePoint.x) * minuteProgress,
+    y: timelinePoint.y + (nextTimelinePoint.y - timelinePoint.y) * minuteProgress,
+  };
+}
+
+export function usePredictionPoints({
+  predictions,
+  visibleDays,
+  timelinePoints
+}: Pick<EventPointsProps, 'predictions' | 'visibleDays' | 'timelinePoints'>): PredictionPoint[] {
+  return useMemo(() => {
+    if (!predictions) return [];
+
+    return [predictions.feeding, predictions.nap].flatMap(prediction => {
+      if (!prediction) return [];
+
+      const expected = getTimelinePosition(new Date(prediction.expectedAt), visibleDays, timelinePoints);
+      if (!expected) return [];
+
+      // Clip the likely window to the loaded days rather than dropping it
+      const windowStart = getTimelinePosition(new Date(prediction.earliest), visibleDays, timelinePoints) || expected;
+      const windowEnd = getTimelinePosition(new Date(prediction.latest), visibleDays, timelinePoints) || expected;
+
+      return [{ prediction, ...expected, windowStartY: windowStart.y, windowEndY: windowEnd.y }];
+    });
+  }, [predictions, visibleDays, timelinePoints]);
 }
 
 export function EventPoints({
   events,
+  predictions,
   visibleDays,
   timelinePoints,
   hoveredEvent,
@@ -366,12 +434,23 @@ export function EventPoints({
   onEventClick,
   pathRef
 }: EventPointsProps) {
-  const eventPoints = useEventPoints({ events, visibleDays, timelinePoints });
+  const hasRunningTimers = events.some(event => event.timer);
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep open-ended sleeps growing while a timer is running
+  useEffect(() => {
+    if (!hasRunningTimers) return;
+    const intervalId = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, [hasRunningTimers]);
+
+  const eventPoints = useEventPoints({ events, visibleDays, timelinePoints, now });
+  const predictionPoints = usePredictionPoints({ predictions, visibleDays, timelinePoints });
   
   // Extract Y coordinates from event points for precise positioning
   const yCoordinates = useMemo(() => 
-    eventPoints.map(point => point.y), 
-    [eventPoints]
+    [...eventPoints.map(point => point.y), ...predictionPoints.map(point => point.y)], 
+    [eventPoints, predictionPoints]
   );
   
   const preciseCoordinates = usePrecisePathCoordinates(pathRef?.current || null, yCoordinates);
@@ -453,7 +532,7 @@ export function EventPoints({
           }
           if (point.isEnd) {
             let endIcon = '⏹';
-            if (point.event.type === EventType.SLEEP) endIcon = '😊';
+            if (point.event.type === EventType.SLEEP) endIcon = point.isOngoing ? '⏳' : '😊';
             if (point.event.type === EventType.FEEDING) endIcon = '✅';
             if (point.event.type === EventType.DIAPER) endIcon = '🧷';
             if (point.event.type === EventType.OTHER) endIcon = '🏁';
@@ -573,9 +652,10 @@ export function EventPoints({
                     d={generateDurationPath()}
                     stroke={`url(#duration-gradient-${point.event.id})`}
                     strokeWidth="6"
-                    strokeDasharray="12,4"
+                    strokeDasharray={point.isOngoing ? "4,8" : "12,4"}
                     strokeLinecap="round"
                     fill="none"
+                    className={point.isOngoing ? "animate-pulse" : undefined}
                     style={{ shapeRendering: 'geometricPrecision' }}
                   />
                 </>
@@ -654,7 +734,7 @@ export function EventPoints({
               {(() => {
                 if (point.isStart) {
                   switch (point.event.type) {
-                    case EventType.SLEEP: return '✨ Sleepy Time!';
+                    case EventType.SLEEP: return point.isOngoing ? '💤 Sleeping Now!' : '✨ Sleepy Time!';
                     case EventType.FEEDING: return '🍼 Feeding Time!';
                     case EventType.DIAPER: return '👶 Diaper Time!';
                     case EventType.OTHER: return '💕 Activity Time!';
@@ -662,7 +742,7 @@ export function EventPoints({
                   }
                 } else if (point.isEnd) {
                   switch (point.event.type) {
-                    case EventType.SLEEP: return '🌅 All Rested!';
+                    case EventType.SLEEP: return point.isOngoing ? '⏳ Still Sleeping!' : '🌅 All Rested!';
                     case EventType.FEEDING: return '😊 Fed & Happy!';
                     case EventType.DIAPER: return '🧷 Fresh & Clean!';
                     case EventType.OTHER: return '🎉 All Done!';
@@ -675,6 +755,11 @@ export function EventPoints({
                     case EventType.DIAPER: return '👶 Fresh Diaper!';
                     case EventType.SLEEP: return '😴 Sweet Dreams!';
                     case EventType.OTHER: return '💝 Special Moment!';
+                    case EventType.GROWTH: return '🌱 Growing Strong!';
+                    case EventType.MEDICATION: return '💊 Medicine Given!';
+                    case EventType.PUMPING: return '🫙 Liquid Gold!';
+                    case EventType.TEMPERATURE: return '🌡️ Temperature Checked!';
+                    case EventType.SYMPTOM: return '🤧 Symptom Noted!';
                     default: return '💕 Baby Care!';
                   }
                 }
@@ -683,6 +768,82 @@ export function EventPoints({
           </g>
         );
       })}
+
+      {/* Ghost markers for the predicted next feeding and nap */}
+      {predictionPoints.map(point => {
+        const { prediction } = point;
+        const color = getEventColor(prediction.type);
+        const x = preciseCoordinates.size > 0 ? getPreciseX(point.y) : point.x;
+
+        // Likely window as a faint dashed stretch of the timeline
+        const windowPath: string[] = [];
+        for (let y = point.windowStartY; y < point.windowEndY; y += 10) {
+          windowPath.push(`${windowPath.length === 0 ? 'M' : 'L'} ${preciseCoordinates.size > 0 ? getPreciseX(y) : x} ${y}`);
+        }
+        if (point.windowEndY > point.windowStartY) {
+          windowPath.push(`L ${preciseCoordinates.size > 0 ? getPreciseX(point.windowEndY) : x} ${point.windowEndY}`);
+        }
+
+        const isFeeding = prediction.type === EventType.FEEDING;
+        const expectedLabel = format(new Date(prediction.expectedAt), 'h:mm a');
+        const windowLabel = `${format(new Date(prediction.earliest), 'h:mm a')} – ${format(new Date(prediction.latest), 'h:mm a')}`;
+
+        return (
+          <g key={`prediction-${prediction.type}`} opacity={0.6}>
+            {windowPath.length > 1 && (
+              <path
+                d={windowPath.join(' ')}
+                stroke={color}
+                strokeOpacity={0.35}
+                strokeWidth="10"
+                strokeDasharray="2,10"
+                strokeLinecap="round"
+                fill="none"
+                className="pointer-events-none"
+              />
+            )}
+            <circle
+              cx={x}
+              cy={point.y}
+              r={TIMELINE_CONFIG.EVENT_RADIUS}
+              fill="white"
+              fillOpacity={0.7}
+              stroke={color}
+              strokeWidth={3}
+              strokeDasharray="6,4"
+              style={{ shapeRendering: 'geometricPrecision' }}
+            >
+              <title>
+                {`${isFeeding ? 'Next feeding' : 'Next nap'} expected around ${expectedLabel} (likely ${windowLabel}), from ${prediction.sampleSize} recent ${isFeeding ? 'feedings' : 'wake windows'}`}
+              </title>
+            </circle>
+            <text
+              x={x}
+              y={point.y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize={18}
+              className="pointer-events-none"
+            >
+              {isFeeding ? '🍼' : '😴'}
+            </text>
+            <text
+              x={x + (typeof window !== 'undefined' && window.innerWidth >= 768 ? 30 : 22)}
+              y={point.y - (typeof window !== 'undefined' && window.innerWidth >= 768 ? 16 : 12)}
+              fontSize={typeof window !== 'undefined' && window.innerWidth >= 768 ? "16" : "9"}
+              fill={color}
+              fontStyle="italic"
+              className="pointer-events-none font-semibold"
+              style={{ 
+                filter: 'drop-shadow(0 1px 1px rgba(255,255,255,0.9))',
+                fontFamily: 'system-ui, -apple-system, sans-serif'
+              }}
+            >
+              {isFeeding ? `🔮 Hungry again ~${expectedLabel}?` : `🔮 Sleepy again ~${expectedLabel}?`}
+            </text>
+          </g>
+        );
+      })}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+"use client";
+
+import { isSameDay, startOfDay } from "date-fns";
+import { TIMELINE_CONFIG } from "./TimelineConstants";
+import type { IllnessEpisode } from "@/types";
+
+interface IllnessOverlayProps {
+  episodes: IllnessEpisode[];
+  visibleDays: Date[];
+  timelineWidth: number;
+}
+
+const DAY_SPAN = 24 * TIMELINE_CONFIG.HOUR_HEIGHT + TIMELINE_CONFIG.DAY_SEPARATOR_HEIGHT;
+
+/**
+ * Vertical position of a moment on the timeline, clamped to the loaded days
+ */
+function getTimelineY(time: Date, visibleDays: Date[]): number {
+  const dayIndex = visibleDays.findIndex(day => isSameDay(time, day));
+  if (dayIndex < 0) {
+    return time < startOfDay(visibleDays[0]) ? 0 : visibleDays.length * DAY_SPAN - TIMELINE_CONFIG.DAY_SEPARATOR_HEIGHT;
+  }
+  return dayIndex * DAY_SPAN + (time.getHours() + time.getMinutes() / 60) * TIMELINE_CONFIG.HOUR_HEIGHT;
+}
+
+/**
+ * Shaded bands behind the timeline for the time each illness lasted, so the temperatures,
+ * symptoms and disrupted sleep during it read together. Ongoing episodes run to now.
+ */
+export function IllnessOverlay({ episodes, visibleDays, timelineWidth }: IllnessOverlayProps) {
+  if (visibleDays.length === 0) return null;
+
+  const now = new Date();
+
+  return (
+    <g pointerEvents="none">
+      {episodes.map(episode => {
+        const top = getTimelineY(new Date(episode.startedAt), visibleDays);
+        const bottom = getTimelineY(episode.endedAt ? new Date(episode.endedAt) : now, visibleDays);
+        if (bottom <= top) return null;
+
+        const fill = episode.needsAttention > 0 ? '#fecaca' : '#fed7aa';
+        const stroke = episode.needsAttention > 0 ? '#f87171' : '#fb923c';
+
+        return (
+          <g key={episode.id}>
+            <rect x={0} y={top} width={timelineWidth} height={bottom - top} fill={fill} opacity={0.35} />
+            <line x1={0} y1={top} x2={timelineWidth} y2={top} stroke={stroke} strokeDasharray="6 4" />
+            <line x1={0} y1={bottom} x2={timelineWidth} y2={bottom} stroke={stroke} strokeDasharray="6 4" />
+            <text
+              x={timelineWidth - TIMELINE_CONFIG.LABEL_X_POSITION}
+              y={top + 16}
+              textAnchor="end"
+              fontSize="12"
+              fontWeight="600"
+              fill="#9a3412"
+            >
+              🤒 {episode.name}{episode.endedAt ? '' : ' (ongoing)'}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
@@ -1,6 +1,8 @@
 import { format } from "date-fns";
-import { Milk, Baby, Clock, Heart } from "lucide-react";
-import { EventType } from "@/types";
+import { Milk, Baby, Clock, Heart, Ruler, Pill, Droplets, Thermometer, Stethoscope } from "lucide-react";
+import { EventType, type MedicationRoute, type SymptomSeverity, type TemperatureMethod, type TemperatureUnit } from "@/types";
+import { MEDICATION_ROUTES } from "@/lib/medications";
+import { formatTemperature, SYMPTOM_SEVERITIES, SYMPTOMS, TEMPERATURE_METHODS } from "@/lib/illness";
 
 export interface TimelineEvent {
   id: string;
@@ -8,6 +10,10 @@ export interface TimelineEvent {
   time: string;
   date: string;
   notes?: string;
+  child?: {
+    id: string;
+    name: string;
+  } | null;
   feedingEvent?: {
     feedingType: string;
     amount?: number;
@@ -31,7 +37,42 @@ export interface TimelineEvent {
   otherEvent?: {
     eventType: string;
     description: string;
+    milestoneKey?: string | null;
   };
+  growthEvent?: {
+    weight?: number;
+    length?: number;
+    headCircumference?: number;
+  };
+  medicationEvent?: {
+    medicationId?: string | null;
+    name: string;
+    dose: number;
+    unit: string;
+    route: string;
+  };
+  pumpingEvent?: {
+    leftAmount?: number;
+    rightAmount?: number;
+    duration?: number;
+  };
+  temperatureEvent?: {
+    celsius: number;
+    unit: string;
+    method: string;
+  };
+  symptomEvent?: {
+    symptom: string;
+    severity: string;
+    description?: string | null;
+  };
+  timer?: {
+    status: string;
+    startedAt: string;
+    pausedAt?: string | null;
+    pausedMs: number;
+    side?: string | null;
+  } | null;
   images?: {
     url: string;
     filename: string;
@@ -79,6 +120,16 @@ export const getEventIcon = (type: string) => {
       return Clock;
     case EventType.OTHER:
       return Heart;
+    case EventType.GROWTH:
+      return Ruler;
+    case EventType.MEDICATION:
+      return Pill;
+    case EventType.PUMPING:
+      return Droplets;
+    case EventType.TEMPERATURE:
+      return Thermometer;
+    case EventType.SYMPTOM:
+      return Stethoscope;
     default:
       return Heart;
   }
@@ -97,6 +148,16 @@ export const getEventColor = (type: string): string => {
       return '#8B5CF6'; // Purple
     case EventType.OTHER:
       return '#F59E0B'; // Orange
+    case EventType.GROWTH:
+      return '#14B8A6'; // Teal
+    case EventType.MEDICATION:
+      return '#EF4444'; // Red
+    case EventType.PUMPING:
+      return '#EC4899'; // Pink
+    case EventType.TEMPERATURE:
+      return '#F97316'; // Deep orange
+    case EventType.SYMPTOM:
+      return '#0EA5E9'; // Sky
     default:
       return '#6B7280'; // Gray
   }
@@ -116,6 +177,16 @@ export const getEventTitle = (event: TimelineEvent): string => {
     case EventType.OTHER:
       const otherType = event.otherEvent?.eventType?.replace('_', ' ') || 'Special Moment';
       return `💝 ${otherType}`;
+    case EventType.GROWTH:
+      return '📏 Growth Check';
+    case EventType.MEDICATION:
+      return `💊 ${event.medicationEvent?.name || 'Medicine'}`;
+    case EventType.PUMPING:
+      return '🫙 Pumping';
+    case EventType.TEMPERATURE:
+      return '🌡️ Temperature';
+    case EventType.SYMPTOM:
+      return `🤧 ${event.symptomEvent ? SYMPTOMS[event.symptomEvent.symptom] || event.symptomEvent.symptom : 'Symptom'}`;
     default:
       return `💕 ${event.type}`;
   }
@@ -372,6 +443,50 @@ export const getEventDetails = (event: TimelineEvent): string => {
       }
       
       return otherDetails.length > 0 ? otherDetails.join(' • ') : 'Special moment with baby 💝✨';
+
+    case EventType.GROWTH:
+      const growth = event.growthEvent;
+      if (!growth) return 'Growing so fast 🌱';
+
+      const growthDetails = [];
+      if (growth.weight) growthDetails.push(`⚖️ ${(growth.weight / 1000).toFixed(2)} kg`);
+      if (growth.length) growthDetails.push(`📏 ${growth.length} cm long`);
+      if (growth.headCircumference) growthDetails.push(`🧠 ${growth.headCircumference} cm head`);
+
+      return growthDetails.length > 0 ? growthDetails.join(' • ') : 'Growing so fast 🌱';
+
+    case EventType.MEDICATION:
+      const medication = event.medicationEvent;
+      if (!medication) return 'Medicine given 💊';
+
+      return `${medication.dose} ${medication.unit} • ${MEDICATION_ROUTES[medication.route as MedicationRoute] || medication.route}`;
+
+    case EventType.PUMPING:
+      const pumping = event.pumpingEvent;
+      if (!pumping) return 'Liquid gold 🫙';
+
+      const pumpingDetails = [];
+      const pumpedTotal = (pumping.leftAmount || 0) + (pumping.rightAmount || 0);
+      if (pumpedTotal > 0) pumpingDetails.push(`🍼 ${pumpedTotal}ml`);
+      if (pumping.leftAmount && pumping.rightAmount) pumpingDetails.push(`L ${pumping.leftAmount} / R ${pumping.rightAmount}`);
+      if (pumping.duration) pumpingDetails.push(`⏱️ ${pumping.duration} min`);
+
+      return pumpingDetails.length > 0 ? pumpingDetails.join(' • ') : 'Liquid gold 🫙';
+
+    case EventType.TEMPERATURE:
+      const temperature = event.temperatureEvent;
+      if (!temperature) return 'Temperature checked 🌡️';
+
+      return `${formatTemperature(temperature.celsius, temperature.unit as TemperatureUnit)} • ${TEMPERATURE_METHODS[temperature.method as TemperatureMethod] || temperature.method}`;
+
+    case EventType.SYMPTOM:
+      const symptom = event.symptomEvent;
+      if (!symptom) return 'Feeling a bit under the weather 💕';
+
+      const symptomDetails = [SYMPTOM_SEVERITIES[symptom.severity as SymptomSeverity] || symptom.severity];
+      if (symptom.description) symptomDetails.push(symptom.description);
+
+      return symptomDetails.join(' • ');
       
     default:
       return 'Sweet baby moment 💕';
@@ -2,11 +2,14 @@
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useUser } from '@clerk/nextjs';
+import type { Child } from '@/types';
+import { useGroupStream } from '@/hooks/useGroupStream';
 
 interface UserGroup {
   id: string;
   name: string;
   description: string;
+  timezone: string;
   role: string;
   permissions: {
     canRead: boolean;
@@ -32,6 +35,11 @@ interface GroupContextType {
   isLoading: boolean;
   switchGroup: (groupIdOrGroup: string | UserGroup) => void;
   refreshGroups: () => Promise<void>;
+  // Children in the active group, and which one the dashboard/timeline are focused on (null = all)
+  children: Child[];
+  activeChildId: string | null;
+  setActiveChildId: (childId: string | null) => void;
+  refreshChildren: () => Promise<void>;
 }
 
 const GroupContext = createContext<GroupContextType | undefined>(undefined);
@@ -58,6 +66,10 @@ export function GroupProvider({ children }: { children: React.ReactNode }) {
   );
   const [isLoading, setIsLoading] = useState(true);
   const [isClient, setIsClient] = useState(false);
+  const [groupChildren, setGroupChildren] = useState<Child[]>([]);
+  const [activeChildId, setActiveChildIdState] = useState<string | null>(() =>
+    loadFromLocalStorage('activeChildId', null)
+  );
 
   // Set client to true and log initial state
   useEffect(() => {
@@ -264,6 +276,57 @@ export function GroupProvider({ children }: { children: React.ReactNode }) {
     });
   };
 
+  // Fetch children for the active group
+  const fetchChildren = async (groupId: string) => {
+    try {
+      const response = await fetch(`/api/groups/${groupId}/children`);
+      if (response.ok) {
+        const result = await response.json();
+        const childrenData: Child[] = result.data?.children || [];
+        setGroupChildren(childrenData);
+
+        // Drop a stale selection (e.g. child from another group or since removed)
+        setActiveChildIdState(current => {
+          if (current && !childrenData.some(child => child.id === current)) {
+            try {
+              localStorage.removeItem('activeChildId');
+            } catch (error) {
+              console.warn('Failed to clear active child from localStorage:', error);
+            }
+            return null;
+          }
+          return current;
+        });
+      } else {
+        console.warn('Failed to fetch children:', response.status);
+        setGroupChildren([]);
+      }
+    } catch (error) {
+      console.error('Error fetching children:', error);
+      setGroupChildren([]);
+    }
+  };
+
+  const refreshChildren = async () => {
+    if (activeGroup?.id) {
+      await fetchChildren(activeGroup.id);
+    }
+  };
+
+  // Focus dashboard and timeline on one child, or null for all children
+  const setActiveChildId = (childId: string | null) => {
+    setActiveChildIdState(childId);
+    try {
+      if (childId) {
+        localStorage.setItem('activeChildId', JSON.stringify(childId));
+      } else {
+        localStorage.removeItem('activeChildId');
+      }
+    } catch (error) {
+      console.warn('Failed to save active child to localStorage:', error);
+    }
+  };
+
   // Refresh groups (for use after creating/joining new groups)
   const refreshGroups = async () => {
     setIsLoading(true);
@@ -321,6 +384,22 @@ export function GroupProvider({ children }: { children: React.ReactNode }) {
     }
   }, [userGroups, activeGroup, isClient]);
 
+  // Member counts and our own permissions follow membership changes as they happen
+  useGroupStream(isSignedIn ? activeGroup?.id : undefined, (message) => {
+    if (message.type === 'membership.changed') {
+      fetchGroups();
+    }
+  });
+
+  // Load children whenever the active group changes
+  useEffect(() => {
+    if (isClient && isSignedIn && activeGroup?.id) {
+      fetchChildren(activeGroup.id);
+    } else {
+      setGroupChildren([]);
+    }
+  }, [isClient, isSignedIn, activeGroup?.id]);
+
   return (
     <GroupContext.Provider
       value={{
@@ -329,6 +408,10 @@ export function GroupProvider({ children }: { children: React.ReactNode }) {
         isLoading,
         switchGroup,
         refreshGroups,
+        children: groupChildren,
+        activeChildId,
+        setActiveChildId,
+        refreshChildren,
       }}
     >
       {children}
@@ -0,0 +1,22 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToGroupStream } from '@/lib/groupStreamClient';
+import type { GroupStreamMessage } from '@/types';
+
+/**
+ * Call onMessage for every live update in a group while the component is mounted.
+ * The handler can change between renders without reopening the stream.
+ */
+export function useGroupStream(groupId: string | undefined, onMessage: (message: GroupStreamMessage) => void) {
+  const handlerRef = useRef(onMessage);
+
+  useEffect(() => {
+    handlerRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    if (!groupId) return;
+    return subscribeToGroupStream(groupId, {
+      onMessage: (message) => handlerRef.current(message),
+    });
+  }, [groupId]);
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SYNC_INTERVALS } from '@/lib/queryClient';
+import { useGroupStream } from '@/hooks/useGroupStream';
+import type { IllnessEpisode } from '@/types';
+
+/**
+ * Illness episodes for a group (or one child), with the readings and symptoms logged
+ * during each. Refreshed with the stats, and right away when new events come in.
+ */
+export function useIllnessEpisodes(groupId: string | undefined, childId?: string | null) {
+  const [episodes, setEpisodes] = useState<IllnessEpisode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchEpisodes = useCallback(async () => {
+    if (!groupId) {
+      setEpisodes([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const query = childId ? `?childId=${childId}` : '';
+      const response = await fetch(`/api/groups/${groupId}/illnesses${query}`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setEpisodes(result.data.episodes);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching illness episodes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId, childId]);
+
+  useEffect(() => {
+    fetchEpisodes();
+    const intervalId = setInterval(fetchEpisodes, SYNC_INTERVALS.STATS);
+    return () => clearInterval(intervalId);
+  }, [fetchEpisodes]);
+
+  useGroupStream(groupId, (message) => {
+    if (message.type !== 'membership.changed') {
+      fetchEpisodes();
+    }
+  });
+
+  return { episodes, isLoading, refetch: fetchEpisodes };
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SYNC_INTERVALS } from '@/lib/queryClient';
+import { useGroupStream } from '@/hooks/useGroupStream';
+import type { ImmunizationOverview } from '@/types';
+
+/**
+ * A child's vaccine record and where their schedule stands. Refreshed with the stats,
+ * and right away when something changes in the group on another device.
+ */
+export function useImmunizations(groupId: string | undefined, childId: string | null | undefined) {
+  const [overview, setOverview] = useState<ImmunizationOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchOverview = useCallback(async () => {
+    if (!groupId || !childId) {
+      setOverview(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/groups/${groupId}/children/${childId}/immunizations`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setOverview(result.data);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching immunizations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId, childId]);
+
+  useEffect(() => {
+    fetchOverview();
+    const intervalId = setInterval(fetchOverview, SYNC_INTERVALS.STATS);
+    return () => clearInterval(intervalId);
+  }, [fetchOverview]);
+
+  useGroupStream(groupId, (message) => {
+    if (message.type !== 'membership.changed') {
+      fetchOverview();
+    }
+  });
+
+  return { overview, isLoading, refetch: fetchOverview };
+}
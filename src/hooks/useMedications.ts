@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SYNC_INTERVALS } from '@/lib/queryClient';
+import { useGroupStream } from '@/hooks/useGroupStream';
+import type { MedicationWithStatus } from '@/types';
+
+/**
+ * A group's medications with when each dose is next due. Refreshed with the stats,
+ * and right away when a dose is logged on another device.
+ */
+export function useMedications(groupId: string | undefined, { includeArchived = false } = {}) {
+  const [medications, setMedications] = useState<MedicationWithStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchMedications = useCallback(async () => {
+    if (!groupId) {
+      setMedications([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/groups/${groupId}/medications${includeArchived ? '?includeArchived=true' : ''}`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setMedications(result.data.medications);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching medications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId, includeArchived]);
+
+  useEffect(() => {
+    fetchMedications();
+    const intervalId = setInterval(fetchMedications, SYNC_INTERVALS.STATS);
+    return () => clearInterval(intervalId);
+  }, [fetchMedications]);
+
+  useGroupStream(groupId, (message) => {
+    if (message.type !== 'membership.changed') {
+      fetchMedications();
+    }
+  });
+
+  return { medications, isLoading, refetch: fetchMedications };
+}
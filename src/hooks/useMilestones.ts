@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SYNC_INTERVALS } from '@/lib/queryClient';
+import { useGroupStream } from '@/hooks/useGroupStream';
+import type { MilestoneJournal } from '@/types';
+
+/**
+ * A child's milestone journal and where they are with the catalog. Refreshed with the
+ * stats, and right away when something changes in the group on another device.
+ */
+export function useMilestones(groupId: string | undefined, childId: string | null | undefined) {
+  const [journal, setJournal] = useState<MilestoneJournal | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchJournal = useCallback(async () => {
+    if (!groupId || !childId) {
+      setJournal(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/groups/${groupId}/children/${childId}/milestones`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setJournal(result.data);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching milestones:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId, childId]);
+
+  useEffect(() => {
+    fetchJournal();
+    const intervalId = setInterval(fetchJournal, SYNC_INTERVALS.STATS);
+    return () => clearInterval(intervalId);
+  }, [fetchJournal]);
+
+  useGroupStream(groupId, (message) => {
+    if (message.type !== 'membership.changed') {
+      fetchJournal();
+    }
+  });
+
+  return { journal, isLoading, refetch: fetchJournal };
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SYNC_INTERVALS } from '@/lib/queryClient';
+import { useGroupStream } from '@/hooks/useGroupStream';
+import type { MilkInventory } from '@/types';
+
+/**
+ * A group's stored expressed milk. Refreshed with the stats, and right away when a
+ * feeding or pumping session is logged on another device.
+ */
+export function useMilkInventory(groupId: string | undefined) {
+  const [inventory, setInventory] = useState<MilkInventory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchInventory = useCallback(async () => {
+    if (!groupId) {
+      setInventory(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/groups/${groupId}/milk`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setInventory(result.data);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching milk inventory:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    fetchInventory();
+    const intervalId = setInterval(fetchInventory, SYNC_INTERVALS.STATS);
+    return () => clearInterval(intervalId);
+  }, [fetchInventory]);
+
+  useGroupStream(groupId, (message) => {
+    if (message.type !== 'membership.changed') {
+      fetchInventory();
+    }
+  });
+
+  return { inventory, isLoading, refetch: fetchInventory };
+}
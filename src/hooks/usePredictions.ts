@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SYNC_INTERVALS } from '@/lib/queryClient';
+import { PREDICTION_HISTORY_DAYS } from '@/lib/predictions';
+import type { EventPredictions } from '@/types';
+
+/**
+ * Next feeding and nap predictions, refreshed as often as the stats.
+ * Callers disable it when several children are in view, since their rhythms would blur together.
+ */
+export function usePredictions(groupId: string | undefined, childId: string | null, enabled = true) {
+  const [predictions, setPredictions] = useState<EventPredictions | null>(null);
+
+  const fetchPredictions = useCallback(async () => {
+    if (!groupId || !enabled) {
+      setPredictions(null);
+      return;
+    }
+
+    try {
+      const childParam = childId ? `&childId=${childId}` : '';
+      const response = await fetch(`/api/stats?days=${PREDICTION_HISTORY_DAYS}&groupId=${groupId}${childParam}`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setPredictions(result.data.predictions);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching predictions:', error);
+    }
+  }, [groupId, childId, enabled]);
+
+  useEffect(() => {
+    fetchPredictions();
+    const intervalId = setInterval(fetchPredictions, SYNC_INTERVALS.STATS);
+    return () => clearInterval(intervalId);
+  }, [fetchPredictions]);
+
+  return { predictions, refetch: fetchPredictions };
+}
@@ -10,6 +10,7 @@ import {
 } from '@/store/eventsApi';
 import { BabyEventWithRelations } from '@/types/baby-events';
 import { useAppSelector } from '@/store/hooks';
+import { SYNC_INTERVALS } from '@/lib/queryClient';
 
 interface UseEventsOptions {
   filters?: EventFilters;
@@ -23,6 +24,7 @@ export function useEvents(options: UseEventsOptions = {}) {
   // Get sync status from Redux store
   const syncStatus = useAppSelector((state) => (state as any).cache.syncStatus);
   const offlineActions = useAppSelector((state) => (state as any).cache.offlineActions);
+  const isStreamConnected = useAppSelector((state) => !!filters.groupId && !!state.cache.streamConnected[filters.groupId]);
 
   // Prepare filters with defaults - memoize properly to prevent excessive calls
   const queryFilters = useMemo(() => {
@@ -34,6 +36,7 @@ export function useEvents(options: UseEventsOptions = {}) {
       limit: filters.limit || 100,
       offset: filters.offset || 0,
       groupId: filters.groupId,
+      childId: filters.childId,
     };
   }, [
     filters.type,
@@ -41,7 +44,8 @@ export function useEvents(options: UseEventsOptions = {}) {
     filters.dateTo,
     filters.limit,
     filters.offset,
-    filters.groupId
+    filters.groupId,
+    filters.childId
   ]);
 
   // Use RTK Query for data fetching with caching
@@ -54,8 +58,10 @@ export function useEvents(options: UseEventsOptions = {}) {
     refetch,
   } = useGetEventsQuery(queryFilters, {
     skip: !enabled,
-    // Remove aggressive polling - only poll when specified and online
-    pollingInterval: refetchInterval && syncStatus.isOnline ? refetchInterval : 0,
+    // The group's live stream keeps the list current; poll only when asked to, or while the stream is down
+    pollingInterval: !syncStatus.isOnline
+      ? 0
+      : refetchInterval || (isStreamConnected ? 0 : SYNC_INTERVALS.EVENTS),
     // Reduce automatic refetching to prevent excessive API calls
     refetchOnMountOrArgChange: 30, // Only refetch if cache is older than 30 seconds
     refetchOnFocus: false, // Disable refetch on focus to reduce API calls
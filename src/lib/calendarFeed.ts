@@ -0,0 +1,159 @@
+import { randomBytes } from 'crypto';
+import { getEventSpan } from '@/lib/eventSpan';
+import { EventType, type TemperatureUnit } from '@/types/baby-events';
+import { formatTemperature, SYMPTOMS } from '@/lib/illness';
+
+// How far back the feed goes; calendar apps re-download the whole thing on every refresh
+export const FEED_HISTORY_DAYS = 90;
+
+// How often we ask calendar apps to refresh (most treat this as a hint)
+const REFRESH_INTERVAL = 'PT15M';
+
+export interface CalendarFeedEvent {
+  id: string;
+  type: string;
+  occurredAt: Date;
+  timezone: string;
+  date: Date;
+  notes: string | null;
+  updatedAt: Date;
+  child?: { name: string } | null;
+  timer?: { status: string } | null;
+  feedingEvent?: { feedingType: string; amount: number | null; duration: number | null; side: string | null } | null;
+  diaperEvent?: { wet: number; dirty: number } | null;
+  sleepEvent?: { sleepType: string; duration: number | null; startTime: string | null; endTime: string | null } | null;
+  otherEvent?: { eventType: string; description: string } | null;
+  growthEvent?: { weight: number | null; length: number | null; headCircumference: number | null } | null;
+  medicationEvent?: { name: string; dose: number; unit: string } | null;
+  pumpingEvent?: { leftAmount: number | null; rightAmount: number | null; duration: number | null } | null;
+  temperatureEvent?: { celsius: number; unit: string } | null;
+  symptomEvent?: { symptom: string; severity: string } | null;
+}
+
+/**
+ * Long random secret for a subscription URL.
+ */
+export function generateFeedToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+const formatIcsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeIcsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets must be folded onto continuation lines that start with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const label = (value: string) => {
+  const text = value.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+function getSummary(event: CalendarFeedEvent): string {
+  switch (event.type) {
+    case EventType.FEEDING: {
+      const feeding = event.feedingEvent;
+      if (!feeding) return '🍼 Feeding';
+      let summary = `🍼 ${label(feeding.feedingType)}`;
+      if (feeding.amount) summary += ` ${feeding.amount}ml`;
+      if (feeding.duration) summary += ` ${feeding.duration}min`;
+      if (feeding.side) summary += ` (${feeding.side})`;
+      return summary;
+    }
+    case EventType.DIAPER: {
+      const diaper = event.diaperEvent;
+      const parts = [];
+      if (diaper?.wet) parts.push(`${diaper.wet} wet`);
+      if (diaper?.dirty) parts.push(`${diaper.dirty} dirty`);
+      return `👶 Diaper${parts.length > 0 ? `: ${parts.join(', ')}` : ''}`;
+    }
+    case EventType.SLEEP:
+      return `😴 ${event.sleepEvent ? label(event.sleepEvent.sleepType) : 'Sleep'}`;
+    case EventType.GROWTH: {
+      const growth = event.growthEvent;
+      const parts = [];
+      if (growth?.weight) parts.push(`${growth.weight} g`);
+      if (growth?.length) parts.push(`${growth.length} cm`);
+      return `📏 Growth${parts.length > 0 ? `: ${parts.join(', ')}` : ''}`;
+    }
+    case EventType.MEDICATION: {
+      const medication = event.medicationEvent;
+      return `💊 ${medication ? `${medication.name} ${medication.dose} ${medication.unit}` : 'Medicine'}`;
+    }
+    case EventType.PUMPING: {
+      const total = (event.pumpingEvent?.leftAmount || 0) + (event.pumpingEvent?.rightAmount || 0);
+      return `🫙 Pumped${total > 0 ? ` ${total} ml` : ''}`;
+    }
+    case EventType.TEMPERATURE: {
+      const temperature = event.temperatureEvent;
+      return `🌡️ Temperature${temperature ? ` ${formatTemperature(temperature.celsius, temperature.unit as TemperatureUnit)}` : ''}`;
+    }
+    case EventType.SYMPTOM: {
+      const symptom = event.symptomEvent;
+      return `🤧 ${symptom ? `${SYMPTOMS[symptom.symptom] || label(symptom.symptom)} (${symptom.severity})` : 'Symptom'}`;
+    }
+    default:
+      return `🌟 ${event.otherEvent ? label(event.otherEvent.eventType) : label(event.type)}`;
+  }
+}
+
+/**
+ * The events as an iCalendar (RFC 5545) document, with times in UTC.
+ */
+export function buildCalendarFeed(
+  events: CalendarFeedEvent[],
+  { calendarName, timeZone, showChildNames = false }: { calendarName: string; timeZone: string; showChildNames?: boolean }
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//withGrace//Baby Log//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  for (const event of events) {
+    const { start, end } = getEventSpan(event);
+    const summary = getSummary(event) + (showChildNames && event.child ? ` · ${event.child.name}` : '');
+    const description = [event.otherEvent?.description, event.notes].filter(Boolean).join('\n\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.id}@withgrace`,
+      `DTSTAMP:${formatIcsDate(event.updatedAt)}`,
+      `DTSTART:${formatIcsDate(start)}`,
+      ...(end ? [`DTEND:${formatIcsDate(end)}`] : []),
+      `SUMMARY:${escapeIcsText(summary)}`,
+      ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
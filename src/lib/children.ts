@@ -0,0 +1,112 @@
+import { prisma } from '@/lib/prisma';
+import { isImmunizationSchedule } from '@/lib/immunizations';
+
+export const CHILD_SEXES = ['female', 'male', 'other'] as const;
+
+export interface ChildInput {
+  name: string;
+  birthDate: Date | null;
+  sex: string | null;
+  birthWeight: number | null;
+  birthLength: number | null;
+  photoUrl: string | null;
+  immunizationSchedule: string | null;
+}
+
+/**
+ * Validate and normalize a child profile request body.
+ * Returns either the cleaned data or a user-facing error message.
+ */
+export function parseChildInput(body: unknown): { data?: ChildInput; error?: string } {
+  const { name, birthDate, sex, birthWeight, birthLength, photoUrl, immunizationSchedule } =
+    (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'Child name is required' };
+  }
+
+  let parsedBirthDate: Date | null = null;
+  if (birthDate) {
+    if (typeof birthDate !== 'string' && typeof birthDate !== 'number') {
+      return { error: 'Invalid birth date' };
+    }
+    parsedBirthDate = new Date(birthDate);
+    if (isNaN(parsedBirthDate.getTime())) {
+      return { error: 'Invalid birth date' };
+    }
+    if (parsedBirthDate > new Date()) {
+      return { error: 'Birth date cannot be in the future' };
+    }
+  }
+
+  const childSex = CHILD_SEXES.find(value => value === sex) ?? null;
+  if (sex && !childSex) {
+    return { error: 'Invalid sex' };
+  }
+
+  const weight = birthWeight === undefined || birthWeight === null || birthWeight === '' ? null : Number(birthWeight);
+  if (weight !== null && (!Number.isFinite(weight) || weight <= 0)) {
+    return { error: 'Birth weight must be a positive number of grams' };
+  }
+
+  const length = birthLength === undefined || birthLength === null || birthLength === '' ? null : Number(birthLength);
+  if (length !== null && (!Number.isFinite(length) || length <= 0)) {
+    return { error: 'Birth length must be a positive number of centimetres' };
+  }
+
+  const photo = photoUrl || null;
+  if (photo !== null && typeof photo !== 'string') {
+    return { error: 'Invalid photo' };
+  }
+
+  const schedule = immunizationSchedule || null;
+  if (schedule !== null && !isImmunizationSchedule(schedule)) {
+    return { error: 'Invalid immunization schedule' };
+  }
+
+  return {
+    data: {
+      name: name.trim(),
+      birthDate: parsedBirthDate,
+      sex: childSex,
+      birthWeight: weight !== null ? Math.round(weight) : null,
+      birthLength: length,
+      photoUrl: photo,
+      immunizationSchedule: schedule,
+    },
+  };
+}
+
+/**
+ * Work out which child an event belongs to. An explicit childId must belong to the group;
+ * when omitted we fall back to the group's only child, and require a choice once there are several.
+ */
+export async function resolveEventChildId(
+  groupId: string,
+  childId: string | null | undefined
+): Promise<{ childId: string | null; error?: string }> {
+  if (childId) {
+    const child = await prisma.child.findUnique({
+      where: { id: childId, groupId },
+      select: { id: true },
+    });
+    if (!child) {
+      return { childId: null, error: 'Child not found in this group' };
+    }
+    return { childId: child.id };
+  }
+
+  const children = await prisma.child.findMany({
+    where: { groupId },
+    select: { id: true },
+    take: 2,
+  });
+
+  if (children.length === 1) {
+    return { childId: children[0].id };
+  }
+  if (children.length > 1) {
+    return { childId: null, error: 'Please choose which child this event is for' };
+  }
+  return { childId: null };
+}
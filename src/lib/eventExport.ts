@@ -0,0 +1,163 @@
+import type { Prisma } from '@prisma/client';
+import { fromCelsius } from '@/lib/illness';
+import type { TemperatureUnit } from '@/types/baby-events';
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+type ExportValue = string | number | null;
+export type ExportRow = Record<string, ExportValue>;
+
+// What the export loads for each event
+export const EXPORT_EVENT_INCLUDE = {
+  feedingEvent: true,
+  diaperEvent: true,
+  sleepEvent: true,
+  otherEvent: true,
+  growthEvent: true,
+  medicationEvent: true,
+  pumpingEvent: true,
+  temperatureEvent: true,
+  symptomEvent: true,
+  images: {
+    select: { url: true },
+  },
+  child: {
+    select: { name: true },
+  },
+} satisfies Prisma.BabyEventInclude;
+
+export type ExportEvent = Prisma.BabyEventGetPayload<{ include: typeof EXPORT_EVENT_INCLUDE }>;
+
+// Column order for CSV; JSON rows use the same keys
+export const EXPORT_COLUMNS = [
+  'id',
+  'occurredAt',
+  'timezone',
+  'date',
+  'time',
+  'type',
+  'childName',
+  'notes',
+  'feedingType',
+  'amount',
+  'feedingDuration',
+  'side',
+  'wet',
+  'dirty',
+  'color',
+  'consistency',
+  'texture',
+  'sleepType',
+  'sleepDuration',
+  'sleepStartTime',
+  'sleepEndTime',
+  'otherEventType',
+  'description',
+  'milestone',
+  'weight',
+  'length',
+  'headCircumference',
+  'medicationName',
+  'dose',
+  'doseUnit',
+  'route',
+  'leftAmount',
+  'rightAmount',
+  'pumpingDuration',
+  'temperature',
+  'temperatureUnit',
+  'temperatureMethod',
+  'symptom',
+  'severity',
+  'imageUrls',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+const toValue = (value: unknown): ExportValue => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'number' ? value : String(value);
+};
+
+/**
+ * One event and its type-specific details as a flat row, with photo URLs space-separated.
+ */
+export function flattenEventForExport(event: ExportEvent): ExportRow {
+  return {
+    id: event.id,
+    occurredAt: toValue(event.occurredAt),
+    timezone: toValue(event.timezone),
+    date: event.date ? new Date(event.date).toISOString().split('T')[0] : null,
+    time: toValue(event.time),
+    type: toValue(event.type),
+    childName: toValue(event.child?.name),
+    notes: toValue(event.notes),
+    feedingType: toValue(event.feedingEvent?.feedingType),
+    amount: toValue(event.feedingEvent?.amount),
+    feedingDuration: toValue(event.feedingEvent?.duration),
+    side: toValue(event.feedingEvent?.side),
+    wet: toValue(event.diaperEvent?.wet),
+    dirty: toValue(event.diaperEvent?.dirty),
+    color: toValue(event.diaperEvent?.color),
+    consistency: toValue(event.diaperEvent?.consistency),
+    texture: toValue(event.diaperEvent?.texture),
+    sleepType: toValue(event.sleepEvent?.sleepType),
+    sleepDuration: toValue(event.sleepEvent?.duration),
+    sleepStartTime: toValue(event.sleepEvent?.startTime),
+    sleepEndTime: toValue(event.sleepEvent?.endTime),
+    otherEventType: toValue(event.otherEvent?.eventType),
+    description: toValue(event.otherEvent?.description ?? event.symptomEvent?.description),
+    milestone: toValue(event.otherEvent?.milestoneKey),
+    weight: toValue(event.growthEvent?.weight),
+    length: toValue(event.growthEvent?.length),
+    headCircumference: toValue(event.growthEvent?.headCircumference),
+    medicationName: toValue(event.medicationEvent?.name),
+    dose: toValue(event.medicationEvent?.dose),
+    doseUnit: toValue(event.medicationEvent?.unit),
+    route: toValue(event.medicationEvent?.route),
+    leftAmount: toValue(event.pumpingEvent?.leftAmount),
+    rightAmount: toValue(event.pumpingEvent?.rightAmount),
+    pumpingDuration: toValue(event.pumpingEvent?.duration),
+    temperature: event.temperatureEvent ? fromCelsius(event.temperatureEvent.celsius, event.temperatureEvent.unit as TemperatureUnit) : null,
+    temperatureUnit: toValue(event.temperatureEvent?.unit),
+    temperatureMethod: toValue(event.temperatureEvent?.method),
+    symptom: toValue(event.symptomEvent?.symptom),
+    severity: toValue(event.symptomEvent?.severity),
+    imageUrls: event.images.length > 0 ? event.images.map(image => image.url).join(' ') : null,
+    createdAt: toValue(event.createdAt),
+    updatedAt: toValue(event.updatedAt),
+  };
+}
+
+// Spreadsheets run cells starting with these as formulas. Text that already has our `'` in
+// front gets another one, so the import only ever takes off the one the export added.
+const FORMULA_PREFIX_PATTERN = /^'*[=+\-@\t\r]/;
+
+/**
+ * Undo the `'` the CSV export puts in front of text a spreadsheet would run as a formula,
+ * so importing an export gives back exactly what was exported.
+ */
+export function unescapeCsvFormula(value: string): string {
+  return /^'+[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+function escapeCsvValue(value: ExportValue): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(values: ExportValue[]): string {
+  return values.map(escapeCsvValue).join(',') + '\r\n';
+}
+
+export function getExportFilename(groupName: string, format: ExportFormat, from?: string | null, to?: string | null): string {
+  const slug = groupName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'group';
+  const range = from || to ? `-${from || 'start'}-to-${to || 'today'}` : '';
+  return `withgrace-${slug}${range}.${format}`;
+}
@@ -0,0 +1,384 @@
+import { EventType, OtherEventType, type TemperatureUnit } from '@/types/baby-events';
+import {
+  parseDiaperDescription,
+  parseFeedingDescription,
+  parseOtherEventType,
+  parseSleepDescription,
+} from '@/lib/eventParser';
+import { unescapeCsvFormula } from '@/lib/eventExport';
+import { toCelsius } from '@/lib/illness';
+import type { EventPayload } from '@/lib/validation';
+
+export const IMPORT_FORMATS = ['csv', 'json'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 10000;
+
+export type ImportRow = Record<string, string>;
+
+// The columns copied straight from the row are text; everything else is left to validateEventPayload
+export type ImportEventPayload = EventPayload & Partial<Record<'type' | 'occurredAt' | 'timezone' | 'date' | 'time' | 'notes', string>>;
+
+// Header spellings we accept, normalized (lowercase, no spaces/underscores) -> column name used by the export
+const HEADER_ALIASES: Record<string, string> = {
+  occurredat: 'occurredAt',
+  timestamp: 'occurredAt',
+  timezone: 'timezone',
+  date: 'date',
+  time: 'time',
+  type: 'type',
+  eventtype: 'type',
+  child: 'childName',
+  childname: 'childName',
+  notes: 'notes',
+  note: 'notes',
+  description: 'description',
+  feedingtype: 'feedingType',
+  amount: 'amount',
+  amountml: 'amount',
+  duration: 'duration',
+  feedingduration: 'feedingDuration',
+  side: 'side',
+  wet: 'wet',
+  dirty: 'dirty',
+  color: 'color',
+  consistency: 'consistency',
+  texture: 'texture',
+  sleeptype: 'sleepType',
+  sleepduration: 'sleepDuration',
+  sleepstarttime: 'sleepStartTime',
+  starttime: 'sleepStartTime',
+  sleependtime: 'sleepEndTime',
+  endtime: 'sleepEndTime',
+  othereventtype: 'otherEventType',
+  weight: 'weight',
+  length: 'length',
+  headcircumference: 'headCircumference',
+  medicationname: 'medicationName',
+  medicine: 'medicationName',
+  dose: 'dose',
+  doseunit: 'doseUnit',
+  unit: 'doseUnit',
+  route: 'route',
+  leftamount: 'leftAmount',
+  rightamount: 'rightAmount',
+  pumpingduration: 'pumpingDuration',
+  milestone: 'milestone',
+  milestonekey: 'milestone',
+  temperature: 'temperature',
+  temp: 'temperature',
+  temperatureunit: 'temperatureUnit',
+  temperaturemethod: 'temperatureMethod',
+  method: 'temperatureMethod',
+  symptom: 'symptom',
+  severity: 'severity',
+};
+
+/**
+ * Split CSV text into rows of cells, handling quoted cells with commas, quotes and newlines.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+function normalizeHeader(header: string): string {
+  const key = header.replace(/^\uFEFF/, '').trim().toLowerCase().replace(/[\s_-]+/g, '');
+  return HEADER_ALIASES[key] || header.trim();
+}
+
+/**
+ * Rows from a CSV file or one of our JSON exports, keyed by export column name.
+ */
+export function readImportRows(content: string, format: ImportFormat): ImportRow[] {
+  if (format === 'json') {
+    const data = JSON.parse(content);
+    if (!Array.isArray(data)) {
+      throw new Error('JSON imports must be an array of events, like the export produces');
+    }
+    return data.map(item => {
+      const row: ImportRow = {};
+      for (const [key, value] of Object.entries(item ?? {})) {
+        if (value !== null && value !== undefined) {
+          row[normalizeHeader(key)] = Array.isArray(value) ? value.join(' ') : String(value);
+        }
+      }
+      return row;
+    });
+  }
+
+  const [headers, ...lines] = parseCsv(content);
+  if (!headers) {
+    return [];
+  }
+  const columns = headers.map(normalizeHeader);
+
+  return lines.map(cells => {
+    const row: ImportRow = {};
+    columns.forEach((column, index) => {
+      const value = unescapeCsvFormula((cells[index] ?? '').trim());
+      if (value !== '') row[column] = value;
+    });
+    return row;
+  });
+}
+
+export function detectImportFormat(filename: string, content: string): ImportFormat {
+  if (filename.toLowerCase().endsWith('.json')) return 'json';
+  if (filename.toLowerCase().endsWith('.csv')) return 'csv';
+  return content.trimStart().startsWith('[') ? 'json' : 'csv';
+}
+
+const toNumber = (value: string | undefined) => {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isNaN(number) ? value : number;
+};
+
+/**
+ * Turn an imported row into the payload the events API accepts. Structured columns win;
+ * otherwise feedings, diapers and sleeps are parsed from their description.
+ */
+export function rowToEventPayload(row: ImportRow): ImportEventPayload {
+  const type = row.type?.toLowerCase();
+  const description = row.description || '';
+  const payload: ImportEventPayload = {
+    type,
+    occurredAt: row.occurredAt,
+    timezone: row.timezone,
+    date: row.date,
+    time: row.time,
+    notes: row.notes,
+  };
+
+  switch (type) {
+    case EventType.FEEDING: {
+      const parsed = row.feedingType ? {} : parseFeedingDescription(description);
+      Object.assign(payload, parsed, {
+        ...(row.feedingType && { feedingType: row.feedingType.toLowerCase() }),
+        ...(row.amount && { amount: toNumber(row.amount) }),
+        ...((row.feedingDuration || row.duration) && { duration: toNumber(row.feedingDuration || row.duration) }),
+        ...(row.side && { side: row.side.toLowerCase() }),
+      });
+      break;
+    }
+    case EventType.DIAPER: {
+      const parsed = row.wet || row.dirty ? null : parseDiaperDescription(description);
+      payload.wet = row.wet ? toNumber(row.wet) : parsed?.wet ?? 0;
+      payload.dirty = row.dirty ? toNumber(row.dirty) : parsed?.dirty ?? 0;
+      payload.diaperDetails = {
+        color: row.color || parsed?.color,
+        texture: row.texture || parsed?.texture,
+        consistency: row.consistency || parsed?.consistency,
+      };
+      break;
+    }
+    case EventType.SLEEP: {
+      const parsed = row.sleepType ? {} : parseSleepDescription(description);
+      Object.assign(payload, parsed, {
+        ...(row.sleepType && { sleepType: row.sleepType.toLowerCase() }),
+        ...((row.sleepDuration || row.duration) && { duration: toNumber(row.sleepDuration || row.duration) }),
+        ...(row.sleepStartTime && { startTime: row.sleepStartTime }),
+        ...(row.sleepEndTime && { endTime: row.sleepEndTime }),
+      });
+      break;
+    }
+    case EventType.OTHER:
+      payload.eventType = row.otherEventType?.toLowerCase() || parseOtherEventType(description);
+      payload.description = description;
+      payload.milestoneKey = row.milestone || undefined;
+      break;
+    case EventType.GROWTH:
+      payload.weight = toNumber(row.weight);
+      payload.length = toNumber(row.length);
+      payload.headCircumference = toNumber(row.headCircumference);
+      break;
+    case EventType.MEDICATION:
+      payload.name = row.medicationName || description;
+      payload.dose = toNumber(row.dose);
+      payload.unit = row.doseUnit?.toLowerCase();
+      payload.route = row.route?.toLowerCase() || 'oral';
+      break;
+    case EventType.PUMPING:
+      payload.leftAmount = toNumber(row.leftAmount);
+      payload.rightAmount = toNumber(row.rightAmount);
+      payload.duration = toNumber(row.pumpingDuration || row.duration);
+      break;
+    case EventType.TEMPERATURE:
+      payload.temperature = toNumber(row.temperature);
+      payload.unit = row.temperatureUnit?.toUpperCase().replace('°', '') || 'C';
+      payload.method = row.temperatureMethod?.toLowerCase() || 'rectal';
+      break;
+    case EventType.SYMPTOM:
+      payload.symptom = row.symptom?.toLowerCase().replace(/ /g, '_');
+      payload.severity = row.severity?.toLowerCase() || 'mild';
+      payload.description = description || undefined;
+      break;
+  }
+
+  // Simple "date,time,type,description" files keep the original text as the note
+  if (!payload.notes && description && type !== EventType.OTHER && type !== EventType.SYMPTOM && payload.name !== description) {
+    payload.notes = description;
+  }
+
+  return payload;
+}
+
+// The payload has passed validateEventPayload by now, so these only pick out the checked values
+const textOrNull = (value: unknown) => (typeof value === 'string' && value ? value : null);
+const numberOrNull = (value: unknown) => (typeof value === 'number' && value ? value : null);
+
+/**
+ * Create data for an event's type-specific record, mirroring POST /api/events.
+ */
+export function buildEventDetailsCreate(payload: EventPayload) {
+  switch (payload.type) {
+    case EventType.FEEDING:
+      return {
+        feedingEvent: {
+          create: {
+            feedingType: String(payload.feedingType),
+            amount: numberOrNull(payload.amount),
+            duration: numberOrNull(payload.duration),
+            side: textOrNull(payload.side),
+          },
+        },
+      };
+    case EventType.DIAPER: {
+      const details = (payload.diaperDetails && typeof payload.diaperDetails === 'object' ? payload.diaperDetails : {}) as Record<string, unknown>;
+      return {
+        diaperEvent: {
+          create: {
+            wet: numberOrNull(payload.wet) ?? 0,
+            dirty: numberOrNull(payload.dirty) ?? 0,
+            color: textOrNull(details.color),
+            texture: textOrNull(details.texture),
+            consistency: textOrNull(details.consistency),
+          },
+        },
+      };
+    }
+    case EventType.SLEEP:
+      return {
+        sleepEvent: {
+          create: {
+            sleepType: String(payload.sleepType),
+            duration: numberOrNull(payload.duration),
+            startTime: textOrNull(payload.startTime),
+            endTime: textOrNull(payload.endTime),
+          },
+        },
+      };
+    case EventType.OTHER:
+      return {
+        otherEvent: {
+          create: {
+            eventType: String(payload.eventType),
+            description: String(payload.description),
+            milestoneKey: payload.eventType === OtherEventType.MILESTONE ? textOrNull(payload.milestoneKey) : null,
+          },
+        },
+      };
+    case EventType.GROWTH:
+      return {
+        growthEvent: {
+          create: {
+            weight: payload.weight ? Math.round(Number(payload.weight)) : null,
+            length: numberOrNull(payload.length),
+            headCircumference: numberOrNull(payload.headCircumference),
+          },
+        },
+      };
+    case EventType.MEDICATION:
+      // Imported doses aren't linked to a saved medication
+      return {
+        medicationEvent: {
+          create: {
+            name: String(payload.name).trim(),
+            dose: Number(payload.dose),
+            unit: String(payload.unit),
+            route: String(payload.route),
+          },
+        },
+      };
+    case EventType.PUMPING:
+      // Imported sessions don't add milk to the inventory
+      return {
+        pumpingEvent: {
+          create: {
+            leftAmount: payload.leftAmount ? Math.round(Number(payload.leftAmount)) : null,
+            rightAmount: payload.rightAmount ? Math.round(Number(payload.rightAmount)) : null,
+            duration: numberOrNull(payload.duration),
+          },
+        },
+      };
+    case EventType.TEMPERATURE:
+      return {
+        temperatureEvent: {
+          create: {
+            celsius: toCelsius(Number(payload.temperature), payload.unit as TemperatureUnit),
+            unit: String(payload.unit),
+            method: String(payload.method),
+          },
+        },
+      };
+    case EventType.SYMPTOM:
+      return {
+        symptomEvent: {
+          create: {
+            symptom: String(payload.symptom),
+            severity: String(payload.severity),
+            description: textOrNull(payload.description)?.trim() || null,
+          },
+        },
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Key used to spot an event that's already been recorded for the same child.
+ */
+export function getDuplicateKey(childId: string | null, date: Date | string, time: string, type: string): string {
+  return `${childId ?? ''}|${new Date(date).toISOString().split('T')[0]}|${time}|${type}`;
+}
@@ -0,0 +1,272 @@
+import { EventType, FeedingType, OtherEventType, SleepType } from '@/types/baby-events';
+import type { EventPayload } from '@/lib/validation';
+
+const HOURS_PATTERN = /(\d+(?:\.\d+)?)\s*h(?:rs?|ours?)?(?![a-z])/i;
+const MINUTES_PATTERN = /(\d+)\s*m(?:in(?:ute)?s?)?(?![a-z])/i;
+
+// Durations like "1h 30m", "1.5 hours" or "45 mins", in whole minutes
+export function parseDurationMinutes(text: string): number | undefined {
+  const hoursMatch = text.match(HOURS_PATTERN);
+  const minutesMatch = text.match(MINUTES_PATTERN);
+  const duration = Math.round((hoursMatch ? parseFloat(hoursMatch[1]) * 60 : 0) + (minutesMatch ? parseInt(minutesMatch[1]) : 0));
+  return duration > 0 ? duration : undefined;
+}
+
+// Free-text descriptions like "breastfed 25 minutes left" or "formula 60 ml"
+export function parseFeedingDescription(description: string) {
+  const text = description.toLowerCase();
+  const feedingData: { feedingType?: FeedingType; amount?: number; duration?: number; side?: string } = {};
+
+  if (text.includes('expressed') || text.includes('pumped') || text.includes('ebm')) {
+    feedingData.feedingType = FeedingType.EXPRESSED_BREAST_MILK;
+  } else if (text.includes('formula')) {
+    feedingData.feedingType = text.includes('breast') ? FeedingType.MIXED : FeedingType.FORMULA;
+  } else if (text.includes('breast') || text.includes('nurs')) {
+    feedingData.feedingType = FeedingType.BREASTFED;
+  }
+
+  const amountMatch = text.match(/(\d+)\s*ml/);
+  if (amountMatch) {
+    feedingData.amount = parseInt(amountMatch[1]);
+    // "bottle 90ml" or "fed 120 ml" doesn't say what was in it; formula is the usual bottle
+    if (!feedingData.feedingType) {
+      feedingData.feedingType = FeedingType.FORMULA;
+    }
+  }
+
+  const duration = parseDurationMinutes(text);
+  if (duration) {
+    feedingData.duration = duration;
+  }
+
+  if (text.includes('both') || (text.includes('left') && text.includes('right'))) feedingData.side = 'both';
+  else if (text.includes('left')) feedingData.side = 'left';
+  else if (text.includes('right')) feedingData.side = 'right';
+
+  return feedingData;
+}
+
+// Free-text descriptions like "1 wet 1 dirty diaper yellow seedy"
+export function parseDiaperDescription(description: string) {
+  const text = description.toLowerCase();
+  const diaperData: { wet: number; dirty: number; color?: string; texture?: string; consistency?: string } = {
+    wet: 0,
+    dirty: 0,
+  };
+
+  const wetMatch = text.match(/(\d+)\s*wet/);
+  if (wetMatch) {
+    diaperData.wet = parseInt(wetMatch[1]);
+  } else if (text.includes('wet')) {
+    diaperData.wet = 1;
+  }
+
+  const dirtyMatch = text.match(/(\d+)\s*(dirty|poo)/);
+  if (dirtyMatch) {
+    diaperData.dirty = parseInt(dirtyMatch[1]);
+  } else if (text.includes('dirty') || text.includes('poo')) {
+    diaperData.dirty = 1;
+  }
+
+  const color = ['yellow', 'green', 'brown', 'black', 'orange', 'red'].find(value => text.includes(value));
+  if (color) {
+    diaperData.color = color;
+  }
+  if (text.includes('seedy')) {
+    diaperData.texture = 'seedy';
+  }
+  if (text.includes('cottage cheese')) {
+    diaperData.texture = 'cottage cheese';
+  }
+  if (text.includes('watery')) {
+    diaperData.consistency = 'watery';
+  }
+
+  return diaperData;
+}
+
+// Free-text descriptions like "night sleep 6 hours" or "nap 45 minutes"
+export function parseSleepDescription(description: string) {
+  const text = description.toLowerCase();
+  const duration = parseDurationMinutes(text);
+
+  return {
+    sleepType: text.includes('night') ? SleepType.NIGHT_SLEEP : SleepType.NAP,
+    ...(duration && { duration }),
+  };
+}
+
+export function parseOtherEventType(description: string): OtherEventType | undefined {
+  const text = description.toLowerCase();
+  return Object.values(OtherEventType).find(value => text.includes(value.replace('_', ' ')))
+    || (text.includes('doctor') ? OtherEventType.DOCTOR_VISIT : undefined);
+}
+
+// Words that say which kind of event a phrase is about
+const EVENT_KEYWORDS: [EventType, RegExp][] = [
+  [EventType.FEEDING, /\b(breast\w*|nurs\w*|formula|bottle|fed|feed\w*|expressed|pumped|ebm)\b/],
+  [EventType.DIAPER, /\b(diapers?|nappy|nappies|wet|dirty|poo\w*)\b/],
+  [EventType.SLEEP, /\b(sleep\w*|slept|naps?|napped|asleep)\b/],
+  [EventType.OTHER, /\b(bath\w*|massage\w*|doctor|check-?up|symptoms?|milestone)\b/],
+];
+
+// Where one event ends and the next begins: "formula 60 ml and a wet diaper; nap 40 min"
+const CLAUSE_SEPARATOR = /\s*(?:[;\n]|,|\band then\b|\bthen\b|\band\b|\s[&+]\s)\s*/;
+
+const RELATIVE_TIME = /\b(\d+(?:\.\d+)?|an?|half an?)\s*(hours?|hrs?|h|minutes?|mins?|m)\s+ago\b/;
+const CLOCK_TIME = [
+  /(?:\bat|@)\s*(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?m?\.?(?![\w:])/,
+  /\b(\d{1,2}):(\d{2})\s*(?:([ap])\.?m\.?)?(?!\w)/,
+  /\b(\d{1,2})\s*([ap])\.?m\.?(?!\w)/,
+];
+
+export interface ParsedQuickEntry {
+  type: EventType;
+  occurredAt: Date;
+  text: string; // The words this event was read from
+  data: EventPayload; // Type-specific fields, without timing
+}
+
+interface Clause {
+  text: string;
+  type?: EventType;
+  occurredAt?: Date;
+}
+
+function detectEventType(text: string): EventType | undefined {
+  let earliest: { type: EventType; index: number } | undefined;
+  for (const [type, pattern] of EVENT_KEYWORDS) {
+    const match = text.match(pattern);
+    if (match && match.index !== undefined && (!earliest || match.index < earliest.index)) {
+      earliest = { type, index: match.index };
+    }
+  }
+  return earliest?.type;
+}
+
+// The most recent time a bare "3:10" could mean: today or yesterday, am or pm
+function resolveClockTime(hour: number, minute: number, meridiem: string | undefined, isExact: boolean, now: Date, yesterday: boolean): Date | undefined {
+  if (hour > 23 || minute > 59 || (meridiem && (hour < 1 || hour > 12))) return undefined;
+
+  const hours = meridiem
+    ? [(hour % 12) + (meridiem === 'p' ? 12 : 0)]
+    : isExact || hour === 0 || hour > 12 ? [hour] : [hour % 12, (hour % 12) + 12];
+
+  const candidates = hours.map(value => {
+    const candidate = new Date(now);
+    candidate.setHours(value, minute, 0, 0);
+    if (yesterday || candidate > now) {
+      candidate.setDate(candidate.getDate() - 1);
+    }
+    return candidate;
+  });
+
+  return candidates.reduce((latest, candidate) => candidate > latest ? candidate : latest);
+}
+
+// Pull "10 minutes ago", "at 3:10pm" or "yesterday 9pm" out of a phrase
+function extractTime(text: string, now: Date): { occurredAt?: Date; rest: string } {
+  let rest = text;
+  const yesterday = /\byesterday\b/.test(rest);
+  rest = rest.replace(/\byesterday\b/, ' ').replace(/\b(just )?now\b/, ' ');
+
+  const relative = rest.match(RELATIVE_TIME);
+  if (relative) {
+    const amount = relative[1].startsWith('half') ? 0.5 : /^an?$/.test(relative[1]) ? 1 : parseFloat(relative[1]);
+    const minutes = relative[2].startsWith('h') ? amount * 60 : amount;
+    return {
+      occurredAt: new Date(now.getTime() - Math.round(minutes) * 60 * 1000),
+      rest: rest.replace(relative[0], ' '),
+    };
+  }
+
+  for (const pattern of CLOCK_TIME) {
+    const match = rest.match(pattern);
+    if (!match) continue;
+
+    const [, hourText, minuteText, meridiem] = pattern === CLOCK_TIME[2] ? [match[0], match[1], '0', match[2]] : match;
+    const occurredAt = resolveClockTime(
+      parseInt(hourText),
+      parseInt(minuteText || '0'),
+      meridiem,
+      hourText.length === 2 && hourText.startsWith('0'),
+      now,
+      yesterday
+    );
+    if (occurredAt) {
+      return { occurredAt, rest: rest.replace(match[0], ' ') };
+    }
+  }
+
+  if (yesterday) {
+    return { occurredAt: new Date(now.getTime() - 24 * 60 * 60 * 1000), rest };
+  }
+  return { rest };
+}
+
+function splitClauses(text: string, now: Date): Clause[] {
+  const clauses: Clause[] = [];
+
+  for (const part of text.split(CLAUSE_SEPARATOR)) {
+    if (!part.trim()) continue;
+    const { occurredAt, rest } = extractTime(part, now);
+    const type = detectEventType(rest);
+    const previous = clauses[clauses.length - 1];
+
+    // "breastfed left and right" or "1 wet and 1 dirty diaper" describe one event
+    const continuesPrevious = previous
+      && (!type || !previous.type || (type === previous.type && !(occurredAt && previous.occurredAt)));
+    if (continuesPrevious) {
+      previous.text = `${previous.text} ${rest}`;
+      previous.type = previous.type || type;
+      previous.occurredAt = previous.occurredAt || occurredAt;
+    } else {
+      clauses.push({ text: rest, type, occurredAt });
+    }
+  }
+
+  return clauses;
+}
+
+function toEventData(type: EventType, text: string): EventPayload {
+  switch (type) {
+    case EventType.FEEDING: {
+      const feeding = parseFeedingDescription(text);
+      // Only breastfeeding has a side
+      if (!feeding.feedingType && feeding.side) {
+        feeding.feedingType = FeedingType.BREASTFED;
+      }
+      return feeding;
+    }
+    case EventType.DIAPER: {
+      const { wet, dirty, ...diaperDetails } = parseDiaperDescription(text);
+      return { wet, dirty, diaperDetails };
+    }
+    case EventType.SLEEP:
+      return parseSleepDescription(text);
+    default:
+      return { eventType: parseOtherEventType(text), description: text };
+  }
+}
+
+/**
+ * Read one line like "breastfed left 20 min at 3:10, wet diaper 10 minutes ago" into events.
+ * Clock times without am/pm mean the most recent one that has already passed. Events with no
+ * time of their own share the next (or previous) one mentioned in the line, otherwise now.
+ */
+export function parseQuickEntry(input: string, now: Date = new Date()): ParsedQuickEntry[] {
+  const clauses = splitClauses(input.toLowerCase(), now).filter(clause => clause.type);
+
+  return clauses.map((clause, index) => {
+    const sharedTime = clauses.slice(index + 1).find(other => other.occurredAt)?.occurredAt
+      || clauses.slice(0, index).reverse().find(other => other.occurredAt)?.occurredAt;
+    const text = clause.text.replace(/\s+/g, ' ').replace(/^[\s,.:-]+|[\s,.:-]+$/g, '');
+
+    return {
+      type: clause.type!,
+      occurredAt: clause.occurredAt || sharedTime || now,
+      text,
+      data: toEventData(clause.type!, text),
+    };
+  });
+}
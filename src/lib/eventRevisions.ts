@@ -0,0 +1,154 @@
+import type { PrismaClient } from '@prisma/client';
+import type { RevisionAction, RevisionChanges } from '@/types';
+
+type SnapshotValue = string | number | null;
+export type EventSnapshot = Record<string, SnapshotValue>;
+
+// Human-readable names and units for the fields we track, in display order
+export const REVISION_FIELDS: Record<string, { label: string; unit?: string }> = {
+  date: { label: 'date' },
+  time: { label: 'time' },
+  child: { label: 'child' },
+  notes: { label: 'notes' },
+  feedingType: { label: 'feeding type' },
+  amount: { label: 'amount', unit: 'ml' },
+  duration: { label: 'duration', unit: 'min' },
+  side: { label: 'side' },
+  wet: { label: 'wet' },
+  dirty: { label: 'dirty' },
+  color: { label: 'color' },
+  consistency: { label: 'consistency' },
+  texture: { label: 'texture' },
+  sleepType: { label: 'sleep type' },
+  startTime: { label: 'start time' },
+  endTime: { label: 'end time' },
+  eventType: { label: 'moment type' },
+  description: { label: 'description' },
+  milestoneKey: { label: 'milestone' },
+  weight: { label: 'weight', unit: 'g' },
+  length: { label: 'length', unit: 'cm' },
+  headCircumference: { label: 'head circumference', unit: 'cm' },
+  name: { label: 'medicine' },
+  dose: { label: 'dose' },
+  unit: { label: 'unit' },
+  route: { label: 'route' },
+  leftAmount: { label: 'left side', unit: 'ml' },
+  rightAmount: { label: 'right side', unit: 'ml' },
+  celsius: { label: 'temperature', unit: '°C' },
+  method: { label: 'taken' },
+  symptom: { label: 'symptom' },
+  severity: { label: 'severity' },
+  photos: { label: 'photos' },
+};
+
+const DETAIL_RELATIONS = ['feedingEvent', 'diaperEvent', 'sleepEvent', 'otherEvent', 'growthEvent', 'medicationEvent', 'pumpingEvent', 'temperatureEvent', 'symptomEvent'] as const;
+
+// An event as loaded from the database, with whichever of its details were included
+export type SnapshotSource = {
+  date?: Date | string | null;
+  time?: string | null;
+  notes?: string | null;
+  child?: { name: string | null } | null;
+  images?: unknown[] | null;
+} & Partial<Record<typeof DETAIL_RELATIONS[number], object | null>>;
+
+function toSnapshotValue(value: unknown): SnapshotValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'number' ? value : String(value);
+}
+
+/**
+ * Flatten an event and its type-specific details into the fields the audit log compares.
+ */
+export function snapshotEvent(source: SnapshotSource | null): EventSnapshot {
+  const event: SnapshotSource = source ?? {};
+  const snapshot: EventSnapshot = {
+    date: event.date ? new Date(event.date).toISOString().split('T')[0] : null,
+    time: toSnapshotValue(event.time),
+    child: toSnapshotValue(event.child?.name),
+    notes: toSnapshotValue(event.notes),
+    photos: Array.isArray(event.images) ? event.images.length : null,
+  };
+
+  for (const relation of DETAIL_RELATIONS) {
+    const details = event[relation];
+    if (!details) continue;
+    for (const field of Object.keys(REVISION_FIELDS)) {
+      if (field in details) {
+        snapshot[field] = toSnapshotValue((details as Record<string, unknown>)[field]);
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Fields whose value differs between two snapshots. A missing snapshot means the
+ * event didn't exist on that side (create or delete).
+ */
+export function diffSnapshots(before: EventSnapshot | null, after: EventSnapshot | null): RevisionChanges {
+  const changes: RevisionChanges = {};
+
+  for (const field of Object.keys(REVISION_FIELDS)) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Store who changed what on an event. Updates that changed nothing aren't recorded.
+ */
+export async function recordEventRevision(
+  db: Pick<PrismaClient, 'eventRevision'>,
+  {
+    eventId,
+    groupId,
+    userId,
+    action,
+    before,
+    after,
+  }: {
+    eventId: string;
+    groupId: string;
+    userId: string;
+    action: RevisionAction;
+    before: EventSnapshot | null;
+    after: EventSnapshot | null;
+  }
+) {
+  const changes = diffSnapshots(before, after);
+  if (action === 'update' && Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  return db.eventRevision.create({
+    data: {
+      eventId,
+      groupId,
+      userId,
+      action,
+      changes: JSON.stringify(changes),
+    },
+  });
+}
+
+/**
+ * Format a change for display, e.g. "amount 60 → 90 ml".
+ */
+export function formatRevisionChange(field: string, change: RevisionChanges[string]): string {
+  const { label, unit } = REVISION_FIELDS[field] || { label: field };
+  const format = (value: SnapshotValue) =>
+    value === null ? '—' : String(value).replace(/_/g, ' ');
+  const suffix = unit ? ` ${unit}` : '';
+
+  if (change.from === null) return `set ${label} to ${format(change.to)}${suffix}`;
+  if (change.to === null) return `cleared ${label} (was ${format(change.from)}${suffix})`;
+  return `changed ${label} ${format(change.from)} → ${format(change.to)}${suffix}`;
+}
@@ -0,0 +1,59 @@
+import { zonedDateTimeToInstant } from '@/lib/timezone';
+import { EventType } from '@/types/baby-events';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// The fields of an event that say when it started and ended
+export interface EventSpanEvent {
+  type: string;
+  occurredAt: Date;
+  timezone: string;
+  date: Date;
+  timer?: { status: string } | null;
+  feedingEvent?: { duration: number | null } | null;
+  sleepEvent?: { duration: number | null; startTime: string | null; endTime: string | null } | null;
+}
+
+/**
+ * When an event starts and, for sleeps and timed feedings, when it ends.
+ * Everything else is a point in time.
+ */
+export function getEventSpan(event: EventSpanEvent): { start: Date; end?: Date } {
+  // Timers are removed when stopped, so one still attached has no end yet
+  if (event.timer) {
+    return { start: event.occurredAt };
+  }
+
+  if (event.type === EventType.SLEEP && event.sleepEvent) {
+    const { startTime, endTime, duration } = event.sleepEvent;
+    const localDate = event.date.toISOString().split('T')[0];
+
+    let start = event.occurredAt;
+    if (startTime) {
+      start = zonedDateTimeToInstant(localDate, startTime, event.timezone);
+      // A start later than the event itself means it began the night before
+      if (start.getTime() > event.occurredAt.getTime()) {
+        start = new Date(start.getTime() - DAY_MS);
+      }
+    }
+
+    if (endTime) {
+      let end = zonedDateTimeToInstant(localDate, endTime, event.timezone);
+      while (end.getTime() <= start.getTime()) {
+        end = new Date(end.getTime() + DAY_MS);
+      }
+      return { start, end };
+    }
+    return duration ? { start, end: new Date(start.getTime() + duration * MINUTE_MS) } : { start };
+  }
+
+  if (event.type === EventType.FEEDING && event.feedingEvent?.duration) {
+    return {
+      start: event.occurredAt,
+      end: new Date(event.occurredAt.getTime() + event.feedingEvent.duration * MINUTE_MS),
+    };
+  }
+
+  return { start: event.occurredAt };
+}
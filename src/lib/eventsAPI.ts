@@ -19,6 +19,7 @@ interface BabyEvent {
   sleepEvent?: any;
   otherEvent?: any;
   images?: Array<{ url: string; filename: string }>;
+  version?: number;
 }
 
 interface EventFilters {
@@ -147,7 +148,8 @@ class EventsAPI {
       const response = await fetch(`${this.baseURL}/events/${id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(eventData),
+        // The cached version is the one being edited, so a newer save is reported as a conflict
+        body: JSON.stringify({ ...eventData, version: originalData.version }),
       });
       
       const result = await response.json();
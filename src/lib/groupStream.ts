@@ -0,0 +1,74 @@
+// Server side of live group updates: an in-process publisher behind
+// GET /api/groups/[groupId]/stream. Subscribers only hear about writes handled by
+// the same server process; clients fall back to polling while their stream is down.
+
+import { EventEmitter } from 'events';
+import type { PrismaClient } from '@prisma/client';
+import type { GroupStreamMessage } from '@/types';
+
+type GroupStreamListener = (message: GroupStreamMessage) => void;
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one publisher
+const globalForGroupStream = globalThis as unknown as {
+  groupStreamEmitter: EventEmitter | undefined
+};
+
+const emitter = globalForGroupStream.groupStreamEmitter ?? new EventEmitter();
+// One listener per open stream, so there is no sensible cap
+emitter.setMaxListeners(0);
+globalForGroupStream.groupStreamEmitter = emitter;
+
+// Same shape GET /api/events returns, so clients can patch their lists directly
+const STREAM_EVENT_INCLUDE = {
+  feedingEvent: true,
+  diaperEvent: true,
+  sleepEvent: true,
+  otherEvent: true,
+  growthEvent: true,
+  medicationEvent: true,
+  pumpingEvent: true,
+  temperatureEvent: true,
+  symptomEvent: true,
+  timer: true,
+  images: true,
+  child: {
+    select: { id: true, name: true },
+  },
+};
+
+export function subscribeToGroup(groupId: string, listener: GroupStreamListener): () => void {
+  emitter.on(groupId, listener);
+  return () => {
+    emitter.off(groupId, listener);
+  };
+}
+
+export function publishToGroup(groupId: string, message: GroupStreamMessage): void {
+  emitter.emit(groupId, message);
+}
+
+/**
+ * Send a created or updated event to everyone watching its group.
+ * Call after the write has committed.
+ */
+export async function publishEventChange(
+  db: PrismaClient,
+  groupId: string,
+  eventId: string,
+  type: 'event.created' | 'event.updated'
+): Promise<void> {
+  // Skip the lookup when nobody is watching
+  if (emitter.listenerCount(groupId) === 0) return;
+
+  const event = await db.babyEvent.findUnique({
+    where: { id: eventId },
+    include: STREAM_EVENT_INCLUDE,
+  });
+  if (!event || event.deletedAt) return;
+
+  // Dates become ISO strings on the wire, as in any API response
+  publishToGroup(groupId, {
+    type,
+    event: JSON.parse(JSON.stringify(event)),
+  });
+}
@@ -0,0 +1,100 @@
+// Browser side of live group updates: one shared EventSource per group, however
+// many parts of the page are listening to it
+
+import type { GroupStreamMessage } from '@/types';
+import { getRetryDelay } from '@/lib/offlineQueue';
+
+export interface GroupStreamHandlers {
+  onMessage?: (message: GroupStreamMessage) => void;
+  // false when the stream drops, true once it is (back) up
+  onStatusChange?: (connected: boolean) => void;
+}
+
+interface GroupStreamConnection {
+  source: EventSource | null;
+  handlers: Set<GroupStreamHandlers>;
+  connected: boolean;
+  retryAttempts: number;
+  retryTimeout: ReturnType<typeof setTimeout> | null;
+}
+
+const connections = new Map<string, GroupStreamConnection>();
+
+function setConnected(connection: GroupStreamConnection, connected: boolean) {
+  if (connection.connected === connected) return;
+  connection.connected = connected;
+  connection.handlers.forEach(handlers => handlers.onStatusChange?.(connected));
+}
+
+function connect(groupId: string, connection: GroupStreamConnection) {
+  const source = new EventSource(`/api/groups/${groupId}/stream`);
+  connection.source = source;
+
+  source.onopen = () => {
+    connection.retryAttempts = 0;
+    setConnected(connection, true);
+  };
+
+  source.onmessage = (event) => {
+    let message: GroupStreamMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    connection.handlers.forEach(handlers => handlers.onMessage?.(message));
+  };
+
+  source.onerror = () => {
+    setConnected(connection, false);
+
+    // The browser reconnects dropped streams by itself, but gives up after an error response
+    if (source.readyState === EventSource.CLOSED) {
+      source.close();
+      connection.source = null;
+      connection.retryAttempts++;
+      connection.retryTimeout = setTimeout(() => {
+        connection.retryTimeout = null;
+        connect(groupId, connection);
+      }, getRetryDelay(connection.retryAttempts));
+    }
+  };
+}
+
+/**
+ * Listen to a group's live updates. Returns an unsubscribe function; the stream
+ * closes once nothing is listening.
+ */
+export function subscribeToGroupStream(groupId: string, handlers: GroupStreamHandlers): () => void {
+  if (typeof EventSource === 'undefined') return () => {};
+
+  let connection = connections.get(groupId);
+  if (!connection) {
+    connection = {
+      source: null,
+      handlers: new Set(),
+      connected: false,
+      retryAttempts: 0,
+      retryTimeout: null,
+    };
+    connections.set(groupId, connection);
+    connect(groupId, connection);
+  }
+
+  const current = connection;
+  current.handlers.add(handlers);
+  if (current.connected) {
+    handlers.onStatusChange?.(true);
+  }
+
+  return () => {
+    current.handlers.delete(handlers);
+    if (current.handlers.size > 0) return;
+
+    if (current.retryTimeout) {
+      clearTimeout(current.retryTimeout);
+    }
+    current.source?.close();
+    connections.delete(groupId);
+  };
+}
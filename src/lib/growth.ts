@@ -0,0 +1,179 @@
+import whoStandards from '@/data/who-growth-standards.json';
+
+export const GROWTH_METRICS = ['weight', 'length', 'headCircumference'] as const;
+export type GrowthMetric = typeof GROWTH_METRICS[number];
+
+// Percentile lines drawn on growth charts, with their standard normal z-scores
+export const PERCENTILE_BANDS = [
+  { percentile: 3, z: -1.881 },
+  { percentile: 15, z: -1.036 },
+  { percentile: 50, z: 0 },
+  { percentile: 85, z: 1.036 },
+  { percentile: 97, z: 1.881 },
+] as const;
+
+export const WHO_MAX_AGE_MONTHS = 24;
+
+const DAYS_PER_MONTH = 30.4375;
+
+// Plausible ranges for a 0-24 month old, used to catch typos (e.g. kg entered as grams)
+const MEASUREMENT_LIMITS: Record<GrowthMetric, { min: number; max: number; label: string }> = {
+  weight: { min: 300, max: 30000, label: 'Weight must be between 300 and 30000 grams' },
+  length: { min: 20, max: 130, label: 'Length must be between 20 and 130 cm' },
+  headCircumference: { min: 20, max: 60, label: 'Head circumference must be between 20 and 60 cm' },
+};
+
+interface LmsRow {
+  month: number;
+  L: number;
+  M: number;
+  S: number;
+}
+
+export interface GrowthMeasurementInput {
+  weight?: number | null; // grams
+  length?: number | null; // cm
+  headCircumference?: number | null; // cm
+}
+
+export interface PercentileCurvePoint {
+  month: number;
+  p3: number;
+  p15: number;
+  p50: number;
+  p85: number;
+  p97: number;
+}
+
+/**
+ * Validate a growth measurement request body.
+ * Returns a user-facing error message, or null when the measurement is acceptable.
+ */
+export function validateGrowthMeasurement(data: GrowthMeasurementInput): string | null {
+  const provided = GROWTH_METRICS.filter(metric => data[metric] !== undefined && data[metric] !== null);
+
+  if (provided.length === 0) {
+    return 'Please enter at least one of weight, length or head circumference';
+  }
+
+  for (const metric of provided) {
+    const value = Number(data[metric]);
+    const limits = MEASUREMENT_LIMITS[metric];
+    if (!Number.isFinite(value) || value < limits.min || value > limits.max) {
+      return limits.label;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Age in (fractional) months between birth and the measurement date.
+ */
+export function getAgeInMonths(birthDate: string | Date, measuredAt: string | Date): number {
+  const birth = new Date(birthDate).getTime();
+  const measured = new Date(measuredAt).getTime();
+  return (measured - birth) / (1000 * 60 * 60 * 24 * DAYS_PER_MONTH);
+}
+
+function getTable(metric: GrowthMetric, sex: string | null | undefined): LmsRow[] | null {
+  if (sex !== 'male' && sex !== 'female') return null;
+  return whoStandards.metrics[metric][sex];
+}
+
+// WHO tables are monthly, so interpolate linearly between the surrounding months
+function getLmsForAge(table: LmsRow[], ageMonths: number): LmsRow | null {
+  if (ageMonths < 0 || ageMonths > WHO_MAX_AGE_MONTHS) return null;
+
+  const lower = table[Math.floor(ageMonths)];
+  const upper = table[Math.min(Math.ceil(ageMonths), table.length - 1)];
+  const fraction = ageMonths - lower.month;
+
+  return {
+    month: ageMonths,
+    L: lower.L + (upper.L - lower.L) * fraction,
+    M: lower.M + (upper.M - lower.M) * fraction,
+    S: lower.S + (upper.S - lower.S) * fraction,
+  };
+}
+
+function toZScore(value: number, { L, M, S }: LmsRow): number {
+  if (L === 0) return Math.log(value / M) / S;
+  return (Math.pow(value / M, L) - 1) / (L * S);
+}
+
+function fromZScore(z: number, { L, M, S }: LmsRow): number {
+  if (L === 0) return M * Math.exp(S * z);
+  return M * Math.pow(1 + L * S * z, 1 / L);
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26 approximation of erf)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Convert a stored measurement to the unit used by the WHO tables (weight is stored in grams).
+ */
+export function toWhoUnit(metric: GrowthMetric, value: number): number {
+  return metric === 'weight' ? value / 1000 : value;
+}
+
+/**
+ * WHO percentile (0-100, one decimal) for a measurement, or null when the child's
+ * sex is unknown or the age falls outside the 0-24 month reference range.
+ */
+export function calculatePercentile(
+  metric: GrowthMetric,
+  sex: string | null | undefined,
+  ageMonths: number,
+  value: number
+): number | null {
+  const table = getTable(metric, sex);
+  if (!table || value <= 0) return null;
+
+  const lms = getLmsForAge(table, ageMonths);
+  if (!lms) return null;
+
+  const percentile = normalCdf(toZScore(toWhoUnit(metric, value), lms)) * 100;
+  return Math.round(percentile * 10) / 10;
+}
+
+/**
+ * Monthly WHO percentile curves (in WHO units) for plotting reference bands.
+ */
+export function getPercentileCurves(
+  metric: GrowthMetric,
+  sex: string | null | undefined,
+  maxMonth: number = WHO_MAX_AGE_MONTHS
+): PercentileCurvePoint[] {
+  const table = getTable(metric, sex);
+  if (!table) return [];
+
+  return table
+    .filter(row => row.month <= maxMonth)
+    .map(row => {
+      const [p3, p15, p50, p85, p97] = PERCENTILE_BANDS.map(band =>
+        Math.round(fromZScore(band.z, row) * 100) / 100
+      );
+      return { month: row.month, p3, p15, p50, p85, p97 };
+    });
+}
+
+/**
+ * Human friendly percentile label, e.g. "42nd percentile".
+ */
+export function formatPercentile(percentile: number): string {
+  if (percentile < 0.1) return '<0.1st percentile';
+  if (percentile > 99.9) return '>99.9th percentile';
+
+  const rounded = Math.round(percentile);
+  const lastTwo = rounded % 100;
+  const suffix = lastTwo >= 11 && lastTwo <= 13
+    ? 'th'
+    : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[rounded % 10] || 'th';
+  return `${rounded}${suffix} percentile`;
+}
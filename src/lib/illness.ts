@@ -0,0 +1,299 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { differenceInCalendarMonths } from 'date-fns';
+import type {
+  FeverLevel,
+  IllnessEpisode,
+  SymptomEntry,
+  SymptomSeverity,
+  TemperatureMethod,
+  TemperatureReading,
+  TemperatureUnit,
+} from '@/types/baby-events';
+
+export const TEMPERATURE_METHODS: Record<TemperatureMethod, string> = {
+  rectal: 'Rectal',
+  oral: 'Oral',
+  axillary: 'Armpit',
+  ear: 'Ear',
+  forehead: 'Forehead',
+};
+
+export const TEMPERATURE_UNITS: readonly TemperatureUnit[] = ['C', 'F'];
+
+export const SYMPTOMS: Record<string, string> = {
+  cough: 'Cough',
+  runny_nose: 'Runny nose',
+  congestion: 'Stuffy nose',
+  vomiting: 'Vomiting',
+  diarrhea: 'Diarrhea',
+  rash: 'Rash',
+  ear_pulling: 'Ear pulling',
+  poor_feeding: 'Not feeding well',
+  sleepy: 'Unusually sleepy',
+  fussy: 'Fussy',
+  breathing: 'Trouble breathing',
+  other: 'Other',
+};
+
+export const SYMPTOM_SEVERITIES: Record<SymptomSeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+};
+
+// Readings outside this range are almost certainly typos (or the wrong unit)
+export const CELSIUS_LIMITS = { min: 30, max: 45 };
+
+/**
+ * A temperature counts as a fever at 38 °C (100.4 °F) taken rectally, in the ear or on the
+ * forehead. Mouth and armpit readings run lower, so their thresholds are lowered to match.
+ */
+const METHOD_OFFSETS: Record<TemperatureMethod, number> = {
+  rectal: 0,
+  ear: 0,
+  forehead: 0,
+  oral: -0.2,
+  axillary: -0.8,
+};
+
+const FEVER_CELSIUS = 38;
+
+/**
+ * When a fever needs a call to the doctor, by age (rectal readings), following the AAP's
+ * advice. Without a birth date the newborn row applies, since it's the cautious one.
+ */
+export const FEVER_THRESHOLDS = [
+  { maxAgeMonths: 3, attentionCelsius: 38, advice: 'Any fever under 3 months old needs a doctor right away' },
+  { maxAgeMonths: 6, attentionCelsius: 38.9, advice: 'Call the doctor for 38.9 °C (102 °F) or higher at 3–6 months' },
+  { maxAgeMonths: 24, attentionCelsius: 39.4, advice: 'Call the doctor for 39.4 °C (103 °F) or higher, or a fever lasting more than a day' },
+  { maxAgeMonths: Infinity, attentionCelsius: 40, advice: 'Call the doctor for 40 °C (104 °F) or higher, or a fever lasting more than 3 days' },
+] as const;
+
+// Kept to two decimals, enough to show a °F reading back exactly as it was entered
+export function toCelsius(value: number, unit: TemperatureUnit): number {
+  const celsius = unit === 'F' ? (value - 32) * 5 / 9 : value;
+  return Math.round(celsius * 100) / 100;
+}
+
+export function fromCelsius(celsius: number, unit: TemperatureUnit): number {
+  const value = unit === 'F' ? celsius * 9 / 5 + 32 : celsius;
+  return Math.round(value * 10) / 10;
+}
+
+export function formatTemperature(celsius: number, unit: TemperatureUnit): string {
+  return `${fromCelsius(celsius, unit)} °${unit}`;
+}
+
+/**
+ * Fever and call-the-doctor thresholds (°C) for a child at a given moment, adjusted for
+ * how the temperature was taken.
+ */
+export function getFeverThresholds(
+  birthDate: Date | string | null | undefined,
+  at: Date,
+  method: TemperatureMethod
+): { feverCelsius: number; attentionCelsius: number; advice: string } {
+  const ageMonths = birthDate ? differenceInCalendarMonths(at, new Date(birthDate)) : 0;
+  const row = FEVER_THRESHOLDS.find(threshold => ageMonths < threshold.maxAgeMonths) ?? FEVER_THRESHOLDS[FEVER_THRESHOLDS.length - 1];
+  const offset = METHOD_OFFSETS[method] ?? 0;
+
+  return {
+    feverCelsius: Math.round((FEVER_CELSIUS + offset) * 10) / 10,
+    attentionCelsius: Math.round((row.attentionCelsius + offset) * 10) / 10,
+    advice: row.advice,
+  };
+}
+
+export function getFeverLevel(
+  celsius: number,
+  method: TemperatureMethod,
+  birthDate: Date | string | null | undefined,
+  at: Date
+): FeverLevel {
+  const { feverCelsius, attentionCelsius } = getFeverThresholds(birthDate, at, method);
+  if (celsius >= attentionCelsius) return 'attention';
+  if (celsius >= feverCelsius) return 'fever';
+  return 'normal';
+}
+
+// What an event row from the database needs to be part of an episode
+interface EpisodeEventRow {
+  id: string;
+  occurredAt: Date;
+  temperatureEvent?: { celsius: number; unit: string; method: string } | null;
+  symptomEvent?: { symptom: string; severity: string; description: string | null } | null;
+}
+
+interface IllnessEpisodeRow {
+  id: string;
+  name: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  notes: string | null;
+  childId: string | null;
+  child?: { id: string; name: string; birthDate: Date | null } | null;
+  groupId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IllnessEpisodeInput {
+  name: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  notes: string | null;
+  childId: string | null;
+}
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * An episode with the readings and symptoms logged during it, given events already
+ * narrowed to the episode's child and time span.
+ */
+export function buildIllnessEpisode(row: IllnessEpisodeRow, events: EpisodeEventRow[]): IllnessEpisode {
+  const sorted = [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  const birthDate = row.child?.birthDate ?? null;
+
+  const readings: TemperatureReading[] = sorted
+    .filter(event => event.temperatureEvent)
+    .map(event => {
+      const { celsius, unit, method } = event.temperatureEvent!;
+      return {
+        eventId: event.id,
+        occurredAt: event.occurredAt.toISOString(),
+        celsius,
+        unit: unit as TemperatureUnit,
+        method: method as TemperatureMethod,
+        level: getFeverLevel(celsius, method as TemperatureMethod, birthDate, event.occurredAt),
+      };
+    });
+
+  const symptoms: SymptomEntry[] = sorted
+    .filter(event => event.symptomEvent)
+    .map(event => ({
+      eventId: event.id,
+      occurredAt: event.occurredAt.toISOString(),
+      symptom: event.symptomEvent!.symptom,
+      severity: event.symptomEvent!.severity as SymptomSeverity,
+      description: event.symptomEvent!.description,
+    }));
+
+  return {
+    id: row.id,
+    name: row.name,
+    startedAt: row.startedAt.toISOString(),
+    endedAt: row.endedAt ? row.endedAt.toISOString() : null,
+    notes: row.notes,
+    childId: row.childId,
+    child: row.child ? { id: row.child.id, name: row.child.name } : null,
+    groupId: row.groupId,
+    readings,
+    symptoms,
+    peakCelsius: readings.length > 0 ? Math.max(...readings.map(reading => reading.celsius)) : null,
+    needsAttention: readings.filter(reading => reading.level === 'attention').length,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Episodes matching `where`, newest first, each with the temperatures and symptoms logged
+ * for its child while it lasted. An episode without a child takes every child's events.
+ */
+export async function loadIllnessEpisodes(
+  db: Pick<PrismaClient, 'illnessEpisode' | 'babyEvent'>,
+  groupId: string,
+  where: Prisma.IllnessEpisodeWhereInput = {}
+): Promise<IllnessEpisode[]> {
+  const rows = await db.illnessEpisode.findMany({
+    where: { ...where, groupId },
+    include: {
+      child: {
+        select: { id: true, name: true, birthDate: true },
+      },
+    },
+    orderBy: { startedAt: 'desc' },
+  });
+  if (rows.length === 0) return [];
+
+  const now = new Date();
+  const spanEnd = (row: IllnessEpisodeRow) => row.endedAt ?? now;
+
+  // One query covering every episode, split up below
+  const events = await db.babyEvent.findMany({
+    where: {
+      groupId,
+      deletedAt: null,
+      type: { in: ['temperature', 'symptom'] },
+      occurredAt: {
+        gte: new Date(Math.min(...rows.map(row => row.startedAt.getTime()))),
+        lte: new Date(Math.max(...rows.map(row => spanEnd(row).getTime()))),
+      },
+    },
+    select: {
+      id: true,
+      childId: true,
+      occurredAt: true,
+      temperatureEvent: true,
+      symptomEvent: true,
+    },
+  });
+
+  return rows.map(row => buildIllnessEpisode(row, events.filter(event =>
+    event.occurredAt >= row.startedAt
+    && event.occurredAt <= spanEnd(row)
+    && (!row.childId || event.childId === row.childId)
+  )));
+}
+
+/**
+ * Validate and normalize an illness episode request body.
+ * Returns either the cleaned data or a user-facing error message.
+ */
+export function parseIllnessEpisodeInput(body: unknown): { data?: IllnessEpisodeInput; error?: string } {
+  const { name, startedAt, endedAt, notes, childId } =
+    (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'Give the illness a name, e.g. "Cold" or "Ear infection"' };
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `Name must be ${MAX_NAME_LENGTH} characters or fewer` };
+  }
+
+  const parsedStart = typeof startedAt === 'string' || typeof startedAt === 'number' ? new Date(startedAt) : null;
+  if (!startedAt || !parsedStart || isNaN(parsedStart.getTime())) {
+    return { error: 'When it started is required' };
+  }
+  if (parsedStart > new Date()) {
+    return { error: 'Start cannot be in the future' };
+  }
+
+  let parsedEnd: Date | null = null;
+  if (endedAt) {
+    if (typeof endedAt !== 'string' && typeof endedAt !== 'number') {
+      return { error: 'Invalid end time' };
+    }
+    parsedEnd = new Date(endedAt);
+    if (isNaN(parsedEnd.getTime())) {
+      return { error: 'Invalid end time' };
+    }
+    if (parsedEnd < parsedStart) {
+      return { error: 'End cannot be before the start' };
+    }
+    if (parsedEnd > new Date()) {
+      return { error: 'End cannot be in the future' };
+    }
+  }
+
+  return {
+    data: {
+      name: name.trim(),
+      startedAt: parsedStart,
+      endedAt: parsedEnd,
+      notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+      childId: typeof childId === 'string' && childId ? childId : null,
+    },
+  };
+}
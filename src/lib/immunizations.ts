@@ -0,0 +1,400 @@
+import type { PrismaClient } from '@prisma/client';
+import schedulesData from '@/data/immunization-schedules.json';
+import { addDaysToDate } from '@/lib/timezone';
+import { escapeHtml } from '@/lib/report';
+import type {
+  Immunization,
+  ImmunizationDoseStatus,
+  ImmunizationOverview,
+  ImmunizationSite,
+} from '@/types/baby-events';
+
+export const IMMUNIZATION_SITES: Record<ImmunizationSite, string> = {
+  left_thigh: 'Left thigh',
+  right_thigh: 'Right thigh',
+  left_arm: 'Left arm',
+  right_arm: 'Right arm',
+  oral: 'By mouth',
+  nasal: 'Nasal spray',
+  other: 'Other',
+};
+
+// Doses due within this many days are shown as coming up
+export const UPCOMING_WINDOW_DAYS = 30;
+
+// A dose without its own latest age counts as overdue this long after it was due
+const DEFAULT_GRACE_MONTHS = 1;
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_NOTES_LENGTH = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Age in one unit, e.g. { weeks: 6 } or { months: 12 }
+export interface ScheduleAge {
+  days?: number;
+  weeks?: number;
+  months?: number;
+  years?: number;
+}
+
+export interface ScheduleDose {
+  id: string;
+  vaccine: string;
+  dose: number;
+  due: ScheduleAge;
+  latest?: ScheduleAge;
+  note?: string;
+}
+
+export interface ImmunizationSchedule {
+  id: string;
+  name: string;
+  source: string;
+  vaccines: Record<string, string>;
+  doses: ScheduleDose[];
+}
+
+export interface ImmunizationInput {
+  scheduleDoseId: string | null;
+  vaccine: string;
+  doseNumber: number | null;
+  givenOn: Date;
+  lotNumber: string | null;
+  site: ImmunizationSite | null;
+  provider: string | null;
+  reactions: string | null;
+  notes: string | null;
+  eventId: string | null;
+}
+
+// What a record row from the database needs to become an Immunization
+interface ImmunizationRow {
+  id: string;
+  scheduleDoseId: string | null;
+  vaccine: string;
+  doseNumber: number | null;
+  givenOn: Date;
+  lotNumber: string | null;
+  site: string | null;
+  provider: string | null;
+  reactions: string | null;
+  notes: string | null;
+  eventId: string | null;
+  event?: { id: string; type: string; occurredAt: Date; timezone: string } | null;
+  childId: string;
+  groupId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const schedules = schedulesData.schedules as Record<string, Omit<ImmunizationSchedule, 'id'>>;
+
+export const DEFAULT_IMMUNIZATION_SCHEDULE = schedulesData.defaultSchedule;
+
+export const IMMUNIZATION_SCHEDULE_OPTIONS = Object.entries(schedules).map(([id, schedule]) => ({
+  id,
+  name: schedule.name,
+}));
+
+export function isImmunizationSchedule(id: unknown): id is string {
+  return typeof id === 'string' && id in schedules;
+}
+
+/**
+ * The schedule a child follows; their own choice when it still exists, otherwise the default.
+ */
+export function getImmunizationSchedule(id?: string | null): ImmunizationSchedule {
+  const scheduleId = isImmunizationSchedule(id) ? id : DEFAULT_IMMUNIZATION_SCHEDULE;
+  return { id: scheduleId, ...schedules[scheduleId] };
+}
+
+export function getVaccineName(schedule: ImmunizationSchedule, vaccine: string): string {
+  return schedule.vaccines[vaccine] || vaccine;
+}
+
+/**
+ * The 'yyyy-MM-dd' date a child reaches an age. Months and years keep the day of
+ * the month, falling back to the month's last day (e.g. Jan 31 + 1 month = Feb 28).
+ */
+export function addScheduleAge(birthDate: string, age: ScheduleAge): string {
+  const months = (age.months || 0) + (age.years || 0) * 12;
+  let date = birthDate;
+
+  if (months) {
+    const [year, month, day] = birthDate.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+    date = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().split('T')[0];
+  }
+
+  return addDaysToDate(date, (age.days || 0) + (age.weeks || 0) * 7);
+}
+
+const toDateString = (value: Date) => value.toISOString().split('T')[0];
+
+export function toImmunization(row: ImmunizationRow, schedule: ImmunizationSchedule): Immunization {
+  return {
+    id: row.id,
+    scheduleDoseId: row.scheduleDoseId,
+    vaccine: row.vaccine,
+    vaccineName: getVaccineName(schedule, row.vaccine),
+    doseNumber: row.doseNumber,
+    givenOn: toDateString(row.givenOn),
+    lotNumber: row.lotNumber,
+    site: row.site as ImmunizationSite | null,
+    provider: row.provider,
+    reactions: row.reactions,
+    notes: row.notes,
+    eventId: row.eventId,
+    event: row.event
+      ? { ...row.event, occurredAt: row.event.occurredAt.toISOString() }
+      : null,
+    childId: row.childId,
+    groupId: row.groupId,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Where every dose of the schedule stands for a child on `today` (their group's
+ * calendar day). A record counts for a dose when it names it, or when it was entered
+ * without one but is the same vaccine and dose number. Without a birth date nothing
+ * can be dated, so doses that haven't been given stay 'scheduled'.
+ */
+export function buildImmunizationOverview(
+  schedule: ImmunizationSchedule,
+  rows: ImmunizationRow[],
+  birthDate: Date | null,
+  today: string
+): ImmunizationOverview {
+  const records = rows
+    .map(row => toImmunization(row, schedule))
+    .sort((a, b) => b.givenOn.localeCompare(a.givenOn));
+  const birth = birthDate ? toDateString(birthDate) : null;
+  const upcomingUntil = addDaysToDate(today, UPCOMING_WINDOW_DAYS);
+
+  const doses = schedule.doses.map((dose): ImmunizationDoseStatus => {
+    const record = records.find(r => r.scheduleDoseId === dose.id)
+      || records.find(r => !r.scheduleDoseId && r.vaccine === dose.vaccine && r.doseNumber === dose.dose)
+      || null;
+    const dueOn = birth ? addScheduleAge(birth, dose.due) : null;
+    const overdueOn = birth
+      ? dose.latest ? addScheduleAge(birth, dose.latest) : addScheduleAge(dueOn!, { months: DEFAULT_GRACE_MONTHS })
+      : null;
+
+    let status: ImmunizationDoseStatus['status'] = 'scheduled';
+    if (record) {
+      status = 'given';
+    } else if (dueOn && overdueOn) {
+      if (today > overdueOn) status = 'overdue';
+      else if (today >= dueOn) status = 'due';
+      else if (dueOn <= upcomingUntil) status = 'upcoming';
+    }
+
+    return {
+      id: dose.id,
+      vaccine: dose.vaccine,
+      vaccineName: getVaccineName(schedule, dose.vaccine),
+      dose: dose.dose,
+      note: dose.note,
+      dueOn,
+      overdueOn,
+      status,
+      record,
+    };
+  });
+
+  return {
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    scheduleSource: schedule.source,
+    doses,
+    records,
+    overdue: doses.filter(d => d.status === 'overdue').length,
+    dueSoon: doses.filter(d => d.status === 'due' || d.status === 'upcoming').length,
+  };
+}
+
+const toOptionalText = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * Validate and normalize an immunization request body against the child's schedule.
+ * Returns either the cleaned data or a user-facing error message.
+ */
+export function parseImmunizationInput(body: unknown, schedule: ImmunizationSchedule): { data?: ImmunizationInput; error?: string } {
+  const { scheduleDoseId, vaccine, doseNumber, givenOn, lotNumber, site, provider, reactions, notes, eventId } =
+    (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  let parsedVaccine = toOptionalText(vaccine);
+  let parsedDoseNumber = doseNumber === undefined || doseNumber === null || doseNumber === '' ? null : Number(doseNumber);
+
+  const scheduleDose = scheduleDoseId ? schedule.doses.find(d => d.id === scheduleDoseId) : null;
+  if (scheduleDoseId && !scheduleDose) {
+    return { error: `That dose isn't part of the ${schedule.name} schedule` };
+  }
+  if (scheduleDose) {
+    parsedVaccine = scheduleDose.vaccine;
+    parsedDoseNumber = scheduleDose.dose;
+  }
+
+  if (!parsedVaccine) {
+    return { error: 'Vaccine name is required' };
+  }
+  if (parsedVaccine.length > MAX_TEXT_LENGTH) {
+    return { error: `Vaccine name must be ${MAX_TEXT_LENGTH} characters or fewer` };
+  }
+  if (parsedDoseNumber !== null && (!Number.isInteger(parsedDoseNumber) || parsedDoseNumber < 0 || parsedDoseNumber > 20)) {
+    return { error: 'Dose number must be a whole number between 0 and 20' };
+  }
+
+  if (typeof givenOn !== 'string' || !DATE_PATTERN.test(givenOn) || isNaN(Date.parse(`${givenOn}T00:00:00Z`))) {
+    return { error: 'The date it was given is required' };
+  }
+  const parsedGivenOn = new Date(`${givenOn}T00:00:00Z`);
+  if (parsedGivenOn > new Date()) {
+    return { error: 'Vaccination date cannot be in the future' };
+  }
+
+  const injectionSite = (Object.keys(IMMUNIZATION_SITES) as ImmunizationSite[]).find(value => value === site) ?? null;
+  if (site && !injectionSite) {
+    return { error: 'Invalid injection site' };
+  }
+
+  const texts = { 'Lot number': lotNumber, Provider: provider };
+  for (const [label, value] of Object.entries(texts)) {
+    if (typeof value === 'string' && value.trim().length > MAX_TEXT_LENGTH) {
+      return { error: `${label} must be ${MAX_TEXT_LENGTH} characters or fewer` };
+    }
+  }
+  if ([reactions, notes].some(value => typeof value === 'string' && value.trim().length > MAX_NOTES_LENGTH)) {
+    return { error: `Reactions and notes must be ${MAX_NOTES_LENGTH} characters or fewer` };
+  }
+
+  return {
+    data: {
+      scheduleDoseId: scheduleDose ? scheduleDose.id : null,
+      vaccine: parsedVaccine,
+      doseNumber: parsedDoseNumber,
+      givenOn: parsedGivenOn,
+      lotNumber: toOptionalText(lotNumber),
+      site: injectionSite,
+      provider: toOptionalText(provider),
+      reactions: toOptionalText(reactions),
+      notes: toOptionalText(notes),
+      eventId: typeof eventId === 'string' && eventId ? eventId : null,
+    },
+  };
+}
+
+/**
+ * Check an event a record is being linked to: it has to be in the group and not in
+ * the trash, and be for the same child or for no child in particular.
+ * Returns a user-facing error message, or null when the link is fine.
+ */
+export async function checkLinkedEvent(
+  db: Pick<PrismaClient, 'babyEvent'>,
+  groupId: string,
+  childId: string,
+  eventId: string
+): Promise<string | null> {
+  const event = await db.babyEvent.findFirst({
+    where: { id: eventId, groupId, deletedAt: null },
+    select: { childId: true },
+  });
+  if (!event) {
+    return 'Linked event not found';
+  }
+  if (event.childId && event.childId !== childId) {
+    return 'That event is for a different child';
+  }
+  return null;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', year: 'numeric', month: 'short', day: 'numeric' });
+
+const formatDose = (doseNumber: number | null | undefined) =>
+  doseNumber === null || doseNumber === undefined ? '—' : doseNumber === 0 ? 'Birth' : String(doseNumber);
+
+/**
+ * The immunization card as a standalone HTML page, laid out to print and bring to
+ * appointments or school registration.
+ */
+export function renderImmunizationCardHtml(input: {
+  childName: string;
+  birthDate: Date | null;
+  overview: ImmunizationOverview;
+  generatedOn: string;
+}): string {
+  const { overview } = input;
+  const title = `${input.childName} — Immunization record`;
+  const givenRows = [...overview.records].reverse().map(record => `
+        <tr>
+          <td>${formatDate(record.givenOn)}</td>
+          <td>${escapeHtml(record.vaccineName)}</td>
+          <td>${formatDose(record.doseNumber)}</td>
+          <td>${escapeHtml(record.lotNumber || '—')}</td>
+          <td>${record.site ? IMMUNIZATION_SITES[record.site] : '—'}</td>
+          <td>${escapeHtml(record.provider || '—')}</td>
+          <td>${escapeHtml(record.reactions || '—')}</td>
+        </tr>`).join('');
+
+  const remainingRows = overview.doses.filter(dose => dose.status !== 'given').map(dose => `
+        <tr>
+          <td>${escapeHtml(dose.vaccineName)}</td>
+          <td>${formatDose(dose.dose)}</td>
+          <td>${dose.dueOn ? formatDate(dose.dueOn) : '—'}</td>
+          <td>${dose.status === 'overdue' ? '<strong>Overdue</strong>' : dose.status === 'scheduled' ? '' : 'Due'}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111827; margin: 2rem auto; max-width: 960px; padding: 0 1rem; font-size: 14px; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 2px solid #fbcfe8; padding-bottom: 0.25rem; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+    th { font-weight: 600; color: #4b5563; }
+    .muted { color: #6b7280; }
+    .print-button { background: #ec4899; color: white; border: 0; border-radius: 6px; padding: 0.5rem 1rem; font-size: 14px; cursor: pointer; }
+    @media print {
+      body { margin: 0; max-width: none; }
+      .print-button { display: none; }
+      tr, h2 { break-inside: avoid; }
+    }
+  </style>
+</head>
+<body>
+  <button class="print-button" onclick="window.print()">Print / Save as PDF</button>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="muted">
+    ${input.birthDate ? `Born ${formatDate(toDateString(input.birthDate))} • ` : ''}${escapeHtml(overview.scheduleName)} schedule
+    • Generated ${formatDate(input.generatedOn)}
+  </p>
+
+  <h2>Vaccines given</h2>
+  ${overview.records.length > 0 ? `<table>
+    <thead>
+      <tr><th>Date</th><th>Vaccine</th><th>Dose</th><th>Lot</th><th>Site</th><th>Given by</th><th>Reactions</th></tr>
+    </thead>
+    <tbody>${givenRows}
+    </tbody>
+  </table>` : '<p class="muted">No vaccines recorded yet.</p>'}
+
+  ${remainingRows ? `<h2>Still to come</h2>
+  <table>
+    <thead><tr><th>Vaccine</th><th>Dose</th><th>Due</th><th></th></tr></thead>
+    <tbody>${remainingRows}
+    </tbody>
+  </table>` : ''}
+
+  <p class="muted">${escapeHtml(overview.scheduleSource)}</p>
+</body>
+</html>`;
+}
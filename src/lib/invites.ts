@@ -0,0 +1,66 @@
+import { randomBytes } from 'crypto';
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes survive being read aloud
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+export type InviteStatus = 'active' | 'expired' | 'revoked' | 'used_up';
+
+export interface InvitePermissions {
+  canRead: boolean;
+  canAdd: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  canShare: boolean;
+}
+
+export const INVITE_ROLES = ['viewer', 'editor', 'admin'] as const;
+
+/**
+ * Generate a random, human-friendly invite code like "K7QX-M2PD"
+ */
+export function generateInviteCode(): string {
+  const bytes = randomBytes(INVITE_CODE_LENGTH);
+  let code = '';
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_ALPHABET[bytes[i] % INVITE_CODE_ALPHABET.length];
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Normalize user-typed codes: case-insensitive, dash and whitespace tolerant
+ */
+export function normalizeInviteCode(input: string): string {
+  const cleaned = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (cleaned.length !== INVITE_CODE_LENGTH) return cleaned;
+  return `${cleaned.slice(0, 4)}-${cleaned.slice(4)}`;
+}
+
+/**
+ * Default permission set for a role (mirrors the presets in the groups page)
+ */
+export function getPermissionsForRole(role: string): InvitePermissions {
+  switch (role) {
+    case 'editor':
+      return { canRead: true, canAdd: true, canEdit: true, canDelete: false, canShare: false };
+    case 'admin':
+      return { canRead: true, canAdd: true, canEdit: true, canDelete: true, canShare: true };
+    case 'viewer':
+    default:
+      return { canRead: true, canAdd: false, canEdit: false, canDelete: false, canShare: false };
+  }
+}
+
+/**
+ * Work out whether an invite can still be redeemed
+ */
+export function getInviteStatus(
+  invite: { expiresAt: Date | null; maxUses: number | null; useCount: number; revokedAt: Date | null },
+  now: Date = new Date()
+): InviteStatus {
+  if (invite.revokedAt) return 'revoked';
+  if (invite.expiresAt && invite.expiresAt <= now) return 'expired';
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return 'used_up';
+  return 'active';
+}
@@ -0,0 +1,319 @@
+import { addDaysToDate, getZonedDateTime, startOfZonedDay, zonedDateTimeToInstant } from '@/lib/timezone';
+import type {
+  MedicationDoseStatus,
+  MedicationRoute,
+  MedicationScheduleType,
+  MedicationUnit,
+} from '@/types/baby-events';
+
+export const MEDICATION_UNITS: readonly MedicationUnit[] = ['ml', 'drops', 'mg', 'tablet', 'puff', 'sachet'];
+
+export const MEDICATION_ROUTES: Record<MedicationRoute, string> = {
+  oral: 'By mouth',
+  topical: 'On the skin',
+  inhaled: 'Inhaled',
+  eye: 'Eye drops',
+  ear: 'Ear drops',
+  nasal: 'Nasal',
+  rectal: 'Rectal',
+};
+
+export const MEDICATION_SCHEDULE_TYPES: readonly MedicationScheduleType[] = ['fixed_times', 'interval'];
+
+// Doses of a fixed-time medicine this far ahead of the next slot count as on time
+const EARLY_DOSE_MINUTES = 60;
+
+// Doses loaded with each medication; enough to cover a rolling 24 hours and the day before
+export const RECENT_DOSE_HOURS = 48;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_NAME_LENGTH = 100;
+
+export interface MedicationInput {
+  name: string;
+  dose: number;
+  unit: MedicationUnit;
+  route: MedicationRoute;
+  scheduleType: MedicationScheduleType;
+  times: string[];
+  intervalHours: number | null;
+  maxDailyDose: number | null;
+  notes: string | null;
+  childId: string | null;
+}
+
+// Just what the schedule maths needs, so it works on Prisma rows and API responses alike
+export interface MedicationSchedule {
+  dose: number;
+  scheduleType: string;
+  times: string[];
+  intervalHours?: number | null;
+  maxDailyDose?: number | null;
+}
+
+export interface DoseRecord {
+  occurredAt: Date | string;
+  dose: number;
+}
+
+const toOptionalNumber = (value: unknown) =>
+  value === undefined || value === null || value === '' ? null : Number(value);
+
+/**
+ * Validate and normalize a medication request body.
+ * Returns either the cleaned data or a user-facing error message.
+ */
+export function parseMedicationInput(body: unknown): { data?: MedicationInput; error?: string } {
+  const { name, dose, unit, route, scheduleType, times, intervalHours, maxDailyDose, notes, childId } =
+    (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'Medicine name is required' };
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `Medicine name must be ${MAX_NAME_LENGTH} characters or fewer` };
+  }
+
+  const parsedDose = toOptionalNumber(dose);
+  if (parsedDose === null || !Number.isFinite(parsedDose) || parsedDose <= 0) {
+    return { error: 'Dose must be a positive number' };
+  }
+
+  const medicationUnit = MEDICATION_UNITS.find(value => value === unit);
+  if (!medicationUnit) {
+    return { error: 'Invalid unit' };
+  }
+  const medicationRoute = (Object.keys(MEDICATION_ROUTES) as MedicationRoute[]).find(value => value === route);
+  if (!medicationRoute) {
+    return { error: 'Invalid route' };
+  }
+  const schedule = MEDICATION_SCHEDULE_TYPES.find(value => value === scheduleType);
+  if (!schedule) {
+    return { error: 'Choose fixed times or every few hours' };
+  }
+
+  let parsedTimes: string[] = [];
+  let parsedInterval: number | null = null;
+
+  if (schedule === 'fixed_times') {
+    if (!Array.isArray(times) || times.length === 0) {
+      return { error: 'Add at least one time of day' };
+    }
+    if (!times.every(time => typeof time === 'string' && TIME_PATTERN.test(time))) {
+      return { error: 'Times must be in HH:mm format' };
+    }
+    parsedTimes = [...new Set<string>(times)].sort();
+  } else {
+    parsedInterval = toOptionalNumber(intervalHours);
+    if (parsedInterval === null || !Number.isFinite(parsedInterval) || parsedInterval <= 0 || parsedInterval > 72) {
+      return { error: 'Hours between doses must be between 0 and 72' };
+    }
+  }
+
+  const parsedMax = toOptionalNumber(maxDailyDose);
+  if (parsedMax !== null && (!Number.isFinite(parsedMax) || parsedMax <= 0)) {
+    return { error: 'Maximum daily dose must be a positive number' };
+  }
+  if (parsedMax !== null && parsedMax < parsedDose) {
+    return { error: 'Maximum daily dose cannot be less than a single dose' };
+  }
+
+  return {
+    data: {
+      name: name.trim(),
+      dose: parsedDose,
+      unit: medicationUnit,
+      route: medicationRoute,
+      scheduleType: schedule,
+      times: parsedTimes,
+      intervalHours: parsedInterval,
+      maxDailyDose: parsedMax,
+      notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+      childId: typeof childId === 'string' && childId ? childId : null,
+    },
+  };
+}
+
+/**
+ * Most a medication allows in a day: its configured maximum, or for fixed times
+ * one dose per slot. Null when there is no limit.
+ */
+export function getDailyLimit(medication: MedicationSchedule): number | null {
+  if (medication.maxDailyDose) return medication.maxDailyDose;
+  if (medication.scheduleType === 'fixed_times' && medication.times.length > 0) {
+    return medication.times.length * medication.dose;
+  }
+  return null;
+}
+
+// Every fixed dose time from the day before `around` to the day after, in order
+function getScheduledSlots(times: string[], timeZone: string, around: Date): Date[] {
+  const today = getZonedDateTime(around, timeZone).date;
+  const slots: Date[] = [];
+  for (const offset of [-1, 0, 1]) {
+    const date = addDaysToDate(today, offset);
+    for (const time of times) {
+      slots.push(zonedDateTimeToInstant(date, time, timeZone));
+    }
+  }
+  return slots.sort((a, b) => a.getTime() - b.getTime());
+}
+
+function getLastDoseBefore(doses: DoseRecord[], at: Date): Date | null {
+  let last: Date | null = null;
+  for (const dose of doses) {
+    const occurredAt = new Date(dose.occurredAt);
+    if (occurredAt <= at && (!last || occurredAt > last)) {
+      last = occurredAt;
+    }
+  }
+  return last;
+}
+
+/**
+ * When the next dose is due. Interval medicines count from the last dose; fixed-time
+ * medicines take the slot after the one the last dose was closest to, so a dose given
+ * a little early or late still covers its slot. Null when an interval medicine hasn't
+ * been given yet.
+ */
+export function getNextDoseDue(
+  medication: MedicationSchedule,
+  lastDoseAt: Date | null,
+  timeZone: string,
+  now: Date = new Date()
+): Date | null {
+  if (medication.scheduleType === 'interval') {
+    if (!lastDoseAt || !medication.intervalHours) return null;
+    return new Date(lastDoseAt.getTime() + medication.intervalHours * HOUR_MS);
+  }
+
+  if (medication.times.length === 0) return null;
+
+  if (!lastDoseAt) {
+    return getScheduledSlots(medication.times, timeZone, now).find(slot => slot >= now) ?? null;
+  }
+
+  const slots = getScheduledSlots(medication.times, timeZone, lastDoseAt);
+  let covered = 0;
+  slots.forEach((slot, index) => {
+    const distance = Math.abs(slot.getTime() - lastDoseAt.getTime());
+    if (distance < Math.abs(slots[covered].getTime() - lastDoseAt.getTime())) {
+      covered = index;
+    }
+  });
+  return slots[covered + 1] ?? null;
+}
+
+// Start of the stretch a daily limit is counted over: the rolling 24 hours for interval
+// medicines, the calendar day in the group's timezone for fixed times
+function getDailyWindowStart(medication: MedicationSchedule, at: Date, timeZone: string): Date {
+  if (medication.scheduleType === 'interval') {
+    return new Date(at.getTime() - 24 * HOUR_MS);
+  }
+  return startOfZonedDay(getZonedDateTime(at, timeZone).date, timeZone);
+}
+
+function sumDosesInWindow(medication: MedicationSchedule, doses: DoseRecord[], timeZone: string, at: Date) {
+  const windowStart = getDailyWindowStart(medication, at, timeZone);
+  let dosesInWindow = 0;
+  let amountInWindow = 0;
+  for (const dose of doses) {
+    const occurredAt = new Date(dose.occurredAt);
+    if (occurredAt >= windowStart && occurredAt <= at) {
+      dosesInWindow++;
+      amountInWindow += dose.dose;
+    }
+  }
+  return { dosesInWindow, amountInWindow };
+}
+
+function formatGap(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / MINUTE_MS));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
+const formatAmount = (amount: number, unit?: string) =>
+  `${Math.round(amount * 100) / 100}${unit ? ` ${unit}` : ''}`;
+
+/**
+ * Reasons giving `amount` at `at` would go against the schedule: too soon after the
+ * previous dose, or over the daily limit. Leave the dose being edited out of `doses`.
+ */
+export function checkDose(
+  medication: MedicationSchedule & { unit?: string },
+  doses: DoseRecord[],
+  timeZone: string,
+  at: Date = new Date(),
+  amount: number = medication.dose
+): string[] {
+  const warnings: string[] = [];
+  const lastDoseAt = getLastDoseBefore(doses, at);
+
+  if (lastDoseAt) {
+    const nextDueAt = getNextDoseDue(medication, lastDoseAt, timeZone, at);
+    const earliest = nextDueAt && medication.scheduleType === 'fixed_times'
+      ? new Date(nextDueAt.getTime() - EARLY_DOSE_MINUTES * MINUTE_MS)
+      : nextDueAt;
+
+    if (nextDueAt && earliest && at < earliest) {
+      const sinceLast = formatGap(at.getTime() - lastDoseAt.getTime());
+      warnings.push(medication.scheduleType === 'interval'
+        ? `Only ${sinceLast} since the last dose; it should be at least ${medication.intervalHours} hours apart`
+        : `Only ${sinceLast} since the last dose; the next one isn't due for another ${formatGap(nextDueAt.getTime() - at.getTime())}`);
+    }
+  }
+
+  const limit = getDailyLimit(medication);
+  if (limit !== null) {
+    const { amountInWindow } = sumDosesInWindow(medication, doses, timeZone, at);
+    const total = amountInWindow + amount;
+    if (total > limit + 1e-9) {
+      const window = medication.scheduleType === 'interval' ? 'in 24 hours' : 'today';
+      warnings.push(`This would make ${formatAmount(total, medication.unit)} ${window}; the daily limit is ${formatAmount(limit, medication.unit)}`);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Where a medication's schedule stands right now, for the dashboard.
+ */
+export function getMedicationStatus(
+  medication: MedicationSchedule & { unit?: string },
+  doses: DoseRecord[],
+  timeZone: string,
+  now: Date = new Date()
+): MedicationDoseStatus {
+  const lastDoseAt = getLastDoseBefore(doses, now);
+  const nextDueAt = getNextDoseDue(medication, lastDoseAt, timeZone, now);
+  const { dosesInWindow, amountInWindow } = sumDosesInWindow(medication, doses, timeZone, now);
+
+  return {
+    lastDoseAt: lastDoseAt?.toISOString() ?? null,
+    nextDueAt: nextDueAt?.toISOString() ?? null,
+    dosesInWindow,
+    amountInWindow,
+    dailyLimit: getDailyLimit(medication),
+    warnings: checkDose(medication, doses, timeZone, now),
+  };
+}
+
+/**
+ * Short description of a schedule, e.g. "Every 6 hours, max 4 doses" or "08:00 and 20:00".
+ */
+export function describeSchedule(medication: MedicationSchedule & { unit?: string }): string {
+  const limit = medication.maxDailyDose ? `, max ${formatAmount(medication.maxDailyDose, medication.unit)} a day` : '';
+  if (medication.scheduleType === 'interval') {
+    return `Every ${medication.intervalHours} hours${limit}`;
+  }
+  const times = medication.times.length > 1
+    ? `${medication.times.slice(0, -1).join(', ')} and ${medication.times[medication.times.length - 1]}`
+    : medication.times[0] ?? '';
+  return `Daily at ${times}${limit}`;
+}
@@ -0,0 +1,137 @@
+import { addMonths, differenceInDays, differenceInMonths } from 'date-fns';
+import milestonesData from '@/data/milestones.json';
+import { getAgeInMonths } from '@/lib/growth';
+import type {
+  MilestoneCategory,
+  MilestoneEntry,
+  MilestoneJournal,
+  MilestoneProgress,
+  MilestoneTiming,
+} from '@/types/baby-events';
+
+export interface CatalogMilestone {
+  id: string;
+  category: MilestoneCategory;
+  title: string;
+  months: [number, number]; // the age range most children reach it in
+}
+
+// What a milestone event row from the database needs to become a journal entry
+interface MilestoneEventRow {
+  id: string;
+  date: Date;
+  occurredAt: Date;
+  notes: string | null;
+  otherEvent: { description: string; milestoneKey: string | null } | null;
+  images: { id: string; url: string; caption: string | null }[];
+}
+
+export const MILESTONE_CATEGORIES = milestonesData.categories as Record<MilestoneCategory, string>;
+
+export const MILESTONE_SOURCE = milestonesData.source;
+
+export const MILESTONE_CATALOG = milestonesData.milestones as CatalogMilestone[];
+
+// Catalog milestones coming up within this many months are shown as next
+const UPCOMING_WINDOW_MONTHS = 2;
+
+export function getCatalogMilestone(id: string | null | undefined): CatalogMilestone | undefined {
+  return id ? MILESTONE_CATALOG.find(milestone => milestone.id === id) : undefined;
+}
+
+/**
+ * A child's age on a date in the words parents use: days for the first couple of
+ * weeks, then weeks, months (with leftover weeks) and finally years and months.
+ */
+export function formatAge(birthDate: Date | string, at: Date | string): string | null {
+  const birth = new Date(birthDate);
+  const date = new Date(at);
+  const days = differenceInDays(date, birth);
+  if (days < 0) return null;
+
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  if (days < 14) return plural(days, 'day');
+
+  const months = differenceInMonths(date, birth);
+  if (months < 1) return plural(Math.floor(days / 7), 'week');
+
+  if (months < 24) {
+    const weeks = Math.floor(differenceInDays(date, addMonths(birth, months)) / 7);
+    return weeks > 0 ? `${plural(months, 'month')}, ${plural(weeks, 'week')}` : plural(months, 'month');
+  }
+
+  const years = Math.floor(months / 12);
+  return months % 12 > 0 ? `${plural(years, 'year')}, ${plural(months % 12, 'month')}` : plural(years, 'year');
+}
+
+export function getMilestoneTiming(milestone: CatalogMilestone, ageMonths: number): MilestoneTiming {
+  if (ageMonths < milestone.months[0]) return 'early';
+  if (ageMonths > milestone.months[1]) return 'late';
+  return 'on_time';
+}
+
+/**
+ * Every milestone logged for a child, stamped with their age, plus where they are with
+ * each catalog milestone on `today` (their group's calendar date). Without a birth date
+ * nothing can be early, late or expected.
+ */
+export function buildMilestoneJournal(
+  rows: MilestoneEventRow[],
+  birthDate: Date | null,
+  today: string
+): MilestoneJournal {
+  const entries: MilestoneEntry[] = [...rows]
+    .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())
+    .map(row => {
+      const catalogMilestone = getCatalogMilestone(row.otherEvent?.milestoneKey);
+      const description = row.otherEvent?.description?.trim() || '';
+      const ageMonths = birthDate ? getAgeInMonths(birthDate, row.date) : null;
+
+      return {
+        eventId: row.id,
+        milestoneKey: catalogMilestone?.id ?? null,
+        title: catalogMilestone?.title ?? (description || 'Milestone'),
+        description: catalogMilestone && description && description !== catalogMilestone.title ? description : null,
+        category: catalogMilestone?.category ?? null,
+        reachedAt: row.occurredAt.toISOString(),
+        ageLabel: birthDate ? formatAge(birthDate, row.date) : null,
+        expectedMonths: catalogMilestone?.months ?? null,
+        timing: catalogMilestone && ageMonths !== null && ageMonths >= 0 ? getMilestoneTiming(catalogMilestone, ageMonths) : null,
+        notes: row.notes,
+        images: row.images.map(image => ({ id: image.id, url: image.url, caption: image.caption })),
+      };
+    });
+
+  const ageToday = birthDate ? getAgeInMonths(birthDate, today) : null;
+  const catalog: MilestoneProgress[] = [...MILESTONE_CATALOG]
+    .sort((a, b) => a.months[0] - b.months[0])
+    .map(milestone => {
+      // The first time it was logged is when it was reached
+      const reached = entries.filter(entry => entry.milestoneKey === milestone.id).pop();
+      let status: MilestoneProgress['status'] = 'upcoming';
+      if (reached) status = 'reached';
+      else if (ageToday !== null && ageToday > milestone.months[1]) status = 'late';
+      else if (ageToday !== null && ageToday >= milestone.months[0] - UPCOMING_WINDOW_MONTHS) status = 'expected';
+
+      return {
+        id: milestone.id,
+        title: milestone.title,
+        category: milestone.category,
+        expectedMonths: milestone.months,
+        status,
+        eventId: reached?.eventId ?? null,
+      };
+    });
+
+  return {
+    ageLabel: birthDate ? formatAge(birthDate, today) : null,
+    source: MILESTONE_SOURCE,
+    entries,
+    catalog,
+  };
+}
+
+export function formatExpectedRange([min, max]: [number, number]): string {
+  const round = (months: number) => Math.round(months * 2) / 2;
+  return `${round(min)}–${round(max)} months`;
+}
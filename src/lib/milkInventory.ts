@@ -0,0 +1,221 @@
+import type { PrismaClient } from '@prisma/client';
+import { addDays, addHours, addMonths } from 'date-fns';
+import { EventType, FeedingType } from '@/types/baby-events';
+import type { MilkBag, MilkInventory, MilkStorageLocation } from '@/types/baby-events';
+
+export const MILK_STORAGE_LOCATIONS: Record<MilkStorageLocation, string> = {
+  fridge: 'Fridge',
+  freezer: 'Freezer',
+};
+
+// How long expressed milk keeps, following the CDC's storage guidelines
+export const MILK_STORAGE_RULES = {
+  fridgeDays: 4,
+  freezerMonths: 6,
+  thawedHours: 24, // thawed milk in the fridge, counted from when it came out of the freezer
+};
+
+// Bags this close to their limit are flagged so they get used first
+export const EXPIRING_SOON_HOURS = 24;
+
+const MAX_VOLUME_ML = 1000;
+
+type Db = Pick<PrismaClient, 'babyEvent' | 'milkBag' | 'milkDrawdown'>;
+
+interface StoredMilk {
+  pumpedAt: Date | string;
+  location: string;
+  thawedAt?: Date | string | null;
+}
+
+// What a bag row from the database needs to become a MilkBag
+interface MilkBagRow extends StoredMilk {
+  id: string;
+  volume: number;
+  remaining: number;
+  label: string | null;
+  sourceEventId: string | null;
+  groupId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MilkBagInput {
+  volume: number;
+  pumpedAt: Date;
+  location: MilkStorageLocation;
+  label: string | null;
+}
+
+/**
+ * When stored milk should be thrown away: four days in the fridge, six months in the
+ * freezer, or a day after it was thawed.
+ */
+export function getMilkExpiry(milk: StoredMilk): Date {
+  if (milk.thawedAt) {
+    return addHours(new Date(milk.thawedAt), MILK_STORAGE_RULES.thawedHours);
+  }
+  return milk.location === 'freezer'
+    ? addMonths(new Date(milk.pumpedAt), MILK_STORAGE_RULES.freezerMonths)
+    : addDays(new Date(milk.pumpedAt), MILK_STORAGE_RULES.fridgeDays);
+}
+
+export function isMilkExpired(milk: StoredMilk, at: Date = new Date()): boolean {
+  return getMilkExpiry(milk) <= at;
+}
+
+export function isMilkExpiringSoon(milk: StoredMilk, now: Date = new Date()): boolean {
+  return !isMilkExpired(milk, now) && getMilkExpiry(milk) <= addHours(now, EXPIRING_SOON_HOURS);
+}
+
+/**
+ * Order bags are used in: oldest milk first, wherever it's stored. Thawed milk goes
+ * ahead of everything, since it can't be refrozen and is only good for a day.
+ */
+export function sortMilkBags<T extends StoredMilk>(bags: T[]): T[] {
+  return [...bags].sort((a, b) => {
+    if (!!a.thawedAt !== !!b.thawedAt) {
+      return a.thawedAt ? -1 : 1;
+    }
+    return new Date(a.pumpedAt).getTime() - new Date(b.pumpedAt).getTime();
+  });
+}
+
+export function toMilkBag(row: MilkBagRow): MilkBag {
+  return {
+    id: row.id,
+    volume: row.volume,
+    remaining: row.remaining,
+    pumpedAt: new Date(row.pumpedAt).toISOString(),
+    location: row.location as MilkStorageLocation,
+    thawedAt: row.thawedAt ? new Date(row.thawedAt).toISOString() : null,
+    label: row.label,
+    expiresAt: getMilkExpiry(row).toISOString(),
+    sourceEventId: row.sourceEventId,
+    groupId: row.groupId,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Totals for the dashboard and inventory page. Expired milk is counted separately so
+ * it doesn't look like stock that can still be used.
+ */
+export function summarizeMilkInventory(rows: MilkBagRow[], now: Date = new Date()): MilkInventory {
+  const bags = sortMilkBags(rows);
+  const inventory: MilkInventory = {
+    bags: bags.map(toMilkBag),
+    fridgeTotal: 0,
+    freezerTotal: 0,
+    expiringSoon: 0,
+    expired: 0,
+  };
+
+  for (const bag of bags) {
+    if (isMilkExpired(bag, now)) {
+      inventory.expired++;
+      continue;
+    }
+    if (isMilkExpiringSoon(bag, now)) {
+      inventory.expiringSoon++;
+    }
+    if (bag.location === 'freezer') {
+      inventory.freezerTotal += bag.remaining;
+    } else {
+      inventory.fridgeTotal += bag.remaining;
+    }
+  }
+
+  return inventory;
+}
+
+/**
+ * Validate and normalize a milk bag request body.
+ * Returns either the cleaned data or a user-facing error message.
+ */
+export function parseMilkBagInput(body: unknown): { data?: MilkBagInput; error?: string } {
+  const { volume, pumpedAt, location, label } =
+    (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const parsedVolume = Number(volume);
+  if (!Number.isInteger(parsedVolume) || parsedVolume < 1 || parsedVolume > MAX_VOLUME_ML) {
+    return { error: `Volume must be a whole number between 1 and ${MAX_VOLUME_ML} ml` };
+  }
+
+  const parsedPumpedAt = typeof pumpedAt === 'string' || typeof pumpedAt === 'number' ? new Date(pumpedAt) : null;
+  if (!pumpedAt || !parsedPumpedAt || isNaN(parsedPumpedAt.getTime())) {
+    return { error: 'When the milk was pumped is required' };
+  }
+  if (parsedPumpedAt > new Date()) {
+    return { error: 'Pump date cannot be in the future' };
+  }
+
+  const storageLocation = (Object.keys(MILK_STORAGE_LOCATIONS) as MilkStorageLocation[]).find(value => value === location);
+  if (!storageLocation) {
+    return { error: 'Choose the fridge or the freezer' };
+  }
+
+  return {
+    data: {
+      volume: parsedVolume,
+      pumpedAt: parsedPumpedAt,
+      location: storageLocation,
+      label: typeof label === 'string' && label.trim() ? label.trim() : null,
+    },
+  };
+}
+
+/**
+ * Bring the inventory in line with a feeding: milk it drew before goes back into its
+ * bags, then an expressed-milk feeding that isn't in the trash draws its amount again
+ * from the stock that hadn't expired at the time. Safe to call after any change to an
+ * event, and returns how much of the feeding couldn't be covered by stored milk.
+ */
+export async function syncMilkDrawdowns(db: Db, eventId: string): Promise<{ drawn: number; shortfall: number }> {
+  const previous = await db.milkDrawdown.findMany({ where: { eventId } });
+  for (const drawdown of previous) {
+    await db.milkBag.update({
+      where: { id: drawdown.bagId },
+      data: { remaining: { increment: drawdown.amount } },
+    });
+  }
+  if (previous.length > 0) {
+    await db.milkDrawdown.deleteMany({ where: { eventId } });
+  }
+
+  const event = await db.babyEvent.findUnique({
+    where: { id: eventId },
+    include: { feedingEvent: true },
+  });
+  const amount = event?.feedingEvent?.amount ?? 0;
+  if (!event || event.deletedAt || event.type !== EventType.FEEDING || event.feedingEvent?.feedingType !== FeedingType.EXPRESSED_BREAST_MILK || amount <= 0) {
+    return { drawn: 0, shortfall: 0 };
+  }
+
+  const candidates = await db.milkBag.findMany({
+    where: {
+      groupId: event.groupId,
+      discardedAt: null,
+      remaining: { gt: 0 },
+      pumpedAt: { lte: event.occurredAt },
+    },
+  });
+  const usable = sortMilkBags(candidates.filter(bag => !isMilkExpired(bag, event.occurredAt)));
+
+  let needed = amount;
+  for (const bag of usable) {
+    if (needed <= 0) break;
+    const taken = Math.min(bag.remaining, needed);
+    await db.milkBag.update({
+      where: { id: bag.id },
+      data: { remaining: { decrement: taken } },
+    });
+    await db.milkDrawdown.create({
+      data: { bagId: bag.id, eventId, amount: taken },
+    });
+    needed -= taken;
+  }
+
+  return { drawn: amount - needed, shortfall: needed };
+}
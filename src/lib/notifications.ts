@@ -0,0 +1,283 @@
+import type { PrismaClient } from '@prisma/client';
+import { predictNextFeeding, PREDICTION_HISTORY_DAYS } from '@/lib/predictions';
+import { getZonedDateTime } from '@/lib/timezone';
+import { getVapidConfig, sendWebPush, type WebPushPayload } from '@/lib/webPush';
+import { EventType, type TemperatureUnit } from '@/types/baby-events';
+import { formatTemperature, SYMPTOMS } from '@/lib/illness';
+
+export const QUIET_HOURS_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface NotificationSettings {
+  feedingReminders: boolean;
+  caregiverAlerts: boolean;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}
+
+// Members who never opened their notification settings get these
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  feedingReminders: true,
+  caregiverAlerts: true,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+};
+
+type NotificationKind = 'feedingReminders' | 'caregiverAlerts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+};
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+/**
+ * Whether `now` falls inside the quiet hours, read as wall-clock times in the group's timezone.
+ * A start later than the end wraps past midnight, e.g. 22:00–07:00.
+ */
+export function isWithinQuietHours(settings: Pick<NotificationSettings, 'quietHoursStart' | 'quietHoursEnd'>, timeZone: string, now = new Date()): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  if (!start || !end || start === end) {
+    return false;
+  }
+
+  const { time } = getZonedDateTime(now, timeZone);
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+/**
+ * Push a notification to every device the given users have subscribed.
+ * Subscriptions the push service reports as gone are removed. Returns how many deliveries succeeded.
+ */
+export async function pushToUsers(db: PrismaClient, userIds: string[], payload: WebPushPayload): Promise<number> {
+  const vapid = getVapidConfig();
+  if (!vapid || userIds.length === 0) {
+    return 0;
+  }
+
+  const subscriptions = await db.pushSubscription.findMany({
+    where: { userId: { in: userIds } },
+  });
+
+  const results = await Promise.all(subscriptions.map(async (subscription: { id: string; endpoint: string; p256dh: string; auth: string }) => {
+    try {
+      const result = await sendWebPush(subscription, payload, { vapid });
+      if (result.gone) {
+        await db.pushSubscription.delete({ where: { id: subscription.id } });
+        return false;
+      }
+      if (result.statusCode >= 200 && result.statusCode < 300) {
+        await db.pushSubscription.update({ where: { id: subscription.id }, data: { lastUsedAt: new Date() } });
+        return true;
+      }
+      console.warn(`Push to ${new URL(subscription.endpoint).origin} failed with status ${result.statusCode}`);
+    } catch (error) {
+      console.error('Error sending push notification:', error);
+    }
+    return false;
+  }));
+
+  return results.filter(Boolean).length;
+}
+
+/**
+ * Members of a group who can read it, have at least one device subscribed,
+ * want this kind of notification and aren't in their quiet hours.
+ */
+async function getRecipients(
+  db: PrismaClient,
+  groupId: string,
+  kind: NotificationKind,
+  { excludeUserId, now = new Date() }: { excludeUserId?: string; now?: Date } = {}
+): Promise<string[]> {
+  const members = await db.userGroupMember.findMany({
+    where: {
+      groupId,
+      canRead: true,
+      ...(excludeUserId && { userId: { not: excludeUserId } }),
+      user: { pushSubscriptions: { some: {} } },
+    },
+    select: {
+      userId: true,
+      group: { select: { timezone: true } },
+    },
+  });
+
+  if (members.length === 0) {
+    return [];
+  }
+
+  const preferences = await db.notificationPreference.findMany({
+    where: { groupId, userId: { in: members.map((member: { userId: string }) => member.userId) } },
+  });
+
+  return members
+    .filter((member: { userId: string; group: { timezone: string } }) => {
+      const settings = preferences.find((preference: { userId: string }) => preference.userId === member.userId) || DEFAULT_NOTIFICATION_SETTINGS;
+      return settings[kind] && !isWithinQuietHours(settings, member.group.timezone, now);
+    })
+    .map((member: { userId: string }) => member.userId);
+}
+
+interface AlertEvent {
+  id: string;
+  groupId: string;
+  type: string;
+  time: string;
+  child?: { name: string } | null;
+  feedingEvent?: { feedingType: string; amount: number | null } | null;
+  diaperEvent?: { wet: number; dirty: number } | null;
+  sleepEvent?: { sleepType: string } | null;
+  otherEvent?: { eventType: string } | null;
+  medicationEvent?: { name: string; dose: number; unit: string } | null;
+  pumpingEvent?: { leftAmount: number | null; rightAmount: number | null } | null;
+  temperatureEvent?: { celsius: number; unit: string } | null;
+  symptomEvent?: { symptom: string; severity: string } | null;
+}
+
+/**
+ * What was logged, as it reads after "Mom logged …".
+ */
+export function describeEvent(event: AlertEvent): string {
+  switch (event.type) {
+    case EventType.FEEDING: {
+      const feeding = event.feedingEvent;
+      if (!feeding) return 'a feeding';
+      return `a ${label(feeding.feedingType)} feeding${feeding.amount ? ` (${feeding.amount} ml)` : ''}`;
+    }
+    case EventType.DIAPER: {
+      const diaper = event.diaperEvent;
+      if (diaper?.wet && diaper.dirty) return 'a wet and dirty diaper';
+      if (diaper?.dirty) return 'a dirty diaper';
+      return diaper?.wet ? 'a wet diaper' : 'a diaper change';
+    }
+    case EventType.SLEEP:
+      return event.sleepEvent ? `a ${label(event.sleepEvent.sleepType)}` : 'a sleep';
+    case EventType.GROWTH:
+      return 'a growth measurement';
+    case EventType.MEDICATION: {
+      const medication = event.medicationEvent;
+      return medication ? `${medication.dose} ${medication.unit} of ${medication.name}` : 'a dose of medicine';
+    }
+    case EventType.PUMPING: {
+      const total = (event.pumpingEvent?.leftAmount || 0) + (event.pumpingEvent?.rightAmount || 0);
+      return total > 0 ? `${total} ml pumped` : 'a pumping session';
+    }
+    case EventType.TEMPERATURE: {
+      const temperature = event.temperatureEvent;
+      return temperature ? `a temperature of ${formatTemperature(temperature.celsius, temperature.unit as TemperatureUnit)}` : 'a temperature reading';
+    }
+    case EventType.SYMPTOM: {
+      const symptom = event.symptomEvent;
+      return symptom ? `${symptom.severity} ${(SYMPTOMS[symptom.symptom] || label(symptom.symptom)).toLowerCase()}` : 'a symptom';
+    }
+    default:
+      return event.otherEvent ? label(event.otherEvent.eventType) : 'a moment';
+  }
+}
+
+/**
+ * Tell the other members of the group that someone logged an event.
+ */
+export async function notifyCaregivers(
+  db: PrismaClient,
+  event: AlertEvent,
+  actor: { id: string; name: string | null }
+): Promise<number> {
+  const recipients = await getRecipients(db, event.groupId, 'caregiverAlerts', { excludeUserId: actor.id });
+
+  return pushToUsers(db, recipients, {
+    title: `${actor.name || 'Someone'} logged ${describeEvent(event)}`,
+    body: `${event.child ? `${event.child.name} • ` : ''}at ${event.time}`,
+    url: '/timeline',
+    tag: `event-${event.id}`,
+  });
+}
+
+/**
+ * Send "feeding due" reminders for every child whose usual feeding interval has passed.
+ * Each member is reminded once per feeding, however often this runs.
+ */
+export async function runFeedingReminders(db: PrismaClient, now = new Date()): Promise<number> {
+  // Only groups where someone could actually receive a push
+  const memberships = await db.userGroupMember.findMany({
+    where: { canRead: true, user: { pushSubscriptions: { some: {} } } },
+    select: { groupId: true },
+    distinct: ['groupId'],
+  });
+
+  let sent = 0;
+  for (const { groupId } of memberships as { groupId: string }[]) {
+    const feedings = await db.babyEvent.findMany({
+      where: {
+        groupId,
+        type: EventType.FEEDING,
+        deletedAt: null,
+        occurredAt: { gte: new Date(now.getTime() - PREDICTION_HISTORY_DAYS * DAY_MS) },
+      },
+      select: {
+        type: true,
+        occurredAt: true,
+        timezone: true,
+        date: true,
+        childId: true,
+        child: { select: { name: true } },
+      },
+      orderBy: [
+        { occurredAt: 'asc' },
+      ],
+    });
+
+    // Each child keeps their own rhythm
+    const feedingsByChild = new Map<string, typeof feedings>();
+    for (const feeding of feedings) {
+      const key = feeding.childId || 'unassigned';
+      feedingsByChild.set(key, [...(feedingsByChild.get(key) || []), feeding]);
+    }
+
+    for (const [childKey, childFeedings] of feedingsByChild) {
+      const prediction = predictNextFeeding(childFeedings, now);
+      if (!prediction || now.getTime() < new Date(prediction.expectedAt).getTime()) continue;
+
+      const recipients = await getRecipients(db, groupId, 'feedingReminders', { now });
+      if (recipients.length === 0) continue;
+
+      const dedupeKey = `feeding_due:${groupId}:${childKey}:${prediction.since}`;
+      const alreadySent = await db.notificationLog.findMany({
+        where: { dedupeKey, userId: { in: recipients } },
+        select: { userId: true },
+      });
+      const userIds = recipients.filter(userId => !alreadySent.some((log: { userId: string }) => log.userId === userId));
+      if (userIds.length === 0) continue;
+
+      await db.notificationLog.createMany({
+        data: userIds.map(userId => ({ userId, groupId, kind: 'feeding_due', dedupeKey })),
+        skipDuplicates: true,
+      });
+
+      const childName = childFeedings[childFeedings.length - 1].child?.name;
+      const minutesSince = Math.round((now.getTime() - new Date(prediction.since).getTime()) / 60000);
+      sent += await pushToUsers(db, userIds, {
+        title: `🍼 Feeding due${childName ? ` for ${childName}` : ''}`,
+        body: `Last fed ${formatMinutes(minutesSince)} ago, usually every ${formatMinutes(prediction.medianInterval)}`,
+        url: '/',
+        tag: `feeding-due-${groupId}-${childKey}`,
+      });
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Everything the scheduler sends on each run.
+ */
+export async function runScheduledNotifications(db: PrismaClient, now = new Date()): Promise<{ feedingReminders: number }> {
+  return {
+    feedingReminders: await runFeedingReminders(db, now),
+  };
+}
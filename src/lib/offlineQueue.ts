@@ -0,0 +1,449 @@
+// Durable offline mutation queue backed by IndexedDB
+//
+// Creates, updates and deletes made while offline are stored here and replayed
+// against /api/events in the order they were made once the device is back online.
+
+export type OfflineActionType = 'create' | 'update' | 'delete';
+export type OfflineActionStatus = 'pending' | 'failed';
+
+export interface OfflineAction {
+  id: string;
+  type: OfflineActionType;
+  eventId?: string; // Server id, or a temp id for events created offline
+  version?: number; // Updates: the version of the event that was edited, for conflict checks
+  data: Record<string, unknown> | null; // Request body for creates and updates
+  timestamp: number;
+  attempts: number;
+  nextAttemptAt: number;
+  status: OfflineActionStatus; // 'failed' items are stuck until retried or discarded
+  lastError?: string;
+  conflictVersion?: number; // Updates: the server's version when it rejected this edit as a conflict
+}
+
+type QueueListener = (actions: OfflineAction[], replayed: number) => void;
+
+const DB_NAME = 'withGrace-offline';
+const DB_VERSION = 1;
+const ACTIONS_STORE = 'actions';
+const ID_MAP_STORE = 'idMap';
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 1000 * 5;      // First retry after 5 seconds
+const MAX_RETRY_DELAY = 1000 * 60 * 5;  // Never wait more than 5 minutes
+
+export const TEMP_ID_PREFIX = 'temp-';
+
+// Marks replayed requests so the service worker sends them as-is instead of queueing them again
+export const OFFLINE_REPLAY_HEADER = 'x-offline-replay';
+
+export function isTempId(id: string | undefined): boolean {
+  return !!id && id.startsWith(TEMP_ID_PREFIX);
+}
+
+// Exponential backoff: 5s, 10s, 20s, ... capped at 5 minutes
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+class OfflineQueue {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners: Set<QueueListener> = new Set();
+  private replayPromise: Promise<number> | null = null;
+  private retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(ACTIONS_STORE)) {
+            db.createObjectStore(ACTIONS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(ID_MAP_STORE)) {
+            db.createObjectStore(ID_MAP_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // All queued actions, oldest first
+  async getAll(): Promise<OfflineAction[]> {
+    if (!this.isSupported()) return [];
+
+    const db = await this.openDB();
+    const tx = db.transaction(ACTIONS_STORE, 'readonly');
+    const actions = await requestToPromise<OfflineAction[]>(tx.objectStore(ACTIONS_STORE).getAll());
+    return actions.sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id));
+  }
+
+  // Queue a mutation; updates and deletes of events that were themselves
+  // created offline are folded into the pending create
+  async enqueue(action: { type: OfflineActionType; eventId?: string; version?: number; data?: object }): Promise<OfflineAction> {
+    const now = Date.now();
+    const data: Record<string, unknown> | null = action.data ? { ...action.data } : null;
+    const entry: OfflineAction = {
+      id: `offline-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      type: action.type,
+      eventId: action.type === 'create'
+        ? action.eventId || `${TEMP_ID_PREFIX}${now}`
+        : action.eventId,
+      ...(action.type === 'update' && {
+        version: action.version ?? (typeof data?.version === 'number' ? data.version : undefined),
+      }),
+      data,
+      timestamp: now,
+      attempts: 0,
+      nextAttemptAt: now,
+      status: 'pending',
+    };
+
+    if (!this.isSupported()) return entry;
+
+    const pendingCreate = action.type !== 'create' && isTempId(action.eventId)
+      ? (await this.getAll()).find(a => a.type === 'create' && a.eventId === action.eventId)
+      : undefined;
+
+    const db = await this.openDB();
+    const tx = db.transaction(ACTIONS_STORE, 'readwrite');
+    const store = tx.objectStore(ACTIONS_STORE);
+
+    if (pendingCreate && action.type === 'update') {
+      store.put({ ...pendingCreate, data: { ...pendingCreate.data, ...data } });
+    } else if (pendingCreate && action.type === 'delete') {
+      // The server never saw it, so there is nothing to delete
+      store.delete(pendingCreate.id);
+      await transactionDone(tx);
+      await this.removeDependents(action.eventId!);
+      await this.notify(0);
+      return entry;
+    } else {
+      store.put(entry);
+    }
+
+    await transactionDone(tx);
+    await this.notify(0);
+    return pendingCreate ? { ...pendingCreate, data: { ...pendingCreate.data, ...data } } : entry;
+  }
+
+  // Drop a queued action without sending it
+  async discard(id: string): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const actions = await this.getAll();
+    const action = actions.find(a => a.id === id);
+    if (!action) return;
+
+    const db = await this.openDB();
+    const tx = db.transaction(ACTIONS_STORE, 'readwrite');
+    tx.objectStore(ACTIONS_STORE).delete(id);
+    await transactionDone(tx);
+
+    // Without its create, later edits of an offline-only event can never succeed
+    if (action.type === 'create' && action.eventId) {
+      await this.removeDependents(action.eventId);
+    }
+
+    await this.notify(0);
+  }
+
+  // Clear the backoff on a stuck action and try again right away
+  async retry(id: string): Promise<number> {
+    if (!this.isSupported()) return 0;
+
+    const action = (await this.getAll()).find(a => a.id === id);
+    if (action) {
+      await this.put({ ...action, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), lastError: undefined });
+      await this.notify(0);
+    }
+
+    return this.replay();
+  }
+
+  // Send an edit that conflicted anyway, replacing whatever was changed on the server since
+  async overwrite(id: string): Promise<number> {
+    if (!this.isSupported()) return 0;
+
+    const actions = await this.getAll();
+    const action = actions.find(a => a.id === id);
+    if (action?.conflictVersion !== undefined) {
+      await this.put({
+        ...action,
+        version: action.conflictVersion,
+        conflictVersion: undefined,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+        lastError: undefined,
+      });
+      // Later edits here were made on top of this one, so they go through with it
+      const later = actions.filter(a =>
+        a.id !== id && a.type === 'update' && a.eventId === action.eventId && a.version === action.version
+      );
+      for (const laterAction of later) {
+        await this.put({ ...laterAction, version: action.conflictVersion });
+      }
+      await this.notify(0);
+    }
+
+    return this.replay();
+  }
+
+  // Tell listeners about actions queued outside this page, e.g. by the service worker
+  async refresh(): Promise<void> {
+    await this.notify(0);
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Send queued actions to the server in order. Returns how many were replayed.
+  replay(): Promise<number> {
+    if (!this.isSupported()) return Promise.resolve(0);
+
+    // Only one replay at a time so actions are never sent twice
+    if (!this.replayPromise) {
+      this.replayPromise = this.runReplay().finally(() => {
+        this.replayPromise = null;
+      });
+    }
+    return this.replayPromise;
+  }
+
+  private async runReplay(): Promise<number> {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return 0;
+
+    const actions = await this.getAll();
+    // Events with an unsent earlier action must wait so edits apply in order
+    const blockedEventIds = new Set<string>();
+    let replayed = 0;
+
+    for (const action of actions) {
+      const now = Date.now();
+      if (action.status === 'failed' || action.nextAttemptAt > now) {
+        if (action.eventId) blockedEventIds.add(action.eventId);
+        continue;
+      }
+      if (action.eventId && blockedEventIds.has(action.eventId)) {
+        continue;
+      }
+
+      const result = await this.send(action);
+
+      if (result.ok) {
+        await this.remove(action.id);
+        replayed++;
+        continue;
+      }
+
+      const attempts = action.attempts + 1;
+      const stuck = !result.retryable || attempts >= MAX_ATTEMPTS;
+      await this.put({
+        ...action,
+        attempts,
+        status: stuck ? 'failed' : 'pending',
+        nextAttemptAt: now + getRetryDelay(attempts),
+        lastError: result.error,
+        conflictVersion: result.conflictVersion,
+      });
+      if (action.eventId) blockedEventIds.add(action.eventId);
+
+      // Still offline - no point trying the rest now
+      if (result.networkError) break;
+    }
+
+    await this.notify(replayed);
+    await this.scheduleRetry();
+    return replayed;
+  }
+
+  private async send(action: OfflineAction): Promise<{
+    ok: boolean;
+    retryable?: boolean;
+    networkError?: boolean;
+    error?: string;
+    conflictVersion?: number;
+  }> {
+    try {
+      const eventId = action.eventId ? await this.resolveId(action.eventId) : undefined;
+
+      if (action.type !== 'create' && isTempId(eventId)) {
+        return { ok: false, retryable: true, error: 'Waiting for this moment to be created first' };
+      }
+
+      const headers = { 'Content-Type': 'application/json', [OFFLINE_REPLAY_HEADER]: '1' };
+      const response = action.type === 'create'
+        ? await fetch('/api/events', {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(action.data),
+          })
+        : await fetch(`/api/events/${eventId}`, {
+            method: action.type === 'update' ? 'PUT' : 'DELETE',
+            headers,
+            ...(action.type === 'update' && { body: JSON.stringify({ ...action.data, version: action.version }) }),
+          });
+
+      // Already gone on the server counts as a successful delete
+      if (action.type === 'delete' && response.status === 404) {
+        return { ok: true };
+      }
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+
+        // Someone else saved this event after it was edited here; the user decides whose change wins
+        if (action.type === 'update' && response.status === 409 && typeof body.current?.version === 'number') {
+          return {
+            ok: false,
+            retryable: false,
+            error: body.error || 'This moment was changed by someone else',
+            conflictVersion: body.current.version,
+          };
+        }
+
+        return {
+          ok: false,
+          // Server hiccups and rate limits are worth retrying; validation and permission errors are not
+          retryable: response.status >= 500 || response.status === 408 || response.status === 429,
+          // Field errors say what to fix, which the generic message doesn't
+          error: body.fieldErrors
+            ? Object.values(body.fieldErrors).join('. ')
+            : body.error || `Request failed with status ${response.status}`,
+        };
+      }
+
+      const body = await response.json().catch(() => ({}));
+
+      // Queued again by a service worker that doesn't know about replays yet - not delivered
+      if (body?.queued) {
+        return { ok: false, retryable: true, networkError: true, error: 'Still offline' };
+      }
+
+      if (action.type === 'create' && action.eventId) {
+        const serverId = body?.data?.id ?? body?.id;
+        if (serverId) {
+          await this.mapId(action.eventId, serverId);
+        }
+      }
+
+      // Later offline edits of this event were made on top of this one, not a conflict with it
+      if (action.type === 'update' && action.eventId && typeof body?.version === 'number') {
+        await this.advanceVersion(action, body.version);
+      }
+
+      return { ok: true };
+    } catch (error) {
+      return {
+        ok: false,
+        retryable: true,
+        networkError: true,
+        error: error instanceof Error ? error.message : 'Network error',
+      };
+    }
+  }
+
+  // Server id for an event created offline, or the id itself if already known
+  async resolveId(eventId: string): Promise<string> {
+    if (!isTempId(eventId) || !this.isSupported()) return eventId;
+
+    const db = await this.openDB();
+    const tx = db.transaction(ID_MAP_STORE, 'readonly');
+    const serverId = await requestToPromise<string | undefined>(tx.objectStore(ID_MAP_STORE).get(eventId));
+    return serverId || eventId;
+  }
+
+  private async mapId(tempId: string, serverId: string): Promise<void> {
+    const db = await this.openDB();
+    const tx = db.transaction(ID_MAP_STORE, 'readwrite');
+    tx.objectStore(ID_MAP_STORE).put(serverId, tempId);
+    await transactionDone(tx);
+  }
+
+  private async advanceVersion(sent: OfflineAction, version: number): Promise<void> {
+    const later = (await this.getAll()).filter(a =>
+      a.id !== sent.id && a.type === 'update' && a.eventId === sent.eventId && a.version === sent.version
+    );
+    for (const action of later) {
+      await this.put({ ...action, version });
+    }
+  }
+
+  private async put(action: OfflineAction): Promise<void> {
+    const db = await this.openDB();
+    const tx = db.transaction(ACTIONS_STORE, 'readwrite');
+    tx.objectStore(ACTIONS_STORE).put(action);
+    await transactionDone(tx);
+  }
+
+  private async remove(id: string): Promise<void> {
+    const db = await this.openDB();
+    const tx = db.transaction(ACTIONS_STORE, 'readwrite');
+    tx.objectStore(ACTIONS_STORE).delete(id);
+    await transactionDone(tx);
+  }
+
+  private async removeDependents(tempId: string): Promise<void> {
+    const dependents = (await this.getAll()).filter(a => a.type !== 'create' && a.eventId === tempId);
+    for (const action of dependents) {
+      await this.remove(action.id);
+    }
+  }
+
+  // Wake up again when the earliest backed-off action is due
+  private async scheduleRetry(): Promise<void> {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+
+    const pending = (await this.getAll()).filter(a => a.status === 'pending');
+    if (pending.length === 0) return;
+
+    const nextAttemptAt = Math.min(...pending.map(a => a.nextAttemptAt));
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = null;
+      this.replay();
+    }, Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  private async notify(replayed: number): Promise<void> {
+    if (this.listeners.size === 0) return;
+
+    const actions = await this.getAll();
+    this.listeners.forEach(listener => listener(actions, replayed));
+  }
+}
+
+// Export singleton instance
+export const offlineQueue = new OfflineQueue();
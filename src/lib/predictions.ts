@@ -0,0 +1,128 @@
+import { getEventSpan, type EventSpanEvent } from '@/lib/eventSpan';
+import { EventType, type EventPrediction, type EventPredictions } from '@/types/baby-events';
+
+// Days of history the dashboard and timeline ask /api/stats to predict from
+export const PREDICTION_HISTORY_DAYS = 7;
+
+const MINUTE_MS = 60 * 1000;
+
+// With fewer gaps than this a "usual" interval is just noise
+const MIN_SAMPLES = 3;
+
+// Feedings this close together are one session, e.g. each side logged separately
+const SAME_FEEDING_MINUTES = 20;
+
+// Longer gaps almost always mean something wasn't logged
+const MAX_FEEDING_GAP_MINUTES = 8 * 60;
+const MAX_WAKE_WINDOW_MINUTES = 6 * 60;
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / MINUTE_MS;
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + Math.round(minutes) * MINUTE_MS);
+
+/**
+ * Linear-interpolated percentile (0-1) of an ascending list.
+ */
+export function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function predictNext(
+  type: EventPrediction['type'],
+  since: Date,
+  intervals: number[],
+  now: Date
+): EventPrediction | null {
+  if (intervals.length < MIN_SAMPLES) {
+    return null;
+  }
+
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const median = percentile(sorted, 0.5);
+  const expectedAt = addMinutes(since, median);
+
+  // Overdue by more than a whole interval: the next one probably happened and wasn't logged
+  if (minutesBetween(expectedAt, now) > median) {
+    return null;
+  }
+
+  return {
+    type,
+    since: since.toISOString(),
+    medianInterval: Math.round(median),
+    expectedAt: expectedAt.toISOString(),
+    earliest: addMinutes(since, percentile(sorted, 0.25)).toISOString(),
+    latest: addMinutes(since, percentile(sorted, 0.75)).toISOString(),
+    sampleSize: intervals.length,
+  };
+}
+
+/**
+ * Next feeding from the median gap between the starts of recent feeding sessions.
+ */
+export function predictNextFeeding(events: EventSpanEvent[], now = new Date()): EventPrediction | null {
+  const sessionStarts: Date[] = [];
+  let lastFeeding: Date | null = null;
+
+  for (const event of events) {
+    if (event.type !== EventType.FEEDING) continue;
+    if (!lastFeeding || minutesBetween(lastFeeding, event.occurredAt) >= SAME_FEEDING_MINUTES) {
+      sessionStarts.push(event.occurredAt);
+    }
+    lastFeeding = event.occurredAt;
+  }
+
+  const intervals: number[] = [];
+  for (let i = 1; i < sessionStarts.length; i++) {
+    const gap = minutesBetween(sessionStarts[i - 1], sessionStarts[i]);
+    if (gap <= MAX_FEEDING_GAP_MINUTES) {
+      intervals.push(gap);
+    }
+  }
+
+  return sessionStarts.length > 0
+    ? predictNext(EventType.FEEDING, sessionStarts[sessionStarts.length - 1], intervals, now)
+    : null;
+}
+
+/**
+ * Next sleep from the median wake window, i.e. the time between waking up and falling asleep again.
+ * Nothing is predicted while a sleep timer is running.
+ */
+export function predictNextNap(events: EventSpanEvent[], now = new Date()): EventPrediction | null {
+  const sleeps = events
+    .filter(event => event.type === EventType.SLEEP)
+    .map(event => ({ ...getEventSpan(event), isOngoing: !!event.timer }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  if (sleeps.length === 0 || sleeps[sleeps.length - 1].isOngoing) {
+    return null;
+  }
+
+  const wakeWindows: number[] = [];
+  for (let i = 1; i < sleeps.length; i++) {
+    const wokeAt = sleeps[i - 1].end;
+    if (!wokeAt) continue;
+    const wakeWindow = minutesBetween(wokeAt, sleeps[i].start);
+    if (wakeWindow > 0 && wakeWindow <= MAX_WAKE_WINDOW_MINUTES) {
+      wakeWindows.push(wakeWindow);
+    }
+  }
+
+  const lastWokeAt = sleeps[sleeps.length - 1].end;
+  return lastWokeAt ? predictNext(EventType.SLEEP, lastWokeAt, wakeWindows, now) : null;
+}
+
+/**
+ * Feeding and nap predictions from events ordered oldest first, as /api/stats loads them.
+ */
+export function buildPredictions(events: EventSpanEvent[], timeZone: string, now = new Date()): EventPredictions {
+  return {
+    feeding: predictNextFeeding(events, now),
+    nap: predictNextNap(events, now),
+    timeZone,
+  };
+}
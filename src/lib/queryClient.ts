@@ -1,3 +1,5 @@
+import { offlineQueue } from './offlineQueue';
+
 // Local storage cache manager for offline-first data handling
 interface CacheEntry<T = any> {
   data: T;
@@ -157,7 +159,8 @@ class LocalCacheManager {
       return;
     }
 
-    // Trigger sync for events
+    // Replay anything queued while offline right away, then keep retrying on an interval
+    this.performBackgroundSync('events');
     this.scheduleSync('events', SYNC_INTERVALS.EVENTS);
   }
 
@@ -181,8 +184,25 @@ class LocalCacheManager {
 
   // Perform background sync for specific data type
   private async performBackgroundSync(dataType: string): Promise<void> {
-    // This will be implemented when we add the API integration
-    console.log(`Background sync triggered for: ${dataType}`);
+    if (dataType !== 'events' || this.syncStatus.syncInProgress) {
+      return;
+    }
+
+    this.syncStatus.syncInProgress = true;
+    try {
+      const replayed = await offlineQueue.replay();
+      const remaining = await offlineQueue.getAll();
+
+      this.syncStatus.pendingChanges = remaining.length;
+      if (replayed > 0) {
+        this.syncStatus.lastSync = Date.now();
+      }
+    } catch (error) {
+      console.warn('Background sync error:', error);
+    } finally {
+      this.syncStatus.syncInProgress = false;
+      this.saveSyncStatus();
+    }
   }
 }
 
@@ -0,0 +1,399 @@
+import { format } from 'date-fns';
+import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFImage } from 'pdf-lib';
+import { buildDailyStats, getStatsAverages, type DailyStats, type StatsAverages, type StatsEvent } from '@/lib/stats';
+import { SYMPTOM_SEVERITIES, SYMPTOMS } from '@/lib/illness';
+import { getZonedDateTime } from '@/lib/timezone';
+import { OtherEventType, type SymptomSeverity } from '@/types/baby-events';
+
+// Longest range a report covers, so a checkup printout stays a few pages
+export const MAX_REPORT_DAYS = 92;
+export const DEFAULT_REPORT_DAYS = 14;
+
+// Other events a pediatrician will want to read
+const NOTE_EVENT_TYPES: string[] = [OtherEventType.SYMPTOM, OtherEventType.DOCTOR_VISIT];
+
+export interface ReportEvent extends StatsEvent {
+  notes: string | null;
+  diaperEvent?: { wet: number; dirty: number; color: string | null; consistency: string | null } | null;
+  otherEvent?: { eventType: string; description: string } | null;
+  symptomEvent?: { symptom: string; severity: string; description: string | null } | null;
+}
+
+export interface ReportPhoto {
+  url: string;
+  caption: string | null;
+  occurredAt: Date;
+  timezone: string;
+  image?: { bytes: Uint8Array; format: 'jpg' | 'png' } | null; // Loaded with loadReportPhoto
+}
+
+export interface ReportDay extends DailyStats {
+  averageFeedingInterval?: number; // minutes between the starts of consecutive feedings
+  longestFeedingInterval?: number;
+}
+
+export interface ReportNote {
+  date: string;
+  time: string;
+  eventType: string;
+  description: string;
+  notes: string | null;
+}
+
+export interface VisitReport {
+  groupName: string;
+  childName?: string;
+  childBirthDate?: Date | null;
+  from: string;
+  to: string;
+  timeZone: string;
+  days: ReportDay[];
+  averages: StatsAverages;
+  diaperColors: Record<string, number>;
+  diaperConsistencies: Record<string, number>;
+  notes: ReportNote[];
+  photos: ReportPhoto[];
+  generatedAt: Date;
+}
+
+/**
+ * Number of calendar days from one 'yyyy-MM-dd' date to another, inclusive.
+ */
+export function getReportDayCount(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+const countBy = (values: (string | null | undefined)[]) =>
+  values.reduce<Record<string, number>>((counts, value) => {
+    const key = value || 'not noted';
+    counts[key] = (counts[key] || 0) + 1;
+    return counts;
+  }, {});
+
+/**
+ * Everything the printable checkup report shows, from events ordered oldest first.
+ * Daily totals come from the same aggregation as /api/stats.
+ */
+export function buildVisitReport(input: {
+  events: ReportEvent[];
+  photos: ReportPhoto[];
+  from: string;
+  to: string;
+  timeZone: string;
+  groupName: string;
+  childName?: string;
+  childBirthDate?: Date | null;
+}): VisitReport {
+  const { events, from, timeZone } = input;
+  const dailyStats = buildDailyStats(events, from, getReportDayCount(from, input.to), timeZone);
+
+  // Each gap belongs to the day of the feeding that ended it
+  const intervalsByDay: Record<string, number[]> = {};
+  const feedings = events.filter(event => event.type === 'feeding');
+  for (let i = 1; i < feedings.length; i++) {
+    const date = getZonedDateTime(feedings[i].occurredAt, timeZone).date;
+    const minutes = Math.round((feedings[i].occurredAt.getTime() - feedings[i - 1].occurredAt.getTime()) / 60000);
+    (intervalsByDay[date] ||= []).push(minutes);
+  }
+
+  const days: ReportDay[] = dailyStats.map(day => {
+    const intervals = intervalsByDay[day.date];
+    return intervals
+      ? {
+        ...day,
+        averageFeedingInterval: Math.round(intervals.reduce((sum, value) => sum + value, 0) / intervals.length),
+        longestFeedingInterval: Math.max(...intervals),
+      }
+      : day;
+  });
+
+  const diapers = events.filter(event => event.type === 'diaper' && event.diaperEvent);
+  const dirtyDiapers = diapers.filter(event => event.diaperEvent!.dirty > 0);
+
+  const notes: ReportNote[] = events.flatMap(event => {
+    const local = getZonedDateTime(event.occurredAt, timeZone);
+    if (event.symptomEvent) {
+      const { symptom, severity, description } = event.symptomEvent;
+      const name = SYMPTOMS[symptom] || symptom;
+      const level = SYMPTOM_SEVERITIES[severity as SymptomSeverity] || severity;
+      return [{
+        ...local,
+        eventType: OtherEventType.SYMPTOM,
+        description: `${name} (${level.toLowerCase()})${description ? `: ${description}` : ''}`,
+        notes: event.notes,
+      }];
+    }
+    if (event.otherEvent && NOTE_EVENT_TYPES.includes(event.otherEvent.eventType)) {
+      return [{ ...local, eventType: event.otherEvent.eventType, description: event.otherEvent.description, notes: event.notes }];
+    }
+    return [];
+  });
+
+  return {
+    groupName: input.groupName,
+    childName: input.childName,
+    childBirthDate: input.childBirthDate,
+    from,
+    to: input.to,
+    timeZone,
+    days,
+    averages: getStatsAverages(dailyStats),
+    // Only dirty diapers say anything about stool color and consistency
+    diaperColors: countBy(dirtyDiapers.map(event => event.diaperEvent!.color)),
+    diaperConsistencies: countBy(dirtyDiapers.map(event => event.diaperEvent!.consistency)),
+    notes,
+    photos: input.photos,
+    generatedAt: new Date(),
+  };
+}
+
+export const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatMinutes = (minutes?: number) => {
+  if (!minutes) return '—';
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), 'EEE MMM d');
+
+const PAGE_WIDTH = 595.28; // A4, in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const PHOTO_GAP = 12;
+const PHOTOS_PER_ROW = 3;
+const PHOTO_FETCH_TIMEOUT_MS = 10 * 1000;
+
+// Most photos a report embeds, so building it stays quick
+export const MAX_REPORT_PHOTOS = 12;
+
+const COLORS = {
+  text: rgb(0.07, 0.09, 0.15),
+  muted: rgb(0.42, 0.45, 0.5),
+  accent: rgb(0.98, 0.81, 0.91),
+  rule: rgb(0.9, 0.91, 0.92),
+};
+
+const DAY_COLUMNS = [
+  { label: 'Day', width: 78 },
+  { label: 'Feedings', width: 48 },
+  { label: 'Amount', width: 52 },
+  { label: 'Nursing', width: 52 },
+  { label: 'Avg gap', width: 52 },
+  { label: 'Longest gap', width: 60 },
+  { label: 'Wet', width: 36 },
+  { label: 'Dirty', width: 36 },
+  { label: 'Sleep', width: 52 },
+];
+
+const NOTE_COLUMNS = [
+  { label: 'When', width: 110 },
+  { label: 'Type', width: 80 },
+  { label: 'Notes', width: CONTENT_WIDTH - 190 },
+];
+
+/**
+ * Download a photo chosen for the report. Anything that isn't a JPEG or PNG, or
+ * doesn't arrive in time, is left out of the report rather than failing it.
+ */
+export async function loadReportPhoto(url: string): Promise<ReportPhoto['image']> {
+  if (!url.startsWith('https://')) return null;
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(PHOTO_FETCH_TIMEOUT_MS) });
+    if (!response.ok) return null;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    // Go by the file's own signature rather than the content type it was served with
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return { bytes, format: 'jpg' };
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return { bytes, format: 'png' };
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The report as a printable PDF, built on the server with the standard PDF fonts.
+ */
+export async function renderVisitReportPdf(report: VisitReport): Promise<Uint8Array> {
+  const generated = getZonedDateTime(report.generatedAt, report.timeZone);
+  const title = `${report.childName || report.groupName} — ${formatDay(report.from)} to ${formatDay(report.to)}`;
+
+  const doc = await PDFDocument.create();
+  doc.setTitle(title);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  // The standard fonts only cover Latin text, so emoji and other scripts are dropped
+  const supported = new Set(font.getCharacterSet());
+  const clean = (text: string) =>
+    [...text.replace(/\s+/g, ' ')].filter(char => supported.has(char.codePointAt(0)!)).join('').trim();
+
+  let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+      return true;
+    }
+    return false;
+  };
+
+  const wrap = (text: string, size: number, width: number, textFont: PDFFont = font) => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of clean(text).split(' ')) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && textFont.widthOfTextAtSize(next, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    return line ? [...lines, line] : lines;
+  };
+
+  const writeText = (text: string, { size = 10, textFont = font, color = COLORS.text } = {}) => {
+    for (const line of wrap(text, size, CONTENT_WIDTH, textFont)) {
+      ensureSpace(size * 1.4);
+      y -= size * 1.4;
+      page.drawText(line, { x: MARGIN, y, size, font: textFont, color });
+    }
+  };
+
+  const writeHeading = (text: string) => {
+    ensureSpace(40);
+    y -= 24;
+    page.drawText(clean(text), { x: MARGIN, y, size: 13, font: bold, color: COLORS.text });
+    y -= 6;
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 2, color: COLORS.accent });
+    y -= 4;
+  };
+
+  const writeTable = (columns: { label: string; width: number }[], rows: string[][], size = 9) => {
+    const lineHeight = size * 1.35;
+    const drawRow = (cells: string[], textFont: PDFFont, color = COLORS.text) => {
+      const wrapped = cells.map((cell, index) => wrap(cell, size, columns[index].width - 6, textFont));
+      const height = Math.max(1, ...wrapped.map(lines => lines.length)) * lineHeight + 6;
+      const top = y;
+      let x = MARGIN;
+      wrapped.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => {
+          page.drawText(line, { x, y: top - (lineIndex + 1) * lineHeight, size, font: textFont, color });
+        });
+        x += columns[index].width;
+      });
+      y -= height;
+      page.drawLine({ start: { x: MARGIN, y: y + 2 }, end: { x: PAGE_WIDTH - MARGIN, y: y + 2 }, thickness: 0.5, color: COLORS.rule });
+      return height;
+    };
+    const header = () => drawRow(columns.map(column => column.label), bold, COLORS.muted);
+
+    ensureSpace(lineHeight * 3);
+    header();
+    for (const row of rows) {
+      const lines = Math.max(...row.map((cell, index) => wrap(cell, size, columns[index].width - 6).length));
+      // Rows don't split across pages, and each page gets the column names again
+      if (ensureSpace(Math.max(1, lines) * lineHeight + 6)) {
+        header();
+      }
+      drawRow(row, font);
+    }
+  };
+
+  const writeCounts = (label: string, counts: Record<string, number>) => {
+    const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+    writeText(label, { textFont: bold });
+    writeText(entries.length > 0
+      ? entries.map(([name, count]) => `${name}: ${count}`).join('   ')
+      : 'No dirty diapers recorded.', { color: entries.length > 0 ? COLORS.text : COLORS.muted });
+  };
+
+  writeText(title, { size: 18, textFont: bold });
+  writeText(
+    `${report.groupName}${report.childBirthDate ? ` • Born ${format(report.childBirthDate, 'MMM d, yyyy')}` : ''}`
+    + ` • Times in ${report.timeZone} • Generated ${formatDay(generated.date)} ${generated.time}`,
+    { size: 9, color: COLORS.muted }
+  );
+
+  writeHeading('Daily averages');
+  writeText(
+    `Feedings: ${report.averages.feedingsPerDay}/day   Bottle amount: ${report.averages.amountPerDay} ml/day   `
+    + `Diapers: ${report.averages.diapersPerDay}/day   Sleep: ${formatMinutes(Math.round(report.averages.sleepPerDay))}/day`
+  );
+
+  writeHeading('Day by day');
+  writeTable(DAY_COLUMNS, report.days.map(day => [
+    formatDay(day.date),
+    String(day.totalFeedings),
+    day.totalAmount ? `${day.totalAmount} ml` : '—',
+    formatMinutes(day.totalFeedingDuration),
+    formatMinutes(day.averageFeedingInterval),
+    formatMinutes(day.longestFeedingInterval),
+    String(day.wetDiapers),
+    String(day.dirtyDiapers),
+    formatMinutes(day.totalSleep),
+  ]));
+
+  writeHeading('Dirty diapers');
+  writeCounts('Color', report.diaperColors);
+  writeCounts('Consistency', report.diaperConsistencies);
+
+  writeHeading('Symptoms and doctor visits');
+  if (report.notes.length > 0) {
+    writeTable(NOTE_COLUMNS, report.notes.map(note => [
+      `${formatDay(note.date)} ${note.time}`,
+      note.eventType.replace('_', ' '),
+      note.notes ? `${note.description} — ${note.notes}` : note.description,
+    ]));
+  } else {
+    writeText('Nothing recorded in this period.', { color: COLORS.muted });
+  }
+
+  const photos: { image: PDFImage; caption: string }[] = [];
+  for (const photo of report.photos) {
+    if (!photo.image) continue;
+    try {
+      const image = photo.image.format === 'jpg' ? await doc.embedJpg(photo.image.bytes) : await doc.embedPng(photo.image.bytes);
+      const local = getZonedDateTime(photo.occurredAt, photo.timezone);
+      photos.push({ image, caption: `${formatDay(local.date)} ${local.time}${photo.caption ? ` — ${photo.caption}` : ''}` });
+    } catch {
+      // A damaged file leaves out that one photo
+    }
+  }
+
+  if (photos.length > 0) {
+    writeHeading('Photos');
+    const cellWidth = (CONTENT_WIDTH - PHOTO_GAP * (PHOTOS_PER_ROW - 1)) / PHOTOS_PER_ROW;
+    for (let i = 0; i < photos.length; i += PHOTOS_PER_ROW) {
+      const row = photos.slice(i, i + PHOTOS_PER_ROW).map(photo => ({
+        ...photo,
+        size: photo.image.scaleToFit(cellWidth, cellWidth),
+        lines: wrap(photo.caption, 8, cellWidth),
+      }));
+      const imageHeight = Math.max(...row.map(photo => photo.size.height));
+      const captionHeight = Math.max(...row.map(photo => photo.lines.length)) * 10;
+      ensureSpace(imageHeight + captionHeight + PHOTO_GAP * 2);
+      y -= PHOTO_GAP;
+
+      row.forEach((photo, index) => {
+        const x = MARGIN + index * (cellWidth + PHOTO_GAP);
+        page.drawImage(photo.image, { x, y: y - photo.size.height, width: photo.size.width, height: photo.size.height });
+        photo.lines.forEach((line, lineIndex) => {
+          page.drawText(line, { x, y: y - imageHeight - 10 - lineIndex * 10, size: 8, font, color: COLORS.muted });
+        });
+      });
+      y -= imageHeight + captionHeight + 4;
+    }
+  }
+
+  return doc.save();
+}
@@ -0,0 +1,43 @@
+// Browser side of the service worker in public/sw.js, which caches the app shell and
+// event data for offline use, queues event writes it can't send, and shows push notifications
+
+// Caching is switched off in development so hot reloading never gets stale chunks
+export const SERVICE_WORKER_URL = process.env.NODE_ENV === 'production' ? '/sw.js' : '/sw.js?cache=off';
+
+export type ServiceWorkerMessage =
+  | { type: 'offline-queue-updated' }
+  | { type: 'api-cache-updated'; url: string };
+
+export function isServiceWorkerSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!isServiceWorkerSupported()) return null;
+  return navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+/**
+ * Listen for messages from the service worker. Returns an unsubscribe function.
+ */
+export function onServiceWorkerMessage(listener: (message: ServiceWorkerMessage) => void): () => void {
+  if (!isServiceWorkerSupported()) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type) {
+      listener(event.data as ServiceWorkerMessage);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Forget cached pages and event data, e.g. when signing out on a shared device.
+ */
+export async function clearCachedUserData(): Promise<void> {
+  if (!isServiceWorkerSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage({ type: 'clear-user-data' });
+}
@@ -0,0 +1,109 @@
+import { addDaysToDate, getZonedDateTime } from '@/lib/timezone';
+
+// The fields of an event (with its details) that the daily totals look at
+export interface StatsEvent {
+  type: string;
+  occurredAt: Date;
+  feedingEvent?: { amount: number | null; duration: number | null } | null;
+  diaperEvent?: { wet: number; dirty: number } | null;
+  sleepEvent?: { duration: number | null } | null;
+}
+
+export interface DailyStats {
+  date: string; // 'yyyy-MM-dd' in the group's timezone
+  totalFeedings: number;
+  totalAmount?: number;
+  totalFeedingDuration?: number;
+  totalDiapers: number;
+  wetDiapers: number;
+  dirtyDiapers: number;
+  totalSleep?: number;
+  totalEvents: number;
+}
+
+export interface StatsAverages {
+  feedingsPerDay: number;
+  amountPerDay: number;
+  diapersPerDay: number;
+  sleepPerDay: number;
+}
+
+export const EMPTY_AVERAGES: StatsAverages = {
+  feedingsPerDay: 0,
+  amountPerDay: 0,
+  diapersPerDay: 0,
+  sleepPerDay: 0,
+};
+
+/**
+ * Feeding, diaper and sleep totals for each calendar day from `startDate`, bucketed in the given timezone.
+ */
+export function buildDailyStats(events: StatsEvent[], startDate: string, days: number, timeZone: string): DailyStats[] {
+  const dailyStats: DailyStats[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const dateStr = addDaysToDate(startDate, i);
+
+    const dayEvents = events.filter(event =>
+      getZonedDateTime(event.occurredAt, timeZone).date === dateStr
+    );
+
+    const feedingEvents = dayEvents.filter(e => e.type === 'feeding');
+    const diaperEvents = dayEvents.filter(e => e.type === 'diaper');
+    const sleepEvents = dayEvents.filter(e => e.type === 'sleep');
+
+    const totalAmount = feedingEvents.reduce((sum, event) => {
+      return sum + (event.feedingEvent?.amount || 0);
+    }, 0);
+
+    const totalFeedingDuration = feedingEvents.reduce((sum, event) => {
+      return sum + (event.feedingEvent?.duration || 0);
+    }, 0);
+
+    const totalWetDiapers = diaperEvents.reduce((sum, event) => {
+      return sum + (event.diaperEvent?.wet || 0);
+    }, 0);
+
+    const totalDirtyDiapers = diaperEvents.reduce((sum, event) => {
+      return sum + (event.diaperEvent?.dirty || 0);
+    }, 0);
+
+    const totalSleep = sleepEvents.reduce((sum, event) => {
+      return sum + (event.sleepEvent?.duration || 0);
+    }, 0);
+
+    dailyStats.push({
+      date: dateStr,
+      totalFeedings: feedingEvents.length,
+      totalAmount: totalAmount > 0 ? totalAmount : undefined,
+      totalFeedingDuration: totalFeedingDuration > 0 ? totalFeedingDuration : undefined,
+      totalDiapers: totalWetDiapers + totalDirtyDiapers,
+      wetDiapers: totalWetDiapers,
+      dirtyDiapers: totalDirtyDiapers,
+      totalSleep: totalSleep > 0 ? totalSleep : undefined,
+      totalEvents: dayEvents.length,
+    });
+  }
+
+  return dailyStats;
+}
+
+/**
+ * Per-day averages over the days that have anything recorded.
+ */
+export function getStatsAverages(dailyStats: DailyStats[]): StatsAverages {
+  const totalDays = dailyStats.filter(day => day.totalEvents > 0).length;
+  if (totalDays === 0) {
+    return EMPTY_AVERAGES;
+  }
+
+  const average = (getValue: (day: DailyStats) => number) =>
+    Math.round(dailyStats.reduce((sum, day) => sum + getValue(day), 0) / totalDays * 10) / 10;
+
+  return {
+    feedingsPerDay: average(day => day.totalFeedings),
+    amountPerDay: average(day => day.totalAmount || 0),
+    diapersPerDay: average(day => day.totalDiapers),
+    sleepPerDay: average(day => day.totalSleep || 0),
+  };
+}
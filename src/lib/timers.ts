@@ -0,0 +1,38 @@
+import { EventType } from '@/types';
+
+// Event types that can be tracked with a live timer
+export const TIMER_EVENT_TYPES = [EventType.FEEDING, EventType.SLEEP] as const;
+
+export const TIMER_ACTIONS = ['pause', 'resume', 'switch_side', 'stop'] as const;
+export type TimerAction = typeof TIMER_ACTIONS[number];
+
+interface TimerState {
+  status: string;
+  startedAt: string | Date;
+  pausedAt?: string | Date | null;
+  pausedMs: number;
+}
+
+/**
+ * Milliseconds the timer has actually been running, excluding pauses.
+ */
+export function getTimerElapsedMs(timer: TimerState, now: Date = new Date()): number {
+  const startedAt = new Date(timer.startedAt).getTime();
+  // While paused the clock stops at the moment the pause began
+  const end = timer.status === 'paused' && timer.pausedAt
+    ? new Date(timer.pausedAt).getTime()
+    : now.getTime();
+  return Math.max(0, end - startedAt - timer.pausedMs);
+}
+
+/**
+ * Format elapsed milliseconds as a stopwatch, e.g. "12:05" or "1:02:30".
+ */
+export function formatTimerElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
@@ -0,0 +1,175 @@
+// Used for groups and events recorded before timezones were tracked
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2})?$/;
+
+export interface ZonedDateTime {
+  date: string; // 'yyyy-MM-dd'
+  time: string; // 'HH:mm'
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The IANA timezone of the device we're running on, e.g. "Europe/London".
+ */
+export function getLocalTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(part => part.type === type)?.value || '00';
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+}
+
+/**
+ * Wall-clock date and time of an instant in the given timezone.
+ */
+export function getZonedDateTime(instant: Date, timeZone: string): ZonedDateTime {
+  const parts = getZonedParts(instant, timeZone);
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+/**
+ * The instant a wall-clock date and time happened in the given timezone.
+ * Times skipped by a DST jump land on the nearest real time instead.
+ */
+export function zonedDateTimeToInstant(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset can differ either side of a DST change, so check it again at the result
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const secondOffset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(wallClock - secondOffset);
+}
+
+/**
+ * First instant of a calendar day in the given timezone.
+ */
+export function startOfZonedDay(date: string, timeZone: string): Date {
+  return zonedDateTimeToInstant(date, '00:00', timeZone);
+}
+
+/**
+ * The 'yyyy-MM-dd' an event's stored `date` stands for. It holds the local day at UTC
+ * midnight, so reading it in the device's timezone would land west of UTC a day early.
+ */
+export function getEventLocalDate(date: string | Date): string {
+  return (typeof date === 'string' ? date : date.toISOString()).slice(0, 10);
+}
+
+/**
+ * Shift a 'yyyy-MM-dd' calendar date by whole days.
+ */
+export function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+export interface EventTimestampInput {
+  occurredAt?: string | Date | null;
+  date?: string | null;
+  time?: string | null;
+  timezone?: string | null;
+}
+
+export interface EventTimestamp {
+  occurredAt: Date;
+  timezone: string;
+  date: Date; // Local calendar day at UTC midnight, for day filters
+  time: string; // Local 'HH:mm'
+}
+
+/**
+ * Work out when an event happened from either an exact instant or a local date and time.
+ * The wall-clock fields are read in the event's own timezone, falling back to the given one.
+ */
+export function resolveEventTimestamp(
+  input: EventTimestampInput,
+  fallbackTimeZone: string = DEFAULT_TIMEZONE
+): { timestamp: EventTimestamp; error?: undefined } | { timestamp?: undefined; error: string } {
+  if (input.timezone && !isValidTimeZone(input.timezone)) {
+    return { error: `Unknown timezone: ${input.timezone}` };
+  }
+  const timezone = input.timezone || (isValidTimeZone(fallbackTimeZone) ? fallbackTimeZone : DEFAULT_TIMEZONE);
+
+  let occurredAt: Date;
+  if (input.occurredAt) {
+    occurredAt = new Date(input.occurredAt);
+  } else if (input.date && input.time) {
+    // Forms may send a full ISO string for the date
+    const date = input.date.split('T')[0];
+    if (!DATE_PATTERN.test(date) || !TIME_PATTERN.test(input.time)) {
+      return { error: 'Date must be yyyy-MM-dd and time must be HH:mm' };
+    }
+    occurredAt = zonedDateTimeToInstant(date, input.time.slice(0, 5), timezone);
+  } else {
+    return { error: 'A date and time are required' };
+  }
+
+  if (isNaN(occurredAt.getTime())) {
+    return { error: 'Invalid timestamp provided' };
+  }
+
+  const local = getZonedDateTime(occurredAt, timezone);
+  return {
+    timestamp: {
+      occurredAt,
+      timezone,
+      date: new Date(`${local.date}T00:00:00.000Z`),
+      time: local.time,
+    },
+  };
+}
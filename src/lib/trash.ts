@@ -0,0 +1,19 @@
+import { subDays } from 'date-fns';
+
+// How long deleted events stay in the trash before the purge script removes them
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Events deleted before this moment are due to be purged.
+ */
+export function getPurgeCutoff(retentionDays: number = TRASH_RETENTION_DAYS, now: Date = new Date()): Date {
+  return subDays(now, retentionDays);
+}
+
+/**
+ * Whole days left before a trashed event is purged (0 once it's due).
+ */
+export function getDaysUntilPurge(deletedAt: string | Date, retentionDays: number = TRASH_RETENTION_DAYS, now: Date = new Date()): number {
+  const purgeAt = new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / (24 * 60 * 60 * 1000)));
+}
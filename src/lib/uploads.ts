@@ -0,0 +1,118 @@
+import { subHours } from 'date-fns';
+import type { PrismaClient } from '@prisma/client';
+
+// The image uploader sends the group it's uploading for in this header
+export const UPLOAD_GROUP_HEADER = 'x-group-id';
+
+// Uploads no event or profile has claimed within this long were abandoned with their form
+export const PENDING_UPLOAD_RETENTION_HOURS = 24;
+
+interface UploadedImage {
+  key: string;
+  url: string;
+}
+
+// A photo as an event is saved with it, checked and tidied by parseImagesInput
+export interface EventImageInput extends UploadedImage {
+  name: string;
+  size: number;
+  caption: string | null;
+  tags: string[] | null;
+  uploadedAt: Date | null; // null lets the database stamp it
+}
+
+const IMAGE_SHAPE_ERROR = 'Photos must be a list of uploaded images';
+
+/**
+ * The `images` of an event request body. Missing means the photos aren't being changed;
+ * anything that isn't a list of uploaded images is refused rather than half-saved.
+ */
+export function parseImagesInput(images: unknown): { data?: EventImageInput[]; error?: string } {
+  if (images === undefined || images === null) return {};
+  if (!Array.isArray(images)) return { error: IMAGE_SHAPE_ERROR };
+
+  const data: EventImageInput[] = [];
+  for (const image of images as unknown[]) {
+    if (!image || typeof image !== 'object') return { error: IMAGE_SHAPE_ERROR };
+    const { url, key, name, size, caption, tags, uploadedAt } = image as Record<string, unknown>;
+
+    if (typeof url !== 'string' || !url) return { error: IMAGE_SHAPE_ERROR };
+    if (key !== undefined && typeof key !== 'string') return { error: IMAGE_SHAPE_ERROR };
+    if (name !== undefined && typeof name !== 'string') return { error: IMAGE_SHAPE_ERROR };
+    if (size !== undefined && (typeof size !== 'number' || !Number.isFinite(size) || size < 0)) {
+      return { error: IMAGE_SHAPE_ERROR };
+    }
+    if (caption !== undefined && caption !== null && typeof caption !== 'string') return { error: IMAGE_SHAPE_ERROR };
+    if (tags !== undefined && tags !== null && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+      return { error: IMAGE_SHAPE_ERROR };
+    }
+
+    const uploadedDate = typeof uploadedAt === 'string' ? new Date(uploadedAt) : null;
+    data.push({
+      url,
+      key: key || '',
+      name: name || 'image',
+      size: size ?? 0,
+      caption: caption || null,
+      tags: tags ? (tags as string[]) : null,
+      uploadedAt: uploadedDate && !isNaN(uploadedDate.getTime()) ? uploadedDate : null,
+    });
+  }
+  return { data };
+}
+
+/**
+ * Keys of images an event is being saved with that this user didn't upload to this
+ * group, or that another event already claimed. The event shouldn't be saved with them.
+ */
+export async function findUnownedImageKeys(
+  db: Pick<PrismaClient, 'pendingUpload'>,
+  userId: string,
+  groupId: string,
+  images: UploadedImage[]
+): Promise<string[]> {
+  if (images.length === 0) return [];
+
+  const uploads = await db.pendingUpload.findMany({
+    where: { userId, groupId, key: { in: images.map(image => image.key) } },
+    select: { key: true, url: true },
+  });
+
+  return images
+    .filter(image => !uploads.some(upload => upload.key === image.key && upload.url === image.url))
+    .map(image => image.key || image.url);
+}
+
+/**
+ * Once an event holds the images their uploads are no longer pending.
+ */
+export async function claimPendingUploads(
+  db: Pick<PrismaClient, 'pendingUpload'>,
+  keys: string[]
+): Promise<void> {
+  if (keys.length === 0) return;
+  await db.pendingUpload.deleteMany({ where: { key: { in: keys } } });
+}
+
+/**
+ * Profile photos are saved by URL rather than key, so their uploads are claimed by it.
+ */
+export async function claimPendingPhoto(
+  db: Pick<PrismaClient, 'pendingUpload'>,
+  userId: string,
+  groupId: string,
+  url: string | null
+): Promise<void> {
+  if (!url) return;
+  await db.pendingUpload.deleteMany({ where: { userId, groupId, url } });
+}
+
+/**
+ * Pending uploads from before this moment are due to be deleted, files and all.
+ */
+export function getStaleUploadCutoff(
+  retentionHours: number = PENDING_UPLOAD_RETENTION_HOURS,
+  now: Date = new Date()
+): Date {
+  return subHours(now, retentionHours);
+}
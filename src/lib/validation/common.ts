@@ -0,0 +1,60 @@
+import { isValidTimeZone } from '@/lib/timezone';
+
+// Field name -> message, keyed the same way the forms show their errors
+export type FieldErrors = Record<string, string>;
+
+// API bodies are untrusted JSON, so every field has to be checked before use
+export type EventPayload = Record<string, unknown>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+export function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * True when the value is exactly one of the allowed options.
+ */
+export function isOneOf(value: unknown, options: readonly unknown[]): boolean {
+  return options.includes(value);
+}
+
+/**
+ * True for a finite number within the given range (inclusive).
+ */
+export function isNumberInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Date and time every event needs. An exact `occurredAt` instant can stand in for both.
+ */
+export function validateEventTiming(data: EventPayload): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (!isBlank(data.timezone) && !isValidTimeZone(data.timezone)) {
+    errors.timezone = `Unknown timezone: ${data.timezone}`;
+  }
+
+  if (!isBlank(data.occurredAt)) {
+    if (typeof data.occurredAt !== 'string' || isNaN(new Date(data.occurredAt).getTime())) {
+      errors.occurredAt = 'Invalid timestamp provided';
+    }
+    return errors;
+  }
+
+  if (isBlank(data.date)) {
+    errors.date = 'Date is required';
+  } else if (typeof data.date !== 'string' || !DATE_PATTERN.test(data.date) || isNaN(new Date(data.date).getTime())) {
+    errors.date = 'Date must be in YYYY-MM-DD format';
+  }
+
+  if (isBlank(data.time)) {
+    errors.time = 'Time is required';
+  } else if (typeof data.time !== 'string' || !TIME_PATTERN.test(data.time)) {
+    errors.time = 'Time must be in HH:mm format';
+  }
+
+  return errors;
+}
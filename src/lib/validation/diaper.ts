@@ -0,0 +1,31 @@
+import { isBlank, isNumberInRange, type EventPayload, type FieldErrors } from './common';
+
+const MAX_COUNT = 10;
+const MAX_DETAIL_LENGTH = 100;
+const DETAIL_FIELDS = ['color', 'texture', 'consistency'] as const;
+
+export function validateDiaper(data: EventPayload): FieldErrors {
+  const errors: FieldErrors = {};
+  const wet = isBlank(data.wet) ? 0 : data.wet;
+  const dirty = isBlank(data.dirty) ? 0 : data.dirty;
+
+  if (!Number.isInteger(wet) || !isNumberInRange(wet, 0, MAX_COUNT)) {
+    errors.wet = `Wet count must be a whole number from 0 to ${MAX_COUNT}`;
+  }
+  if (!Number.isInteger(dirty) || !isNumberInRange(dirty, 0, MAX_COUNT)) {
+    errors.dirty = `Dirty count must be a whole number from 0 to ${MAX_COUNT}`;
+  }
+  if (!errors.wet && !errors.dirty && wet === 0 && dirty === 0) {
+    errors.type = 'Please select at least wet or dirty diaper';
+  }
+
+  const details = (data.diaperDetails && typeof data.diaperDetails === 'object' ? data.diaperDetails : {}) as Record<string, unknown>;
+  for (const field of DETAIL_FIELDS) {
+    const value = details[field];
+    if (!isBlank(value) && (typeof value !== 'string' || value.length > MAX_DETAIL_LENGTH)) {
+      errors[`diaperDetails.${field}`] = `Diaper ${field} must be text up to ${MAX_DETAIL_LENGTH} characters`;
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,48 @@
+import { FeedingType } from '@/types/baby-events';
+import { isBlank, isNumberInRange, isOneOf, type EventPayload, type FieldErrors } from './common';
+
+const FEEDING_SIDES = ['left', 'right', 'both'];
+const MAX_AMOUNT_ML = 1000;
+export const FEEDING_MAX_DURATION_MINUTES = 300;
+
+export function requiresFeedingAmount(feedingType: unknown): boolean {
+  return feedingType !== FeedingType.BREASTFED;
+}
+
+export function requiresFeedingDuration(feedingType: unknown): boolean {
+  return feedingType === FeedingType.BREASTFED || feedingType === FeedingType.MIXED;
+}
+
+export function validateFeeding(data: EventPayload): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (!isOneOf(data.feedingType, Object.values(FeedingType))) {
+    errors.feedingType = 'Please choose how baby was fed';
+  }
+
+  if (isBlank(data.amount)) {
+    if (requiresFeedingAmount(data.feedingType)) {
+      errors.amount = 'Amount is required and must be greater than 0';
+    }
+  } else if (!isNumberInRange(data.amount, 1, MAX_AMOUNT_ML)) {
+    errors.amount = `Amount must be between 1 and ${MAX_AMOUNT_ML} ml`;
+  }
+
+  if (isBlank(data.duration)) {
+    if (requiresFeedingDuration(data.feedingType)) {
+      errors.duration = 'Duration is required and must be greater than 0';
+    }
+  } else if (!isNumberInRange(data.duration, 1, FEEDING_MAX_DURATION_MINUTES)) {
+    errors.duration = `Duration must be between 1 and ${FEEDING_MAX_DURATION_MINUTES} minutes`;
+  }
+
+  if (isBlank(data.side)) {
+    if (data.feedingType === FeedingType.BREASTFED) {
+      errors.side = 'Please select which side was used for breastfeeding';
+    }
+  } else if (!isOneOf(data.side, FEEDING_SIDES)) {
+    errors.side = 'Side must be left, right or both';
+  }
+
+  return errors;
+}
@@ -0,0 +1,7 @@
+import { validateGrowthMeasurement } from '@/lib/growth';
+import { type EventPayload, type FieldErrors } from './common';
+
+export function validateGrowth(data: EventPayload): FieldErrors {
+  const measurementError = validateGrowthMeasurement(data);
+  return measurementError ? { measurements: measurementError } : {};
+}
@@ -0,0 +1,68 @@
+import { EventType } from '@/types/baby-events';
+import { validateEventTiming, type EventPayload, type FieldErrors } from './common';
+import { validateFeeding } from './feeding';
+import { validateDiaper } from './diaper';
+import { validateSleep } from './sleep';
+import { validateOther } from './other';
+import { validateGrowth } from './growth';
+import { validateMedication } from './medication';
+import { validatePumping } from './pumping';
+import { validateTemperature } from './temperature';
+import { validateSymptom } from './symptom';
+
+export type { FieldErrors, EventPayload } from './common';
+export { FEEDING_MAX_DURATION_MINUTES, requiresFeedingAmount, requiresFeedingDuration } from './feeding';
+export { SLEEP_MAX_DURATION_MINUTES } from './sleep';
+export { validateTimerStart } from './timer';
+
+// One validator per event type, shared by the forms and the events API
+const EVENT_VALIDATORS: Record<EventType, (data: EventPayload) => FieldErrors> = {
+  [EventType.FEEDING]: validateFeeding,
+  [EventType.DIAPER]: validateDiaper,
+  [EventType.SLEEP]: validateSleep,
+  [EventType.OTHER]: validateOther,
+  [EventType.GROWTH]: validateGrowth,
+  [EventType.MEDICATION]: validateMedication,
+  [EventType.PUMPING]: validatePumping,
+  [EventType.TEMPERATURE]: validateTemperature,
+  [EventType.SYMPTOM]: validateSymptom,
+};
+
+export const VALIDATION_FAILED_MESSAGE = 'Please fix the highlighted fields';
+
+/**
+ * Check an event payload in the same shape the forms submit. Takes form state as well as
+ * parsed request bodies; either way every field is checked before it's trusted.
+ * Pass `requireTiming: false` for updates that keep the event's existing date and time.
+ */
+export function validateEventPayload(
+  type: unknown,
+  data: object,
+  { requireTiming = true }: { requireTiming?: boolean } = {}
+): FieldErrors {
+  const validator = EVENT_VALIDATORS[type as EventType];
+  if (!validator) {
+    return { type: `Unknown event type: ${String(type)}` };
+  }
+
+  const payload = data as EventPayload;
+  const hasTiming = ['occurredAt', 'date', 'time'].some(field => payload[field] !== undefined);
+  return {
+    ...(requireTiming || hasTiming ? validateEventTiming(payload) : {}),
+    ...validator(payload),
+  };
+}
+
+export function hasFieldErrors(errors: FieldErrors): boolean {
+  return Object.keys(errors).length > 0;
+}
+
+/**
+ * Thrown by pages when the API rejects a payload with field errors, so the form can show them inline.
+ */
+export class EventValidationError extends Error {
+  constructor(public fieldErrors: FieldErrors, message: string = VALIDATION_FAILED_MESSAGE) {
+    super(message);
+    this.name = 'EventValidationError';
+  }
+}
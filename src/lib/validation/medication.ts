@@ -0,0 +1,33 @@
+import { MEDICATION_ROUTES, MEDICATION_UNITS } from '@/lib/medications';
+import { isBlank, isNumberInRange, isOneOf, type EventPayload, type FieldErrors } from './common';
+
+const MAX_NAME_LENGTH = 100;
+
+export function validateMedication(data: EventPayload): FieldErrors {
+  const errors: FieldErrors = {};
+
+  // A logged medication fills these in itself
+  if (isBlank(data.medicationId)) {
+    if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+      errors.name = 'Medicine name is required';
+    } else if (data.name.length > MAX_NAME_LENGTH) {
+      errors.name = `Medicine name must be ${MAX_NAME_LENGTH} characters or fewer`;
+    }
+
+    if (!isOneOf(data.unit, MEDICATION_UNITS)) {
+      errors.unit = 'Unit is required';
+    }
+
+    if (!isOneOf(data.route, Object.keys(MEDICATION_ROUTES))) {
+      errors.route = 'Route is required';
+    }
+  }
+
+  if (!isBlank(data.dose) && !isNumberInRange(data.dose, 0.01, 10000)) {
+    errors.dose = 'Dose must be a positive number';
+  } else if (isBlank(data.dose) && isBlank(data.medicationId)) {
+    errors.dose = 'Dose is required';
+  }
+
+  return errors;
+}
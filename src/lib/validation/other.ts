@@ -0,0 +1,30 @@
+import { OtherEventType } from '@/types/baby-events';
+import { getCatalogMilestone } from '@/lib/milestones';
+import { isBlank, isOneOf, type EventPayload, type FieldErrors } from './common';
+
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+export function validateOther(data: EventPayload): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (!isOneOf(data.eventType, Object.values(OtherEventType))) {
+    errors.eventType = 'Event type is required';
+  }
+
+  if (typeof data.description !== 'string' || data.description.trim().length === 0) {
+    errors.description = 'Description is required';
+  } else if (data.description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.description = `Description must be ${MAX_DESCRIPTION_LENGTH} characters or fewer`;
+  }
+
+  // Only milestones can point at the catalog; an empty key is a custom milestone
+  if (!isBlank(data.milestoneKey)) {
+    if (data.eventType !== OtherEventType.MILESTONE) {
+      errors.milestoneKey = 'Only milestones can be picked from the list';
+    } else if (typeof data.milestoneKey !== 'string' || !getCatalogMilestone(data.milestoneKey)) {
+      errors.milestoneKey = 'Choose a milestone from the list';
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,29 @@
+import { MILK_STORAGE_LOCATIONS } from '@/lib/milkInventory';
+import { isBlank, isNumberInRange, isOneOf, type EventPayload, type FieldErrors } from './common';
+
+const MAX_AMOUNT_ML = 1000;
+const MAX_DURATION_MINUTES = 180;
+
+export function validatePumping(data: EventPayload): FieldErrors {
+  const errors: FieldErrors = {};
+
+  for (const side of ['leftAmount', 'rightAmount'] as const) {
+    if (!isBlank(data[side]) && !isNumberInRange(data[side], 0, MAX_AMOUNT_ML)) {
+      errors[side] = `Amount must be between 0 and ${MAX_AMOUNT_ML} ml`;
+    }
+  }
+
+  if (!errors.leftAmount && !errors.rightAmount && !(Number(data.leftAmount) > 0) && !(Number(data.rightAmount) > 0)) {
+    errors.amount = 'Enter how much was pumped from at least one side';
+  }
+
+  if (!isBlank(data.duration) && !isNumberInRange(data.duration, 1, MAX_DURATION_MINUTES)) {
+    errors.duration = `Duration must be between 1 and ${MAX_DURATION_MINUTES} minutes`;
+  }
+
+  if (!isBlank(data.storeIn) && !isOneOf(data.storeIn, Object.keys(MILK_STORAGE_LOCATIONS))) {
+    errors.storeIn = 'Choose the fridge or the freezer';
+  }
+
+  return errors;
+}
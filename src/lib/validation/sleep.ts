@@ -0,0 +1,40 @@
+import { SleepType } from '@/types/baby-events';
+import { isBlank, isNumberInRange, isOneOf, TIME_PATTERN, type EventPayload, type FieldErrors } from './common';
+
+export const SLEEP_MAX_DURATION_MINUTES = 24 * 60;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function validateSleep(data: EventPayload): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (!isOneOf(data.sleepType, Object.values(SleepType))) {
+    errors.sleepType = 'Sleep type is required';
+  }
+
+  for (const field of ['startTime', 'endTime'] as const) {
+    if (!isBlank(data[field]) && (typeof data[field] !== 'string' || !TIME_PATTERN.test(data[field]))) {
+      errors[field] = 'Time must be in HH:mm format';
+    }
+  }
+
+  // An end time before the start means the sleep ran past midnight
+  const { startTime, endTime } = data;
+  if (!errors.startTime && !errors.endTime && typeof startTime === 'string' && typeof endTime === 'string'
+    && startTime && endTime && toMinutes(endTime) === toMinutes(startTime)) {
+    errors.endTime = 'End time must be different from start time';
+  }
+
+  if (isBlank(data.duration)) {
+    if (!data.startTime || !data.endTime) {
+      errors.duration = 'Please provide either duration or start/end times';
+    }
+  } else if (!isNumberInRange(data.duration, 1, SLEEP_MAX_DURATION_MINUTES)) {
+    errors.duration = `Duration must be between 1 and ${SLEEP_MAX_DURATION_MINUTES} minutes`;
+  }
+
+  return errors;
+}
@@ -0,0 +1,24 @@
+import { SYMPTOM_SEVERITIES, SYMPTOMS } from '@/lib/illness';
+import { isBlank, isOneOf, type EventPayload, type FieldErrors } from './common';
+
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export function validateSymptom(data: EventPayload): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (!isOneOf(data.symptom, Object.keys(SYMPTOMS))) {
+    errors.symptom = 'Choose a symptom';
+  } else if (data.symptom === 'other' && (isBlank(data.description) || !String(data.description).trim())) {
+    errors.description = 'Describe the symptom';
+  }
+
+  if (!isOneOf(data.severity, Object.keys(SYMPTOM_SEVERITIES))) {
+    errors.severity = 'Choose how bad it is';
+  }
+
+  if (!isBlank(data.description) && String(data.description).length > MAX_DESCRIPTION_LENGTH) {
+    errors.description = `Description must be ${MAX_DESCRIPTION_LENGTH} characters or fewer`;
+  }
+
+  return errors;
+}
@@ -0,0 +1,26 @@
+import { CELSIUS_LIMITS, fromCelsius, TEMPERATURE_METHODS, TEMPERATURE_UNITS, toCelsius } from '@/lib/illness';
+import { isBlank, isOneOf, type EventPayload, type FieldErrors } from './common';
+
+export function validateTemperature(data: EventPayload): FieldErrors {
+  const errors: FieldErrors = {};
+
+  const unit = TEMPERATURE_UNITS.find(value => value === data.unit);
+  if (!unit) {
+    errors.unit = 'Choose °C or °F';
+  }
+
+  if (isBlank(data.temperature)) {
+    errors.temperature = 'Please enter the temperature';
+  } else if (unit) {
+    const celsius = typeof data.temperature === 'number' ? toCelsius(data.temperature, unit) : NaN;
+    if (!Number.isFinite(celsius) || celsius < CELSIUS_LIMITS.min || celsius > CELSIUS_LIMITS.max) {
+      errors.temperature = `Temperature must be between ${fromCelsius(CELSIUS_LIMITS.min, unit)} and ${fromCelsius(CELSIUS_LIMITS.max, unit)} °${unit}`;
+    }
+  }
+
+  if (!isOneOf(data.method, Object.keys(TEMPERATURE_METHODS))) {
+    errors.method = 'Choose how the temperature was taken';
+  }
+
+  return errors;
+}
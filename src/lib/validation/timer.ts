@@ -0,0 +1,34 @@
+import { EventType, FeedingType, SleepType } from '@/types/baby-events';
+import { isBlank, isOneOf, type EventPayload, type FieldErrors } from './common';
+
+// A feeding timer runs on one side at a time and switches between them
+const TIMER_SIDES = ['left', 'right'];
+
+/**
+ * What a feeding or sleep timer is started with. The event it creates has to pass
+ * validateFeeding or validateSleep when edited later, so it's held to the same rules.
+ */
+export function validateTimerStart(type: EventType, data: EventPayload): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (type === EventType.SLEEP) {
+    if (!isOneOf(data.sleepType, Object.values(SleepType))) {
+      errors.sleepType = 'Sleep type is required';
+    }
+    return errors;
+  }
+
+  if (!isOneOf(data.feedingType, Object.values(FeedingType))) {
+    errors.feedingType = 'Please choose how baby was fed';
+  }
+
+  if (isBlank(data.side)) {
+    if (data.feedingType === FeedingType.BREASTFED) {
+      errors.side = 'Please select which side to start breastfeeding on';
+    }
+  } else if (!isOneOf(data.side, TIMER_SIDES)) {
+    errors.side = 'Side must be left or right';
+  }
+
+  return errors;
+}
@@ -0,0 +1,180 @@
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from 'crypto';
+
+// How long a push service keeps trying to deliver a message, in seconds
+const DEFAULT_TTL = 60 * 60;
+
+// VAPID tokens may be valid for up to 24 hours; stay well inside that
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+
+// Single-record aes128gcm body, so the record size only has to exceed the payload
+const RECORD_SIZE = 4096;
+
+// Push services browsers hand out endpoints on. The server POSTs to whatever endpoint a
+// client registers, so nothing else is accepted.
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'web.push.apple.com'];
+const PUSH_SERVICE_DOMAINS = ['.push.services.mozilla.com', '.notify.windows.com', '.push.apple.com'];
+
+// Where scripts/pushStub.ts listens during development
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export interface WebPushSubscription {
+  endpoint: string;
+  p256dh: string; // base64url, the browser's P-256 public key
+  auth: string; // base64url, 16-byte secret
+}
+
+export interface WebPushPayload {
+  title: string;
+  body: string;
+  url?: string; // Opened when the notification is clicked
+  tag?: string; // Replaces an earlier notification with the same tag
+}
+
+export interface WebPushResult {
+  statusCode: number;
+  // The push service no longer knows this subscription; it should be deleted
+  gone: boolean;
+}
+
+export interface VapidConfig {
+  publicKey: string; // base64url uncompressed P-256 point, also NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  privateKey: string; // base64url 32-byte scalar
+  subject: string; // mailto: or https: contact for push services
+}
+
+/**
+ * Whether the server may send pushes to `endpoint`: https on a known push service, or
+ * the local push stub outside production.
+ */
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol === 'http:') {
+    return process.env.NODE_ENV !== 'production' && LOOPBACK_HOSTS.includes(url.hostname);
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) {
+    return false;
+  }
+  return PUSH_SERVICE_HOSTS.includes(url.hostname)
+    || PUSH_SERVICE_DOMAINS.some(domain => url.hostname.endsWith(domain));
+}
+
+/**
+ * VAPID keys from the environment, or null when web push isn't configured.
+ */
+export function getVapidConfig(): VapidConfig | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    return null;
+  }
+  return { publicKey, privateKey, subject: process.env.VAPID_SUBJECT || 'mailto:notifications@withgrace.app' };
+}
+
+/**
+ * A fresh VAPID key pair, base64url encoded.
+ */
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+  };
+}
+
+/**
+ * Signed VAPID JWT (RFC 8292) for the push service that owns `endpoint`.
+ */
+export function createVapidAuthorization(endpoint: string, vapid: VapidConfig, now = new Date()): string {
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_LIFETIME_SECONDS,
+    sub: vapid.subject,
+  })}`;
+  const signature = sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypt a payload for one subscription using aes128gcm content encoding (RFC 8291 / RFC 8188).
+ */
+export function encryptPushPayload(subscription: Pick<WebPushSubscription, 'p256dh' | 'auth'>, payload: string): Buffer {
+  const userAgentPublicKey = Buffer.from(subscription.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.auth, 'base64url');
+
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  const salt = randomBytes(16);
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  // 0x02 marks the last (and only) record
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(payload)), cipher.update(Buffer.from([2])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Deliver one notification to one subscription.
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: WebPushPayload,
+  { vapid = getVapidConfig(), ttl = DEFAULT_TTL }: { vapid?: VapidConfig | null; ttl?: number } = {}
+): Promise<WebPushResult> {
+  if (!vapid) {
+    throw new Error('Web push is not configured: set NEXT_PUBLIC_VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY');
+  }
+
+  // Saved before endpoints were checked; never worth sending to, so have it removed
+  if (!isAllowedPushEndpoint(subscription.endpoint)) {
+    return { statusCode: 0, gone: true };
+  }
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: createVapidAuthorization(subscription.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(ttl),
+    },
+    body: new Uint8Array(encryptPushPayload(subscription, JSON.stringify(payload))),
+  });
+
+  return {
+    statusCode: response.status,
+    gone: response.status === 404 || response.status === 410,
+  };
+}
@@ -7,6 +7,16 @@ const isProtectedRoute = createRouteMatcher([
   '/add(.*)',
   '/edit(.*)',
   '/groups(.*)',
+  '/children(.*)',
+  '/medications(.*)',
+  '/milk(.*)',
+  '/immunizations(.*)',
+  '/illness(.*)',
+  '/milestones(.*)',
+  '/trash(.*)',
+  '/import(.*)',
+  '/report(.*)',
+  '/notifications(.*)',
 ]);
 
 const isPublicRoute = createRouteMatcher([
@@ -1,4 +1,5 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { OfflineAction } from '@/lib/offlineQueue';
 
 interface SyncStatus {
   lastSync: number;
@@ -9,12 +10,8 @@ interface SyncStatus {
 
 interface CacheState {
   syncStatus: SyncStatus;
-  offlineActions: Array<{
-    id: string;
-    type: 'create' | 'update' | 'delete';
-    data: any;
-    timestamp: number;
-  }>;
+  offlineActions: OfflineAction[]; // Mirror of the IndexedDB offline queue
+  streamConnected: Record<string, boolean>; // Live update stream status by group id
 }
 
 const initialState: CacheState = {
@@ -25,6 +22,7 @@ const initialState: CacheState = {
     syncInProgress: false,
   },
   offlineActions: [],
+  streamConnected: {},
 };
 
 const cacheSlice = createSlice({
@@ -44,19 +42,21 @@ const cacheSlice = createSlice({
       }
     },
     
-    addOfflineAction: (state, action: PayloadAction<{
-      type: 'create' | 'update' | 'delete';
-      data: any;
-    }>) => {
-      const offlineAction = {
-        id: `offline-${Date.now()}-${Math.random()}`,
-        timestamp: Date.now(),
-        ...action.payload,
-      };
-      
-      state.offlineActions.push(offlineAction);
+    addOfflineAction: (state, action: PayloadAction<OfflineAction>) => {
+      // Queued actions can be folded into an existing pending create
+      const index = state.offlineActions.findIndex(item => item.id === action.payload.id);
+      if (index !== -1) {
+        state.offlineActions[index] = action.payload;
+      } else {
+        state.offlineActions.push(action.payload);
+      }
       state.syncStatus.pendingChanges = state.offlineActions.length;
     },
+
+    setOfflineActions: (state, action: PayloadAction<OfflineAction[]>) => {
+      state.offlineActions = action.payload;
+      state.syncStatus.pendingChanges = action.payload.length;
+    },
     
     removeOfflineAction: (state, action: PayloadAction<string>) => {
       state.offlineActions = state.offlineActions.filter(
@@ -75,6 +75,10 @@ const cacheSlice = createSlice({
     setSyncInProgress: (state, action: PayloadAction<boolean>) => {
       state.syncStatus.syncInProgress = action.payload;
     },
+
+    setStreamStatus: (state, action: PayloadAction<{ groupId: string; connected: boolean }>) => {
+      state.streamConnected[action.payload.groupId] = action.payload.connected;
+    },
   },
 });
 
@@ -82,9 +86,11 @@ export const {
   updateSyncStatus,
   setOnlineStatus,
   addOfflineAction,
+  setOfflineActions,
   removeOfflineAction,
   clearOfflineActions,
   setSyncInProgress,
+  setStreamStatus,
 } = cacheSlice.actions;
 
 export { cacheSlice };
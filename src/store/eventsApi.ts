@@ -1,5 +1,8 @@
 import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { BabyEventWithRelations } from '@/types/baby-events';
+import { BabyEventWithRelations, GroupStreamMessage } from '@/types/baby-events';
+import { offlineQueue } from '@/lib/offlineQueue';
+import { subscribeToGroupStream } from '@/lib/groupStreamClient';
+import { addOfflineAction, setStreamStatus } from './cacheSlice';
 
 // Types for API responses
 export interface EventsResponse {
@@ -15,6 +18,7 @@ export interface EventFilters {
   limit?: number;
   offset?: number;
   groupId?: string;
+  childId?: string;
 }
 
 export interface CreateEventData {
@@ -22,6 +26,8 @@ export interface CreateEventData {
   time: string;
   date: string;
   notes?: string;
+  childId?: string | null;
+  version?: number; // Updates: the version being edited, required by the API
   feedingEvent?: {
     feedingType: string;
     amount?: number;
@@ -45,9 +51,143 @@ export interface CreateEventData {
     eventType: string;
     description: string;
   };
+  growthEvent?: {
+    weight?: number;
+    length?: number;
+    headCircumference?: number;
+  };
+  medicationEvent?: {
+    medicationId?: string | null;
+    name: string;
+    dose: number;
+    unit: string;
+    route: string;
+  };
+  pumpingEvent?: {
+    leftAmount?: number;
+    rightAmount?: number;
+    duration?: number;
+  };
+  temperatureEvent?: {
+    celsius: number;
+    unit: string;
+    method: string;
+  };
+  symptomEvent?: {
+    symptom: string;
+    severity: string;
+    description?: string;
+  };
   images?: Array<{ url: string; filename: string }>;
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const isOnline = (state: any): boolean => state.cache.syncStatus.isOnline;
+
+// Build a placeholder event shown until the server (or the offline queue) catches up
+function buildOptimisticEvent(eventData: CreateEventData, tempId: string): BabyEventWithRelations {
+  return {
+    ...eventData,
+    id: tempId,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    type: eventData.type as any, // Type assertion for compatibility
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    // Add proper relation objects with required fields
+    feedingEvent: eventData.feedingEvent ? {
+      id: `temp-feeding-${tempId}`,
+      eventId: tempId,
+      ...eventData.feedingEvent
+    } : undefined,
+    diaperEvent: eventData.diaperEvent ? {
+      id: `temp-diaper-${tempId}`,
+      eventId: tempId,
+      ...eventData.diaperEvent
+    } : undefined,
+    sleepEvent: eventData.sleepEvent ? {
+      id: `temp-sleep-${tempId}`,
+      eventId: tempId,
+      ...eventData.sleepEvent
+    } : undefined,
+    otherEvent: eventData.otherEvent ? {
+      id: `temp-other-${tempId}`,
+      eventId: tempId,
+      ...eventData.otherEvent
+    } : undefined,
+    growthEvent: eventData.growthEvent ? {
+      id: `temp-growth-${tempId}`,
+      eventId: tempId,
+      ...eventData.growthEvent
+    } : undefined,
+    medicationEvent: eventData.medicationEvent ? {
+      id: `temp-medication-${tempId}`,
+      eventId: tempId,
+      ...eventData.medicationEvent
+    } : undefined,
+    pumpingEvent: eventData.pumpingEvent ? {
+      id: `temp-pumping-${tempId}`,
+      eventId: tempId,
+      ...eventData.pumpingEvent
+    } : undefined,
+    temperatureEvent: eventData.temperatureEvent ? {
+      id: `temp-temperature-${tempId}`,
+      eventId: tempId,
+      ...eventData.temperatureEvent
+    } : undefined,
+    symptomEvent: eventData.symptomEvent ? {
+      id: `temp-symptom-${tempId}`,
+      eventId: tempId,
+      ...eventData.symptomEvent
+    } : undefined,
+    // Ensure images have proper ImageData structure
+    images: eventData.images?.map((img, index) => ({
+      id: `temp-img-${Date.now()}-${index}`,
+      url: img.url,
+      key: `temp-key-${index}`,
+      name: img.filename,
+      size: 0,
+      uploadedAt: new Date().toISOString(),
+      caption: undefined,
+      tags: undefined
+    }))
+  };
+}
+
+// Whether an event belongs in a list fetched with these filters (mirrors GET /api/events)
+function matchesFilters(event: BabyEventWithRelations, filters: EventFilters): boolean {
+  if (filters.type && event.type !== filters.type) return false;
+  if (filters.childId && event.childId !== filters.childId) return false;
+
+  const date = event.date.slice(0, 10);
+  if (filters.dateFrom && date < filters.dateFrom) return false;
+  if (filters.dateTo && date > filters.dateTo) return false;
+  return true;
+}
+
+// Apply a live update to a cached list, keeping it filtered and newest first
+function applyStreamMessage(draft: EventsResponse, message: GroupStreamMessage, filters: EventFilters) {
+  if (message.type !== 'event.created' && message.type !== 'event.updated' && message.type !== 'event.deleted') return;
+
+  const eventId = message.type === 'event.deleted' ? message.eventId : message.event.id;
+
+  const index = draft.events.findIndex(e => e.id === eventId);
+  if (index !== -1) {
+    draft.events.splice(index, 1);
+    draft.totalCount -= 1;
+  }
+
+  if (message.type === 'event.deleted' || !matchesFilters(message.event, filters)) return;
+
+  const { event } = message;
+  const position = draft.events.findIndex(e => (e.occurredAt || '') < (event.occurredAt || ''));
+  draft.events.splice(position === -1 ? draft.events.length : position, 0, event);
+  draft.totalCount += 1;
+
+  if (filters.limit && draft.events.length > filters.limit) {
+    draft.events.pop();
+  }
+}
+
 // RTK Query API slice for events
 export const eventsApi = createApi({
   reducerPath: 'eventsApi',
@@ -88,6 +228,47 @@ export const eventsApi = createApi({
         { type: 'EventsList', id: JSON.stringify(filters) },
         ...(result?.events || []).map((event) => ({ type: 'Event' as const, id: event.id })),
       ],
+      // Patch the list from the group's live stream; useEvents polls while the stream is down
+      async onCacheEntryAdded(filters, { updateCachedData, cacheDataLoaded, cacheEntryRemoved, dispatch }) {
+        const { groupId } = filters;
+        if (!groupId) return;
+
+        try {
+          await cacheDataLoaded;
+        } catch {
+          // Removed before the first fetch finished
+          return;
+        }
+
+        const refetchList = () => dispatch(
+          eventsApi.util.invalidateTags([{ type: 'EventsList', id: JSON.stringify(filters) }])
+        );
+        let hasDropped = false;
+
+        const unsubscribe = subscribeToGroupStream(groupId, {
+          onMessage: (message) => {
+            if (message.type === 'membership.changed') return;
+
+            // Later pages would shift under an insert, so those just refetch
+            if (message.type === 'events.changed' || (filters.offset || 0) > 0) {
+              refetchList();
+              return;
+            }
+            updateCachedData((draft) => applyStreamMessage(draft, message, filters));
+          },
+          onStatusChange: (connected) => {
+            dispatch(setStreamStatus({ groupId, connected }));
+            // Catch up on anything published while the stream was down
+            if (connected && hasDropped) {
+              refetchList();
+            }
+            hasDropped = !connected;
+          },
+        });
+
+        await cacheEntryRemoved;
+        unsubscribe();
+      },
       // Keep cached data for longer to reduce API calls
       keepUnusedDataFor: 15 * 60, // 15 minutes
     }),
@@ -101,68 +282,24 @@ export const eventsApi = createApi({
 
     // Create new event with optimistic updates and offline support
     createEvent: builder.mutation<BabyEventWithRelations, CreateEventData>({
-      query: (eventData) => ({
-        url: '',
-        method: 'POST',
-        body: eventData,
-      }),
-      // Optimistically update the cache and handle offline scenarios
-      async onQueryStarted(eventData, { dispatch, queryFulfilled, getState }) {
-        // Check if we're offline
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const currentState = getState() as any;
-        const isOnline = currentState.cache.syncStatus.isOnline;
-        
-        if (!isOnline) {
-          // Add to offline actions queue
-          const { addOfflineAction } = await import('./cacheSlice');
-          dispatch(addOfflineAction({
-            type: 'create',
-            data: eventData,
-          }));
+      // While offline the create goes to the durable queue and the placeholder stands in for the result
+      async queryFn(eventData, { dispatch, getState }, _extraOptions, baseQuery) {
+        if (!isOnline(getState())) {
+          const queued = await offlineQueue.enqueue({ type: 'create', data: eventData });
+          dispatch(addOfflineAction(queued));
+          return { data: buildOptimisticEvent(eventData, queued.eventId!) };
         }
+
+        const result = await baseQuery({ url: '', method: 'POST', body: eventData });
+        return result.error
+          ? { error: result.error }
+          : { data: result.data as BabyEventWithRelations };
+      },
+      // Optimistically update the cache
+      async onQueryStarted(eventData, { dispatch, queryFulfilled, getState }) {
         // Create optimistic update for events list
         const tempId = `temp-${Date.now()}`;
-        const optimisticEvent: BabyEventWithRelations = {
-          ...eventData,
-          id: tempId,
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          type: eventData.type as any, // Type assertion for compatibility
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          // Add proper relation objects with required fields
-          feedingEvent: eventData.feedingEvent ? {
-            id: `temp-feeding-${tempId}`,
-            eventId: tempId,
-            ...eventData.feedingEvent
-          } : undefined,
-          diaperEvent: eventData.diaperEvent ? {
-            id: `temp-diaper-${tempId}`,
-            eventId: tempId,
-            ...eventData.diaperEvent
-          } : undefined,
-          sleepEvent: eventData.sleepEvent ? {
-            id: `temp-sleep-${tempId}`,
-            eventId: tempId,
-            ...eventData.sleepEvent
-          } : undefined,
-          otherEvent: eventData.otherEvent ? {
-            id: `temp-other-${tempId}`,
-            eventId: tempId,
-            ...eventData.otherEvent
-          } : undefined,
-          // Ensure images have proper ImageData structure
-          images: eventData.images?.map((img, index) => ({
-            id: `temp-img-${Date.now()}-${index}`,
-            url: img.url,
-            key: `temp-key-${index}`,
-            name: img.filename,
-            size: 0,
-            uploadedAt: new Date().toISOString(),
-            caption: undefined,
-            tags: undefined
-          }))
-        };
+        const optimisticEvent = buildOptimisticEvent(eventData, tempId);
 
         // Find all active events queries and update them optimistically
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -196,7 +333,13 @@ export const eventsApi = createApi({
               dispatch(
                 eventsApi.util.updateQueryData('getEvents', queryState.originalArgs, (draft) => {
                   const tempIndex = draft.events.findIndex(e => e.id === tempId);
-                  if (tempIndex !== -1) {
+                  if (tempIndex === -1) return;
+
+                  // The live stream may have delivered the saved event already
+                  if (draft.events.some(e => e.id === result.data.id)) {
+                    draft.events.splice(tempIndex, 1);
+                    draft.totalCount -= 1;
+                  } else {
                     draft.events[tempIndex] = result.data;
                   }
                 })
@@ -215,11 +358,18 @@ export const eventsApi = createApi({
 
     // Update event with optimistic updates
     updateEvent: builder.mutation<BabyEventWithRelations, { id: string; data: Partial<CreateEventData> }>({
-      query: ({ id, data }) => ({
-        url: `/${id}`,
-        method: 'PUT',
-        body: data,
-      }),
+      async queryFn({ id, data }, { dispatch, getState }, _extraOptions, baseQuery) {
+        if (!isOnline(getState())) {
+          const queued = await offlineQueue.enqueue({ type: 'update', eventId: id, data });
+          dispatch(addOfflineAction(queued));
+          return { data: { id, ...data } as BabyEventWithRelations };
+        }
+
+        const result = await baseQuery({ url: `/${id}`, method: 'PUT', body: data });
+        return result.error
+          ? { error: result.error }
+          : { data: result.data as BabyEventWithRelations };
+      },
       async onQueryStarted({ id, data }, { dispatch, queryFulfilled }) {
         // Optimistically update individual event
         const patchResult = dispatch(
@@ -249,10 +399,16 @@ export const eventsApi = createApi({
 
     // Delete event with optimistic updates
     deleteEvent: builder.mutation<void, string>({
-      query: (id) => ({
-        url: `/${id}`,
-        method: 'DELETE',
-      }),
+      async queryFn(id, { dispatch, getState }, _extraOptions, baseQuery) {
+        if (!isOnline(getState())) {
+          const queued = await offlineQueue.enqueue({ type: 'delete', eventId: id });
+          dispatch(addOfflineAction(queued));
+          return { data: undefined };
+        }
+
+        const result = await baseQuery({ url: `/${id}`, method: 'DELETE' });
+        return result.error ? { error: result.error } : { data: undefined };
+      },
       async onQueryStarted(id, { dispatch, queryFulfilled, getState }) {
         // Find all active events queries and remove the event optimistically
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -3,7 +3,12 @@ export enum EventType {
   FEEDING = 'feeding',
   DIAPER = 'diaper',
   SLEEP = 'sleep',
-  OTHER = 'other'
+  OTHER = 'other',
+  GROWTH = 'growth',
+  MEDICATION = 'medication',
+  PUMPING = 'pumping',
+  TEMPERATURE = 'temperature',
+  SYMPTOM = 'symptom'
 }
 
 export enum FeedingType {
@@ -27,6 +32,21 @@ export enum OtherEventType {
   MILESTONE = 'milestone'
 }
 
+export type MedicationUnit = 'ml' | 'drops' | 'mg' | 'tablet' | 'puff' | 'sachet';
+export type MedicationRoute = 'oral' | 'topical' | 'inhaled' | 'eye' | 'ear' | 'nasal' | 'rectal';
+export type MedicationScheduleType = 'fixed_times' | 'interval';
+
+export type MilkStorageLocation = 'fridge' | 'freezer';
+
+export type MilestoneCategory = 'motor' | 'language' | 'social' | 'cognitive';
+export type MilestoneTiming = 'early' | 'on_time' | 'late';
+
+export type TemperatureUnit = 'C' | 'F';
+export type TemperatureMethod = 'rectal' | 'oral' | 'axillary' | 'ear' | 'forehead';
+// How worrying a reading is for the child's age: 'attention' means call the doctor
+export type FeverLevel = 'normal' | 'fever' | 'attention';
+export type SymptomSeverity = 'mild' | 'moderate' | 'severe';
+
 // Image data structure
 export interface ImageData {
   id: string;
@@ -39,14 +59,84 @@ export interface ImageData {
   tags?: string[]; // For categorization
 }
 
+// Child profile (a group can track one or more children)
+export interface Child {
+  id: string;
+  name: string;
+  birthDate?: string | null; // ISO timestamp
+  sex?: 'female' | 'male' | 'other' | null;
+  birthWeight?: number | null; // grams
+  birthLength?: number | null; // cm
+  photoUrl?: string | null;
+  immunizationSchedule?: string | null; // null uses the default schedule
+  groupId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Medicine a group gives, with its dosing schedule
+export interface Medication {
+  id: string;
+  name: string;
+  dose: number; // usual amount per dose, in `unit`
+  unit: MedicationUnit;
+  route: MedicationRoute;
+  scheduleType: MedicationScheduleType;
+  times: string[]; // HH:mm in the group's timezone, for fixed_times
+  intervalHours?: number | null; // for interval
+  maxDailyDose?: number | null; // in `unit`
+  notes?: string | null;
+  childId?: string | null;
+  child?: { id: string; name: string } | null;
+  archivedAt?: string | null; // set once the course is finished
+  groupId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Live timer attached to an in-progress feeding or sleep
+export interface EventTimer {
+  id: string;
+  eventId: string;
+  status: 'running' | 'paused';
+  startedAt: string; // ISO timestamp
+  pausedAt?: string | null; // ISO timestamp of the current pause
+  pausedMs: number; // total milliseconds paused before the current pause
+  side?: 'left' | 'right' | null;
+  updatedAt: string;
+}
+
+// Audit trail entry for a single create, update, delete or restore
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore';
+export type RevisionChanges = Record<string, { from: string | number | null; to: string | number | null }>;
+
+export interface EventRevision {
+  id: string;
+  eventId: string;
+  action: RevisionAction;
+  changes: RevisionChanges;
+  userId?: string | null;
+  user?: { id: string; name?: string | null; email: string; imageUrl?: string | null } | null;
+  createdAt: string; // ISO timestamp
+}
+
 // Base event interface
 export interface BabyEvent {
   id: string;
-  date: string; // ISO date (YYYY-MM-DD)
-  time: string; // HH:mm format
+  occurredAt?: string; // ISO timestamp of when it happened
+  timezone?: string; // IANA timezone it was recorded in
+  date: string; // ISO date (YYYY-MM-DD), local to `timezone`
+  time: string; // HH:mm format, local to `timezone`
   type: EventType;
   notes?: string;
+  groupId?: string;
+  childId?: string | null;
+  child?: { id: string; name: string } | null;
+  createdById?: string | null;
+  deletedAt?: string | null; // set while the event is in the trash
+  timer?: EventTimer | null; // present while the event is still in progress
   images?: ImageData[]; // URLs stored in database
+  version?: number; // Incremented on every edit, sent back with updates to detect conflicts
   createdAt: string; // ISO timestamp
   updatedAt: string; // ISO timestamp
 }
@@ -86,10 +176,53 @@ export interface OtherEvent extends BabyEvent {
   type: EventType.OTHER;
   eventType: OtherEventType;
   description: string;
+  milestoneKey?: string | null; // catalog milestone; null for custom ones
+}
+
+// Growth measurement (weight, length, head circumference)
+export interface GrowthEvent extends BabyEvent {
+  type: EventType.GROWTH;
+  weight?: number; // grams
+  length?: number; // cm
+  headCircumference?: number; // cm
+}
+
+// A dose of medicine given
+export interface MedicationEvent extends BabyEvent {
+  type: EventType.MEDICATION;
+  medicationId?: string | null;
+  name: string;
+  dose: number;
+  unit: MedicationUnit;
+  route: MedicationRoute;
+}
+
+// Pumping session
+export interface PumpingEvent extends BabyEvent {
+  type: EventType.PUMPING;
+  leftAmount?: number; // ml
+  rightAmount?: number; // ml
+  duration?: number; // minutes
+}
+
+// Temperature reading
+export interface TemperatureEvent extends BabyEvent {
+  type: EventType.TEMPERATURE;
+  celsius: number;
+  unit: TemperatureUnit; // shown the way it was entered
+  method: TemperatureMethod;
+}
+
+// A symptom and how bad it was
+export interface SymptomEvent extends BabyEvent {
+  type: EventType.SYMPTOM;
+  symptom: string;
+  severity: SymptomSeverity;
+  description?: string;
 }
 
 // Union type for all events
-export type AnyBabyEvent = FeedingEvent | DiaperEvent | SleepEvent | OtherEvent;
+export type AnyBabyEvent = FeedingEvent | DiaperEvent | SleepEvent | OtherEvent | GrowthEvent | MedicationEvent | PumpingEvent | TemperatureEvent | SymptomEvent;
 
 // API response type that includes Prisma relations
 export interface BabyEventWithRelations extends BabyEvent {
@@ -123,6 +256,44 @@ export interface BabyEventWithRelations extends BabyEvent {
     eventId: string;
     eventType: string;
     description: string;
+    milestoneKey?: string | null;
+  };
+  growthEvent?: {
+    id: string;
+    eventId: string;
+    weight?: number;
+    length?: number;
+    headCircumference?: number;
+  };
+  medicationEvent?: {
+    id: string;
+    eventId: string;
+    medicationId?: string | null;
+    name: string;
+    dose: number;
+    unit: string;
+    route: string;
+  };
+  pumpingEvent?: {
+    id: string;
+    eventId: string;
+    leftAmount?: number;
+    rightAmount?: number;
+    duration?: number;
+  };
+  temperatureEvent?: {
+    id: string;
+    eventId: string;
+    celsius: number;
+    unit: string;
+    method: string;
+  };
+  symptomEvent?: {
+    id: string;
+    eventId: string;
+    symptom: string;
+    severity: string;
+    description?: string | null;
   };
 }
 
@@ -168,10 +339,118 @@ export interface OtherEventForm {
   time: string;
   eventType: OtherEventType;
   description: string;
+  milestoneKey?: string; // '' for a custom milestone
+  notes?: string;
+  images?: ImageData[];
+}
+
+export interface GrowthEventForm {
+  date: string;
+  time: string;
+  weight?: number; // grams
+  length?: number; // cm
+  headCircumference?: number; // cm
+  notes?: string;
+  images?: ImageData[];
+}
+
+export interface MedicationEventForm {
+  date: string;
+  time: string;
+  medicationId?: string;
+  name: string;
+  dose?: number;
+  unit: MedicationUnit;
+  route: MedicationRoute;
+  notes?: string;
+  images?: ImageData[];
+}
+
+export interface PumpingEventForm {
+  date: string;
+  time: string;
+  leftAmount?: number;
+  rightAmount?: number;
+  duration?: number;
+  storeIn?: MilkStorageLocation | ''; // Put the milk into the inventory when logging
+  notes?: string;
+  images?: ImageData[];
+}
+
+export interface TemperatureEventForm {
+  date: string;
+  time: string;
+  temperature?: number; // in `unit`
+  unit: TemperatureUnit;
+  method: TemperatureMethod;
+  notes?: string;
+  images?: ImageData[];
+}
+
+export interface SymptomEventForm {
+  date: string;
+  time: string;
+  symptom: string;
+  severity: SymptomSeverity;
+  description?: string;
   notes?: string;
   images?: ImageData[];
 }
 
+export interface IllnessEpisodeForm {
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endDate?: string; // '' while still going
+  endTime?: string;
+  notes?: string;
+  childId?: string;
+}
+
+export interface MilkBagForm {
+  volume?: number;
+  pumpedDate: string; // YYYY-MM-DD
+  pumpedTime: string; // HH:mm
+  location: MilkStorageLocation;
+  label?: string;
+}
+
+export interface MedicationScheduleForm {
+  name: string;
+  dose?: number;
+  unit: MedicationUnit;
+  route: MedicationRoute;
+  scheduleType: MedicationScheduleType;
+  times: string[];
+  intervalHours?: number;
+  maxDailyDose?: number;
+  notes?: string;
+  childId?: string;
+}
+
+export interface ChildProfileForm {
+  name: string;
+  birthDate?: string; // YYYY-MM-DD
+  sex?: 'female' | 'male' | 'other' | '';
+  birthWeight?: number; // grams
+  birthLength?: number; // cm
+  photoUrl?: string;
+  immunizationSchedule?: string;
+}
+
+export interface ImmunizationForm {
+  scheduleDoseId?: string; // '' for a vaccine outside the schedule
+  vaccine: string;
+  doseNumber?: number;
+  givenOn: string; // YYYY-MM-DD
+  lotNumber?: string;
+  site?: ImmunizationSite | '';
+  provider?: string;
+  reactions?: string;
+  notes?: string;
+  eventId?: string; // event logged on the visit day
+}
+
 // API response types
 export interface ApiResponse<T> {
   success: boolean;
@@ -189,6 +468,7 @@ export interface EventsResponse {
 // Utility types for filtering and sorting
 export interface EventFilters {
   type?: EventType;
+  childId?: string;
   dateFrom?: string;
   dateTo?: string;
   feedingType?: FeedingType;
@@ -219,4 +499,212 @@ export interface WeeklyStats {
     diapersPerDay: number;
     sleepPerDay?: number;
   };
-}
\ No newline at end of file
+}
+
+// Expected next feeding/nap from recent history, returned by /api/stats
+export interface EventPrediction {
+  type: EventType.FEEDING | EventType.SLEEP;
+  since: string; // ISO time of the last feeding start, or of waking up
+  medianInterval: number; // minutes (feeding to feeding, or awake time before sleeping)
+  expectedAt: string; // ISO
+  earliest: string; // ISO, 25th percentile
+  latest: string; // ISO, 75th percentile
+  sampleSize: number;
+}
+
+export interface EventPredictions {
+  feeding: EventPrediction | null;
+  nap: EventPrediction | null;
+  timeZone: string;
+}
+
+// Where a medication's schedule stands, returned by GET /api/groups/[groupId]/medications
+export interface MedicationDoseStatus {
+  lastDoseAt: string | null; // ISO
+  nextDueAt: string | null; // ISO; null when nothing is scheduled
+  dosesInWindow: number; // doses counted against the daily limit
+  amountInWindow: number; // in the medication's unit
+  dailyLimit: number | null;
+  warnings: string[]; // for a dose given right now
+}
+
+export interface MedicationWithStatus extends Medication {
+  status: MedicationDoseStatus;
+  recentDoses: { eventId: string; occurredAt: string; dose: number }[]; // last couple of days, for checking a dose at another time
+}
+
+// Bag or bottle of expressed milk, returned by GET /api/groups/[groupId]/milk
+export interface MilkBag {
+  id: string;
+  volume: number; // ml when stored
+  remaining: number; // ml
+  pumpedAt: string; // ISO
+  location: MilkStorageLocation;
+  thawedAt?: string | null; // ISO
+  label?: string | null;
+  expiresAt: string; // ISO; from the storage rules for where it is now
+  sourceEventId?: string | null;
+  groupId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MilkInventory {
+  bags: MilkBag[]; // oldest first, the order feedings use them
+  fridgeTotal: number; // ml, not counting expired milk
+  freezerTotal: number; // ml, not counting expired milk
+  expiringSoon: number; // bags that expire within a day
+  expired: number; // bags past their limit that still need throwing away
+}
+
+export type ImmunizationSite = 'left_thigh' | 'right_thigh' | 'left_arm' | 'right_arm' | 'oral' | 'nasal' | 'other';
+
+// A vaccine dose a child was given
+export interface Immunization {
+  id: string;
+  scheduleDoseId?: string | null;
+  vaccine: string; // schedule vaccine code, or a free-text name
+  vaccineName: string; // full name from the schedule when there is one
+  doseNumber?: number | null;
+  givenOn: string; // YYYY-MM-DD
+  lotNumber?: string | null;
+  site?: ImmunizationSite | null;
+  provider?: string | null;
+  reactions?: string | null;
+  notes?: string | null;
+  eventId?: string | null;
+  event?: { id: string; type: string; occurredAt: string; timezone: string } | null;
+  childId: string;
+  groupId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where one dose of the schedule stands for a child
+export interface ImmunizationDoseStatus {
+  id: string; // dose id in the schedule
+  vaccine: string;
+  vaccineName: string;
+  dose: number;
+  note?: string;
+  dueOn: string | null; // YYYY-MM-DD; null when the birth date isn't known
+  overdueOn: string | null; // YYYY-MM-DD
+  status: 'given' | 'overdue' | 'due' | 'upcoming' | 'scheduled';
+  record: Immunization | null;
+}
+
+// Returned by GET /api/groups/[groupId]/children/[childId]/immunizations
+export interface ImmunizationOverview {
+  scheduleId: string;
+  scheduleName: string;
+  scheduleSource: string;
+  doses: ImmunizationDoseStatus[]; // in schedule order
+  records: Immunization[]; // everything given, newest first, including vaccines outside the schedule
+  overdue: number;
+  dueSoon: number; // due now or within the upcoming window
+}
+
+// A temperature reading inside an illness episode, with how it compares to the fever thresholds
+export interface TemperatureReading {
+  eventId: string;
+  occurredAt: string; // ISO
+  celsius: number;
+  unit: TemperatureUnit;
+  method: TemperatureMethod;
+  level: FeverLevel;
+}
+
+export interface SymptomEntry {
+  eventId: string;
+  occurredAt: string; // ISO
+  symptom: string;
+  severity: SymptomSeverity;
+  description?: string | null;
+}
+
+// Returned by GET /api/groups/[groupId]/illnesses
+export interface IllnessEpisode {
+  id: string;
+  name: string;
+  startedAt: string; // ISO
+  endedAt?: string | null; // ISO; null while still going
+  notes?: string | null;
+  childId?: string | null;
+  child?: { id: string; name: string } | null;
+  groupId: string;
+  readings: TemperatureReading[]; // oldest first
+  symptoms: SymptomEntry[]; // oldest first
+  peakCelsius: number | null;
+  needsAttention: number; // readings at the 'attention' level for the child's age
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A milestone the child reached, stamped with their age at the time
+export interface MilestoneEntry {
+  eventId: string;
+  milestoneKey: string | null; // null for custom milestones
+  title: string;
+  description: string | null; // what was written, when it says more than the title
+  category: MilestoneCategory | null;
+  reachedAt: string; // ISO
+  ageLabel: string | null; // e.g. "5 months, 2 weeks"; null without a birth date
+  expectedMonths: [number, number] | null; // catalog milestones only
+  timing: MilestoneTiming | null; // null for custom milestones or without a birth date
+  notes: string | null;
+  images: { id: string; url: string; caption: string | null }[];
+}
+
+// A catalog milestone and where the child is with it
+export interface MilestoneProgress {
+  id: string;
+  title: string;
+  category: MilestoneCategory;
+  expectedMonths: [number, number];
+  status: 'reached' | 'late' | 'expected' | 'upcoming'; // expected: in (or nearly in) its range; late: past it and not logged
+  eventId: string | null;
+}
+
+// Returned by GET /api/groups/[groupId]/children/[childId]/milestones
+export interface MilestoneJournal {
+  ageLabel: string | null; // the child's age today
+  source: string;
+  entries: MilestoneEntry[]; // newest first
+  catalog: MilestoneProgress[]; // youngest expected age first
+}
+
+// Import preview returned by POST /api/groups/[groupId]/import
+export type ImportRowStatus = 'ready' | 'duplicate' | 'error' | 'imported';
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  status: ImportRowStatus;
+  type: string | null;
+  date: string | null;
+  time: string | null;
+  childName: string | null;
+  description: string | null;
+  errors: string[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  format: 'csv' | 'json';
+  rows: ImportPreviewRow[];
+  summary: {
+    total: number;
+    ready: number;
+    duplicates: number;
+    errors: number;
+    imported: number;
+  };
+}
+
+// Live updates sent by GET /api/groups/[groupId]/stream
+export type MembershipChange = 'joined' | 'left' | 'removed' | 'updated';
+
+export type GroupStreamMessage =
+  | { type: 'event.created' | 'event.updated'; event: BabyEventWithRelations }
+  | { type: 'event.deleted'; eventId: string }
+  | { type: 'events.changed' } // Too many to send one by one, e.g. after an import; refetch instead
+  | { type: 'membership.changed'; userId: string; change: MembershipChange };
@@ -7,16 +7,68 @@ export type {
   DiaperEvent,
   SleepEvent,
   OtherEvent,
+  GrowthEvent,
+  MedicationEvent,
+  PumpingEvent,
+  TemperatureEvent,
+  SymptomEvent,
   AnyBabyEvent,
+  Child,
+  Medication,
+  MedicationUnit,
+  MedicationRoute,
+  MedicationScheduleType,
+  MedicationDoseStatus,
+  MedicationWithStatus,
+  MilkStorageLocation,
+  MilkBag,
+  MilkInventory,
+  TemperatureUnit,
+  TemperatureMethod,
+  FeverLevel,
+  SymptomSeverity,
+  TemperatureReading,
+  SymptomEntry,
+  IllnessEpisode,
+  ImmunizationSite,
+  Immunization,
+  ImmunizationDoseStatus,
+  ImmunizationOverview,
+  MilestoneCategory,
+  MilestoneTiming,
+  MilestoneEntry,
+  MilestoneProgress,
+  MilestoneJournal,
+  EventTimer,
+  EventRevision,
+  RevisionAction,
+  RevisionChanges,
   ImageData,
   FeedingEventForm,
   DiaperEventForm,
   SleepEventForm,
   OtherEventForm,
+  GrowthEventForm,
+  MedicationEventForm,
+  MedicationScheduleForm,
+  PumpingEventForm,
+  TemperatureEventForm,
+  SymptomEventForm,
+  IllnessEpisodeForm,
+  MilkBagForm,
+  ChildProfileForm,
+  ImmunizationForm,
   ApiResponse,
   EventsResponse,
   DailyStats,
-  WeeklyStats
+  WeeklyStats,
+  EventPrediction,
+  EventPredictions,
+  ImportRowStatus,
+  ImportPreviewRow,
+  ImportResult,
+  MembershipChange,
+  GroupStreamMessage
 } from './baby-events';
 
 export {
@@ -7,6 +7,10 @@ export interface TimelineEvent {
   time: string;
   date: string;
   notes?: string;
+  child?: {
+    id: string;
+    name: string;
+  } | null;
   feedingEvent?: {
     feedingType: string;
     amount?: number;
@@ -31,6 +35,40 @@ export interface TimelineEvent {
     eventType: string;
     description: string;
   };
+  growthEvent?: {
+    weight?: number;
+    length?: number;
+    headCircumference?: number;
+  };
+  medicationEvent?: {
+    medicationId?: string | null;
+    name: string;
+    dose: number;
+    unit: string;
+    route: string;
+  };
+  pumpingEvent?: {
+    leftAmount?: number;
+    rightAmount?: number;
+    duration?: number;
+  };
+  temperatureEvent?: {
+    celsius: number;
+    unit: string;
+    method: string;
+  };
+  symptomEvent?: {
+    symptom: string;
+    severity: string;
+    description?: string | null;
+  };
+  timer?: {
+    status: string;
+    startedAt: string;
+    pausedAt?: string | null;
+    pausedMs: number;
+    side?: string | null;
+  } | null;
   images?: {
     url: string;
     filename: string;
@@ -47,6 +85,8 @@ export function convertToTimelineEvent(babyEvent: BabyEventWithRelations): Timel
     time: babyEvent.time,
     date: babyEvent.date,
     notes: babyEvent.notes,
+    child: babyEvent.child,
+    timer: babyEvent.timer,
     createdAt: babyEvent.createdAt,
     updatedAt: babyEvent.updatedAt,
   };
@@ -106,6 +146,58 @@ export function convertToTimelineEvent(babyEvent: BabyEventWithRelations): Timel
         };
       }
       break;
+
+    case EventType.GROWTH:
+      if (babyEvent.growthEvent) {
+        base.growthEvent = {
+          weight: babyEvent.growthEvent.weight,
+          length: babyEvent.growthEvent.length,
+          headCircumference: babyEvent.growthEvent.headCircumference,
+        };
+      }
+      break;
+
+    case EventType.MEDICATION:
+      if (babyEvent.medicationEvent) {
+        base.medicationEvent = {
+          medicationId: babyEvent.medicationEvent.medicationId,
+          name: babyEvent.medicationEvent.name,
+          dose: babyEvent.medicationEvent.dose,
+          unit: babyEvent.medicationEvent.unit,
+          route: babyEvent.medicationEvent.route,
+        };
+      }
+      break;
+
+    case EventType.PUMPING:
+      if (babyEvent.pumpingEvent) {
+        base.pumpingEvent = {
+          leftAmount: babyEvent.pumpingEvent.leftAmount,
+          rightAmount: babyEvent.pumpingEvent.rightAmount,
+          duration: babyEvent.pumpingEvent.duration,
+        };
+      }
+      break;
+
+    case EventType.TEMPERATURE:
+      if (babyEvent.temperatureEvent) {
+        base.temperatureEvent = {
+          celsius: babyEvent.temperatureEvent.celsius,
+          unit: babyEvent.temperatureEvent.unit,
+          method: babyEvent.temperatureEvent.method,
+        };
+      }
+      break;
+
+    case EventType.SYMPTOM:
+      if (babyEvent.symptomEvent) {
+        base.symptomEvent = {
+          symptom: babyEvent.symptomEvent.symptom,
+          severity: babyEvent.symptomEvent.severity,
+          description: babyEvent.symptomEvent.description,
+        };
+      }
+      break;
   }
 
   return base;